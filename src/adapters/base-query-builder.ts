@@ -3,9 +3,24 @@
  * Base class for building query options from OData query parameters for different ORMs
  */
 
-import { ODataQueryParams, PaginationResult } from '../types/odata-query';
+import {
+  ODataQueryParams,
+  PaginationResult,
+  QueryLimits,
+  ExpandItem,
+  ComputeItem,
+  SearchExpression,
+  SearchOptions
+} from '../types/odata-query';
+import { FilterExpression } from '../types/filter-expression';
 import { BaseOrmAdapter, ConversionOptions } from './base';
-import { parseOrderBy, parseSelect, calculatePagination } from '../utils/odata-parser';
+import { parseOrderBy, parseSelect, parseExpand, parseCompute, calculatePagination } from '../utils/odata-parser';
+import { parseFilter } from '../utils/filter-parser';
+import { parseSearch, searchToContainsFilter } from '../utils/search';
+import { resolveComputed } from '../utils/filter-expression';
+import { enforceQueryLimits } from '../utils/query-limits';
+import { resolveParameterAliases } from '../utils/parameter-aliases';
+import { UnsupportedFeatureError } from '../errors';
 
 export interface BaseQueryOptions {
   where?: any;
@@ -26,21 +41,41 @@ export interface PaginationQueries<T extends BaseQueryOptions = BaseQueryOptions
  */
 export abstract class BaseQueryBuilder<TQueryOptions extends BaseQueryOptions = BaseQueryOptions> {
   protected adapter: BaseOrmAdapter;
+  protected limits: QueryLimits;
+  protected searchOptions: SearchOptions;
 
-  constructor(adapter: BaseOrmAdapter) {
+  constructor(adapter: BaseOrmAdapter, limits: QueryLimits = {}, searchOptions: SearchOptions = {}) {
     this.adapter = adapter;
+    this.limits = limits;
+    this.searchOptions = searchOptions;
   }
 
   /**
    * Build query options from OData query parameters
    * Each ORM implementation should override this method to return ORM-specific query format
+   * Throws QueryLimitExceededError when the query exceeds the configured limits
    */
   buildQuery(params: ODataQueryParams): TQueryOptions {
+    params = resolveParameterAliases(params);
+    enforceQueryLimits(params, this.limits);
+    this.validateQuery(params);
+
     const query = this.createEmptyQuery();
+    const search = params.$search ? parseSearch(params.$search) : undefined;
+
+    // Handle $compute first, so the other options can refer to the computed properties
+    const compute = parseCompute(params.$compute ?? '');
+    if (compute.length > 0) {
+      this.setCompute(query, compute);
+    }
 
-    // Handle $filter
-    if (params.$filter) {
-      query.where = this.adapter.convert(params.$filter);
+    // Handle $filter, and-ed with $search when the search strategy translates it to a filter
+    // Computed properties are replaced with their expressions
+    const filter = this.combineSearchFilter(params.$filter, search);
+    if (filter) {
+      query.where = this.adapter.convert(
+        compute.length > 0 ? resolveComputed(typeof filter === 'string' ? parseFilter(filter) : filter, compute) : filter
+      );
     }
 
     // Handle $top (limit)
@@ -63,15 +98,60 @@ export abstract class BaseQueryBuilder<TQueryOptions extends BaseQueryOptions =
 
     // Handle $select
     if (params.$select) {
-      const select = parseSelect(params.$select);
+      const select = this.parseSelectOption(params.$select);
       if (Object.keys(select).length > 0) {
         this.setSelect(query, select);
       }
     }
 
+    // Handle $expand (after $select, which some ORMs merge expansions into)
+    if (params.$expand) {
+      const expand = parseExpand(params.$expand);
+      if (expand.length > 0) {
+        this.setExpand(query, expand);
+      }
+    }
+
+    // Handle full-text $search, added to the where clause in ORM-specific format
+    if (search && this.searchOptions.strategy === 'fulltext') {
+      this.setSearch(query, search);
+    }
+
     return query;
   }
 
+  /**
+   * Combine $filter with the filter the search strategy translates $search to; both must match
+   * Returns $filter unchanged without $search or with the fulltext strategy
+   */
+  protected combineSearchFilter(filter: string | undefined, search: SearchExpression | undefined): string | FilterExpression | undefined {
+    if (!search || this.searchOptions.strategy === 'fulltext') {
+      return filter;
+    }
+
+    const { strategy = 'contains' } = this.searchOptions;
+    let searchFilter: FilterExpression;
+    if (typeof strategy === 'function') {
+      const custom = strategy(search);
+      searchFilter = typeof custom === 'string' ? parseFilter(custom) : custom;
+    } else {
+      searchFilter = searchToContainsFilter(search, this.getSearchFields());
+    }
+
+    return filter ? { node: 'And', operands: [parseFilter(filter), searchFilter] } : searchFilter;
+  }
+
+  /**
+   * Searchable fields configured for $search
+   */
+  protected getSearchFields(): string[] {
+    const { fields = [] } = this.searchOptions;
+    if (fields.length === 0) {
+      throw new UnsupportedFeatureError('$search requires searchable fields (search.fields)', '$search');
+    }
+    return fields;
+  }
+
   /**
    * Build pagination queries (find and count)
    */
@@ -146,4 +226,41 @@ export abstract class BaseQueryBuilder<TQueryOptions extends BaseQueryOptions =
    * Create a count query from a find query (typically removes take, skip, select, orderBy)
    */
   protected abstract createCountQuery(findQuery: TQueryOptions): TQueryOptions;
+
+  /**
+   * Add a full-text $search condition to the where clause in ORM-specific format
+   * ORMs without full-text search reject the fulltext strategy
+   */
+  protected setSearch(query: TQueryOptions, search: SearchExpression): void {
+    throw new UnsupportedFeatureError(`${this.constructor.name} does not support full-text $search`, '$search');
+  }
+
+  /**
+   * Add the computed properties in ORM-specific format, so $orderby and $select can refer to them
+   * ORMs that cannot compute values in the query reject $compute
+   */
+  protected setCompute(query: TQueryOptions, compute: ComputeItem[]): void {
+    throw new UnsupportedFeatureError(`${this.constructor.name} does not support $compute`, '$compute');
+  }
+
+  /**
+   * Load the expanded relations in ORM-specific format
+   * ORMs without relation loading reject $expand
+   */
+  protected setExpand(query: TQueryOptions, expand: ExpandItem[]): void {
+    throw new UnsupportedFeatureError(`${this.constructor.name} does not support $expand`, '$expand');
+  }
+
+  /**
+   * Validate the query options once aliases are resolved and limits enforced
+   * Builders with strict schemas override it to check field paths
+   */
+  protected validateQuery(params: ODataQueryParams): void {}
+
+  /**
+   * Parse $select into the shape setSelect expects
+   */
+  protected parseSelectOption(select: string): Record<string, any> {
+    return parseSelect(select);
+  }
 }
@@ -2,10 +2,16 @@
  * Abstract base adapter for ORM converters
  */
 
-import { ODataNode } from '../types';
+import { FilterExpression, QueryLimits, SearchOptions } from '../types';
+import { parseFilter } from '../utils/filter-expression';
+import { ODataError } from '../errors';
 
 export interface ConversionOptions {
   caseSensitive?: boolean;
+  // Enforced by query builders before conversion
+  limits?: QueryLimits;
+  // $search translation used by query builders
+  search?: SearchOptions;
   [key: string]: any;
 }
 
@@ -13,24 +19,11 @@ export interface WhereClause {
   [key: string]: any;
 }
 
-export interface ComparisonNode extends ODataNode {
-  value: {
-    left: ODataNode;
-    right: ODataNode;
-  };
-}
-
-export interface MethodCallNode extends ODataNode {
-  value: {
-    method: string;
-    parameters: ODataNode[];
-  };
-}
-
 /**
  * Abstract base class for ORM adapters
+ * Filters are parsed once into a FilterExpression; adapters implement convertExpression
  */
-export abstract class BaseOrmAdapter {
+export abstract class BaseOrmAdapter<TFilter = WhereClause> {
   protected options: ConversionOptions;
 
   constructor(options: ConversionOptions = {}) {
@@ -38,29 +31,33 @@ export abstract class BaseOrmAdapter {
   }
 
   /**
-   * Convert OData filter string to ORM-specific where clause
-   */
-  abstract convert(odataFilterString: string): WhereClause;
-
-  /**
-   * Convert AST node to ORM-specific filter
+   * Convert OData filter string (or an already parsed filter expression) to ORM-specific where clause
+   * ODataErrors (syntax errors, unsupported features, ...) are rethrown as is; other errors are wrapped
    */
-  abstract convertNode(node: ODataNode): WhereClause;
+  convert(odataFilter: string | FilterExpression): TFilter {
+    if (!odataFilter || (typeof odataFilter !== 'string' && typeof odataFilter !== 'object')) {
+      return this.createEmptyFilter();
+    }
 
-  /**
-   * Handle comparison operations (=, !=, >, >=, <, <=)
-   */
-  abstract handleComparison(node: ComparisonNode): WhereClause;
+    try {
+      return this.convertExpression(typeof odataFilter === 'string' ? parseFilter(odataFilter) : odataFilter);
+    } catch (error) {
+      if (error instanceof ODataError) {
+        throw error;
+      }
+      throw new Error(`Failed to parse OData filter: ${(error as Error).message}`);
+    }
+  }
 
   /**
-   * Handle logical operations (AND, OR, NOT)
+   * Convert a filter expression to ORM-specific filter
    */
-  abstract handleLogical(node: ODataNode): WhereClause;
+  abstract convertExpression(expression: FilterExpression): TFilter;
 
   /**
-   * Handle method calls (contains, startsWith, etc.)
+   * Filter returned for an empty filter string (matches everything)
    */
-  abstract handleMethod(node: MethodCallNode): WhereClause;
+  protected abstract createEmptyFilter(): TFilter;
 
   /**
    * Get the ORM name
@@ -0,0 +1,106 @@
+/**
+ * Drizzle Query Builder
+ * Build Drizzle query parts from OData query parameters
+ */
+
+import type * as Drizzle from 'drizzle-orm';
+import { ODataQueryParams } from '../types/odata-query';
+import { DrizzleAdapter, DrizzleAdapterOptions } from './drizzle';
+import { BaseQueryBuilder } from './base-query-builder';
+import { loadOptionalDependency } from '../utils/optional-dependency';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface DrizzleQueryOptions {
+  where?: Drizzle.SQL;
+  limit?: number;
+  offset?: number;
+  orderBy?: Drizzle.SQL[];
+  select?: Record<string, Drizzle.Column>;
+  [key: string]: any;
+}
+
+export class DrizzleQueryBuilder extends BaseQueryBuilder<DrizzleQueryOptions> {
+  protected adapter: DrizzleAdapter;
+
+  constructor(options: DrizzleAdapterOptions = {}) {
+    const adapter = new DrizzleAdapter(options);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
+  }
+
+  /**
+   * Create an empty Drizzle query object
+   */
+  protected createEmptyQuery(): DrizzleQueryOptions {
+    return {};
+  }
+
+  /**
+   * Set the limit parameter
+   */
+  protected setTake(query: DrizzleQueryOptions, take: number): void {
+    query.limit = take;
+  }
+
+  /**
+   * Set the offset parameter
+   */
+  protected setSkip(query: DrizzleQueryOptions, skip: number): void {
+    query.offset = skip;
+  }
+
+  /**
+   * Set the orderBy parameter as asc()/desc() expressions on table columns
+   */
+  protected setOrderBy(query: DrizzleQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    const { asc, desc } = loadOptionalDependency<typeof Drizzle>('drizzle-orm', 'Drizzle');
+    query.orderBy = Object.entries(orderBy).map(([field, direction]) => {
+      const column = this.adapter.getColumn(field);
+      return direction === 'desc' ? desc(column) : asc(column);
+    });
+  }
+
+  /**
+   * Set the select parameter as a field map for db.select(...)
+   */
+  protected setSelect(query: DrizzleQueryOptions, select: Record<string, any>): void {
+    const fields: Record<string, Drizzle.Column> = {};
+    for (const [field, value] of Object.entries(select)) {
+      if (value !== true) {
+        throw new UnsupportedFeatureError(`Drizzle query builder does not support nested select '${field}'`, '$select');
+      }
+      fields[field] = this.adapter.getColumn(field);
+    }
+    if (Object.keys(fields).length > 0) {
+      query.select = fields;
+    }
+  }
+
+  /**
+   * Create a count query from a find query
+   * Count query should not include limit, offset, select, orderBy
+   */
+  protected createCountQuery(findQuery: DrizzleQueryOptions): DrizzleQueryOptions {
+    const countQuery: DrizzleQueryOptions = {};
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return countQuery;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createDrizzleQuery(params: ODataQueryParams, options: DrizzleAdapterOptions = {}): DrizzleQueryOptions {
+  const builder = new DrizzleQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createDrizzlePaginationQuery(params: ODataQueryParams, options: DrizzleAdapterOptions = {}) {
+  const builder = new DrizzleQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
@@ -0,0 +1,285 @@
+/**
+ * Drizzle Adapter
+ * Converts OData filters to Drizzle SQL expressions for a given table
+ */
+
+import type * as Drizzle from 'drizzle-orm';
+import { BaseOrmAdapter, ConversionOptions } from './base';
+import { SqlAdapter } from './sql';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { loadOptionalDependency } from '../utils/optional-dependency';
+import { ODataMethod, SqlDialect } from '../enums';
+import { SchemaValidationError, UnsupportedFeatureError } from '../errors';
+
+export interface DrizzleAdapterOptions extends ConversionOptions {
+  /**
+   * Drizzle table (pgTable, mysqlTable or sqliteTable) whose columns the filter refers to
+   */
+  table?: Drizzle.Table;
+}
+
+// Drizzle table entity kinds mapped to the SQL adapter dialects
+const DRIZZLE_DIALECTS: Record<string, SqlDialect> = {
+  PgTable: SqlDialect.POSTGRES,
+  MySqlTable: SqlDialect.MYSQL,
+  SQLiteTable: SqlDialect.SQLITE
+};
+
+/**
+ * The class of a Drizzle table, which names its kind under the entityKind symbol
+ */
+interface DrizzleEntityClass {
+  [Drizzle.entityKind]?: string;
+}
+
+// Marks where a column or parameter goes in SQL rendered by DrizzleRawCompiler
+const CHUNK_MARKER = '\u0000';
+
+/**
+ * SQL compiler collecting columns and parameters as Drizzle SQL chunks
+ */
+class DrizzleRawCompiler extends SqlAdapter {
+  constructor(
+    options: ConversionOptions,
+    private readonly resolveColumn: (path: string[]) => Drizzle.Column,
+    private readonly drizzle: typeof Drizzle
+  ) {
+    super(options);
+  }
+
+  protected column(path: string[], values: any[]): string {
+    values.push(this.resolveColumn(path));
+    return CHUNK_MARKER;
+  }
+
+  protected bind(value: any, values: any[]): string {
+    values.push(this.drizzle.sql.param(value));
+    return CHUNK_MARKER;
+  }
+}
+
+export class DrizzleAdapter extends BaseOrmAdapter<Drizzle.SQL> {
+  private drizzle?: typeof Drizzle;
+
+  constructor(options: DrizzleAdapterOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Convert a filter expression to a Drizzle SQL expression
+   * Usage: db.select().from(users).where(adapter.convert("age gt 18"))
+   */
+  convertExpression(expression: FilterExpression): Drizzle.SQL {
+    const { and, or, not, inArray } = this.ops;
+
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression);
+
+      case 'Property':
+        // Bare boolean column (Active)
+        return this.ops.eq(this.getColumn(expression.path), true);
+
+      case 'And':
+        return and(...expression.operands.map(operand => this.convertExpression(operand)))!;
+
+      case 'Or':
+        return or(...expression.operands.map(operand => this.convertExpression(operand)))!;
+
+      case 'Not':
+        return not(this.convertExpression(expression.operand));
+
+      case 'In':
+        return inArray(this.getColumn(propertyPath(expression.left)), expression.values.map(item => item.value));
+
+      case 'Call':
+        return this.buildMethod(expression);
+
+      case 'Lambda':
+        throw new UnsupportedFeatureError(
+          `Drizzle adapter cannot express ${expression.kind}() on '${expression.path.join('/')}'; use a join or exists() subquery`,
+          `${expression.kind}()`
+        );
+    }
+  }
+
+  /**
+   * Create a condition matching every row
+   */
+  protected createEmptyFilter(): Drizzle.SQL {
+    return this.ops.sql`true`;
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'Drizzle';
+  }
+
+  /**
+   * Get supported features for Drizzle
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Basic comparisons (eq, ne, gt, gte, lt, lte)',
+      'Logical operations (and, or, not)',
+      'String methods (like, ilike)',
+      'Case sensitivity control (ilike)',
+      'IN expressions (inArray)',
+      'NULL checks (isNull, isNotNull)',
+      'Column validation against the table',
+      'Date, math and length functions (sql template)',
+      'Arithmetic expressions (sql template)'
+    ];
+  }
+
+  /**
+   * Get the table column for an OData field path, failing for unknown columns
+   */
+  getColumn(path: string | string[]): Drizzle.Column {
+    const segments = Array.isArray(path) ? path : path.split('/');
+    const table = this.getTable();
+    const tableName = this.ops.getTableName(table);
+
+    if (segments.length !== 1) {
+      throw new UnsupportedFeatureError(`Drizzle adapter does not support navigation path '${segments.join('/')}'; filter on columns of '${tableName}'`, 'navigation');
+    }
+
+    const columns = this.ops.getTableColumns(table);
+    const column = columns[segments[0]];
+    if (!column) {
+      throw new SchemaValidationError(
+        `Unknown column '${segments[0]}' on table '${tableName}'. Available columns: ${Object.keys(columns).join(', ')}`,
+        segments.join('/')
+      );
+    }
+    return column;
+  }
+
+  /**
+   * Lazily load drizzle-orm so it is only required when this adapter is used
+   */
+  private get ops(): typeof Drizzle {
+    if (!this.drizzle) {
+      this.drizzle = loadOptionalDependency<typeof Drizzle>('drizzle-orm', 'Drizzle');
+    }
+    return this.drizzle;
+  }
+
+  /**
+   * Get the configured table
+   */
+  private getTable(): Drizzle.Table {
+    const { table } = this.options as DrizzleAdapterOptions;
+    if (!table) {
+      throw new Error('Drizzle adapter requires a table: new DrizzleAdapter({ table: users })');
+    }
+    return table;
+  }
+
+  /**
+   * Get the SQL dialect of the configured table
+   */
+  private getDialect(): SqlDialect {
+    const kind = (this.getTable().constructor as DrizzleEntityClass)[this.ops.entityKind];
+    return (kind !== undefined ? DRIZZLE_DIALECTS[kind] : undefined) ?? SqlDialect.POSTGRES;
+  }
+
+  /**
+   * Build a comparison; column-to-value and column-to-column comparisons use operators, anything else sql
+   */
+  private buildComparison(expression: FilterCompare): Drizzle.SQL {
+    const { op, left, right } = expression;
+    const { eq, ne, gt, gte, lt, lte, isNull, isNotNull } = this.ops;
+
+    if (left.node !== 'Property' || (right.node !== 'Literal' && right.node !== 'Property')) {
+      return this.buildRaw(expression);
+    }
+
+    const column = this.getColumn(left.path);
+    const value = right.node === 'Property' ? this.getColumn(right.path) : right.value;
+
+    if (value === null) {
+      if (op === 'eq') {
+        return isNull(column);
+      }
+      if (op === 'ne') {
+        return isNotNull(column);
+      }
+      throw new UnsupportedFeatureError(`Unsupported null comparison: ${op}`, 'null');
+    }
+
+    const operators: Record<FilterCompareOperator, (column: Drizzle.Column, value: any) => Drizzle.SQL> = {
+      eq,
+      ne,
+      gt,
+      ge: gte,
+      lt,
+      le: lte
+    };
+    return operators[op](column, value);
+  }
+
+  /**
+   * Build a string predicate (contains, startswith, endswith) with like/ilike
+   */
+  private buildMethod(call: FilterCall): Drizzle.SQL {
+    const { fn, args } = call;
+    if (fn !== ODataMethod.CONTAINS && fn !== ODataMethod.STARTS_WITH && fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${fn}`, fn);
+    }
+
+    if (args[1].node !== 'Literal') {
+      throw new UnsupportedFeatureError(`${fn} requires a literal search value`, fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const column = this.getColumn(propertyPath(field));
+    const search = escapeLikePattern(literalValue(args[1]));
+    const pattern = fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    const { sql, like, ilike } = this.ops;
+    switch (this.getDialect()) {
+      case SqlDialect.POSTGRES:
+        return insensitive ? ilike(column, pattern) : like(column, pattern);
+      case SqlDialect.SQLITE:
+        // SQLite LIKE has no default escape character
+        return insensitive
+          ? sql`lower(${column}) like ${pattern.toLowerCase()} escape '\\'`
+          : sql`${column} like ${pattern} escape '\\'`;
+      default:
+        return insensitive ? sql`lower(${column}) like ${pattern.toLowerCase()}` : like(column, pattern);
+    }
+  }
+
+  /**
+   * Build functions and arithmetic with the sql template, rendered for the table's dialect
+   */
+  private buildRaw(expression: FilterCompare): Drizzle.SQL {
+    const { sql } = this.ops;
+    const chunks: any[] = [];
+    const compiler = new DrizzleRawCompiler(
+      { ...this.options, dialect: this.getDialect() },
+      path => this.getColumn(path),
+      this.ops
+    );
+
+    const { text, values } = compiler.convertExpression(expression);
+    text.split(CHUNK_MARKER).forEach((part, index) => {
+      chunks.push(sql.raw(part));
+      if (index < values.length) {
+        chunks.push(values[index]);
+      }
+    });
+
+    return sql.join(chunks);
+  }
+}
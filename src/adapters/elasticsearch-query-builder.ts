@@ -0,0 +1,168 @@
+/**
+ * Elasticsearch Query Builder
+ * Build Elasticsearch / OpenSearch search request bodies from OData query parameters
+ */
+
+import { ODataQueryParams } from '../types/odata-query';
+import { SchemaValidationOptions } from '../types/schema';
+import { ElasticsearchAdapter, ElasticsearchAdapterOptions, ElasticsearchQuery } from './elasticsearch';
+import { BaseQueryBuilder } from './base-query-builder';
+import { SchemaValidator } from '../utils/schema-validator';
+import { validateFilterFieldPaths } from '../utils/filter-field-extractor';
+
+export interface ElasticsearchQueryBuilderOptions extends ElasticsearchAdapterOptions, SchemaValidationOptions {}
+
+export interface ElasticsearchNestedSort {
+  path: string;
+  nested?: ElasticsearchNestedSort;
+}
+
+export interface ElasticsearchSearchBody {
+  query?: ElasticsearchQuery;
+  size?: number;
+  from?: number;
+  sort?: Array<Record<string, { order: 'asc' | 'desc'; nested?: ElasticsearchNestedSort }>>;
+  _source?: string[];
+  [key: string]: any;
+}
+
+export class ElasticsearchQueryBuilder extends BaseQueryBuilder<ElasticsearchSearchBody> {
+  protected adapter: ElasticsearchAdapter;
+  private schemaOptions: SchemaValidationOptions;
+  private validator: SchemaValidator;
+
+  constructor(options: ElasticsearchQueryBuilderOptions = {}) {
+    const adapter = new ElasticsearchAdapter(options);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
+
+    this.schemaOptions = {
+      schema: options.schema,
+      allowAllFields: options.allowAllFields ?? true
+    };
+    this.validator = new SchemaValidator(options.schema);
+  }
+
+  /**
+   * Build a search request body; the converted filter is placed under `query`
+   * Usage: await client.search({ index: 'users', ...queryBuilder.buildQuery(req.query) })
+   */
+  buildQuery(params: ODataQueryParams): ElasticsearchSearchBody {
+    const { where, ...body } = super.buildQuery(params);
+    return where ? { query: where, ...body } : body;
+  }
+
+  /**
+   * Validate filter field paths against the schema when strict validation is enabled
+   */
+  protected validateQuery(params: ODataQueryParams): void {
+    if (params.$filter) {
+      validateFilterFieldPaths(params.$filter, this.schemaOptions);
+    }
+  }
+
+  /**
+   * Create an empty search body
+   */
+  protected createEmptyQuery(): ElasticsearchSearchBody {
+    return {};
+  }
+
+  /**
+   * Set the size parameter
+   */
+  protected setTake(query: ElasticsearchSearchBody, take: number): void {
+    query.size = take;
+  }
+
+  /**
+   * Set the from parameter
+   */
+  protected setSkip(query: ElasticsearchSearchBody, skip: number): void {
+    query.from = skip;
+  }
+
+  /**
+   * Set the sort parameter; fields inside nested objects sort with a nested path
+   */
+  protected setOrderBy(query: ElasticsearchSearchBody, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.sort = Object.entries(orderBy).map(([field, order]) => {
+      const path = field.split('/');
+      this.validatePath(path, 'orderby');
+
+      const nested = this.adapter.getNestedPaths(path).reduceRight<ElasticsearchNestedSort | undefined>(
+        (inner, nestedPath) => (inner ? { path: nestedPath, nested: inner } : { path: nestedPath }),
+        undefined
+      );
+      return { [path.join('.')]: nested ? { order, nested } : { order } };
+    });
+  }
+
+  /**
+   * Set the _source includes; nested selections (profile(city)) become dotted paths (profile.city)
+   */
+  protected setSelect(query: ElasticsearchSearchBody, select: Record<string, any>): void {
+    const fields = this.flattenSelectObject(select, []).map(path => {
+      this.validatePath(path, 'select');
+      return path.join('.');
+    });
+    if (fields.length > 0) {
+      query._source = fields;
+    }
+  }
+
+  /**
+   * Create a count request body (for the _count API) from a search body
+   * Count body should not include size, from, _source, sort
+   */
+  protected createCountQuery(findQuery: ElasticsearchSearchBody): ElasticsearchSearchBody {
+    const countQuery: ElasticsearchSearchBody = {};
+    if (findQuery.query) {
+      countQuery.query = findQuery.query;
+    }
+    return countQuery;
+  }
+
+  /**
+   * Validate a field path against the schema when strict validation is enabled
+   */
+  private validatePath(path: string[], operation: 'select' | 'orderby'): void {
+    if (this.validator.isStrictValidationEnabled(this.schemaOptions.allowAllFields)) {
+      this.validator.validateFieldPathStrict(path, operation);
+    }
+  }
+
+  /**
+   * Helper method to flatten nested select objects into field paths
+   */
+  private flattenSelectObject(select: Record<string, any>, prefix: string[]): string[][] {
+    const paths: string[][] = [];
+
+    for (const [key, value] of Object.entries(select)) {
+      const path = [...prefix, ...key.split('/')];
+      if (value === true) {
+        paths.push(path);
+      } else if (typeof value === 'object' && value !== null) {
+        paths.push(...this.flattenSelectObject(value, path));
+      }
+    }
+
+    return paths;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createElasticsearchQuery(params: ODataQueryParams, options: ElasticsearchQueryBuilderOptions = {}): ElasticsearchSearchBody {
+  const builder = new ElasticsearchQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createElasticsearchPaginationQuery(params: ODataQueryParams, options: ElasticsearchQueryBuilderOptions = {}) {
+  const builder = new ElasticsearchQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
@@ -0,0 +1,364 @@
+/**
+ * Elasticsearch Adapter
+ * Converts OData filters to Elasticsearch / OpenSearch bool queries
+ */
+
+import { z } from 'zod';
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall, FilterLambda } from '../types';
+import { booleanComparison, normalizeComparison, propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { SchemaValidator } from '../utils/schema-validator';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface ElasticsearchAdapterOptions extends ConversionOptions {
+  /**
+   * Schema of the indexed document; arrays of objects are queried with `nested`
+   * Without a schema, any()/all() over objects use `nested` and other paths are object paths
+   */
+  schema?: z.ZodSchema<any>;
+}
+
+export interface ElasticsearchQuery extends WhereClause {
+  bool?: {
+    filter?: ElasticsearchQuery[];
+    should?: ElasticsearchQuery[];
+    must_not?: ElasticsearchQuery[];
+    minimum_should_match?: number;
+  };
+  nested?: { path: string; query: ElasticsearchQuery };
+}
+
+const RANGE_OPERATORS: Partial<Record<FilterCompareOperator, string>> = {
+  gt: 'gt',
+  ge: 'gte',
+  lt: 'lt',
+  le: 'lte'
+};
+
+/**
+ * Escape the wildcard query metacharacters (* ? \)
+ */
+function escapeWildcard(value: string): string {
+  return String(value).replace(/[\\*?]/g, match => `\\${match}`);
+}
+
+/**
+ * Dates are sent as ISO strings; the query DSL is JSON
+ */
+function toQueryValue(value: any): any {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+export class ElasticsearchAdapter extends BaseOrmAdapter<ElasticsearchQuery> {
+  private validator: SchemaValidator;
+  private hasSchema: boolean;
+
+  // Field path of the collection whose elements the current any()/all() predicate refers to
+  private scope: string[] = [];
+
+  constructor(options: ElasticsearchAdapterOptions = {}) {
+    super(options);
+    this.validator = new SchemaValidator(options.schema);
+    this.hasSchema = options.schema !== undefined;
+  }
+
+  /**
+   * Convert a filter expression to an Elasticsearch query
+   */
+  convertExpression(expression: FilterExpression): ElasticsearchQuery {
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression);
+
+      case 'Property':
+        // Bare boolean property (Active)
+        return this.buildComparison(booleanComparison(expression));
+
+      case 'And':
+        return { bool: { filter: expression.operands.map(operand => this.convertExpression(operand)) } };
+
+      case 'Or':
+        return { bool: { should: expression.operands.map(operand => this.convertExpression(operand)), minimum_should_match: 1 } };
+
+      case 'Not':
+        return this.not(this.convertExpression(expression.operand));
+
+      case 'In': {
+        const values = expression.values.map(literal => toQueryValue(literal.value));
+        return this.leaf(propertyPath(expression.left), field => ({ terms: { [field]: values } }));
+      }
+
+      case 'Call':
+        return this.buildMethod(expression);
+
+      case 'Lambda':
+        return this.buildLambda(expression);
+    }
+  }
+
+  /**
+   * Create a query matching every document
+   */
+  protected createEmptyFilter(): ElasticsearchQuery {
+    return { match_all: {} };
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'Elasticsearch';
+  }
+
+  /**
+   * Get supported features for Elasticsearch
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Basic comparisons (term, range)',
+      'Logical operations (bool filter, should, must_not)',
+      'String methods via prefix/wildcard',
+      'Case sensitivity control (case_insensitive)',
+      'IN expressions (terms)',
+      'NULL checks (exists)',
+      'Object paths and nested queries driven by the schema',
+      'Collection any()/all() filters (nested)',
+      'Year filtering',
+      'Arithmetic comparisons'
+    ];
+  }
+
+  /**
+   * Get the nested paths enclosing a field path, outermost first (orders/items/qty => ['orders', 'orders.items'])
+   */
+  getNestedPaths(path: string[]): string[] {
+    const nestedPaths: string[] = [];
+    for (let i = 1; i < path.length; i++) {
+      if (this.isNestedPath(path.slice(0, i))) {
+        nestedPaths.push(path.slice(0, i).join('.'));
+      }
+    }
+    return nestedPaths;
+  }
+
+  /**
+   * Build nested queries for any()/all() over arrays of objects, or plain field queries over arrays of values
+   */
+  private buildLambda(lambda: FilterLambda): ElasticsearchQuery {
+    const { kind, path, body } = lambda;
+    const collection = [...this.scope, ...path];
+    const nested = this.hasSchema ? this.isNestedPath(collection) : !!body && !this.comparesElement(body);
+
+    if (!body) {
+      // any() without predicate: the collection has at least one element
+      return this.wrapNested(collection, nested
+        ? { nested: { path: collection.join('.'), query: { match_all: {} } } }
+        : { exists: { field: collection.join('.') } });
+    }
+
+    if (kind === 'all' && !nested) {
+      throw new UnsupportedFeatureError(`all() on '${path.join('/')}' requires a nested mapping; Elasticsearch flattens arrays of values`, 'all()');
+    }
+
+    const outer = this.scope;
+    let query: ElasticsearchQuery;
+    this.scope = collection;
+    try {
+      query = this.convertExpression(body);
+    } finally {
+      this.scope = outer;
+    }
+
+    if (!nested) {
+      return this.wrapNested(collection, query);
+    }
+
+    // all(): no element fails the predicate
+    return this.wrapNested(collection, kind === 'any'
+      ? { nested: { path: collection.join('.'), query } }
+      : this.not({ nested: { path: collection.join('.'), query: this.not(query) } }));
+  }
+
+  /**
+   * Build a comparison condition
+   */
+  private buildComparison(expression: FilterCompare): ElasticsearchQuery {
+    // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+    const { op, left, right } = normalizeComparison(expression);
+
+    if (right.node !== 'Literal') {
+      throw new UnsupportedFeatureError('Comparing two fields requires a script query in Elasticsearch', 'fieldComparison');
+    }
+
+    const value = right.value;
+
+    if (left.node === 'Call') {
+      return this.buildFunctionComparison(op, left, value);
+    }
+
+    const path = propertyPath(left);
+
+    switch (op) {
+      case 'eq':
+        return value === null
+          ? this.not(this.leaf(path, field => ({ exists: { field } })))
+          : this.leaf(path, field => ({ term: { [field]: toQueryValue(value) } }));
+
+      case 'ne':
+        return value === null
+          ? this.leaf(path, field => ({ exists: { field } }))
+          : this.not(this.leaf(path, field => ({ term: { [field]: toQueryValue(value) } })));
+
+      default: {
+        const operator = RANGE_OPERATORS[op];
+        if (!operator) {
+          throw new UnsupportedFeatureError(`Unsupported comparison operator: ${op}`, op);
+        }
+        return this.leaf(path, field => ({ range: { [field]: { [operator]: toQueryValue(value) } } }));
+      }
+    }
+  }
+
+  /**
+   * Handle function calls on the left side of a comparison
+   */
+  private buildFunctionComparison(op: FilterCompareOperator, left: FilterCall, value: any): ElasticsearchQuery {
+    const { fn, args } = left;
+
+    switch (fn) {
+      case ODataMethod.YEAR: {
+        const path = propertyPath(args[0]);
+        const start = new Date(Date.UTC(value, 0, 1)).toISOString();
+        const end = new Date(Date.UTC(value + 1, 0, 1)).toISOString();
+        const range = (bounds: Record<string, string>) => this.leaf(path, field => ({ range: { [field]: bounds } }));
+        const ranges: Record<FilterCompareOperator, () => ElasticsearchQuery> = {
+          eq: () => range({ gte: start, lt: end }),
+          ne: () => this.not(range({ gte: start, lt: end })),
+          gt: () => range({ gte: end }),
+          ge: () => range({ gte: start }),
+          lt: () => range({ lt: start }),
+          le: () => range({ lt: end })
+        };
+        return ranges[op]();
+      }
+
+      case ODataMethod.TO_LOWER:
+      case ODataMethod.TO_UPPER: {
+        const condition = this.leaf(propertyPath(args[0]), field => ({ term: { [field]: { value, case_insensitive: true } } }));
+        if (op === 'eq') {
+          return condition;
+        }
+        if (op === 'ne') {
+          return this.not(condition);
+        }
+        throw new UnsupportedFeatureError(`Unsupported ${fn} comparison: ${op}`, fn);
+      }
+
+      case ODataMethod.INDEX_OF: {
+        // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+        const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+        if (op === 'ge' && value === 0) {
+          return this.buildMethod(contains);
+        }
+        if (op === 'eq' && value === -1) {
+          return this.not(this.buildMethod(contains));
+        }
+        throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+      }
+
+      case ODataMethod.MONTH:
+      case ODataMethod.DAY:
+      case ODataMethod.LENGTH:
+      case ODataMethod.ROUND:
+      case ODataMethod.FLOOR:
+      case ODataMethod.CEILING:
+        throw new UnsupportedFeatureError(`Function ${fn} requires a script query in Elasticsearch; index the computed value instead`, fn);
+
+      default:
+        throw new UnsupportedFeatureError(`Unsupported function in comparison: ${fn}`, fn);
+    }
+  }
+
+  /**
+   * Build a string method condition with prefix (startswith) or wildcard (contains, endswith)
+   */
+  private buildMethod(call: FilterCall): ElasticsearchQuery {
+    const { fn, args } = call;
+    if (fn !== ODataMethod.CONTAINS && fn !== ODataMethod.STARTS_WITH && fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${fn}`, fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const search = String(literalValue(args[1]));
+    const flags = insensitive ? { case_insensitive: true } : {};
+
+    return this.leaf(propertyPath(field), name => {
+      if (fn === ODataMethod.STARTS_WITH) {
+        return { prefix: { [name]: { value: search, ...flags } } };
+      }
+      const pattern = fn === ODataMethod.ENDS_WITH ? `*${escapeWildcard(search)}` : `*${escapeWildcard(search)}*`;
+      return { wildcard: { [name]: { value: pattern, ...flags } } };
+    });
+  }
+
+  /**
+   * Build a query on a single field, wrapped in the nested queries its path goes through
+   * Inside any()/all() the path is relative to the collection element
+   */
+  private leaf(path: string[], build: (field: string) => ElasticsearchQuery): ElasticsearchQuery {
+    const fullPath = [...this.scope, ...path];
+    if (fullPath.length === 0) {
+      throw new UnsupportedFeatureError('Elasticsearch adapter cannot compare the document itself; filter on one of its fields', '$it');
+    }
+    if (path.length === 0 && this.isNestedPath(fullPath)) {
+      throw new UnsupportedFeatureError('Elasticsearch adapter cannot compare nested objects directly; filter on a property of the element', 'elementComparison');
+    }
+    return this.wrapNested(fullPath, build(fullPath.join('.')));
+  }
+
+  /**
+   * Wrap a query in nested queries for each nested ancestor of the path that is not already in scope
+   */
+  private wrapNested(path: string[], query: ElasticsearchQuery): ElasticsearchQuery {
+    let result = query;
+    for (let i = path.length - 1; i > this.scope.length; i--) {
+      if (this.isNestedPath(path.slice(0, i))) {
+        result = { nested: { path: path.slice(0, i).join('.'), query: result } };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Whether the schema maps a path to an array of objects (a nested field)
+   */
+  private isNestedPath(path: string[]): boolean {
+    const info = this.validator.getPathInfo(path);
+    return info?.type === 'array' && info.itemType?.type === 'object';
+  }
+
+  /**
+   * Whether a lambda predicate compares the range variable itself (tags/any(t: t eq 'x'))
+   */
+  private comparesElement(node: any): boolean {
+    if (!node || typeof node !== 'object') {
+      return false;
+    }
+    if (node.node === 'Property' && node.variable !== undefined && node.path.length === 0) {
+      return true;
+    }
+    const children = Array.isArray(node) ? node : Object.values(node);
+    return children.some(child => this.comparesElement(child));
+  }
+
+  /**
+   * Negate a query
+   */
+  private not(query: ElasticsearchQuery): ElasticsearchQuery {
+    return { bool: { must_not: [query] } };
+  }
+}
@@ -7,38 +7,91 @@ import { PrismaAdapter } from './prisma';
 import { TypeOrmAdapter } from './typeorm';
 import { SequelizeAdapter } from './sequelize';
 import { MongooseAdapter } from './mongoose';
+import { SqlAdapter } from './sql';
+import { KnexAdapter } from './knex';
+import { DrizzleAdapter } from './drizzle';
+import { MikroOrmAdapter } from './mikro-orm';
+import { KyselyAdapter } from './kysely';
+import { InMemoryAdapter } from './in-memory';
+import { ElasticsearchAdapter } from './elasticsearch';
+import { HasuraAdapter } from './hasura';
+import { Registration, normalizeRegistryName, toValidatedFactory } from './registry';
 import { SupportedOrm, OrmStatus } from '../enums';
 
-export type SupportedOrmType = SupportedOrm;
+export type SupportedOrmType = SupportedOrm | string;
+
+/**
+ * A BaseOrmAdapter subclass, or a function creating an adapter from conversion options
+ */
+export type AdapterRegistration = Registration<ConversionOptions, BaseOrmAdapter>;
 
 export class AdapterFactory {
+  /**
+   * Adapter factories by ORM name: the built-in adapters followed by registered ones
+   */
+  private static readonly adapters = new Map<string, (options: ConversionOptions) => BaseOrmAdapter>([
+    [SupportedOrm.PRISMA, options => new PrismaAdapter(options)],
+    [SupportedOrm.TYPEORM, options => new TypeOrmAdapter(options)],
+    [SupportedOrm.SEQUELIZE, options => new SequelizeAdapter(options)],
+    [SupportedOrm.MONGOOSE, options => new MongooseAdapter(options)],
+    [SupportedOrm.SQL, options => new SqlAdapter(options)],
+    [SupportedOrm.KNEX, options => new KnexAdapter(options)],
+    [SupportedOrm.DRIZZLE, options => new DrizzleAdapter(options)],
+    [SupportedOrm.MIKRO_ORM, options => new MikroOrmAdapter(options)],
+    [SupportedOrm.KYSELY, options => new KyselyAdapter(options)],
+    [SupportedOrm.IN_MEMORY, options => new InMemoryAdapter(options)],
+    [SupportedOrm.ELASTICSEARCH, options => new ElasticsearchAdapter(options)],
+    [SupportedOrm.HASURA, options => new HasuraAdapter(options)]
+  ]);
+
+  /**
+   * ORMs whose filter conversion is fully implemented; registered adapters are always available
+   */
+  private static readonly availableOrms = new Set<string>([
+    SupportedOrm.PRISMA,
+    SupportedOrm.TYPEORM,
+    SupportedOrm.SEQUELIZE,
+    SupportedOrm.MONGOOSE,
+    SupportedOrm.SQL,
+    SupportedOrm.KNEX,
+    SupportedOrm.DRIZZLE,
+    SupportedOrm.MIKRO_ORM,
+    SupportedOrm.KYSELY,
+    SupportedOrm.IN_MEMORY,
+    SupportedOrm.ELASTICSEARCH,
+    SupportedOrm.HASURA
+  ]);
+
+  /**
+   * Register a custom adapter under a new name
+   * e.g. AdapterFactory.registerAdapter('internal-dal', InternalDalAdapter)
+   */
+  static registerAdapter(name: string, factory: AdapterRegistration): void {
+    const orm = normalizeRegistryName(name);
+    if (this.adapters.has(orm)) {
+      throw new Error(`Adapter '${orm}' is already registered`);
+    }
+
+    this.adapters.set(orm, toValidatedFactory(orm, factory, BaseOrmAdapter));
+    this.availableOrms.add(orm);
+  }
+
   /**
    * Create an adapter for the specified ORM
    */
   static createAdapter(orm: SupportedOrmType, options: ConversionOptions = {}): BaseOrmAdapter {
-    switch (orm.toLowerCase() as SupportedOrm) {
-      case SupportedOrm.PRISMA:
-        return new PrismaAdapter(options);
-      
-      case SupportedOrm.TYPEORM:
-        return new TypeOrmAdapter(options);
-      
-      case SupportedOrm.SEQUELIZE:
-        return new SequelizeAdapter(options);
-      
-      case SupportedOrm.MONGOOSE:
-        return new MongooseAdapter(options);
-      
-      default:
-        throw new Error(`Unsupported ORM: ${orm}. Supported ORMs: ${Object.values(SupportedOrm).join(', ')}`);
+    const create = this.adapters.get(String(orm).toLowerCase());
+    if (!create) {
+      throw new Error(`Unsupported ORM: ${orm}. Supported ORMs: ${this.getSupportedOrms().join(', ')}`);
     }
+    return create(options);
   }
 
   /**
-   * Get list of supported ORMs
+   * Get list of supported ORMs, including registered adapters
    */
   static getSupportedOrms(): SupportedOrmType[] {
-    return Object.values(SupportedOrm);
+    return Array.from(this.adapters.keys());
   }
 
   /**
@@ -50,7 +103,7 @@ export class AdapterFactory {
       const adapter = this.createAdapter(orm);
       return {
         orm: adapter.getOrmName(),
-        status: orm === SupportedOrm.PRISMA ? OrmStatus.AVAILABLE : OrmStatus.COMING_SOON,
+        status: this.availableOrms.has(orm) ? OrmStatus.AVAILABLE : OrmStatus.COMING_SOON,
         features: adapter.getSupportedFeatures()
       };
     });
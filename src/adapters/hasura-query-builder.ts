@@ -0,0 +1,124 @@
+/**
+ * Hasura Query Builder
+ * Build GraphQL query arguments (where, order_by, limit, offset) and a selection set from OData query parameters
+ */
+
+import { ODataQueryParams } from '../types/odata-query';
+import { HasuraAdapter, HasuraBoolExp } from './hasura';
+import { BaseQueryBuilder } from './base-query-builder';
+import { ConversionOptions } from './base';
+import { buildNestedWhere } from '../utils/field-path';
+
+export interface HasuraQueryOptions {
+  where?: HasuraBoolExp;
+  limit?: number;
+  offset?: number;
+  order_by?: Array<Record<string, any>>;
+  selectionSet?: string;
+  [key: string]: any;
+}
+
+export class HasuraQueryBuilder extends BaseQueryBuilder<HasuraQueryOptions> {
+  constructor(options: ConversionOptions = {}) {
+    const adapter = new HasuraAdapter(options);
+    super(adapter, options.limits, options.search);
+  }
+
+  /**
+   * Create an empty Hasura query object
+   */
+  protected createEmptyQuery(): HasuraQueryOptions {
+    return {};
+  }
+
+  /**
+   * Set the limit argument
+   */
+  protected setTake(query: HasuraQueryOptions, take: number): void {
+    query.limit = take;
+  }
+
+  /**
+   * Set the offset argument
+   */
+  protected setSkip(query: HasuraQueryOptions, skip: number): void {
+    query.offset = skip;
+  }
+
+  /**
+   * Set the order_by argument; one entry per field keeps the sort priority
+   * Relation paths become nested objects (author/name desc => { author: { name: 'desc' } })
+   */
+  protected setOrderBy(query: HasuraQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.order_by = Object.entries(orderBy).map(([field, direction]) => buildNestedWhere(field.split('/'), direction));
+  }
+
+  /**
+   * Set the GraphQL selection set; nested selections become sub-selections (author(name) => author { name })
+   */
+  protected setSelect(query: HasuraQueryOptions, select: Record<string, any>): void {
+    const selectionSet = this.toSelectionSet(select);
+    if (selectionSet) {
+      query.selectionSet = selectionSet;
+    }
+  }
+
+  /**
+   * Create a count query from a find query, for the <table>_aggregate field
+   * Count query should not include limit, offset, order_by, selectionSet
+   */
+  protected createCountQuery(findQuery: HasuraQueryOptions): HasuraQueryOptions {
+    const countQuery: HasuraQueryOptions = {};
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return countQuery;
+  }
+
+  /**
+   * Render a parsed select as GraphQL fields, merging slash paths that share a relation
+   */
+  private toSelectionSet(select: Record<string, any>): string {
+    const tree: Record<string, any> = {};
+    const merge = (target: Record<string, any>, path: string[], value: any) => {
+      const [head, ...rest] = path;
+      if (rest.length > 0) {
+        target[head] = target[head] === true ? true : target[head] ?? {};
+        if (target[head] !== true) {
+          merge(target[head], rest, value);
+        }
+      } else if (value === true) {
+        target[head] = true;
+      } else if (typeof value === 'object' && value !== null && target[head] !== true) {
+        target[head] = target[head] ?? {};
+        for (const [key, nested] of Object.entries(value)) {
+          merge(target[head], key.split('/'), nested);
+        }
+      }
+    };
+
+    for (const [key, value] of Object.entries(select)) {
+      merge(tree, key.split('/'), value);
+    }
+
+    const render = (node: Record<string, any>): string =>
+      Object.entries(node).map(([key, value]) => (value === true ? key : `${key} { ${render(value)} }`)).join(' ');
+    return render(tree);
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createHasuraQuery(params: ODataQueryParams, options: ConversionOptions = {}): HasuraQueryOptions {
+  const builder = new HasuraQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createHasuraPaginationQuery(params: ODataQueryParams, options: ConversionOptions = {}) {
+  const builder = new HasuraQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
@@ -0,0 +1,268 @@
+/**
+ * Hasura Adapter
+ * Converts OData filters to GraphQL `where` boolean expressions (_eq, _and, ...) used by Hasura
+ * and PostGraphile filter plugins
+ */
+
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall, FilterLambda } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { buildNestedWhere } from '../utils/field-path';
+import { booleanComparison, normalizeComparison, propertyPath, literalValue, unwrapCaseFunction, usesLambdaElement } from '../utils/filter-expression';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface HasuraBoolExp extends WhereClause {
+  _and?: HasuraBoolExp[];
+  _or?: HasuraBoolExp[];
+  _not?: HasuraBoolExp;
+}
+
+const COMPARISON_OPERATORS: Record<FilterCompareOperator, string> = {
+  eq: '_eq',
+  ne: '_neq',
+  gt: '_gt',
+  ge: '_gte',
+  lt: '_lt',
+  le: '_lte'
+};
+
+/**
+ * GraphQL variables are JSON, so dates are sent as ISO strings
+ */
+function toGraphQLValue(value: any): any {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return Array.isArray(value) ? value.map(toGraphQLValue) : value;
+}
+
+/**
+ * Field and value of a `fn(field) eq literal` comparison
+ */
+function dateFunctionEquality(expression: FilterExpression, fn: string): { path: string[]; value: number } | null {
+  if (expression.node !== 'Compare' || expression.op !== 'eq' ||
+      expression.left.node !== 'Call' || expression.left.fn !== fn || expression.right.node !== 'Literal') {
+    return null;
+  }
+
+  const field = expression.left.args[0];
+  if (!field || field.node !== 'Property') {
+    return null;
+  }
+  return { path: field.path, value: expression.right.value as number };
+}
+
+export class HasuraAdapter extends BaseOrmAdapter<HasuraBoolExp> {
+  constructor(options: ConversionOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Convert a filter expression to a Hasura boolean expression
+   */
+  convertExpression(expression: FilterExpression): HasuraBoolExp {
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression);
+
+      case 'Property':
+        return this.buildComparison(booleanComparison(expression));
+
+      case 'And':
+        return this.buildYearMonth(expression.operands) ?? { _and: expression.operands.map(operand => this.convertExpression(operand)) };
+
+      case 'Or':
+        return { _or: expression.operands.map(operand => this.convertExpression(operand)) };
+
+      case 'Not':
+        return { _not: this.convertExpression(expression.operand) };
+
+      case 'In':
+        return buildNestedWhere(propertyPath(expression.left), {
+          _in: expression.values.map(literal => toGraphQLValue(literal.value))
+        });
+
+      case 'Call':
+        return this.buildMethod(expression);
+
+      case 'Lambda':
+        return this.buildLambda(expression);
+    }
+  }
+
+  /**
+   * Create an empty boolean expression (matches every row)
+   */
+  protected createEmptyFilter(): HasuraBoolExp {
+    return {};
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'Hasura';
+  }
+
+  /**
+   * Get supported features for Hasura
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Basic comparisons (_eq, _neq, _gt, _gte, _lt, _lte)',
+      'Logical operations (_and, _or, _not)',
+      'String methods via _like/_ilike',
+      'Case sensitivity control',
+      'IN expressions (_in)',
+      'NULL checks (_is_null)',
+      'Nested relation objects',
+      'Collection any()/all() filters on array relationships',
+      'Year/Month filtering',
+      'Date range filtering',
+      'Arithmetic comparisons'
+    ];
+  }
+
+  /**
+   * Build a comparison condition
+   */
+  private buildComparison(expression: FilterCompare): HasuraBoolExp {
+    // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+    const { op, left, right } = normalizeComparison(expression);
+    const value = toGraphQLValue(literalValue(right));
+
+    if (left.node === 'Call') {
+      return this.buildFunctionComparison(op, left, value);
+    }
+    if (left.node === 'Arithmetic') {
+      throw new UnsupportedFeatureError(
+        `Hasura boolean expressions cannot compare the result of ${left.op}; expose it as a computed field and filter on that`,
+        left.op
+      );
+    }
+
+    if (value === null && (op === 'eq' || op === 'ne')) {
+      return buildNestedWhere(propertyPath(left), { _is_null: op === 'eq' });
+    }
+    return buildNestedWhere(propertyPath(left), { [COMPARISON_OPERATORS[op]]: value });
+  }
+
+  /**
+   * Handle function calls on the left side of a comparison
+   */
+  private buildFunctionComparison(op: FilterCompareOperator, left: FilterCall, value: any): HasuraBoolExp {
+    const { fn, args } = left;
+
+    switch (fn) {
+      case ODataMethod.YEAR: {
+        const start = new Date(Date.UTC(value, 0, 1)).toISOString();
+        const end = new Date(Date.UTC(value + 1, 0, 1)).toISOString();
+        const path = propertyPath(args[0]);
+        if (op === 'ne') {
+          // _not negates a whole boolean expression, so it wraps the field
+          return { _not: buildNestedWhere(path, { _gte: start, _lt: end }) };
+        }
+        const ranges: Record<Exclude<FilterCompareOperator, 'ne'>, HasuraBoolExp> = {
+          eq: { _gte: start, _lt: end },
+          gt: { _gte: end },
+          ge: { _gte: start },
+          lt: { _lt: start },
+          le: { _lt: end }
+        };
+        return buildNestedWhere(path, ranges[op]);
+      }
+
+      case ODataMethod.MONTH:
+        throw new UnsupportedFeatureError(
+          'Hasura boolean expressions can only filter month() together with year() eq on the same field; expose it as a computed field otherwise',
+          fn
+        );
+
+      case ODataMethod.TO_LOWER:
+      case ODataMethod.TO_UPPER:
+        // tolower(Name) eq 'bob' is a case-insensitive match without wildcards
+        if ((op === 'eq' || op === 'ne') && typeof value === 'string') {
+          return buildNestedWhere(propertyPath(args[0]), { [op === 'eq' ? '_ilike' : '_nilike']: escapeLikePattern(value) });
+        }
+        throw new UnsupportedFeatureError(`Unsupported ${fn} comparison: ${op} ${value}`, fn);
+
+      case ODataMethod.INDEX_OF: {
+        // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+        const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+        if (op === 'ge' && value === 0) {
+          return this.buildMethod(contains);
+        }
+        if (op === 'eq' && value === -1) {
+          return { _not: this.buildMethod(contains) };
+        }
+        throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+      }
+
+      default:
+        throw new UnsupportedFeatureError(
+          `Hasura boolean expressions cannot compare ${fn}(); expose it as a computed field and filter on that`,
+          fn
+        );
+    }
+  }
+
+  /**
+   * Build a string method condition (contains, startswith, endswith)
+   */
+  private buildMethod(call: FilterCall): HasuraBoolExp {
+    if (call.fn !== ODataMethod.CONTAINS && call.fn !== ODataMethod.STARTS_WITH && call.fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Hasura boolean expressions cannot use ${call.fn}() as a condition`, call.fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(call.args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const search = escapeLikePattern(literalValue(call.args[1]));
+    const pattern = call.fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : call.fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    return buildNestedWhere(propertyPath(field), { [insensitive ? '_ilike' : '_like']: pattern });
+  }
+
+  /**
+   * Filter an array relationship: any() matches a related row, all() has no related row that fails the predicate
+   */
+  private buildLambda(lambda: FilterLambda): HasuraBoolExp {
+    if (usesLambdaElement(lambda)) {
+      throw new UnsupportedFeatureError(
+        `Hasura boolean expressions cannot express ${lambda.kind}() over the values of '${lambda.path.join('/')}'; only array relationships can be filtered`,
+        `${lambda.kind}()`
+      );
+    }
+
+    // An empty boolean expression on a relationship matches rows that have a related row
+    const body = lambda.body ? this.convertExpression(lambda.body) : {};
+    return lambda.kind === 'all'
+      ? { _not: buildNestedWhere(lambda.path, { _not: body }) }
+      : buildNestedWhere(lambda.path, body);
+  }
+
+  /**
+   * year(field) eq Y and month(field) eq M as a range over the month, or null for other conditions
+   */
+  private buildYearMonth(operands: FilterExpression[]): HasuraBoolExp | null {
+    if (operands.length !== 2) {
+      return null;
+    }
+    const [a, b] = operands;
+    const year = dateFunctionEquality(a, ODataMethod.YEAR) ?? dateFunctionEquality(b, ODataMethod.YEAR);
+    const month = dateFunctionEquality(a, ODataMethod.MONTH) ?? dateFunctionEquality(b, ODataMethod.MONTH);
+
+    if (!year || !month || year.path.join('/') !== month.path.join('/')) {
+      return null;
+    }
+
+    return buildNestedWhere(year.path, {
+      _gte: new Date(Date.UTC(year.value, month.value - 1, 1)).toISOString(),
+      _lt: new Date(Date.UTC(year.value, month.value, 1)).toISOString()
+    });
+  }
+}
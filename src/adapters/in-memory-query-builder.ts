@@ -0,0 +1,183 @@
+/**
+ * In-Memory Query Builder
+ * Apply OData query parameters to arrays of plain objects
+ */
+
+import { ODataQueryParams, PaginationResult } from '../types/odata-query';
+import { InMemoryAdapter, InMemoryPredicate } from './in-memory';
+import { BaseQueryBuilder } from './base-query-builder';
+import { ConversionOptions } from './base';
+
+export interface InMemoryQueryOptions {
+  where?: InMemoryPredicate;
+  take?: number;
+  skip?: number;
+  orderBy?: Array<{ path: string[]; direction: 'asc' | 'desc' }>;
+  select?: Record<string, any>;
+  [key: string]: any;
+}
+
+export class InMemoryQueryBuilder extends BaseQueryBuilder<InMemoryQueryOptions> {
+  protected adapter: InMemoryAdapter;
+
+  constructor(options: ConversionOptions = {}) {
+    const adapter = new InMemoryAdapter(options);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
+  }
+
+  /**
+   * Apply OData query parameters to an array, returning a new array
+   * Usage: queryBuilder.apply(users, req.query)
+   */
+  apply<T>(rows: T[], params: ODataQueryParams): any[] {
+    return this.applyOptions(rows, this.buildQuery(params));
+  }
+
+  /**
+   * Apply OData query parameters to an array for a page and its total count
+   */
+  applyPagination<T>(rows: T[], params: ODataQueryParams): PaginationResult<any> {
+    const query = this.buildQuery(params);
+    const matching = query.where ? rows.filter(query.where) : rows;
+    return this.processPaginationResult(this.applyOptions(matching, { ...query, where: undefined }), matching.length, params);
+  }
+
+  /**
+   * Create an empty in-memory query object
+   */
+  protected createEmptyQuery(): InMemoryQueryOptions {
+    return {};
+  }
+
+  /**
+   * Set the take parameter
+   */
+  protected setTake(query: InMemoryQueryOptions, take: number): void {
+    query.take = take;
+  }
+
+  /**
+   * Set the skip parameter
+   */
+  protected setSkip(query: InMemoryQueryOptions, skip: number): void {
+    query.skip = skip;
+  }
+
+  /**
+   * Set the orderBy parameter as { path, direction } entries in priority order
+   */
+  protected setOrderBy(query: InMemoryQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.orderBy = Object.entries(orderBy).map(([field, direction]) => ({ path: field.split('/'), direction }));
+  }
+
+  /**
+   * Set the select parameter as a nested object; profile(city) and profile/city both become { profile: { city: true } }
+   */
+  protected setSelect(query: InMemoryQueryOptions, select: Record<string, any>): void {
+    query.select = this.nestSelectObject(select);
+  }
+
+  /**
+   * Create a count query from a find query
+   * Count query should not include take, skip, select, orderBy
+   */
+  protected createCountQuery(findQuery: InMemoryQueryOptions): InMemoryQueryOptions {
+    const countQuery: InMemoryQueryOptions = {};
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return countQuery;
+  }
+
+  /**
+   * Filter, sort, page and project an array with built query options
+   */
+  private applyOptions<T>(rows: T[], query: InMemoryQueryOptions): any[] {
+    let result = query.where ? rows.filter(query.where) : [...rows];
+
+    if (query.orderBy) {
+      const orderBy = query.orderBy;
+      // Array.prototype.sort is stable, so rows with equal keys keep their input order
+      result = result.sort((left, right) => {
+        for (const { path, direction } of orderBy) {
+          const order = this.adapter.compare(this.adapter.getValue(left, path), this.adapter.getValue(right, path)) || 0;
+          if (order !== 0) {
+            return direction === 'desc' ? -order : order;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const skip = query.skip ?? 0;
+    result = result.slice(skip, query.take !== undefined ? skip + query.take : undefined);
+
+    const select = query.select;
+    return select ? result.map(row => this.project(row, select)) : result;
+  }
+
+  /**
+   * Split slash-separated select keys into nested objects, merging selections that share a prefix
+   */
+  private nestSelectObject(select: Record<string, any>, target: Record<string, any> = {}): Record<string, any> {
+    for (const [key, value] of Object.entries(select)) {
+      const path = key.split('/');
+      const last = path.pop() as string;
+      let node = target;
+      for (const segment of path) {
+        node = node[segment] = typeof node[segment] === 'object' ? node[segment] : {};
+      }
+
+      if (value === true) {
+        node[last] = true;
+      } else if (typeof value === 'object' && value !== null) {
+        node[last] = this.nestSelectObject(value, typeof node[last] === 'object' ? node[last] : {});
+      }
+    }
+    return target;
+  }
+
+  /**
+   * Copy the selected properties of a value; nested selections apply to each element of arrays
+   */
+  private project(value: any, select: Record<string, any>): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.project(item, select));
+    }
+    if (value == null || typeof value !== 'object') {
+      return value;
+    }
+
+    const projected: Record<string, any> = {};
+    for (const [key, nested] of Object.entries(select)) {
+      if (key in value) {
+        projected[key] = nested === true ? value[key] : this.project(value[key], nested);
+      }
+    }
+    return projected;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createInMemoryQuery(params: ODataQueryParams, options: ConversionOptions = {}): InMemoryQueryOptions {
+  const builder = new InMemoryQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createInMemoryPaginationQuery(params: ODataQueryParams, options: ConversionOptions = {}) {
+  const builder = new InMemoryQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
+
+/**
+ * Apply OData query parameters to an array
+ */
+export function applyInMemoryQuery<T>(rows: T[], params: ODataQueryParams, options: ConversionOptions = {}): any[] {
+  return new InMemoryQueryBuilder(options).apply(rows, params);
+}
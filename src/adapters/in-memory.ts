@@ -0,0 +1,319 @@
+/**
+ * In-Memory Adapter
+ * Compiles OData filters to JavaScript predicates for filtering arrays of objects
+ */
+
+import { BaseOrmAdapter, ConversionOptions } from './base';
+import {
+  FilterExpression,
+  FilterValue,
+  FilterCompare,
+  FilterCompareOperator,
+  FilterArithmeticOperator,
+  FilterCall,
+  FilterLambda,
+  FilterProperty
+} from '../types';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+/**
+ * Returns true when a row matches the filter; pass it to rows.filter(...)
+ */
+export type InMemoryPredicate<T = any> = (row: T) => boolean;
+
+/**
+ * The row being tested and the elements bound to any()/all() range variables
+ */
+interface EvaluationScope {
+  row: any;
+  variables: Record<string, any>;
+}
+
+type Evaluator = (scope: EvaluationScope) => any;
+
+const COMPARISONS: Record<FilterCompareOperator, (order: number) => boolean> = {
+  eq: order => order === 0,
+  ne: order => order !== 0,
+  gt: order => order > 0,
+  ge: order => order >= 0,
+  lt: order => order < 0,
+  le: order => order <= 0
+};
+
+const ARITHMETIC: Record<FilterArithmeticOperator, (left: number, right: number) => number> = {
+  add: (left, right) => left + right,
+  sub: (left, right) => left - right,
+  mul: (left, right) => left * right,
+  div: (left, right) => left / right,
+  mod: (left, right) => left % right
+};
+
+// OData functions with their parameter count; null arguments yield null
+const FUNCTIONS: Record<string, { evaluate: (args: any[], insensitive: boolean) => any }> = {
+  [ODataMethod.CONTAINS]: { evaluate: (args, insensitive) => caseFold(args, insensitive, (value, search) => value.includes(search)) },
+  [ODataMethod.STARTS_WITH]: { evaluate: (args, insensitive) => caseFold(args, insensitive, (value, search) => value.startsWith(search)) },
+  [ODataMethod.ENDS_WITH]: { evaluate: (args, insensitive) => caseFold(args, insensitive, (value, search) => value.endsWith(search)) },
+  [ODataMethod.INDEX_OF]: { evaluate: (args, insensitive) => caseFold(args, insensitive, (value, search) => value.indexOf(search)) },
+  [ODataMethod.TO_LOWER]: { evaluate: ([value]) => String(value).toLowerCase() },
+  [ODataMethod.TO_UPPER]: { evaluate: ([value]) => String(value).toUpperCase() },
+  [ODataMethod.TRIM]: { evaluate: ([value]) => String(value).trim() },
+  [ODataMethod.CONCAT]: { evaluate: ([left, right]) => `${left}${right}` },
+  [ODataMethod.LENGTH]: { evaluate: ([value]) => (Array.isArray(value) ? value : String(value)).length },
+  [ODataMethod.YEAR]: { evaluate: ([value]) => datePart(value, date => date.getUTCFullYear()) },
+  [ODataMethod.MONTH]: { evaluate: ([value]) => datePart(value, date => date.getUTCMonth() + 1) },
+  [ODataMethod.DAY]: { evaluate: ([value]) => datePart(value, date => date.getUTCDate()) },
+  [ODataMethod.ROUND]: { evaluate: ([value]) => Math.round(value) },
+  [ODataMethod.FLOOR]: { evaluate: ([value]) => Math.floor(value) },
+  [ODataMethod.CEILING]: { evaluate: ([value]) => Math.ceil(value) }
+};
+
+/**
+ * Apply a string function, lower-casing both arguments for case-insensitive matching
+ */
+function caseFold<R>(args: any[], insensitive: boolean, fn: (first: string, second: string) => R): R {
+  const [first, second] = args.map(arg => (insensitive ? String(arg).toLowerCase() : String(arg)));
+  return fn(first, second);
+}
+
+/**
+ * Read a Date from a Date or date string; null when it is not a valid date
+ */
+function toDate(value: any): Date | null {
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read a UTC date component; null when the value is not a valid date
+ */
+function datePart(value: any, part: (date: Date) => number): number | null {
+  const date = toDate(value);
+  return date ? part(date) : null;
+}
+
+export class InMemoryAdapter extends BaseOrmAdapter<InMemoryPredicate> {
+  constructor(options: ConversionOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Convert a filter expression to a predicate; a row matches only when the filter evaluates to true
+   * Usage: rows.filter(adapter.convert("age gt 18"))
+   */
+  convertExpression(expression: FilterExpression): InMemoryPredicate {
+    const evaluate = this.compileCondition(expression);
+    return row => evaluate({ row, variables: {} }) === true;
+  }
+
+  /**
+   * Create a predicate matching every row
+   */
+  protected createEmptyFilter(): InMemoryPredicate {
+    return () => true;
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'In-Memory';
+  }
+
+  /**
+   * Get supported features for in-memory evaluation
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Filters arrays of plain objects without a database',
+      'Basic comparisons (eq, ne, gt, ge, lt, le) on numbers, strings, booleans and dates',
+      'Logical operations (and, or, not)',
+      'String methods (contains, startswith, endswith, indexof, substringof)',
+      'Case sensitivity control',
+      'IN expressions',
+      'NULL checks',
+      'Nested property paths',
+      'Collection any()/all() filters',
+      'String, date and math functions',
+      'Arithmetic expressions'
+    ];
+  }
+
+  /**
+   * Read the value at a field path; navigating through a missing value yields undefined
+   */
+  getValue(row: any, path: string | string[]): any {
+    const segments = Array.isArray(path) ? path : path.split('/');
+    return segments.reduce((value, segment) => (value == null ? undefined : value[segment]), row);
+  }
+
+  /**
+   * Order two values: null/undefined sort first, dates by time, everything else with < and >
+   */
+  compare(left: any, right: any): number {
+    if (left == null || right == null) {
+      return left == null ? (right == null ? 0 : -1) : 1;
+    }
+
+    if (left instanceof Date || right instanceof Date) {
+      const leftTime = toDate(left)?.getTime() ?? NaN;
+      const rightTime = toDate(right)?.getTime() ?? NaN;
+      return leftTime < rightTime ? -1 : leftTime > rightTime ? 1 : leftTime === rightTime ? 0 : NaN;
+    }
+
+    return left < right ? -1 : left > right ? 1 : left === right ? 0 : NaN;
+  }
+
+  /**
+   * Compile a condition into an evaluator returning a boolean (or null when an operand is null)
+   */
+  private compileCondition(expression: FilterExpression): Evaluator {
+    switch (expression.node) {
+      case 'Compare':
+        return this.compileComparison(expression);
+
+      case 'Property':
+        // Bare boolean property (Active)
+        return this.compileProperty(expression);
+
+      case 'And': {
+        const operands = expression.operands.map(operand => this.compileCondition(operand));
+        return scope => operands.every(operand => operand(scope) === true);
+      }
+
+      case 'Or': {
+        const operands = expression.operands.map(operand => this.compileCondition(operand));
+        return scope => operands.some(operand => operand(scope) === true);
+      }
+
+      case 'Not': {
+        const inner = this.compileCondition(expression.operand);
+        return scope => inner(scope) !== true;
+      }
+
+      case 'In': {
+        const left = this.compileValue(expression.left);
+        const items = expression.values.map(item => item.value);
+        return scope => {
+          const value = left(scope);
+          return value != null && items.some(item => this.compare(value, item) === 0);
+        };
+      }
+
+      case 'Call':
+        return this.compileMethod(expression);
+
+      case 'Lambda':
+        return this.compileLambda(expression);
+    }
+  }
+
+  /**
+   * Compile a value: literals, properties, function calls and arithmetic
+   */
+  private compileValue(value: FilterValue): Evaluator {
+    switch (value.node) {
+      case 'Literal': {
+        const literal = value.value;
+        return () => literal;
+      }
+
+      case 'Property':
+        return this.compileProperty(value);
+
+      case 'Call':
+        return this.compileMethod(value);
+
+      case 'Arithmetic': {
+        const left = this.compileValue(value.left);
+        const right = this.compileValue(value.right);
+        const operate = ARITHMETIC[value.op];
+        return scope => {
+          const leftValue = left(scope);
+          const rightValue = right(scope);
+          return leftValue == null || rightValue == null ? null : operate(leftValue, rightValue);
+        };
+      }
+    }
+  }
+
+  /**
+   * Compile a comparison; only eq/ne match null, ordering comparisons with null are false
+   */
+  private compileComparison(expression: FilterCompare): Evaluator {
+    const { op } = expression;
+    const left = this.compileValue(expression.left);
+    const right = this.compileValue(expression.right);
+    const matches = COMPARISONS[op];
+
+    return scope => {
+      const leftValue = left(scope);
+      const rightValue = right(scope);
+      if ((leftValue == null || rightValue == null) && op !== 'eq' && op !== 'ne') {
+        return false;
+      }
+      return matches(this.compare(leftValue, rightValue));
+    };
+  }
+
+  /**
+   * Compile any()/all() over a collection of the row, or of an enclosing lambda's element (o/items/any(...));
+   * the element is bound to the range variable
+   */
+  private compileLambda(lambda: FilterLambda): Evaluator {
+    const { kind, path, variable, body } = lambda;
+    const getCollection = (scope: EvaluationScope) =>
+      this.getValue(variable !== undefined ? scope.variables[variable] : scope.row, path);
+
+    if (!body) {
+      // any() without predicate: the collection has at least one element
+      return scope => {
+        const collection = getCollection(scope);
+        return Array.isArray(collection) && collection.length > 0;
+      };
+    }
+
+    const test = this.compileCondition(body);
+    return scope => {
+      const collection = getCollection(scope);
+      if (!Array.isArray(collection)) {
+        return false;
+      }
+      const matches = (element: any) => test({ row: scope.row, variables: { ...scope.variables, [lambda.var!]: element } }) === true;
+      return kind === 'any' ? collection.some(matches) : collection.every(matches);
+    };
+  }
+
+  /**
+   * Compile a property path of the row, or of a lambda element when it starts with a range variable
+   */
+  private compileProperty(property: FilterProperty): Evaluator {
+    const { path, variable } = property;
+
+    if (variable) {
+      return scope => this.getValue(scope.variables[variable], path);
+    }
+    if (path.length === 0) {
+      throw new UnsupportedFeatureError('In-memory adapter cannot compare the row itself; filter on one of its properties', '$it');
+    }
+    return scope => this.getValue(scope.row, path);
+  }
+
+  /**
+   * Compile a function call; string predicates honour the caseSensitive option
+   */
+  private compileMethod(call: FilterCall): Evaluator {
+    const fn = FUNCTIONS[call.fn];
+
+    if (!fn) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${call.fn}`, call.fn);
+    }
+
+    const args = call.args.map(arg => this.compileValue(arg));
+    const insensitive = this.options.caseSensitive === false;
+    return scope => {
+      const values = args.map(arg => arg(scope));
+      return values.some(value => value == null) ? null : fn.evaluate(values, insensitive);
+    };
+  }
+}
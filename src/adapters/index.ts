@@ -4,7 +4,15 @@
 
 export { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
 export { PrismaAdapter, PrismaWhereClause } from './prisma';
-export { TypeOrmAdapter, TypeOrmWhereClause } from './typeorm';
-export { SequelizeAdapter, SequelizeWhereClause } from './sequelize';
+export { TypeOrmAdapter, TypeOrmWhereClause, TypeOrmWhere } from './typeorm';
+export { SequelizeAdapter, SequelizeAdapterOptions, SequelizeWhereClause } from './sequelize';
 export { MongooseAdapter, MongooseWhereClause } from './mongoose';
-export { AdapterFactory, SupportedOrmType } from './factory';
+export { SqlAdapter, SqlAdapterOptions, SqlWhereClause } from './sql';
+export { KnexAdapter, KnexAdapterOptions, KnexWhereModifier } from './knex';
+export { DrizzleAdapter, DrizzleAdapterOptions } from './drizzle';
+export { MikroOrmAdapter, MikroOrmWhereClause } from './mikro-orm';
+export { KyselyAdapter, KyselyAdapterOptions, KyselyWhereExpression } from './kysely';
+export { InMemoryAdapter, InMemoryPredicate } from './in-memory';
+export { ElasticsearchAdapter, ElasticsearchAdapterOptions, ElasticsearchQuery } from './elasticsearch';
+export { HasuraAdapter, HasuraBoolExp } from './hasura';
+export { AdapterFactory, SupportedOrmType, AdapterRegistration } from './factory';
@@ -0,0 +1,207 @@
+/**
+ * Knex Query Builder
+ * Apply OData query parameters onto a Knex query builder
+ */
+
+import type { Knex } from 'knex';
+import { ODataQueryParams } from '../types/odata-query';
+import { SchemaValidationOptions } from '../types/schema';
+import { KnexAdapter, KnexAdapterOptions, KnexWhereModifier } from './knex';
+import { BaseQueryBuilder } from './base-query-builder';
+import { SchemaValidator } from '../utils/schema-validator';
+import { validateFilterFieldPaths } from '../utils/filter-field-extractor';
+
+export interface KnexQueryBuilderOptions extends KnexAdapterOptions, SchemaValidationOptions {}
+
+export interface KnexQueryOptions {
+  where?: KnexWhereModifier;
+  limit?: number;
+  offset?: number;
+  orderBy?: Array<{ column: string; order: 'asc' | 'desc' }>;
+  select?: string[];
+  [key: string]: any;
+}
+
+export interface KnexPaginationBuilders {
+  findQuery: Knex.QueryBuilder;
+  countQuery: Knex.QueryBuilder;
+}
+
+export class KnexQueryBuilder extends BaseQueryBuilder<KnexQueryOptions> {
+  protected adapter: KnexAdapter;
+  private schemaOptions: SchemaValidationOptions;
+  private validator: SchemaValidator;
+
+  constructor(options: KnexQueryBuilderOptions = {}) {
+    const adapter = new KnexAdapter(options);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
+
+    this.schemaOptions = {
+      schema: options.schema,
+      allowAllFields: options.allowAllFields ?? true
+    };
+    this.validator = new SchemaValidator(options.schema);
+  }
+
+  /**
+   * Validate filter field paths against the schema when strict validation is enabled
+   */
+  protected validateQuery(params: ODataQueryParams): void {
+    if (params.$filter) {
+      validateFilterFieldPaths(params.$filter, this.schemaOptions);
+    }
+  }
+
+  /**
+   * Apply OData query parameters onto a Knex query builder
+   * Usage: await queryBuilder.apply(knex('users'), req.query)
+   */
+  apply(builder: Knex.QueryBuilder, params: ODataQueryParams): Knex.QueryBuilder {
+    return this.applyOptions(builder, this.buildQuery(params));
+  }
+
+  /**
+   * Apply OData query parameters onto clones of a Knex query builder for a page and its total count
+   */
+  applyPagination(builder: Knex.QueryBuilder, params: ODataQueryParams): KnexPaginationBuilders {
+    const { findQuery, countQuery } = this.buildPaginationQuery(params);
+    return {
+      findQuery: this.applyOptions(builder.clone(), findQuery),
+      countQuery: this.applyOptions(builder.clone(), countQuery).count({ count: '*' })
+    };
+  }
+
+  /**
+   * Create an empty Knex query object
+   */
+  protected createEmptyQuery(): KnexQueryOptions {
+    return {};
+  }
+
+  /**
+   * Set the limit parameter
+   */
+  protected setTake(query: KnexQueryOptions, take: number): void {
+    query.limit = take;
+  }
+
+  /**
+   * Set the offset parameter
+   */
+  protected setSkip(query: KnexQueryOptions, skip: number): void {
+    query.offset = skip;
+  }
+
+  /**
+   * Set the orderBy parameter in Knex format ({ column, order } entries with mapped columns)
+   */
+  protected setOrderBy(query: KnexQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.orderBy = Object.entries(orderBy).map(([field, order]) => {
+      this.validatePath(field, 'orderby');
+      return { column: this.adapter.resolveColumn(field), order };
+    });
+  }
+
+  /**
+   * Set the select parameter as mapped column names
+   * Nested selections (profile(city)) become qualified columns (profile.city)
+   */
+  protected setSelect(query: KnexQueryOptions, select: Record<string, any>): void {
+    const columns = this.flattenSelectObject(select, []).map(path => {
+      this.validatePath(path.join('/'), 'select');
+      return this.adapter.resolveColumn(path);
+    });
+    if (columns.length > 0) {
+      query.select = columns;
+    }
+  }
+
+  /**
+   * Create a count query from a find query
+   * Count query should not include limit, offset, select, orderBy
+   */
+  protected createCountQuery(findQuery: KnexQueryOptions): KnexQueryOptions {
+    const countQuery: KnexQueryOptions = {};
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return countQuery;
+  }
+
+  /**
+   * Apply built query options onto a Knex query builder
+   */
+  private applyOptions(builder: Knex.QueryBuilder, query: KnexQueryOptions): Knex.QueryBuilder {
+    if (query.where) {
+      builder.where(query.where);
+    }
+    if (query.select) {
+      builder.select(query.select);
+    }
+    if (query.orderBy) {
+      builder.orderBy(query.orderBy);
+    }
+    if (query.limit !== undefined) {
+      builder.limit(query.limit);
+    }
+    if (query.offset !== undefined) {
+      builder.offset(query.offset);
+    }
+    return builder;
+  }
+
+  /**
+   * Validate a field path against the schema when strict validation is enabled
+   */
+  private validatePath(field: string, operation: 'select' | 'orderby'): void {
+    if (this.validator.isStrictValidationEnabled(this.schemaOptions.allowAllFields)) {
+      this.validator.validateFieldPathStrict(field.split('/'), operation);
+    }
+  }
+
+  /**
+   * Helper method to flatten nested select objects into field paths
+   */
+  private flattenSelectObject(select: Record<string, any>, prefix: string[]): string[][] {
+    const paths: string[][] = [];
+
+    for (const [key, value] of Object.entries(select)) {
+      const path = [...prefix, ...key.split('/')];
+      if (value === true) {
+        paths.push(path);
+      } else if (typeof value === 'object' && value !== null) {
+        paths.push(...this.flattenSelectObject(value, path));
+      }
+    }
+
+    return paths;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createKnexQuery(params: ODataQueryParams, options: KnexQueryBuilderOptions = {}): KnexQueryOptions {
+  const builder = new KnexQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createKnexPaginationQuery(params: ODataQueryParams, options: KnexQueryBuilderOptions = {}) {
+  const builder = new KnexQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
+
+/**
+ * Apply OData query parameters onto a Knex query builder
+ */
+export function applyKnexQuery(
+  builder: Knex.QueryBuilder,
+  params: ODataQueryParams,
+  options: KnexQueryBuilderOptions = {}
+): Knex.QueryBuilder {
+  return new KnexQueryBuilder(options).apply(builder, params);
+}
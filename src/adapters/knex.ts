@@ -0,0 +1,316 @@
+/**
+ * Knex Adapter
+ * Converts OData filters to where modifiers applied onto a Knex query builder
+ */
+
+import type { Knex } from 'knex';
+import { BaseOrmAdapter, ConversionOptions } from './base';
+import { SqlAdapter, SqlWhereClause } from './sql';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { ODataMethod, SqlDialect } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface KnexAdapterOptions extends ConversionOptions {
+  /**
+   * Map OData field paths to database columns, e.g. { 'profile/city': 'profiles.city' }
+   * Unmapped paths use their segments joined with '.'
+   */
+  columnMap?: Record<string, string>;
+  /**
+   * Dialect used for functions rendered with whereRaw; detected from the query builder when omitted
+   */
+  dialect?: SqlDialect | `${SqlDialect}`;
+}
+
+/**
+ * Applies the filter onto a query builder; pass it to builder.where(...)
+ */
+export type KnexWhereModifier = (builder: Knex.QueryBuilder) => void;
+
+/**
+ * A compiled condition; `or` joins it to the previous condition with OR instead of AND
+ */
+type KnexCondition = (builder: Knex.QueryBuilder, or: boolean) => void;
+
+/**
+ * The part of a query builder that names its client's dialect
+ */
+interface KnexClientInfo {
+  client?: { dialect?: string };
+}
+
+const KNEX_OPERATORS: Record<FilterCompareOperator, string> = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  ge: '>=',
+  lt: '<',
+  le: '<='
+};
+
+// Knex client dialect names mapped to the SQL adapter dialects
+const KNEX_DIALECTS: Record<string, SqlDialect> = {
+  postgresql: SqlDialect.POSTGRES,
+  pg: SqlDialect.POSTGRES,
+  mysql: SqlDialect.MYSQL,
+  mysql2: SqlDialect.MYSQL,
+  sqlite3: SqlDialect.SQLITE,
+  'better-sqlite3': SqlDialect.SQLITE
+};
+
+/**
+ * SQL compiler emitting Knex raw bindings (?? for identifiers, ? for values)
+ */
+class KnexRawCompiler extends SqlAdapter {
+  constructor(options: KnexAdapterOptions, private readonly resolveColumn: (path: string[]) => string) {
+    super(options);
+  }
+
+  protected column(path: string[], values: any[]): string {
+    values.push(this.resolveColumn(path));
+    return '??';
+  }
+
+  protected bind(value: any, values: any[]): string {
+    values.push(value);
+    return '?';
+  }
+}
+
+export class KnexAdapter extends BaseOrmAdapter<KnexWhereModifier> {
+  private readonly columnMap: Record<string, string>;
+
+  constructor(options: KnexAdapterOptions = {}) {
+    super(options);
+    this.columnMap = options.columnMap ?? {};
+  }
+
+  /**
+   * Convert a filter expression to a where modifier
+   * Top-level AND operands are applied directly since builder.where(fn) already groups them
+   * Usage: knex('users').where(adapter.convert("age gt 18"))
+   */
+  convertExpression(expression: FilterExpression): KnexWhereModifier {
+    const operands = expression.node === 'And' ? expression.operands : [expression];
+    const conditions = operands.map(operand => this.compile(operand));
+    return builder => conditions.forEach(condition => condition(builder, false));
+  }
+
+  /**
+   * Create a where modifier that adds no conditions
+   */
+  protected createEmptyFilter(): KnexWhereModifier {
+    return () => {};
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'Knex';
+  }
+
+  /**
+   * Get supported features for Knex
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Applies filters onto a supplied Knex query builder',
+      'Basic comparisons (where with =, <>, >, >=, <, <=)',
+      'Logical operations (where/orWhere/whereNot groups)',
+      'String methods (whereLike, whereILike)',
+      'Case sensitivity control (whereILike)',
+      'IN expressions (whereIn)',
+      'NULL checks (whereNull, whereNotNull)',
+      'Column mapping for filter, orderBy and select',
+      'Date, math and length functions (whereRaw)',
+      'Arithmetic expressions (whereRaw)'
+    ];
+  }
+
+  /**
+   * Resolve an OData field path to a database column using the column map
+   */
+  resolveColumn(path: string | string[]): string {
+    const segments = Array.isArray(path) ? path : path.split('/');
+    const key = segments.join('/');
+    return this.columnMap[key] ?? segments.join('.');
+  }
+
+  /**
+   * Compile a condition
+   */
+  private compile(expression: FilterExpression): KnexCondition {
+    switch (expression.node) {
+      case 'Compare':
+        return this.compileComparison(expression);
+
+      case 'Property': {
+        // Bare boolean column (Active)
+        const column = this.resolveColumn(expression.path);
+        return (builder, or) => {
+          or ? builder.orWhere(column, true) : builder.where(column, true);
+        };
+      }
+
+      case 'And': {
+        const conditions = expression.operands.map(operand => this.compile(operand));
+        return (builder, or) => {
+          const group = (sub: Knex.QueryBuilder) => conditions.forEach(condition => condition(sub, false));
+          or ? builder.orWhere(group) : builder.where(group);
+        };
+      }
+
+      case 'Or': {
+        const conditions = expression.operands.map(operand => this.compile(operand));
+        return (builder, or) => {
+          const group = (sub: Knex.QueryBuilder) => conditions.forEach(condition => condition(sub, true));
+          or ? builder.orWhere(group) : builder.where(group);
+        };
+      }
+
+      case 'Not': {
+        const inner = this.compile(expression.operand);
+        return (builder, or) => {
+          const group = (sub: Knex.QueryBuilder) => inner(sub, false);
+          or ? builder.orWhereNot(group) : builder.whereNot(group);
+        };
+      }
+
+      case 'In': {
+        const column = this.resolveColumn(propertyPath(expression.left));
+        const items = expression.values.map(item => item.value);
+        return (builder, or) => {
+          or ? builder.orWhereIn(column, items) : builder.whereIn(column, items);
+        };
+      }
+
+      case 'Call':
+        return this.compileMethod(expression);
+
+      case 'Lambda':
+        throw new UnsupportedFeatureError(
+          `Knex adapter cannot express ${expression.kind}() on '${expression.path.join('/')}'; use a join or whereExists subquery`,
+          `${expression.kind}()`
+        );
+    }
+  }
+
+  /**
+   * Compile a comparison; column-to-literal comparisons use where/whereNull, anything else whereRaw
+   */
+  private compileComparison(expression: FilterCompare): KnexCondition {
+    const { op, left, right } = expression;
+
+    if (left.node !== 'Property' || right.node !== 'Literal') {
+      return this.compileRaw(expression);
+    }
+
+    const column = this.resolveColumn(left.path);
+    const value = right.value;
+
+    if (value === null) {
+      if (op === 'eq') {
+        return (builder, or) => {
+          or ? builder.orWhereNull(column) : builder.whereNull(column);
+        };
+      }
+      if (op === 'ne') {
+        return (builder, or) => {
+          or ? builder.orWhereNotNull(column) : builder.whereNotNull(column);
+        };
+      }
+      throw new UnsupportedFeatureError(`Unsupported null comparison: ${op}`, 'null');
+    }
+
+    const operator = KNEX_OPERATORS[op];
+    return (builder, or) => {
+      or ? builder.orWhere(column, operator, value) : builder.where(column, operator, value);
+    };
+  }
+
+  /**
+   * Compile a string predicate (contains, startswith, endswith) into whereLike/whereILike, or whereRaw on SQLite
+   */
+  private compileMethod(call: FilterCall): KnexCondition {
+    const { fn, args } = call;
+    if (fn !== ODataMethod.CONTAINS && fn !== ODataMethod.STARTS_WITH && fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${fn}`, fn);
+    }
+
+    if (args[1].node !== 'Literal') {
+      throw new UnsupportedFeatureError(`${fn} requires a literal search value`, fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const column = this.resolveColumn(propertyPath(field));
+    const search = escapeLikePattern(literalValue(args[1]));
+    const pattern = fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    return (builder, or) => {
+      // SQLite LIKE has no default escape character, so name it like the SQL adapter does
+      if (this.builderDialect(builder) === SqlDialect.SQLITE) {
+        const text = insensitive ? "LOWER(??) LIKE ? ESCAPE '\\'" : "?? LIKE ? ESCAPE '\\'";
+        const values = [column, insensitive ? pattern.toLowerCase() : pattern];
+        or ? builder.orWhereRaw(text, values) : builder.whereRaw(text, values);
+      } else if (insensitive) {
+        or ? builder.orWhereILike(column, pattern) : builder.whereILike(column, pattern);
+      } else {
+        or ? builder.orWhereLike(column, pattern) : builder.whereLike(column, pattern);
+      }
+    };
+  }
+
+  /**
+   * Compile functions and arithmetic into whereRaw, rendered for the builder's dialect
+   */
+  private compileRaw(expression: FilterCompare): KnexCondition {
+    // Every dialect supports the same functions, so compiling once validates the expression up front
+    this.renderRaw(expression, SqlDialect.POSTGRES);
+
+    return (builder, or) => {
+      const { text, values } = this.renderRaw(expression, this.detectDialect(builder));
+      or ? builder.orWhereRaw(text, values) : builder.whereRaw(text, values);
+    };
+  }
+
+  /**
+   * Render an expression as Knex raw SQL with ?? identifier and ? value bindings
+   */
+  private renderRaw(expression: FilterExpression, dialect: SqlDialect): SqlWhereClause {
+    const compiler = new KnexRawCompiler({ ...this.options, dialect }, path => this.resolveColumn(path));
+    return compiler.convertExpression(expression);
+  }
+
+  /**
+   * Use the configured dialect, or the one of the query builder's client
+   */
+  private detectDialect(builder: Knex.QueryBuilder): SqlDialect {
+    const dialect = this.builderDialect(builder);
+    if (!dialect) {
+      throw new Error(
+        `Unsupported Knex dialect for functions: ${(builder as KnexClientInfo).client?.dialect}. Set the dialect option to one of: ${Object.values(SqlDialect).join(', ')}`
+      );
+    }
+    return dialect;
+  }
+
+  /**
+   * The configured dialect, or the one of the query builder's client when it is known
+   */
+  private builderDialect(builder: Knex.QueryBuilder): SqlDialect | undefined {
+    if (this.options.dialect) {
+      return this.options.dialect as SqlDialect;
+    }
+
+    const clientDialect = (builder as KnexClientInfo).client?.dialect;
+    return clientDialect ? KNEX_DIALECTS[clientDialect] : undefined;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Kysely Query Builder
+ * Apply OData query parameters onto a Kysely SelectQueryBuilder
+ */
+
+import type { SelectQueryBuilder } from 'kysely';
+import { ODataQueryParams } from '../types/odata-query';
+import { SchemaValidationOptions } from '../types/schema';
+import { KyselyAdapter, KyselyAdapterOptions, KyselyWhereExpression } from './kysely';
+import { BaseQueryBuilder } from './base-query-builder';
+import { SchemaValidator } from '../utils/schema-validator';
+import { validateFilterFieldPaths } from '../utils/filter-field-extractor';
+import { parseNestedSelect } from '../utils/nested-parser';
+
+export interface KyselyQueryBuilderOptions extends KyselyAdapterOptions, SchemaValidationOptions {}
+
+export interface KyselyQueryOptions {
+  where?: KyselyWhereExpression;
+  limit?: number;
+  offset?: number;
+  orderBy?: Array<{ column: string; direction: 'asc' | 'desc' }>;
+  select?: string[];
+  [key: string]: any;
+}
+
+export interface KyselyPaginationBuilders<DB, TB extends keyof DB> {
+  findQuery: SelectQueryBuilder<DB, TB, any>;
+  countQuery: SelectQueryBuilder<DB, TB, { count: string | number | bigint }>;
+}
+
+export class KyselyQueryBuilder extends BaseQueryBuilder<KyselyQueryOptions> {
+  protected adapter: KyselyAdapter;
+  private schemaOptions: SchemaValidationOptions;
+  private validator: SchemaValidator;
+
+  constructor(options: KyselyQueryBuilderOptions = {}) {
+    const adapter = new KyselyAdapter(options);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
+
+    this.schemaOptions = {
+      schema: options.schema,
+      allowAllFields: options.allowAllFields ?? true
+    };
+    this.validator = new SchemaValidator(options.schema);
+  }
+
+  /**
+   * Validate filter field paths against the schema when strict validation is enabled
+   */
+  protected validateQuery(params: ODataQueryParams): void {
+    if (params.$filter) {
+      validateFilterFieldPaths(params.$filter, this.schemaOptions);
+    }
+  }
+
+  /**
+   * Parse $select with parseNestedSelect, so nested selections become qualified columns
+   */
+  protected parseSelectOption(select: string): Record<string, any> {
+    return parseNestedSelect(select, this.schemaOptions);
+  }
+
+  /**
+   * Apply OData query parameters onto a Kysely select query
+   * Usage: await queryBuilder.apply(db.selectFrom('users'), req.query).execute()
+   */
+  apply<DB, TB extends keyof DB, O>(builder: SelectQueryBuilder<DB, TB, O>, params: ODataQueryParams): SelectQueryBuilder<DB, TB, any> {
+    return this.applyOptions(builder, this.buildQuery(params));
+  }
+
+  /**
+   * Apply OData query parameters onto a Kysely select query for a page and its total count
+   */
+  applyPagination<DB, TB extends keyof DB, O>(
+    builder: SelectQueryBuilder<DB, TB, O>,
+    params: ODataQueryParams
+  ): KyselyPaginationBuilders<DB, TB> {
+    const { findQuery, countQuery } = this.buildPaginationQuery(params);
+    return {
+      findQuery: this.applyOptions(builder, findQuery),
+      countQuery: this.applyOptions(builder, countQuery)
+        .clearSelect()
+        .clearOrderBy()
+        .select(eb => eb.fn.countAll().as('count')) as KyselyPaginationBuilders<DB, TB>['countQuery']
+    };
+  }
+
+  /**
+   * Create an empty Kysely query object
+   */
+  protected createEmptyQuery(): KyselyQueryOptions {
+    return {};
+  }
+
+  /**
+   * Set the limit parameter
+   */
+  protected setTake(query: KyselyQueryOptions, take: number): void {
+    query.limit = take;
+  }
+
+  /**
+   * Set the offset parameter
+   */
+  protected setSkip(query: KyselyQueryOptions, skip: number): void {
+    query.offset = skip;
+  }
+
+  /**
+   * Set the orderBy parameter as { column, direction } entries with allow-listed columns
+   */
+  protected setOrderBy(query: KyselyQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.orderBy = Object.entries(orderBy).map(([field, direction]) => {
+      this.validatePath(field, 'orderby');
+      return { column: this.adapter.resolveColumn(field), direction };
+    });
+  }
+
+  /**
+   * Set the select parameter as allow-listed column references
+   * Nested selections (profile(city)) become qualified columns (profile.city)
+   */
+  protected setSelect(query: KyselyQueryOptions, select: Record<string, any>): void {
+    const columns = this.flattenSelectObject(select, []).map(path => {
+      this.validatePath(path.join('/'), 'select');
+      return this.adapter.resolveColumn(path);
+    });
+    if (columns.length > 0) {
+      query.select = columns;
+    }
+  }
+
+  /**
+   * Create a count query from a find query
+   * Count query should not include limit, offset, select, orderBy
+   */
+  protected createCountQuery(findQuery: KyselyQueryOptions): KyselyQueryOptions {
+    const countQuery: KyselyQueryOptions = {};
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return countQuery;
+  }
+
+  /**
+   * Apply built query options onto a Kysely select query
+   */
+  private applyOptions<DB, TB extends keyof DB, O>(
+    builder: SelectQueryBuilder<DB, TB, O>,
+    query: KyselyQueryOptions
+  ): SelectQueryBuilder<DB, TB, any> {
+    // Column references are dynamic, so the builder is typed loosely while applying them
+    let result = builder as SelectQueryBuilder<any, any, any>;
+
+    if (query.where) {
+      result = result.where(query.where);
+    }
+    if (query.select) {
+      result = result.select(query.select);
+    }
+    for (const { column, direction } of query.orderBy ?? []) {
+      result = result.orderBy(column, direction);
+    }
+    if (query.limit !== undefined) {
+      result = result.limit(query.limit);
+    }
+    if (query.offset !== undefined) {
+      result = result.offset(query.offset);
+    }
+    return result;
+  }
+
+  /**
+   * Validate a field path against the schema when strict validation is enabled
+   */
+  private validatePath(field: string, operation: 'select' | 'orderby'): void {
+    if (this.validator.isStrictValidationEnabled(this.schemaOptions.allowAllFields)) {
+      this.validator.validateFieldPathStrict(field.split('/'), operation);
+    }
+  }
+
+  /**
+   * Helper method to flatten nested select objects into field paths
+   */
+  private flattenSelectObject(select: Record<string, any>, prefix: string[]): string[][] {
+    const paths: string[][] = [];
+
+    for (const [key, value] of Object.entries(select)) {
+      const path = [...prefix, ...key.split('/')];
+      if (value === true) {
+        paths.push(path);
+      } else if (typeof value === 'object' && value !== null) {
+        paths.push(...this.flattenSelectObject(value, path));
+      }
+    }
+
+    return paths;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createKyselyQuery(params: ODataQueryParams, options: KyselyQueryBuilderOptions = {}): KyselyQueryOptions {
+  const builder = new KyselyQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createKyselyPaginationQuery(params: ODataQueryParams, options: KyselyQueryBuilderOptions = {}) {
+  const builder = new KyselyQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
+
+/**
+ * Apply OData query parameters onto a Kysely select query
+ */
+export function applyKyselyQuery<DB, TB extends keyof DB, O>(
+  builder: SelectQueryBuilder<DB, TB, O>,
+  params: ODataQueryParams,
+  options: KyselyQueryBuilderOptions = {}
+): SelectQueryBuilder<DB, TB, any> {
+  return new KyselyQueryBuilder(options).apply(builder, params);
+}
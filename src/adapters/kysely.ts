@@ -0,0 +1,276 @@
+/**
+ * Kysely Adapter
+ * Converts OData filters to where(eb => ...) expressions for a Kysely SelectQueryBuilder
+ */
+
+import type * as Kysely from 'kysely';
+import { BaseOrmAdapter, ConversionOptions } from './base';
+import { SqlAdapter } from './sql';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { loadOptionalDependency } from '../utils/optional-dependency';
+import { ODataMethod, SqlDialect } from '../enums';
+import { SchemaValidationError, UnsupportedFeatureError } from '../errors';
+
+export interface KyselyAdapterOptions extends ConversionOptions {
+  /**
+   * Column references the query may use, e.g. ['id', 'name', 'profile.city']
+   * Field paths map to references by joining segments with '.'; any other field is rejected
+   */
+  columns?: readonly string[];
+  /**
+   * Dialect used for functions and case-insensitive matching (defaults to postgres)
+   */
+  dialect?: SqlDialect | `${SqlDialect}`;
+}
+
+/**
+ * Builds the filter from an expression builder; pass it to query.where(...)
+ */
+export type KyselyWhereExpression = (eb: Kysely.ExpressionBuilder<any, any>) => Kysely.Expression<Kysely.SqlBool>;
+
+const KYSELY_OPERATORS: Record<FilterCompareOperator, Kysely.ComparisonOperator> = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  ge: '>=',
+  lt: '<',
+  le: '<='
+};
+
+// Marks where a column or parameter goes in SQL rendered by KyselyRawCompiler
+const CHUNK_MARKER = '\u0000';
+
+/**
+ * SQL compiler collecting columns and parameters as Kysely raw builders
+ */
+class KyselyRawCompiler extends SqlAdapter {
+  constructor(
+    options: KyselyAdapterOptions,
+    private readonly resolveColumn: (path: string[]) => string,
+    private readonly kysely: typeof Kysely
+  ) {
+    super(options);
+  }
+
+  protected column(path: string[], values: any[]): string {
+    values.push(this.kysely.sql.ref(this.resolveColumn(path)));
+    return CHUNK_MARKER;
+  }
+
+  protected bind(value: any, values: any[]): string {
+    values.push(this.kysely.sql.val(value));
+    return CHUNK_MARKER;
+  }
+}
+
+export class KyselyAdapter extends BaseOrmAdapter<KyselyWhereExpression> {
+  private kysely?: typeof Kysely;
+  private readonly dialect: SqlDialect;
+
+  constructor(options: KyselyAdapterOptions = {}) {
+    super(options);
+    this.dialect = (options.dialect ?? SqlDialect.POSTGRES) as SqlDialect;
+
+    if (!Object.values(SqlDialect).includes(this.dialect)) {
+      throw new Error(`Unsupported SQL dialect: ${options.dialect}. Supported dialects: ${Object.values(SqlDialect).join(', ')}`);
+    }
+  }
+
+  /**
+   * Convert a filter expression to a where expression
+   * Columns are resolved while converting, so references outside the allow-list fail up front
+   * Usage: db.selectFrom('users').selectAll().where(adapter.convert("age gt 18"))
+   */
+  convertExpression(expression: FilterExpression): KyselyWhereExpression {
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression);
+
+      case 'Property': {
+        // Bare boolean column (Active)
+        const column = this.resolveColumn(expression.path);
+        return eb => eb(column, '=', true);
+      }
+
+      case 'And': {
+        const conditions = expression.operands.map(operand => this.convertExpression(operand));
+        return eb => eb.and(conditions.map(condition => condition(eb)));
+      }
+
+      case 'Or': {
+        const conditions = expression.operands.map(operand => this.convertExpression(operand));
+        return eb => eb.or(conditions.map(condition => condition(eb)));
+      }
+
+      case 'Not': {
+        const inner = this.convertExpression(expression.operand);
+        return eb => eb.not(inner(eb));
+      }
+
+      case 'In': {
+        const column = this.resolveColumn(propertyPath(expression.left));
+        const items = expression.values.map(item => item.value);
+        return eb => eb(column, 'in', items);
+      }
+
+      case 'Call':
+        return this.buildMethod(expression);
+
+      case 'Lambda':
+        throw new UnsupportedFeatureError(
+          `Kysely adapter cannot express ${expression.kind}() on '${expression.path.join('/')}'; use a join or exists() subquery`,
+          `${expression.kind}()`
+        );
+    }
+  }
+
+  /**
+   * Create a where expression matching every row
+   */
+  protected createEmptyFilter(): KyselyWhereExpression {
+    return eb => eb.and([]);
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'Kysely';
+  }
+
+  /**
+   * Get supported features for Kysely
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Applies filters onto a supplied Kysely SelectQueryBuilder',
+      'Basic comparisons (=, <>, >, >=, <, <=)',
+      'Logical operations (eb.and, eb.or, eb.not)',
+      'String methods (like, ilike)',
+      'Case sensitivity control',
+      'IN expressions',
+      'NULL checks (is, is not)',
+      'Column allow-list for filter, orderBy and select',
+      'Date, math and length functions (sql template)',
+      'Arithmetic expressions (sql template)'
+    ];
+  }
+
+  /**
+   * Resolve an OData field path to a column reference, enforcing the column allow-list
+   */
+  resolveColumn(path: string | string[]): string {
+    const segments = Array.isArray(path) ? path : path.split('/');
+    const column = segments.join('.');
+    const allowed = (this.options as KyselyAdapterOptions).columns;
+
+    if (allowed && !allowed.includes(column)) {
+      throw new SchemaValidationError(`Column '${segments.join('/')}' is not allowed. Allowed columns: ${allowed.join(', ')}`, segments.join('/'));
+    }
+    return column;
+  }
+
+  /**
+   * Lazily load Kysely so it stays an optional dependency
+   */
+  private get ops(): typeof Kysely {
+    if (!this.kysely) {
+      this.kysely = loadOptionalDependency<typeof Kysely>('kysely', 'Kysely');
+    }
+    return this.kysely;
+  }
+
+  /**
+   * Build a comparison; column-to-value and column-to-column comparisons use eb(...), anything else sql
+   */
+  private buildComparison(expression: FilterCompare): KyselyWhereExpression {
+    const { op, left, right } = expression;
+
+    if (left.node !== 'Property' || (right.node !== 'Literal' && right.node !== 'Property')) {
+      return this.buildRaw(expression);
+    }
+
+    const column = this.resolveColumn(left.path);
+
+    if (right.node === 'Property') {
+      const other = this.resolveColumn(right.path);
+      return eb => eb(column, KYSELY_OPERATORS[op], eb.ref(other));
+    }
+
+    const value = right.value;
+    if (value === null) {
+      if (op === 'eq') {
+        return eb => eb(column, 'is', null);
+      }
+      if (op === 'ne') {
+        return eb => eb(column, 'is not', null);
+      }
+      throw new UnsupportedFeatureError(`Unsupported null comparison: ${op}`, 'null');
+    }
+
+    const operator = KYSELY_OPERATORS[op];
+    return eb => eb(column, operator, value);
+  }
+
+  /**
+   * Build a string predicate (contains, startswith, endswith) with like/ilike
+   */
+  private buildMethod(call: FilterCall): KyselyWhereExpression {
+    const { fn, args } = call;
+    if (fn !== ODataMethod.CONTAINS && fn !== ODataMethod.STARTS_WITH && fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${fn}`, fn);
+    }
+
+    if (args[1].node !== 'Literal') {
+      throw new UnsupportedFeatureError(`${fn} requires a literal search value`, fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const column = this.resolveColumn(propertyPath(field));
+    const search = escapeLikePattern(literalValue(args[1]));
+    const pattern = fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    switch (this.dialect) {
+      case SqlDialect.POSTGRES:
+        return eb => eb(column, insensitive ? 'ilike' : 'like', pattern);
+      case SqlDialect.SQLITE: {
+        // SQLite LIKE has no default escape character
+        const { sql } = this.ops;
+        return insensitive
+          ? () => sql<Kysely.SqlBool>`lower(${sql.ref(column)}) like ${pattern.toLowerCase()} escape '\\'`
+          : () => sql<Kysely.SqlBool>`${sql.ref(column)} like ${pattern} escape '\\'`;
+      }
+      default:
+        return insensitive
+          ? eb => eb(eb.fn('lower', [eb.ref(column)]), 'like', pattern.toLowerCase())
+          : eb => eb(column, 'like', pattern);
+    }
+  }
+
+  /**
+   * Build functions and arithmetic with the sql template, rendered for the configured dialect
+   */
+  private buildRaw(expression: FilterCompare): KyselyWhereExpression {
+    const { sql } = this.ops;
+    const compiler = new KyselyRawCompiler({ ...this.options, dialect: this.dialect }, path => this.resolveColumn(path), this.ops);
+
+    const chunks: unknown[] = [];
+    const { text, values } = compiler.convertExpression(expression);
+    text.split(CHUNK_MARKER).forEach((part, index) => {
+      chunks.push(sql.raw(part));
+      if (index < values.length) {
+        chunks.push(values[index]);
+      }
+    });
+
+    const condition = sql.join<Kysely.SqlBool>(chunks, sql.raw(''));
+    return () => condition;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * MikroORM Query Builder
+ * Build MikroORM FilterQuery and FindOptions from OData query parameters
+ */
+
+import { ODataQueryParams } from '../types/odata-query';
+import { MikroOrmAdapter, MikroOrmWhereClause } from './mikro-orm';
+import { BaseQueryBuilder } from './base-query-builder';
+import { ConversionOptions } from './base';
+import { buildNestedWhere } from '../utils/field-path';
+
+export interface MikroOrmQueryOptions {
+  where?: MikroOrmWhereClause;
+  limit?: number;
+  offset?: number;
+  orderBy?: Array<Record<string, any>>;
+  fields?: string[];
+  populate?: string[];
+  [key: string]: any;
+}
+
+export class MikroOrmQueryBuilder extends BaseQueryBuilder<MikroOrmQueryOptions> {
+  constructor(options: ConversionOptions = {}) {
+    const adapter = new MikroOrmAdapter(options);
+    super(adapter, options.limits, options.search);
+  }
+
+  /**
+   * Create an empty MikroORM query object
+   */
+  protected createEmptyQuery(): MikroOrmQueryOptions {
+    return {};
+  }
+
+  /**
+   * Set the limit parameter
+   */
+  protected setTake(query: MikroOrmQueryOptions, take: number): void {
+    query.limit = take;
+  }
+
+  /**
+   * Set the offset parameter
+   */
+  protected setSkip(query: MikroOrmQueryOptions, skip: number): void {
+    query.offset = skip;
+  }
+
+  /**
+   * Set the orderBy parameter in MikroORM format
+   * One entry per field keeps the sort priority when relation and own properties are mixed
+   */
+  protected setOrderBy(query: MikroOrmQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.orderBy = Object.entries(orderBy).map(([field, direction]) => buildNestedWhere(field.split('/'), direction));
+  }
+
+  /**
+   * Set fields (dot notation) and populate the relations they reach into
+   */
+  protected setSelect(query: MikroOrmQueryOptions, select: Record<string, any>): void {
+    const paths = this.flattenSelectObject(select, []);
+    if (paths.length === 0) {
+      return;
+    }
+
+    query.fields = paths.map(path => path.join('.'));
+
+    const relations = new Set<string>();
+    for (const path of paths) {
+      for (let i = 1; i < path.length; i++) {
+        relations.add(path.slice(0, i).join('.'));
+      }
+    }
+    if (relations.size > 0) {
+      query.populate = [...relations];
+    }
+  }
+
+  /**
+   * Create a count query from a find query
+   * Count query should not include limit, offset, fields, populate, orderBy
+   */
+  protected createCountQuery(findQuery: MikroOrmQueryOptions): MikroOrmQueryOptions {
+    const countQuery: MikroOrmQueryOptions = {};
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return countQuery;
+  }
+
+  /**
+   * Helper method to flatten nested select objects into field paths
+   */
+  private flattenSelectObject(select: Record<string, any>, prefix: string[]): string[][] {
+    const paths: string[][] = [];
+
+    for (const [key, value] of Object.entries(select)) {
+      const path = [...prefix, ...key.split('/')];
+      if (value === true) {
+        paths.push(path);
+      } else if (typeof value === 'object' && value !== null) {
+        paths.push(...this.flattenSelectObject(value, path));
+      }
+    }
+
+    return paths;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createMikroOrmQuery(params: ODataQueryParams, options: ConversionOptions = {}): MikroOrmQueryOptions {
+  const builder = new MikroOrmQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createMikroOrmPaginationQuery(params: ODataQueryParams, options: ConversionOptions = {}) {
+  const builder = new MikroOrmQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
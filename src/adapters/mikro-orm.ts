@@ -0,0 +1,214 @@
+/**
+ * MikroORM Adapter
+ * Converts OData filters to MikroORM FilterQuery objects
+ */
+
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall, FilterLambda } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { buildNestedWhere } from '../utils/field-path';
+import { normalizeComparison, booleanComparison, propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface MikroOrmWhereClause extends WhereClause {
+  $and?: MikroOrmWhereClause[];
+  $or?: MikroOrmWhereClause[];
+  $not?: MikroOrmWhereClause;
+}
+
+const COMPARISON_OPERATORS: Record<FilterCompareOperator, string> = {
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  ge: '$gte',
+  lt: '$lt',
+  le: '$lte'
+};
+
+export class MikroOrmAdapter extends BaseOrmAdapter<MikroOrmWhereClause> {
+  constructor(options: ConversionOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Convert a filter expression to MikroORM FilterQuery
+   */
+  convertExpression(expression: FilterExpression): MikroOrmWhereClause {
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression);
+
+      case 'Property':
+        // Bare boolean property (Active)
+        return this.buildComparison(booleanComparison(expression));
+
+      case 'And':
+        return { $and: expression.operands.map(operand => this.convertExpression(operand)) };
+
+      case 'Or':
+        return { $or: expression.operands.map(operand => this.convertExpression(operand)) };
+
+      case 'Not':
+        return { $not: this.convertExpression(expression.operand) };
+
+      case 'In':
+        return this.leaf(propertyPath(expression.left), { $in: expression.values.map(item => item.value) });
+
+      case 'Call':
+        return this.buildMethod(expression);
+
+      case 'Lambda':
+        return this.buildLambda(expression);
+    }
+  }
+
+  /**
+   * Empty filter matches every entity
+   */
+  protected createEmptyFilter(): MikroOrmWhereClause {
+    return {};
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'MikroORM';
+  }
+
+  /**
+   * Get supported features for MikroORM
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Basic comparisons ($eq, $ne, $gt, $gte, $lt, $lte)',
+      'Logical operations ($and, $or, $not)',
+      'String methods via $like/$ilike',
+      'Case sensitivity control',
+      'IN expressions ($in)',
+      'NULL checks',
+      'Nested relation objects',
+      'Collection any()/all() filters ($some, $every)',
+      'Year filtering',
+      'Arithmetic comparisons'
+    ];
+  }
+
+  /**
+   * Build $some/$every filters for any()/all() lambdas on a collection relation
+   */
+  private buildLambda(lambda: FilterLambda): MikroOrmWhereClause {
+    if (!lambda.body) {
+      // any() without predicate: the collection has at least one element
+      return buildNestedWhere(lambda.path, { $some: {} });
+    }
+
+    return buildNestedWhere(lambda.path, { [lambda.kind === 'any' ? '$some' : '$every']: this.convertExpression(lambda.body) });
+  }
+
+  /**
+   * Build a comparison condition
+   */
+  private buildComparison(expression: FilterCompare): MikroOrmWhereClause {
+    // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+    const { op, left, right } = normalizeComparison(expression);
+    const value = literalValue(right);
+
+    if (left.node === 'Call') {
+      return this.buildFunctionComparison(op, left, value);
+    }
+
+    return this.leaf(propertyPath(left), { [COMPARISON_OPERATORS[op]]: value });
+  }
+
+  /**
+   * Handle function calls on the left side of a comparison
+   */
+  private buildFunctionComparison(op: FilterCompareOperator, left: FilterCall, value: any): MikroOrmWhereClause {
+    const { fn, args } = left;
+
+    switch (fn) {
+      case ODataMethod.YEAR: {
+        const path = propertyPath(args[0]);
+        const start = new Date(Date.UTC(value, 0, 1));
+        const end = new Date(Date.UTC(value + 1, 0, 1));
+        const ranges: Record<FilterCompareOperator, MikroOrmWhereClause> = {
+          eq: this.leaf(path, { $gte: start, $lt: end }),
+          ne: { $or: [this.leaf(path, { $lt: start }), this.leaf(path, { $gte: end })] },
+          gt: this.leaf(path, { $gte: end }),
+          ge: this.leaf(path, { $gte: start }),
+          lt: this.leaf(path, { $lt: start }),
+          le: this.leaf(path, { $lt: end })
+        };
+        return ranges[op];
+      }
+
+      case ODataMethod.TO_LOWER:
+      case ODataMethod.TO_UPPER: {
+        const condition = this.leaf(propertyPath(args[0]), { $ilike: escapeLikePattern(value) });
+        if (op === 'eq') {
+          return condition;
+        }
+        if (op === 'ne') {
+          return { $not: condition };
+        }
+        throw new UnsupportedFeatureError(`Unsupported ${fn} comparison: ${op}`, fn);
+      }
+
+      case ODataMethod.INDEX_OF: {
+        // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+        const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+        if (op === 'ge' && value === 0) {
+          return this.buildMethod(contains);
+        }
+        if (op === 'eq' && value === -1) {
+          return { $not: this.buildMethod(contains) };
+        }
+        throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+      }
+
+      case ODataMethod.MONTH:
+      case ODataMethod.DAY:
+      case ODataMethod.LENGTH:
+      case ODataMethod.ROUND:
+      case ODataMethod.FLOOR:
+      case ODataMethod.CEILING:
+        throw new UnsupportedFeatureError(`Function ${fn} requires raw SQL. Use MikroORM's raw() helper or a QueryBuilder`, fn);
+
+      default:
+        throw new UnsupportedFeatureError(`Unsupported function in comparison: ${fn}`, fn);
+    }
+  }
+
+  /**
+   * Build a string method condition (contains, startswith, endswith) with $like/$ilike
+   */
+  private buildMethod(call: FilterCall): MikroOrmWhereClause {
+    const { fn, args } = call;
+    if (fn !== ODataMethod.CONTAINS && fn !== ODataMethod.STARTS_WITH && fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${fn}`, fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const field = unwrapCaseFunction(args[0]);
+    const insensitive = field.caseInsensitive || this.options.caseSensitive === false;
+
+    const search = escapeLikePattern(literalValue(args[1]));
+    const pattern = fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    return this.leaf(propertyPath(field.value), { [insensitive ? '$ilike' : '$like']: pattern });
+  }
+
+  /**
+   * Build a (possibly nested) filter object for a single property condition
+   */
+  private leaf(path: string[], condition: Record<string, any>): MikroOrmWhereClause {
+    if (path.length === 0) {
+      throw new UnsupportedFeatureError('MikroORM adapter cannot compare collection elements directly; filter on a property of the related entity', 'elementComparison');
+    }
+    return buildNestedWhere(path, condition);
+  }
+}
@@ -3,10 +3,26 @@
  * Build Mongoose query options from OData query parameters
  */
 
-import { ODataQueryParams } from '../types/odata-query';
+import { ODataQueryParams, ApplyAggregate, ApplyAggregateMethod, ExpandItem, SearchExpression } from '../types/odata-query';
 import { MongooseAdapter } from '../adapters/mongoose';
-import { BaseQueryBuilder } from './base-query-builder';
+import { BaseQueryBuilder, PaginationQueries } from './base-query-builder';
 import { ConversionOptions } from './base';
+import { parseApply, parseCompute, parseOrderBy, parseSelect } from '../utils/odata-parser';
+import { enforceQueryLimits } from '../utils/query-limits';
+import { resolveParameterAliases } from '../utils/parameter-aliases';
+import { UnsupportedFeatureError } from '../errors';
+import { searchToMongoText } from '../utils/search';
+
+export type MongoPipelineStage = Record<string, any>;
+
+export interface MongoosePopulateOptions {
+  path: string;
+  match?: any;
+  select?: Record<string, 0 | 1>;
+  perDocumentLimit?: number;
+  options?: { sort?: Record<string, 1 | -1> };
+  populate?: MongoosePopulateOptions[];
+}
 
 export interface MongooseQueryOptions {
   filter?: any;
@@ -14,13 +30,27 @@ export interface MongooseQueryOptions {
   skip?: number;
   sort?: Record<string, 1 | -1> | string;
   select?: string | Record<string, 0 | 1>;
+  pipeline?: MongoPipelineStage[];
+  populate?: MongoosePopulateOptions[];
   [key: string]: any;
 }
 
+const ACCUMULATORS: Record<ApplyAggregateMethod, (field: string) => any> = {
+  sum: field => ({ $sum: field }),
+  average: field => ({ $avg: field }),
+  min: field => ({ $min: field }),
+  max: field => ({ $max: field }),
+  countdistinct: field => ({ $addToSet: field }),
+  count: () => ({ $sum: 1 })
+};
+
 export class MongooseQueryBuilder extends BaseQueryBuilder<MongooseQueryOptions> {
+  protected adapter: MongooseAdapter;
+
   constructor(options: ConversionOptions = {}) {
     const adapter = new MongooseAdapter(options);
-    super(adapter);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
   }
 
   /**
@@ -67,10 +97,87 @@ export class MongooseQueryBuilder extends BaseQueryBuilder<MongooseQueryOptions>
     }
   }
 
+  /**
+   * Add a full-text $search as a $text query, which uses the collection's text index
+   */
+  protected setSearch(query: MongooseQueryOptions, search: SearchExpression): void {
+    const { language } = this.searchOptions;
+    query.where = {
+      ...query.where,
+      $text: { $search: searchToMongoText(search), ...(language ? { $language: language } : {}) }
+    };
+  }
+
+  /**
+   * Set the expanded relations in Mongoose format: populate entries, nested for multi-segment paths
+   */
+  protected setExpand(query: MongooseQueryOptions, expand: ExpandItem[]): void {
+    query.populate = query.populate ?? [];
+    for (const item of expand) {
+      this.addPopulate(query.populate, item);
+    }
+  }
+
+  /**
+   * Add one expanded reference with its match, select and sort
+   * $top becomes perDocumentLimit, since a populate limit applies across all parents; $skip has no per-parent form
+   */
+  private addPopulate(populates: MongoosePopulateOptions[], item: ExpandItem): void {
+    if (item.skip !== undefined && item.skip > 0) {
+      throw new UnsupportedFeatureError(`Mongoose cannot skip documents of '${item.path.join('/')}' per parent in $expand`, '$expand');
+    }
+
+    let siblings = populates;
+    let populate: MongoosePopulateOptions | undefined;
+    for (const path of item.path) {
+      populate = siblings.find(entry => entry.path === path);
+      if (!populate) {
+        populate = { path };
+        siblings.push(populate);
+      }
+      siblings = populate.populate = populate.populate ?? [];
+    }
+
+    const target = populate!;
+    if (item.filter) {
+      target.match = this.adapter.convert(item.filter);
+    }
+    if (item.select) {
+      target.select = this.convertToMongooseSelect(parseSelect(item.select));
+    }
+    if (item.orderBy) {
+      target.options = { sort: this.toSort(parseOrderBy(item.orderBy)) };
+    }
+    if (item.top !== undefined) {
+      target.perDocumentLimit = item.top;
+    }
+
+    for (const nested of item.expand) {
+      this.addPopulate(siblings, nested);
+    }
+    if (siblings.length === 0) {
+      delete target.populate;
+    }
+  }
+
   /**
    * Handle where clause for Mongoose (uses filter instead of where)
+   * With $apply or $compute the query switches to aggregation mode and returns { pipeline } for Model.aggregate()
    */
   buildQuery(params: ODataQueryParams): MongooseQueryOptions {
+    params = resolveParameterAliases(params);
+    if (params.$apply || params.$compute) {
+      const mode = params.$apply ? '$apply' : '$compute';
+      if (params.$expand) {
+        throw new UnsupportedFeatureError(`$expand cannot be combined with ${mode} for Mongoose`, '$expand');
+      }
+      if (params.$search) {
+        throw new UnsupportedFeatureError(`$search cannot be combined with ${mode} for Mongoose`, '$search');
+      }
+      enforceQueryLimits(params, this.limits);
+      return { pipeline: this.buildAggregationPipeline(params) };
+    }
+
     const query = super.buildQuery(params);
     
     // Move where to filter for Mongoose
@@ -82,6 +189,50 @@ export class MongooseQueryBuilder extends BaseQueryBuilder<MongooseQueryOptions>
     return query;
   }
 
+  /**
+   * Build pagination queries; in aggregation mode the count query is a pipeline ending in $count
+   */
+  buildPaginationQuery(params: ODataQueryParams): PaginationQueries<MongooseQueryOptions> {
+    if (!params.$apply && !params.$compute) {
+      return super.buildPaginationQuery(params);
+    }
+
+    params = resolveParameterAliases(params);
+    return {
+      findQuery: this.buildQuery(params),
+      countQuery: { pipeline: [...this.buildApplyStages(params), { $count: 'count' }] }
+    };
+  }
+
+  /**
+   * Build an aggregation pipeline: $apply transformations and $compute, then $filter, $orderby, $skip, $top and $select
+   * on the transformed results
+   */
+  buildAggregationPipeline(params: ODataQueryParams): MongoPipelineStage[] {
+    const pipeline = this.buildApplyStages(params);
+
+    if (params.$orderby) {
+      const sort = this.toSort(parseOrderBy(params.$orderby));
+      if (Object.keys(sort).length > 0) {
+        pipeline.push({ $sort: sort });
+      }
+    }
+    if (params.$skip !== undefined && params.$skip > 0) {
+      pipeline.push({ $skip: params.$skip });
+    }
+    if (params.$top !== undefined && params.$top > 0) {
+      pipeline.push({ $limit: params.$top });
+    }
+    if (params.$select) {
+      const project = this.convertToMongooseSelect(parseSelect(params.$select));
+      if (Object.keys(project).length > 0) {
+        pipeline.push({ $project: project });
+      }
+    }
+
+    return pipeline;
+  }
+
   /**
    * Create a count query from a find query
    * Count query should not include limit, skip, select, sort
@@ -96,6 +247,87 @@ export class MongooseQueryBuilder extends BaseQueryBuilder<MongooseQueryOptions>
     return countQuery;
   }
 
+  /**
+   * Translate $apply transformations and $compute ($addFields), followed by a $match for $filter
+   */
+  private buildApplyStages(params: ODataQueryParams): MongoPipelineStage[] {
+    const stages: MongoPipelineStage[] = [];
+
+    for (const transformation of parseApply(params.$apply ?? '')) {
+      switch (transformation.type) {
+        case 'filter':
+          stages.push({ $match: this.adapter.convert(transformation.filter) });
+          break;
+        case 'groupby':
+          stages.push(...this.buildGroupStages(transformation.properties, transformation.aggregates));
+          break;
+        case 'aggregate':
+          stages.push(...this.buildGroupStages([], transformation.aggregates));
+          break;
+        case 'orderby':
+          stages.push({ $sort: this.toSort(transformation.orderBy) });
+          break;
+        case 'skip':
+          stages.push({ $skip: transformation.count });
+          break;
+        case 'top':
+          stages.push({ $limit: transformation.count });
+          break;
+      }
+    }
+
+    const compute = parseCompute(params.$compute ?? '');
+    if (compute.length > 0) {
+      stages.push({
+        $addFields: Object.fromEntries(compute.map(({ alias, expression }) => [alias, this.adapter.convertValue(expression)]))
+      });
+    }
+
+    if (params.$filter) {
+      stages.push({ $match: this.adapter.convert(params.$filter) });
+    }
+
+    return stages;
+  }
+
+  /**
+   * Build $group and $project stages; grouped properties keep their nested shape (Customer/Country => { Customer: { Country } })
+   */
+  private buildGroupStages(properties: string[][], aggregates: ApplyAggregate[]): MongoPipelineStage[] {
+    let id: Record<string, any> | null = null;
+    for (const path of properties) {
+      id = id ?? {};
+      let target = id;
+      path.slice(0, -1).forEach(segment => {
+        target = target[segment] = target[segment] ?? {};
+      });
+      target[path[path.length - 1]] = `$${path.join('.')}`;
+    }
+
+    const group: MongoPipelineStage = { _id: id };
+    const project: MongoPipelineStage = { _id: 0 };
+    for (const key of Object.keys(id ?? {})) {
+      project[key] = `$_id.${key}`;
+    }
+    for (const { alias, method, field } of aggregates) {
+      group[alias] = ACCUMULATORS[method](`$${(field ?? []).join('.')}`);
+      // countdistinct collects the distinct values, then counts them
+      project[alias] = method === 'countdistinct' ? { $size: `$${alias}` } : 1;
+    }
+
+    return [{ $group: group }, { $project: project }];
+  }
+
+  /**
+   * Convert parsed orderby to a Mongo sort document with dotted paths
+   */
+  private toSort(orderBy: Record<string, 'asc' | 'desc'>): Record<string, 1 | -1> {
+    return Object.entries(orderBy).reduce((acc, [field, direction]) => {
+      acc[field.split('/').join('.')] = direction === 'asc' ? 1 : -1;
+      return acc;
+    }, {} as Record<string, 1 | -1>);
+  }
+
   /**
    * Helper method to convert select object to Mongoose select format
    * Mongoose select can be a string or object with 1/0 values
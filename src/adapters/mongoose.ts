@@ -1,52 +1,120 @@
 /**
  * Mongoose Adapter
+ * Converts OData filters to MongoDB query documents
  */
 
-import { BaseOrmAdapter, ConversionOptions, WhereClause, ComparisonNode, MethodCallNode } from './base';
-import { ODataNode } from '../types';
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import {
+  FilterExpression,
+  FilterValue,
+  FilterCompare,
+  FilterCompareOperator,
+  FilterArithmeticOperator,
+  FilterCall,
+  FilterLambda
+} from '../types';
+import { escapeRegExp } from '../utils/helpers';
+import { booleanComparison, normalizeComparison, propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
 
 export interface MongooseWhereClause extends WhereClause {
-  // Mongoose specific types will be defined here
+  $and?: MongooseWhereClause[];
+  $or?: MongooseWhereClause[];
+  $nor?: MongooseWhereClause[];
+  $expr?: Record<string, any>;
 }
 
-export class MongooseAdapter extends BaseOrmAdapter {
+const COMPARISON_OPERATORS: Record<FilterCompareOperator, string> = {
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  ge: '$gte',
+  lt: '$lt',
+  le: '$lte'
+};
+
+// OData functions that map to MongoDB aggregation expression operators
+const EXPRESSION_FUNCTIONS: Record<string, string> = {
+  [ODataMethod.MONTH]: '$month',
+  [ODataMethod.DAY]: '$dayOfMonth',
+  [ODataMethod.LENGTH]: '$strLenCP',
+  [ODataMethod.ROUND]: '$round',
+  [ODataMethod.FLOOR]: '$floor',
+  [ODataMethod.CEILING]: '$ceil'
+};
+
+// Aggregation expressions for computed values ($compute)
+const AGGREGATION_FUNCTIONS: Record<string, (args: any[]) => any> = {
+  [ODataMethod.TO_LOWER]: ([value]) => ({ $toLower: value }),
+  [ODataMethod.TO_UPPER]: ([value]) => ({ $toUpper: value }),
+  [ODataMethod.TRIM]: ([value]) => ({ $trim: { input: value } }),
+  [ODataMethod.CONCAT]: args => ({ $concat: args }),
+  [ODataMethod.INDEX_OF]: ([value, search]) => ({ $indexOfCP: [value, search] }),
+  [ODataMethod.LENGTH]: ([value]) => ({ $strLenCP: value }),
+  [ODataMethod.YEAR]: ([value]) => ({ $year: value }),
+  [ODataMethod.MONTH]: ([value]) => ({ $month: value }),
+  [ODataMethod.DAY]: ([value]) => ({ $dayOfMonth: value }),
+  [ODataMethod.ROUND]: ([value]) => ({ $round: [value, 0] }),
+  [ODataMethod.FLOOR]: ([value]) => ({ $floor: value }),
+  [ODataMethod.CEILING]: ([value]) => ({ $ceil: value })
+};
+
+const ARITHMETIC_OPERATORS: Record<FilterArithmeticOperator, string> = {
+  add: '$add',
+  sub: '$subtract',
+  mul: '$multiply',
+  div: '$divide',
+  mod: '$mod'
+};
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor', '$expr'];
+
+export class MongooseAdapter extends BaseOrmAdapter<MongooseWhereClause> {
   constructor(options: ConversionOptions = {}) {
     super(options);
   }
 
   /**
-   * Convert OData filter string to Mongoose where clause
+   * Convert a filter expression to MongoDB query document
    */
-  convert(odataFilterString: string): MongooseWhereClause {
-    throw new Error('Mongoose adapter is coming soon! Please stay tuned for updates.');
+  convertExpression(expression: FilterExpression): MongooseWhereClause {
+    return this.convertInContext(expression, false);
   }
 
   /**
-   * Convert AST node to Mongoose filter
+   * Convert a value expression ($compute) to an aggregation expression (price mul quantity => { $multiply: ['$price', '$quantity'] })
    */
-  convertNode(node: ODataNode): MongooseWhereClause {
-    throw new Error('Mongoose adapter is coming soon! Please stay tuned for updates.');
-  }
+  convertValue(value: FilterValue): any {
+    switch (value.node) {
+      case 'Literal':
+        // Strings starting with $ would be read as field paths
+        return typeof value.value === 'string' && value.value.startsWith('$') ? { $literal: value.value } : value.value;
 
-  /**
-   * Handle comparison operations
-   */
-  handleComparison(node: ComparisonNode): MongooseWhereClause {
-    throw new Error('Mongoose adapter is coming soon! Please stay tuned for updates.');
-  }
+      case 'Property':
+        if (value.variable) {
+          throw new UnsupportedFeatureError('Lambda variables cannot be used in computed values', 'elementComparison');
+        }
+        return `$${value.path.join('.')}`;
 
-  /**
-   * Handle logical operations
-   */
-  handleLogical(node: ODataNode): MongooseWhereClause {
-    throw new Error('Mongoose adapter is coming soon! Please stay tuned for updates.');
+      case 'Call': {
+        const render = AGGREGATION_FUNCTIONS[value.fn];
+        if (!render) {
+          throw new UnsupportedFeatureError(`Unsupported function in computed value: ${value.fn}`, value.fn);
+        }
+        return render(value.args.map(arg => this.convertValue(arg)));
+      }
+
+      case 'Arithmetic':
+        return { [ARITHMETIC_OPERATORS[value.op]]: [this.convertValue(value.left), this.convertValue(value.right)] };
+    }
   }
 
   /**
-   * Handle method calls
+   * Create an empty MongoDB query document
    */
-  handleMethod(node: MethodCallNode): MongooseWhereClause {
-    throw new Error('Mongoose adapter is coming soon! Please stay tuned for updates.');
+  protected createEmptyFilter(): MongooseWhereClause {
+    return {};
   }
 
   /**
@@ -61,8 +129,197 @@ export class MongooseAdapter extends BaseOrmAdapter {
    */
   getSupportedFeatures(): string[] {
     return [
-      'Coming soon! This adapter is under development.',
-      'Will support: Basic comparisons, Logical operations, String methods, Date operations, MongoDB queries'
+      'Basic comparisons ($eq, $ne, $gt, $gte, $lt, $lte)',
+      'Logical operations ($and, $or, $nor)',
+      'String methods via escaped $regex',
+      'Case sensitivity control ($options: i)',
+      'IN expressions ($in)',
+      'NULL and existence checks',
+      'Nested document paths (dot notation)',
+      'Collection any()/all() filters ($elemMatch)',
+      'Date functions (year, month, day)',
+      'Math and length functions ($expr)',
+      'Arithmetic comparisons'
     ];
   }
+
+  /**
+   * Convert an expression; inLambda is true inside $elemMatch where $expr cannot reference the element
+   */
+  private convertInContext(expression: FilterExpression, inLambda: boolean): MongooseWhereClause {
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression, inLambda);
+
+      case 'Property':
+        return this.buildComparison(booleanComparison(expression), inLambda);
+
+      case 'And':
+        return { $and: expression.operands.map(operand => this.convertInContext(operand, inLambda)) };
+
+      case 'Or':
+        return { $or: expression.operands.map(operand => this.convertInContext(operand, inLambda)) };
+
+      case 'Not':
+        return { $nor: [this.convertInContext(expression.operand, inLambda)] };
+
+      case 'Lambda':
+        return this.buildLambda(expression);
+
+      case 'Call':
+        return this.buildMethod(expression);
+
+      case 'In': {
+        const values = expression.values.map(literal => literal.value);
+        return this.leaf(propertyPath(expression.left), { $in: values });
+      }
+    }
+  }
+
+  /**
+   * Build $elemMatch filters for any()/all() lambdas
+   * all(p) is expressed as "no element matches not(p)"
+   */
+  private buildLambda(lambda: FilterLambda): MongooseWhereClause {
+    const field = lambda.path.join('.');
+
+    if (!lambda.body) {
+      // any() without predicate: the collection has at least one element
+      return { [`${field}.0`]: { $exists: true } };
+    }
+
+    const condition = this.convertInContext(lambda.body, true);
+
+    if (lambda.kind === 'any') {
+      return { [field]: { $elemMatch: condition } };
+    }
+
+    const negated = this.isOperatorDocument(condition) ? { $not: condition } : { $nor: [condition] };
+    return { [field]: { $not: { $elemMatch: negated } } };
+  }
+
+  /**
+   * Build a comparison condition
+   */
+  private buildComparison(expression: FilterCompare, inLambda: boolean): MongooseWhereClause {
+    // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+    const { op, left, right } = normalizeComparison(expression);
+    const value = literalValue(right);
+
+    if (left.node === 'Call') {
+      return this.buildFunctionComparison(op, left, value, inLambda);
+    }
+
+    return this.leaf(propertyPath(left), { [COMPARISON_OPERATORS[op]]: value });
+  }
+
+  /**
+   * Handle function calls on the left side of a comparison
+   */
+  private buildFunctionComparison(
+    op: FilterCompareOperator,
+    left: FilterCall,
+    value: any,
+    inLambda: boolean
+  ): MongooseWhereClause {
+    const { fn, args } = left;
+
+    switch (fn) {
+      case ODataMethod.YEAR: {
+        const path = propertyPath(args[0]);
+        const start = new Date(Date.UTC(value, 0, 1));
+        const end = new Date(Date.UTC(value + 1, 0, 1));
+        const ranges: Record<FilterCompareOperator, MongooseWhereClause> = {
+          eq: this.leaf(path, { $gte: start, $lt: end }),
+          ne: { $or: [this.leaf(path, { $lt: start }), this.leaf(path, { $gte: end })] },
+          gt: this.leaf(path, { $gte: end }),
+          ge: this.leaf(path, { $gte: start }),
+          lt: this.leaf(path, { $lt: start }),
+          le: this.leaf(path, { $lt: end })
+        };
+        return ranges[op];
+      }
+
+      case ODataMethod.TO_LOWER:
+      case ODataMethod.TO_UPPER: {
+        const path = propertyPath(args[0]);
+        const regex = { $regex: `^${escapeRegExp(value)}$`, $options: 'i' };
+        if (op === 'eq') {
+          return this.leaf(path, regex);
+        }
+        if (op === 'ne') {
+          return this.leaf(path, { $not: regex });
+        }
+        throw new UnsupportedFeatureError(`Unsupported ${fn} comparison: ${op}`, fn);
+      }
+
+      case ODataMethod.INDEX_OF: {
+        // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+        const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+        if (op === 'ge' && value === 0) {
+          return this.buildMethod(contains);
+        }
+        if (op === 'eq' && value === -1) {
+          return { $nor: [this.buildMethod(contains)] };
+        }
+        throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+      }
+
+      default: {
+        const expressionOperator = EXPRESSION_FUNCTIONS[fn];
+        if (!expressionOperator) {
+          throw new UnsupportedFeatureError(`Unsupported function in comparison: ${fn}`, fn);
+        }
+        const path = propertyPath(args[0]);
+        if (inLambda || path.length === 0) {
+          throw new UnsupportedFeatureError(`Function ${fn} cannot be used inside any()/all() lambdas`, fn);
+        }
+        return {
+          $expr: {
+            [COMPARISON_OPERATORS[op]]: [{ [expressionOperator]: `$${path.join('.')}` }, value]
+          }
+        };
+      }
+    }
+  }
+
+  /**
+   * Build a string method condition (contains, startswith, endswith) as an escaped $regex
+   */
+  private buildMethod(call: FilterCall): MongooseWhereClause {
+    if (call.fn !== ODataMethod.CONTAINS && call.fn !== ODataMethod.STARTS_WITH && call.fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${call.fn}`, call.fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(call.args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const search = escapeRegExp(literalValue(call.args[1]));
+    const pattern = call.fn === ODataMethod.STARTS_WITH ? `^${search}`
+      : call.fn === ODataMethod.ENDS_WITH ? `${search}$`
+      : search;
+
+    const condition: Record<string, string> = { $regex: pattern };
+    if (insensitive) {
+      condition.$options = 'i';
+    }
+
+    return this.leaf(propertyPath(field), condition);
+  }
+
+  /**
+   * Build a field condition using dot notation; an empty path is the lambda element itself
+   */
+  private leaf(path: string[], condition: Record<string, any>): MongooseWhereClause {
+    return path.length === 0 ? condition : { [path.join('.')]: condition };
+  }
+
+  /**
+   * Check whether a document only contains field operators ({ $gt: 1 }), as produced for primitive elements
+   */
+  private isOperatorDocument(document: MongooseWhereClause): boolean {
+    const keys = Object.keys(document);
+    return keys.length > 0 && keys.every(key => key.startsWith('$') && !LOGICAL_OPERATORS.includes(key));
+  }
 }
@@ -3,10 +3,19 @@
  * Build Prisma query options from OData query parameters with schema validation and nested support
  */
 
-import { ODataQueryParams, PrismaQueryOptions } from '../types/odata-query';
+import {
+  ODataQueryParams,
+  PrismaQueryOptions,
+  ExpandItem,
+  ApplyAggregate,
+  ApplyAggregateMethod,
+  ApplyTransformation,
+  ParsedOrderBy,
+  SearchExpression
+} from '../types/odata-query';
 import { SchemaValidationOptions, CollectionFilter } from '../types/schema';
 import { PrismaAdapter } from '../adapters/prisma';
-import { BaseQueryBuilder } from './base-query-builder';
+import { BaseQueryBuilder, PaginationQueries } from './base-query-builder';
 import { ConversionOptions } from './base';
 import { 
   parseNestedSelect, 
@@ -17,6 +26,12 @@ import {
 } from '../utils/nested-parser';
 import { SchemaValidator } from '../utils/schema-validator';
 import { validateFilterFieldPaths } from '../utils/filter-field-extractor';
+import { enforceQueryLimits } from '../utils/query-limits';
+import { resolveParameterAliases } from '../utils/parameter-aliases';
+import { parseSearch, searchToTsQuery } from '../utils/search';
+import { buildNestedWhere } from '../utils/field-path';
+import { parseApply, parseExpand, parseOrderBy } from '../utils/odata-parser';
+import { UnsupportedFeatureError, InvalidQueryOptionError } from '../errors';
 
 // Re-export for convenience
 export { PrismaQueryOptions } from '../types/odata-query';
@@ -25,6 +40,16 @@ export interface PrismaQueryBuilderOptions extends ConversionOptions, SchemaVali
   enableNestedQueries?: boolean;
 }
 
+type PrismaAggregateKey = '_count' | '_sum' | '_avg' | '_min' | '_max';
+
+const AGGREGATE_KEYS: Record<Exclude<ApplyAggregateMethod, 'countdistinct'>, PrismaAggregateKey> = {
+  count: '_count',
+  sum: '_sum',
+  average: '_avg',
+  min: '_min',
+  max: '_max'
+};
+
 export class PrismaQueryBuilder extends BaseQueryBuilder<PrismaQueryOptions> {
   private schemaOptions: SchemaValidationOptions;
   private enableNestedQueries: boolean;
@@ -32,7 +57,7 @@ export class PrismaQueryBuilder extends BaseQueryBuilder<PrismaQueryOptions> {
 
   constructor(options: PrismaQueryBuilderOptions = {}) {
     const adapter = new PrismaAdapter(options);
-    super(adapter);
+    super(adapter, options.limits, options.search);
     
     this.schemaOptions = {
       schema: options.schema,
@@ -44,18 +69,35 @@ export class PrismaQueryBuilder extends BaseQueryBuilder<PrismaQueryOptions> {
 
   /**
    * Build query options from OData query parameters with enhanced nested support
+   * With $apply the query switches to aggregation mode and returns groupBy() arguments
+   * (aggregate() arguments when nothing is grouped)
    */
   buildQuery(params: ODataQueryParams): PrismaQueryOptions {
+    params = resolveParameterAliases(params);
+    enforceQueryLimits(params, this.limits);
+
+    if (params.$compute) {
+      // Prisma can neither compute fields in the database nor filter or sort on expressions
+      throw new UnsupportedFeatureError('Prisma does not support $compute: computed values cannot be queried, sorted or selected', '$compute');
+    }
+
+    if (params.$apply) {
+      return this.buildAggregateQuery(params);
+    }
+
     const query = this.createEmptyQuery();
+    const search = params.$search ? parseSearch(params.$search) : undefined;
 
-    // Handle $filter with nested navigation and collection filters
+    // Handle $filter (and-ed with $search) with nested navigation and collection filters
+    const filter = this.combineSearchFilter(params.$filter, search);
     if (params.$filter) {
       // Validate filter field paths if schema validation is strict
       validateFilterFieldPaths(params.$filter, this.schemaOptions);
+    }
+    if (filter) {
+      const baseWhere = this.adapter.convert(filter);
       
-      const baseWhere = this.adapter.convert(params.$filter);
-      
-      if (this.enableNestedQueries) {
+      if (this.enableNestedQueries && params.$filter) {
         // Parse and handle collection filters (any/all) with schema validation
         const collectionFilters = parseCollectionFilters(params.$filter, this.schemaOptions);
         
@@ -123,9 +165,306 @@ export class PrismaQueryBuilder extends BaseQueryBuilder<PrismaQueryOptions> {
       }
     }
 
+    // Handle $expand (after $select, which expansions are merged into)
+    if (params.$expand) {
+      const expand = parseExpand(params.$expand);
+      if (expand.length > 0) {
+        this.setExpand(query, expand);
+      }
+    }
+
+    // Handle full-text $search
+    if (search && this.searchOptions.strategy === 'fulltext') {
+      this.setSearch(query, search);
+    }
+
+    return query;
+  }
+
+  /**
+   * Add a full-text $search in Prisma format: a search filter (PostgreSQL tsquery syntax) on any of the fields
+   */
+  protected setSearch(query: PrismaQueryOptions, search: SearchExpression): void {
+    const tsQuery = searchToTsQuery(search);
+    const matches = this.getSearchFields().map(field => buildNestedWhere(field.split('/'), { search: tsQuery }));
+    const condition = matches.length === 1 ? matches[0] : { OR: matches };
+    query.where = query.where ? { AND: [query.where, condition] } : condition;
+  }
+
+  /**
+   * Build pagination queries; in aggregation mode the count query is the groupBy() without $skip and $top,
+   * and the groups it returns are counted
+   */
+  buildPaginationQuery(params: ODataQueryParams): PaginationQueries<PrismaQueryOptions> {
+    if (!params.$apply) {
+      return super.buildPaginationQuery(params);
+    }
+
+    const { $skip, $top, ...countParams } = params;
+    return {
+      findQuery: this.buildQuery(params),
+      countQuery: this.buildQuery(countParams)
+    };
+  }
+
+  /**
+   * Map groupBy()/aggregate() results to the $apply aliases ({ country, _sum: { amount } } => { country, Total })
+   */
+  processAggregateResult(result: Record<string, any> | Record<string, any>[], params: ODataQueryParams): Record<string, any>[] {
+    const rows = Array.isArray(result) ? result : [result];
+    const grouping = parseApply(params.$apply ?? '').find(step => step.type === 'groupby' || step.type === 'aggregate');
+    if (!grouping || (grouping.type !== 'groupby' && grouping.type !== 'aggregate')) {
+      return rows;
+    }
+
+    const properties = grouping.type === 'groupby' ? grouping.properties.map(path => path[0]) : [];
+    return rows.map(row => {
+      const mapped: Record<string, any> = {};
+      for (const property of properties) {
+        mapped[property] = row[property];
+      }
+      for (const { alias, method, field } of grouping.aggregates) {
+        mapped[alias] = row[aggregateKey(method)]?.[field?.[0] ?? '_all'];
+      }
+      return mapped;
+    });
+  }
+
+  /**
+   * Translate $apply to groupBy()/aggregate() arguments
+   * filter() before the grouping becomes where; filter(), orderby(), skip() and top() after it, followed by
+   * $filter, $orderby, $skip and $top, apply to the groups as having, orderBy, skip and take
+   */
+  private buildAggregateQuery(params: ODataQueryParams): PrismaQueryOptions {
+    if (params.$select || params.$expand || params.$search) {
+      throw new UnsupportedFeatureError('Prisma cannot combine $apply with $select, $expand or $search', '$apply');
+    }
+
+    const transformations = parseApply(params.$apply ?? '');
+    const index = transformations.findIndex(step => step.type === 'groupby' || step.type === 'aggregate');
+    const grouping = transformations[index];
+    if (!grouping || (grouping.type !== 'groupby' && grouping.type !== 'aggregate')) {
+      throw new UnsupportedFeatureError('Prisma $apply requires a groupby or aggregate transformation', '$apply');
+    }
+
+    const query = this.createEmptyQuery();
+
+    const wheres = transformations.slice(0, index).map(step => {
+      if (step.type !== 'filter') {
+        throw new UnsupportedFeatureError(`Prisma cannot apply ${step.type}() before groupby or aggregate`, step.type);
+      }
+      validateFilterFieldPaths(step.filter, this.schemaOptions);
+      return this.adapter.convert(step.filter);
+    });
+    if (wheres.length > 0) {
+      query.where = wheres.length === 1 ? wheres[0] : { AND: wheres };
+    }
+
+    const by = grouping.type === 'groupby' ? grouping.properties.map(path => this.toScalarField(path)) : [];
+    if (by.length > 0) {
+      query.by = by;
+    }
+
+    const aggregates = new Map<string, ApplyAggregate>();
+    for (const aggregate of grouping.aggregates) {
+      const key = aggregateKey(aggregate.method);
+      const field = aggregate.field ? this.toScalarField(aggregate.field) : '_all';
+      query[key] = { ...query[key], [field]: true };
+      aggregates.set(aggregate.alias, aggregate);
+    }
+
+    const steps: ApplyTransformation[] = transformations.slice(index + 1);
+    if (params.$filter) {
+      steps.push({ type: 'filter', filter: params.$filter });
+    }
+    if (params.$orderby) {
+      steps.push({ type: 'orderby', orderBy: parseOrderBy(params.$orderby) });
+    }
+    if (params.$skip !== undefined && params.$skip > 0) {
+      steps.push({ type: 'skip', count: params.$skip });
+    }
+    if (params.$top !== undefined && params.$top > 0) {
+      steps.push({ type: 'top', count: params.$top });
+    }
+
+    if (steps.length > 0 && by.length === 0) {
+      throw new UnsupportedFeatureError(`Prisma aggregate() returns a single result; ${steps[0].type} cannot be applied to it`, steps[0].type);
+    }
+
+    const having: any[] = [];
+    let orderBy: Record<string, any>[] = [];
+    let paged = false;
+    for (const step of steps) {
+      if ((step.type === 'filter' || step.type === 'orderby') && paged) {
+        throw new UnsupportedFeatureError(`Prisma cannot apply ${step.type} to a page of groups`, step.type);
+      }
+
+      switch (step.type) {
+        case 'filter':
+          having.push(this.toHaving(this.adapter.convert(step.filter), by, aggregates));
+          break;
+        case 'orderby':
+          // A later sort takes precedence; the earlier one breaks ties
+          orderBy = [...this.toGroupOrderBy(step.orderBy, by, aggregates), ...orderBy];
+          break;
+        case 'skip':
+          query.skip = (query.skip ?? 0) + step.count;
+          if (query.take !== undefined) {
+            query.take = Math.max(query.take - step.count, 0);
+          }
+          paged = true;
+          break;
+        case 'top':
+          query.take = query.take === undefined ? step.count : Math.min(query.take, step.count);
+          paged = true;
+          break;
+        default:
+          throw new UnsupportedFeatureError(`Prisma cannot apply ${step.type} after grouping`, step.type);
+      }
+    }
+
+    if (having.length > 0) {
+      query.having = having.length === 1 ? having[0] : { AND: having };
+    }
+    // Prisma requires orderBy when paging groups
+    if (paged && orderBy.length === 0) {
+      orderBy = by.map(field => ({ [field]: 'asc' }));
+    }
+    if (orderBy.length > 0) {
+      query.orderBy = orderBy;
+    }
+
     return query;
   }
 
+  /**
+   * Field of a grouped or aggregated property; Prisma only groups and aggregates the model's own scalar fields
+   */
+  private toScalarField(path: string[]): string {
+    if (path.length > 1) {
+      throw new UnsupportedFeatureError(`Prisma cannot group or aggregate the related field '${path.join('/')}'`, '$apply');
+    }
+    if (this.validator.isStrictValidationEnabled(this.schemaOptions.allowAllFields)) {
+      this.validator.validateFieldPathStrict(path, 'apply');
+    }
+    return path[0];
+  }
+
+  /**
+   * Rewrite a filter on the grouped results as having: aliases become aggregate filters on their field
+   * (Total gt 100 => { amount: { _sum: { gt: 100 } } })
+   */
+  private toHaving(where: any, by: string[], aggregates: Map<string, ApplyAggregate>): any {
+    if (Array.isArray(where)) {
+      return where.map(condition => this.toHaving(condition, by, aggregates));
+    }
+
+    const having: Record<string, any> = {};
+    for (const [key, condition] of Object.entries(where)) {
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        having[key] = this.toHaving(condition, by, aggregates);
+      } else if (by.includes(key)) {
+        having[key] = condition;
+      } else {
+        const aggregate = this.resolveAlias(key, aggregates);
+        if (!aggregate.field) {
+          throw new UnsupportedFeatureError(`Prisma cannot filter groups on the $count alias '${key}'`, '$count');
+        }
+        const field = aggregate.field[0];
+        having[field] = { ...having[field], [aggregateKey(aggregate.method)]: condition };
+      }
+    }
+    return having;
+  }
+
+  /**
+   * Convert orderby on the grouped results; aliases sort by their aggregate
+   * Prisma counts a field rather than rows, so $count sorts by the count of the first grouped property
+   */
+  private toGroupOrderBy(orderBy: ParsedOrderBy, by: string[], aggregates: Map<string, ApplyAggregate>): Record<string, any>[] {
+    return Object.entries(orderBy).map(([key, direction]) => {
+      if (by.includes(key)) {
+        return { [key]: direction };
+      }
+      const aggregate = this.resolveAlias(key, aggregates);
+      return { [aggregateKey(aggregate.method)]: { [aggregate.field?.[0] ?? by[0]]: direction } };
+    });
+  }
+
+  /**
+   * Look up an aggregate alias referenced after grouping
+   */
+  private resolveAlias(key: string, aggregates: Map<string, ApplyAggregate>): ApplyAggregate {
+    const aggregate = aggregates.get(key);
+    if (!aggregate) {
+      throw new InvalidQueryOptionError(`'${key}' is neither a grouped property nor an aggregate alias in $apply`, '$apply');
+    }
+    return aggregate;
+  }
+
+  /**
+   * Set the expanded relations in Prisma format: include, or select when $select is given
+   * (Prisma does not allow both on one level)
+   */
+  protected setExpand(query: PrismaQueryOptions, expand: ExpandItem[]): void {
+    const relations = this.buildExpand(expand, []);
+    if (query.select) {
+      query.select = { ...query.select, ...relations };
+    } else {
+      query.include = relations;
+    }
+  }
+
+  /**
+   * Convert $expand items to Prisma include/select arguments
+   * Nested options are validated against the schema relative to the expanded navigation path
+   */
+  private buildExpand(items: ExpandItem[], contextPath: string[]): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const item of items) {
+      const path = [...contextPath, ...item.path];
+      if (this.validator.isStrictValidationEnabled(this.schemaOptions.allowAllFields)) {
+        this.validator.validateExpandPathStrict(path);
+      }
+
+      const args: Record<string, any> = {};
+      if (item.filter) {
+        validateFilterFieldPaths(item.filter, this.schemaOptions, path);
+        args.where = this.adapter.convert(item.filter);
+      }
+      if (item.orderBy) {
+        args.orderBy = this.toPrismaOrderBy(parseNestedOrderBy(item.orderBy, this.schemaOptions, path));
+      }
+      if (item.top !== undefined) {
+        args.take = item.top;
+      }
+      if (item.skip !== undefined && item.skip > 0) {
+        args.skip = item.skip;
+      }
+
+      // Prisma only accepts where/orderBy/take/skip on to-many relations
+      if (Object.keys(args).length > 0 && this.validator.getPathInfo(path)?.type === 'object') {
+        throw new UnsupportedFeatureError(
+          `Prisma cannot filter, sort or page the to-one relation '${path.join('/')}' in $expand; only $select and $expand are allowed`,
+          '$expand'
+        );
+      }
+
+      const nested = this.buildExpand(item.expand, path);
+      if (item.select) {
+        const select = convertNestedSelectToPrisma(parseNestedSelect(item.select, this.schemaOptions, path));
+        args.select = { ...select, ...nested };
+      } else if (Object.keys(nested).length > 0) {
+        args.include = nested;
+      }
+
+      setExpansion(result, item.path, Object.keys(args).length > 0 ? args : true);
+    }
+
+    return result;
+  }
+
   /**
    * Legacy orderBy parsing for backward compatibility
    */
@@ -184,7 +523,14 @@ export class PrismaQueryBuilder extends BaseQueryBuilder<PrismaQueryOptions> {
    * Set the orderBy parameter in Prisma format
    */
   protected setOrderBy(query: PrismaQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
-    query.orderBy = Object.entries(orderBy).map(([field, direction]) => ({
+    query.orderBy = this.toPrismaOrderBy(orderBy);
+  }
+
+  /**
+   * Convert parsed $orderby to Prisma's array of { field: direction }
+   */
+  private toPrismaOrderBy(orderBy: Record<string, 'asc' | 'desc'>): Record<string, 'asc' | 'desc'>[] {
+    return Object.entries(orderBy).map(([field, direction]) => ({
       [field]: direction
     }));
   }
@@ -209,6 +555,39 @@ export class PrismaQueryBuilder extends BaseQueryBuilder<PrismaQueryOptions> {
   }
 }
 
+/**
+ * Prisma aggregate argument for an $apply aggregation method
+ */
+function aggregateKey(method: ApplyAggregateMethod): PrismaAggregateKey {
+  if (method === 'countdistinct') {
+    throw new UnsupportedFeatureError('Prisma cannot count distinct values; group by the property and count the groups instead', 'countdistinct');
+  }
+  return AGGREGATE_KEYS[method];
+}
+
+/**
+ * Place an expansion at its navigation path; intermediate relations are included
+ * (author/profile => { author: { include: { profile: true } } })
+ */
+function setExpansion(target: Record<string, any>, path: string[], value: true | Record<string, any>): void {
+  let current = target;
+
+  for (const segment of path.slice(0, -1)) {
+    const existing = current[segment];
+    if (typeof existing !== 'object') {
+      current[segment] = { include: {} };
+    } else if (!existing.select && !existing.include) {
+      existing.include = {};
+    }
+    current = current[segment].select ?? current[segment].include;
+  }
+
+  const last = path[path.length - 1];
+  if (value !== true || typeof current[last] !== 'object') {
+    current[last] = value;
+  }
+}
+
 /**
  * Static factory method for quick usage
  */
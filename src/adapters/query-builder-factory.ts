@@ -7,72 +7,162 @@ import { PrismaQueryBuilder, PrismaQueryOptions } from './prisma-query-builder';
 import { TypeOrmQueryBuilder, TypeOrmQueryOptions } from './typeorm-query-builder';
 import { SequelizeQueryBuilder, SequelizeQueryOptions } from './sequelize-query-builder';
 import { MongooseQueryBuilder, MongooseQueryOptions } from './mongoose-query-builder';
-import { SupportedOrm } from '../enums';
+import { SqlQueryBuilder, SqlQueryOptions } from './sql-query-builder';
+import { KnexQueryBuilder, KnexQueryOptions } from './knex-query-builder';
+import { DrizzleQueryBuilder, DrizzleQueryOptions } from './drizzle-query-builder';
+import { MikroOrmQueryBuilder, MikroOrmQueryOptions } from './mikro-orm-query-builder';
+import { KyselyQueryBuilder, KyselyQueryOptions } from './kysely-query-builder';
+import { InMemoryQueryBuilder, InMemoryQueryOptions } from './in-memory-query-builder';
+import { ElasticsearchQueryBuilder, ElasticsearchSearchBody } from './elasticsearch-query-builder';
+import { HasuraQueryBuilder, HasuraQueryOptions } from './hasura-query-builder';
+import { SupportedOrm, OrmStatus } from '../enums';
 import { BaseQueryBuilder, BaseQueryOptions } from './base-query-builder';
+import { SupportedOrmType } from './factory';
+import { Registration, normalizeRegistryName, toValidatedFactory } from './registry';
 
 export type QueryBuilderType = 
   | PrismaQueryBuilder
   | TypeOrmQueryBuilder
   | SequelizeQueryBuilder
-  | MongooseQueryBuilder;
+  | MongooseQueryBuilder
+  | SqlQueryBuilder
+  | KnexQueryBuilder
+  | DrizzleQueryBuilder
+  | MikroOrmQueryBuilder
+  | KyselyQueryBuilder
+  | InMemoryQueryBuilder
+  | ElasticsearchQueryBuilder
+  | HasuraQueryBuilder;
 
 export type QueryOptionsType = 
   | PrismaQueryOptions
   | TypeOrmQueryOptions
   | SequelizeQueryOptions
-  | MongooseQueryOptions;
+  | MongooseQueryOptions
+  | SqlQueryOptions
+  | KnexQueryOptions
+  | DrizzleQueryOptions
+  | MikroOrmQueryOptions
+  | KyselyQueryOptions
+  | InMemoryQueryOptions
+  | ElasticsearchSearchBody
+  | HasuraQueryOptions;
+
+export type QueryBuilderOptionsInput = Record<string, any>;
+
+/**
+ * A BaseQueryBuilder subclass, or a function creating a query builder from options
+ */
+export type QueryBuilderRegistration = Registration<QueryBuilderOptionsInput, BaseQueryBuilder<BaseQueryOptions>>;
+
+export interface QueryBuilderInfo {
+  name: string;
+  status: string;
+  description: string;
+}
+
+interface QueryBuilderEntry {
+  create: (options: QueryBuilderOptionsInput) => BaseQueryBuilder<BaseQueryOptions>;
+  info: QueryBuilderInfo;
+}
 
 /**
  * Factory class for creating ORM-specific query builders
  */
 export class QueryBuilderFactory {
+  /**
+   * Query builders by ORM name: the built-in builders followed by registered ones
+   */
+  private static readonly builders = new Map<string, QueryBuilderEntry>([
+    [SupportedOrm.PRISMA, {
+      create: options => new PrismaQueryBuilder(options),
+      info: { name: 'Prisma Query Builder', status: OrmStatus.AVAILABLE, description: 'Fully implemented with all pagination features' }
+    }],
+    [SupportedOrm.TYPEORM, {
+      create: options => new TypeOrmQueryBuilder(options),
+      info: { name: 'TypeORM Query Builder', status: OrmStatus.AVAILABLE, description: 'Complete implementation for TypeORM queries' }
+    }],
+    [SupportedOrm.SEQUELIZE, {
+      create: options => new SequelizeQueryBuilder(options),
+      info: { name: 'Sequelize Query Builder', status: OrmStatus.AVAILABLE, description: 'Complete implementation for Sequelize queries' }
+    }],
+    [SupportedOrm.MONGOOSE, {
+      create: options => new MongooseQueryBuilder(options),
+      info: { name: 'Mongoose Query Builder', status: OrmStatus.AVAILABLE, description: 'Complete implementation for Mongoose queries' }
+    }],
+    [SupportedOrm.SQL, {
+      create: options => new SqlQueryBuilder(options),
+      info: { name: 'SQL Query Builder', status: OrmStatus.AVAILABLE, description: 'Parameterised SQL for Postgres, MySQL and SQLite' }
+    }],
+    [SupportedOrm.KNEX, {
+      create: options => new KnexQueryBuilder(options),
+      info: { name: 'Knex Query Builder', status: OrmStatus.AVAILABLE, description: 'Applies queries onto a supplied Knex query builder' }
+    }],
+    [SupportedOrm.DRIZZLE, {
+      create: options => new DrizzleQueryBuilder(options),
+      info: { name: 'Drizzle Query Builder', status: OrmStatus.AVAILABLE, description: 'SQL expressions and orderBy for a Drizzle table' }
+    }],
+    [SupportedOrm.MIKRO_ORM, {
+      create: options => new MikroOrmQueryBuilder(options),
+      info: { name: 'MikroORM Query Builder', status: OrmStatus.AVAILABLE, description: 'FilterQuery and FindOptions (orderBy, fields, populate)' }
+    }],
+    [SupportedOrm.KYSELY, {
+      create: options => new KyselyQueryBuilder(options),
+      info: { name: 'Kysely Query Builder', status: OrmStatus.AVAILABLE, description: 'Applies queries onto a supplied Kysely SelectQueryBuilder' }
+    }],
+    [SupportedOrm.IN_MEMORY, {
+      create: options => new InMemoryQueryBuilder(options),
+      info: { name: 'In-Memory Query Builder', status: OrmStatus.AVAILABLE, description: 'Filters, sorts, pages and projects arrays of plain objects' }
+    }],
+    [SupportedOrm.ELASTICSEARCH, {
+      create: options => new ElasticsearchQueryBuilder(options),
+      info: { name: 'Elasticsearch Query Builder', status: OrmStatus.AVAILABLE, description: 'Search request bodies (query, sort, size, from, _source)' }
+    }],
+    [SupportedOrm.HASURA, {
+      create: options => new HasuraQueryBuilder(options),
+      info: { name: 'Hasura Query Builder', status: OrmStatus.AVAILABLE, description: 'GraphQL arguments (where, order_by, limit, offset) and selection sets' }
+    }]
+  ]);
+
+  /**
+   * Register a custom query builder under a new name
+   * e.g. QueryBuilderFactory.registerQueryBuilder('internal-dal', InternalDalQueryBuilder)
+   */
+  static registerQueryBuilder(
+    name: string,
+    factory: QueryBuilderRegistration,
+    info: Partial<Omit<QueryBuilderInfo, 'status'>> = {}
+  ): void {
+    const orm = normalizeRegistryName(name);
+    if (this.builders.has(orm)) {
+      throw new Error(`Query builder '${orm}' is already registered`);
+    }
+
+    this.builders.set(orm, {
+      create: toValidatedFactory(orm, factory, BaseQueryBuilder),
+      info: {
+        name: info.name ?? `${name} Query Builder`,
+        status: OrmStatus.AVAILABLE,
+        description: info.description ?? 'Registered query builder'
+      }
+    });
+  }
+
   /**
    * Create a query builder for the specified ORM
    */
-  static createQueryBuilder(orm: SupportedOrm, options = {}): BaseQueryBuilder<BaseQueryOptions> {
-    switch (orm) {
-      case SupportedOrm.PRISMA:
-        return new PrismaQueryBuilder(options);
-      
-      case SupportedOrm.TYPEORM:
-        return new TypeOrmQueryBuilder(options);
-      
-      case SupportedOrm.SEQUELIZE:
-        return new SequelizeQueryBuilder(options);
-      
-      case SupportedOrm.MONGOOSE:
-        return new MongooseQueryBuilder(options);
-      
-      default:
-        throw new Error(`Unsupported ORM: ${orm}`);
+  static createQueryBuilder(orm: SupportedOrmType, options: QueryBuilderOptionsInput = {}): BaseQueryBuilder<BaseQueryOptions> {
+    const entry = this.builders.get(String(orm).toLowerCase());
+    if (!entry) {
+      throw new Error(`Unsupported ORM: ${orm}. Supported ORMs: ${Array.from(this.builders.keys()).join(', ')}`);
     }
+    return entry.create(options);
   }
 
   /**
-   * Get information about available query builders
+   * Get information about available query builders, including registered ones
    */
-  static getQueryBuilderInfo() {
-    return {
-      [SupportedOrm.PRISMA]: {
-        name: 'Prisma Query Builder',
-        status: 'Available',
-        description: 'Fully implemented with all pagination features'
-      },
-      [SupportedOrm.TYPEORM]: {
-        name: 'TypeORM Query Builder',
-        status: 'Available',
-        description: 'Complete implementation for TypeORM queries'
-      },
-      [SupportedOrm.SEQUELIZE]: {
-        name: 'Sequelize Query Builder',
-        status: 'Available',
-        description: 'Complete implementation for Sequelize queries'
-      },
-      [SupportedOrm.MONGOOSE]: {
-        name: 'Mongoose Query Builder',
-        status: 'Available',
-        description: 'Complete implementation for Mongoose queries'
-      }
-    };
+  static getQueryBuilderInfo(): Record<string, QueryBuilderInfo> {
+    return Object.fromEntries(Array.from(this.builders, ([orm, entry]) => [orm, { ...entry.info }]));
   }
-}
\ No newline at end of file
+}
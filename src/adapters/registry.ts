@@ -0,0 +1,54 @@
+/**
+ * Registry helpers shared by AdapterFactory and QueryBuilderFactory
+ */
+
+type AbstractClass<T> = abstract new (...args: any[]) => T;
+
+/**
+ * A class extending the factory's base class, or a function returning an instance of it
+ */
+export type Registration<TOptions, TInstance> =
+  | (new (options: TOptions) => TInstance)
+  | ((options: TOptions) => TInstance);
+
+/**
+ * Normalise a registry name; lookups are case-insensitive
+ */
+export function normalizeRegistryName(name: string): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('Registered name must be a non-empty string');
+  }
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Turn a registered class or factory function into a factory that always returns an instance of the base class
+ * Classes are validated when registered; factory functions when they are called
+ */
+export function toValidatedFactory<TOptions, TInstance>(
+  name: string,
+  registration: Registration<TOptions, TInstance>,
+  baseClass: AbstractClass<TInstance>
+): (options: TOptions) => TInstance {
+  if (typeof registration !== 'function') {
+    throw new Error(`Registration for '${name}' must be a class extending ${baseClass.name} or a factory function`);
+  }
+
+  if (registration.prototype instanceof baseClass) {
+    const RegisteredClass = registration as new (options: TOptions) => TInstance;
+    return options => new RegisteredClass(options);
+  }
+
+  if (/^class[\s{]/.test(Function.prototype.toString.call(registration))) {
+    throw new Error(`Class '${registration.name}' registered for '${name}' must extend ${baseClass.name}`);
+  }
+
+  const factory = registration as (options: TOptions) => TInstance;
+  return options => {
+    const instance = factory(options);
+    if (!(instance instanceof baseClass)) {
+      throw new Error(`Factory registered for '${name}' must return an instance of ${baseClass.name}`);
+    }
+    return instance;
+  };
+}
@@ -3,10 +3,22 @@
  * Build Sequelize query options from OData query parameters
  */
 
-import { ODataQueryParams } from '../types/odata-query';
-import { SequelizeAdapter } from '../adapters/sequelize';
+import { ODataQueryParams, ExpandItem } from '../types/odata-query';
+import { SequelizeAdapter, SequelizeAdapterOptions } from '../adapters/sequelize';
 import { BaseQueryBuilder } from './base-query-builder';
-import { ConversionOptions } from './base';
+import { parseOrderBy, parseSelect } from '../utils/odata-parser';
+
+export interface SequelizeIncludeOptions {
+  association: string;
+  where?: any;
+  required?: boolean;
+  attributes?: string[];
+  separate?: boolean;
+  order?: Array<[string, 'ASC' | 'DESC']>;
+  limit?: number;
+  offset?: number;
+  include?: SequelizeIncludeOptions[];
+}
 
 export interface SequelizeQueryOptions {
   where?: any;
@@ -14,13 +26,14 @@ export interface SequelizeQueryOptions {
   offset?: number;
   order?: Array<[string, 'ASC' | 'DESC']>;
   attributes?: string[] | { include?: string[]; exclude?: string[] };
+  include?: SequelizeIncludeOptions[];
   [key: string]: any;
 }
 
 export class SequelizeQueryBuilder extends BaseQueryBuilder<SequelizeQueryOptions> {
-  constructor(options: ConversionOptions = {}) {
+  constructor(options: SequelizeAdapterOptions = {}) {
     const adapter = new SequelizeAdapter(options);
-    super(adapter);
+    super(adapter, options.limits, options.search);
   }
 
   /**
@@ -67,6 +80,65 @@ export class SequelizeQueryBuilder extends BaseQueryBuilder<SequelizeQueryOption
     }
   }
 
+  /**
+   * Set the expanded relations in Sequelize format: nested include entries per association
+   */
+  protected setExpand(query: SequelizeQueryOptions, expand: ExpandItem[]): void {
+    query.include = query.include ?? [];
+    for (const item of expand) {
+      this.addInclude(query.include, item);
+    }
+  }
+
+  /**
+   * Add one expanded association; a multi-segment path (author/profile) nests one include per segment
+   * A filtered include is not required, so parents without matching related rows are kept
+   * Sorting or paging an include loads it in a separate query, the only way Sequelize limits per parent
+   */
+  private addInclude(includes: SequelizeIncludeOptions[], item: ExpandItem): void {
+    let siblings = includes;
+    let include: SequelizeIncludeOptions | undefined;
+    for (const association of item.path) {
+      include = siblings.find(entry => entry.association === association);
+      if (!include) {
+        include = { association };
+        siblings.push(include);
+      }
+      siblings = include.include = include.include ?? [];
+    }
+
+    const target = include!;
+    if (item.filter) {
+      target.where = this.adapter.convert(item.filter);
+      target.required = false;
+    }
+    if (item.select) {
+      target.attributes = this.flattenSelectObject(parseSelect(item.select));
+    }
+    if (item.orderBy || item.top !== undefined || (item.skip !== undefined && item.skip > 0)) {
+      target.separate = true;
+    }
+    if (item.orderBy) {
+      target.order = Object.entries(parseOrderBy(item.orderBy)).map(([field, direction]) => [
+        field,
+        direction.toUpperCase() as 'ASC' | 'DESC'
+      ]);
+    }
+    if (item.top !== undefined) {
+      target.limit = item.top;
+    }
+    if (item.skip !== undefined && item.skip > 0) {
+      target.offset = item.skip;
+    }
+
+    for (const nested of item.expand) {
+      this.addInclude(siblings, nested);
+    }
+    if (siblings.length === 0) {
+      delete target.include;
+    }
+  }
+
   /**
    * Create a count query from a find query
    * Count query should not include limit, offset, attributes, order
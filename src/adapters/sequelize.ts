@@ -1,68 +1,311 @@
 /**
  * Sequelize Adapter
+ * Converts OData filters to Sequelize where objects keyed by Op symbols
  */
 
-import { BaseOrmAdapter, ConversionOptions, WhereClause, ComparisonNode, MethodCallNode } from './base';
-import { ODataNode } from '../types';
+import type * as SequelizeModule from 'sequelize';
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { booleanComparison, normalizeComparison, propertyPath, literalValue, unwrapCaseFunction, usesLambdaElement } from '../utils/filter-expression';
+import { loadOptionalDependency } from '../utils/optional-dependency';
+import { ODataMethod, SqlDialect } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface SequelizeAdapterOptions extends ConversionOptions {
+  /**
+   * Database dialect; on SQLite string methods compare with instr() and substr() instead of LIKE
+   */
+  dialect?: SqlDialect | `${SqlDialect}`;
+}
 
 export interface SequelizeWhereClause extends WhereClause {
-  // Sequelize specific types will be defined here
+  [key: string]: any;
+  [key: symbol]: any;
 }
 
-export class SequelizeAdapter extends BaseOrmAdapter {
-  constructor(options: ConversionOptions = {}) {
+export class SequelizeAdapter extends BaseOrmAdapter<SequelizeWhereClause> {
+  private sequelize?: typeof SequelizeModule;
+
+  constructor(options: SequelizeAdapterOptions = {}) {
     super(options);
   }
 
   /**
-   * Convert OData filter string to Sequelize where clause
+   * Convert a filter expression to Sequelize where clause
    */
-  convert(odataFilterString: string): SequelizeWhereClause {
-    throw new Error('Sequelize adapter is coming soon! Please stay tuned for updates.');
+  convertExpression(expression: FilterExpression): SequelizeWhereClause {
+    return this.convertWithPrefix(expression, []);
   }
 
   /**
-   * Convert AST node to Sequelize filter
+   * Create an empty Sequelize where clause
    */
-  convertNode(node: ODataNode): SequelizeWhereClause {
-    throw new Error('Sequelize adapter is coming soon! Please stay tuned for updates.');
+  protected createEmptyFilter(): SequelizeWhereClause {
+    return {};
   }
 
   /**
-   * Handle comparison operations
+   * Get the ORM name
    */
-  handleComparison(node: ComparisonNode): SequelizeWhereClause {
-    throw new Error('Sequelize adapter is coming soon! Please stay tuned for updates.');
+  getOrmName(): string {
+    return 'Sequelize';
   }
 
   /**
-   * Handle logical operations
+   * Get supported features for Sequelize
    */
-  handleLogical(node: ODataNode): SequelizeWhereClause {
-    throw new Error('Sequelize adapter is coming soon! Please stay tuned for updates.');
+  getSupportedFeatures(): string[] {
+    return [
+      'Basic comparisons (Op.eq, Op.ne, Op.gt, Op.gte, Op.lt, Op.lte)',
+      'Logical operations (Op.and, Op.or, Op.not)',
+      'String methods (Op.substring, Op.startsWith, Op.endsWith)',
+      'Case sensitivity control (Op.iLike)',
+      'SQLite string methods (instr, substr)',
+      'IN expressions (Op.in)',
+      'NULL checks (Op.is)',
+      'Nested association paths ($assoc.field$)',
+      'Collection any() filters',
+      'Year filtering',
+      'Arithmetic comparisons'
+    ];
   }
 
   /**
-   * Handle method calls
+   * Lazily load Sequelize so it stays an optional dependency
    */
-  handleMethod(node: MethodCallNode): SequelizeWhereClause {
-    throw new Error('Sequelize adapter is coming soon! Please stay tuned for updates.');
+  private get library(): typeof SequelizeModule {
+    if (!this.sequelize) {
+      this.sequelize = loadOptionalDependency<typeof SequelizeModule>('sequelize', 'Sequelize');
+    }
+    return this.sequelize;
+  }
+
+  private get Op(): typeof SequelizeModule.Op {
+    return this.library.Op;
   }
 
   /**
-   * Get the ORM name
+   * Convert an expression; prefix holds the association path of an enclosing any() lambda
    */
-  getOrmName(): string {
-    return 'Sequelize';
+  private convertWithPrefix(expression: FilterExpression, prefix: string[]): SequelizeWhereClause {
+    const Op = this.Op;
+
+    switch (expression.node) {
+      case 'Compare':
+        return this.buildComparison(expression, prefix);
+
+      case 'Property':
+        return this.buildComparison(booleanComparison(expression), prefix);
+
+      case 'And':
+        return { [Op.and]: expression.operands.map(operand => this.convertWithPrefix(operand, prefix)) };
+
+      case 'Or':
+        return { [Op.or]: expression.operands.map(operand => this.convertWithPrefix(operand, prefix)) };
+
+      case 'Not':
+        return { [Op.not]: this.convertWithPrefix(expression.operand, prefix) };
+
+      case 'Lambda': {
+        if (expression.kind === 'all') {
+          throw new UnsupportedFeatureError(
+            `Sequelize where clauses cannot express all() on '${expression.path.join('/')}'. Use a subquery with NOT EXISTS instead`,
+            'all()'
+          );
+        }
+        if (!expression.body) {
+          throw new UnsupportedFeatureError(`Sequelize where clauses require a predicate for any() on '${expression.path.join('/')}'`, 'any()');
+        }
+        if (usesLambdaElement(expression)) {
+          throw new UnsupportedFeatureError(
+            `Sequelize where clauses cannot express any() over the values of '${expression.path.join('/')}'; only associations can be filtered`,
+            'any()'
+          );
+        }
+        return this.convertWithPrefix(expression.body, [...prefix, ...expression.path]);
+      }
+
+      case 'Call':
+        return this.buildMethod(expression, prefix);
+
+      case 'In': {
+        const values = expression.values.map(literal => literal.value);
+        return { [this.fieldKey([...prefix, ...propertyPath(expression.left)])]: { [Op.in]: values } };
+      }
+    }
   }
 
   /**
-   * Get supported features for Sequelize
+   * Build a comparison condition
    */
-  getSupportedFeatures(): string[] {
-    return [
-      'Coming soon! This adapter is under development.',
-      'Will support: Basic comparisons, Logical operations, String methods, Date operations'
-    ];
+  private buildComparison(expression: FilterCompare, prefix: string[]): SequelizeWhereClause {
+    // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+    const { op, left, right } = normalizeComparison(expression);
+    const value = literalValue(right);
+
+    if (left.node === 'Call') {
+      return this.buildFunctionComparison(op, left, value, prefix);
+    }
+
+    return { [this.fieldKey([...prefix, ...propertyPath(left)])]: this.comparisonCondition(op, value) };
+  }
+
+  /**
+   * Map a comparison operator to a Sequelize operator object
+   */
+  private comparisonCondition(op: FilterCompareOperator, value: any): SequelizeWhereClause {
+    const Op = this.Op;
+
+    switch (op) {
+      case 'eq':
+        return value === null ? { [Op.is]: null } : { [Op.eq]: value };
+      case 'ne':
+        return value === null ? { [Op.not]: null } : { [Op.ne]: value };
+      case 'gt':
+        return { [Op.gt]: value };
+      case 'ge':
+        return { [Op.gte]: value };
+      case 'lt':
+        return { [Op.lt]: value };
+      case 'le':
+        return { [Op.lte]: value };
+    }
+  }
+
+  /**
+   * Handle function calls on the left side of a comparison
+   */
+  private buildFunctionComparison(
+    op: FilterCompareOperator,
+    left: FilterCall,
+    value: any,
+    prefix: string[]
+  ): SequelizeWhereClause {
+    const Op = this.Op;
+    const { fn, args } = left;
+
+    switch (fn) {
+      case ODataMethod.YEAR: {
+        const field = this.fieldKey([...prefix, ...propertyPath(args[0])]);
+        const start = new Date(Date.UTC(value, 0, 1));
+        const end = new Date(Date.UTC(value + 1, 0, 1));
+        const ranges: Record<FilterCompareOperator, SequelizeWhereClause> = {
+          eq: { [field]: { [Op.gte]: start, [Op.lt]: end } },
+          ne: { [Op.or]: [{ [field]: { [Op.lt]: start } }, { [field]: { [Op.gte]: end } }] },
+          gt: { [field]: { [Op.gte]: end } },
+          ge: { [field]: { [Op.gte]: start } },
+          lt: { [field]: { [Op.lt]: start } },
+          le: { [field]: { [Op.lt]: end } }
+        };
+        return ranges[op];
+      }
+
+      case ODataMethod.TO_LOWER:
+      case ODataMethod.TO_UPPER: {
+        const path = [...prefix, ...propertyPath(args[0])];
+        if (this.isSqlite() && (op === 'eq' || op === 'ne')) {
+          const { where, fn: sqlFn, col } = this.library;
+          return where(sqlFn('lower', col(path.join('.'))), op === 'eq' ? Op.eq : Op.ne, String(value).toLowerCase()) as SequelizeWhereClause;
+        }
+
+        const field = this.fieldKey(path);
+        if (op === 'eq') {
+          return { [field]: { [Op.iLike]: escapeLikePattern(value) } };
+        }
+        if (op === 'ne') {
+          return { [field]: { [Op.notILike]: escapeLikePattern(value) } };
+        }
+        throw new UnsupportedFeatureError(`Unsupported ${fn} comparison: ${op}`, fn);
+      }
+
+      case ODataMethod.INDEX_OF: {
+        // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+        const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+        if (op === 'ge' && value === 0) {
+          return this.buildMethod(contains, prefix);
+        }
+        if (op === 'eq' && value === -1) {
+          return { [Op.not]: this.buildMethod(contains, prefix) };
+        }
+        throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+      }
+
+      case ODataMethod.MONTH:
+      case ODataMethod.DAY:
+      case ODataMethod.LENGTH:
+      case ODataMethod.ROUND:
+      case ODataMethod.FLOOR:
+      case ODataMethod.CEILING:
+        throw new UnsupportedFeatureError(`Function ${fn} requires raw SQL. Use sequelize.where(sequelize.fn(...)) instead`, fn);
+
+      default:
+        throw new UnsupportedFeatureError(`Unsupported function in comparison: ${fn}`, fn);
+    }
+  }
+
+  /**
+   * Build a string method condition (contains, startswith, endswith)
+   */
+  private buildMethod(call: FilterCall, prefix: string[]): SequelizeWhereClause {
+    const Op = this.Op;
+    if (call.fn !== ODataMethod.CONTAINS && call.fn !== ODataMethod.STARTS_WITH && call.fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${call.fn}`, call.fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: fieldValue, caseInsensitive } = unwrapCaseFunction(call.args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const path = [...prefix, ...propertyPath(fieldValue)];
+    if (this.isSqlite()) {
+      return this.buildSqliteMethod(call.fn, path, String(literalValue(call.args[1])), insensitive);
+    }
+
+    const field = this.fieldKey(path);
+    const search = escapeLikePattern(literalValue(call.args[1]));
+
+    if (insensitive) {
+      const pattern = call.fn === ODataMethod.STARTS_WITH ? `${search}%`
+        : call.fn === ODataMethod.ENDS_WITH ? `%${search}`
+        : `%${search}%`;
+      return { [field]: { [Op.iLike]: pattern } };
+    }
+
+    const operator = call.fn === ODataMethod.STARTS_WITH ? Op.startsWith
+      : call.fn === ODataMethod.ENDS_WITH ? Op.endsWith
+      : Op.substring;
+    return { [field]: { [operator]: search } };
+  }
+
+  /**
+   * Build a string method condition for SQLite, whose LIKE has no default escape character
+   * instr() and substr() compare the search value literally, so it needs no escaping
+   */
+  private buildSqliteMethod(method: string, path: string[], search: string, insensitive: boolean): SequelizeWhereClause {
+    const { where, fn: sqlFn, col } = this.library;
+    const column = insensitive ? sqlFn('lower', col(path.join('.'))) : col(path.join('.'));
+    const value = insensitive ? search.toLowerCase() : search;
+
+    // substr(x, -0) is the whole string, so an empty suffix is checked like contains
+    if (method === ODataMethod.CONTAINS || value === '') {
+      return where(sqlFn('instr', column, value), this.Op.gt, 0) as SequelizeWhereClause;
+    }
+    const start = method === ODataMethod.STARTS_WITH ? [1, value.length] : [-value.length];
+    return where(sqlFn('substr', column, ...start), this.Op.eq, value) as SequelizeWhereClause;
+  }
+
+  private isSqlite(): boolean {
+    return this.options.dialect === SqlDialect.SQLITE;
+  }
+
+  /**
+   * Build the where key for a field path; association paths use the $assoc.field$ syntax
+   */
+  private fieldKey(path: string[]): string {
+    if (path.length === 0) {
+      throw new Error('Invalid field expression');
+    }
+    return path.length === 1 ? path[0] : `$${path.join('.')}$`;
   }
 }
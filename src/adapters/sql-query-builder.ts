@@ -0,0 +1,244 @@
+/**
+ * SQL Query Builder
+ * Build parameterised SQL statements from OData query parameters
+ */
+
+import { ODataQueryParams, SearchExpression, ComputeItem } from '../types/odata-query';
+import { SqlAdapter, SqlAdapterOptions, SqlWhereClause } from './sql';
+import { BaseQueryBuilder } from './base-query-builder';
+import { SqlDialect } from '../enums';
+import { searchToTsQuery } from '../utils/search';
+import { UnsupportedFeatureError, InvalidQueryOptionError } from '../errors';
+
+export interface SqlQueryBuilderOptions extends SqlAdapterOptions {
+  /**
+   * Table to select from. Without a table, `text` starts at the WHERE clause
+   * so it can be appended to a hand-written SELECT ... FROM ...
+   */
+  table?: string;
+}
+
+export interface SqlQueryOptions {
+  where?: SqlWhereClause;
+  orderBy?: string[];
+  limit?: number;
+  offset?: number;
+  select?: string[];
+  // Computed properties ($compute), rendered as SELECT expressions with their alias
+  compute?: ComputeItem[];
+  text: string;
+  values: any[];
+  [key: string]: any;
+}
+
+export class SqlQueryBuilder extends BaseQueryBuilder<SqlQueryOptions> {
+  protected adapter: SqlAdapter;
+  private readonly table?: string;
+  private readonly dialect: SqlDialect | `${SqlDialect}`;
+
+  constructor(options: SqlQueryBuilderOptions = {}) {
+    const { table, ...adapterOptions } = options;
+    const adapter = new SqlAdapter(adapterOptions);
+    super(adapter, options.limits, options.search);
+    this.adapter = adapter;
+    this.table = table;
+    this.dialect = options.dialect ?? SqlDialect.POSTGRES;
+  }
+
+  /**
+   * Build query options and render the final statement into text/values
+   */
+  buildQuery(params: ODataQueryParams): SqlQueryOptions {
+    const query = super.buildQuery(params);
+    if (query.where && !query.where.text) {
+      delete query.where;
+    }
+    return this.render(query, false);
+  }
+
+  /**
+   * Create an empty SQL query object
+   */
+  protected createEmptyQuery(): SqlQueryOptions {
+    return { text: '', values: [] };
+  }
+
+  /**
+   * Set the LIMIT parameter
+   */
+  protected setTake(query: SqlQueryOptions, take: number): void {
+    query.limit = take;
+  }
+
+  /**
+   * Set the OFFSET parameter
+   */
+  protected setSkip(query: SqlQueryOptions, skip: number): void {
+    query.offset = skip;
+  }
+
+  /**
+   * Set the ORDER BY terms as quoted identifiers with direction
+   */
+  protected setOrderBy(query: SqlQueryOptions, orderBy: Record<string, 'asc' | 'desc'>): void {
+    query.orderBy = Object.entries(orderBy).map(([field, direction]) => {
+      this.assertComputedColumn(query, field, '$orderby');
+      return `${this.adapter.quoteIdentifier(field)} ${direction.toUpperCase()}`;
+    });
+  }
+
+  /**
+   * Set the select list as quoted column names
+   * Nested selections (profile(city)) become qualified columns ("profile"."city")
+   * Computed properties are always selected, so they are left out of the column list
+   */
+  protected setSelect(query: SqlQueryOptions, select: Record<string, any>): void {
+    const paths = this.flattenSelectObject(select, []).filter(path => {
+      this.assertComputedColumn(query, path.join('/'), '$select');
+      return !this.isComputed(query, path.join('/'));
+    });
+    if (paths.length > 0 || query.compute) {
+      query.select = paths.map(path => this.adapter.quoteIdentifier(path));
+    }
+  }
+
+  /**
+   * Keep the computed properties; render() adds them to the SELECT list
+   */
+  protected setCompute(query: SqlQueryOptions, compute: ComputeItem[]): void {
+    query.compute = compute;
+  }
+
+  /**
+   * Add a full-text $search as a PostgreSQL text search over the concatenated fields
+   * to_tsvector('english', coalesce("name", '') || ' ' || coalesce("bio", '')) @@ to_tsquery('english', $1)
+   */
+  protected setSearch(query: SqlQueryOptions, search: SearchExpression): void {
+    if (this.dialect !== SqlDialect.POSTGRES) {
+      throw new UnsupportedFeatureError(`Full-text $search is only supported for PostgreSQL, not ${this.dialect}`, '$search');
+    }
+
+    const language = this.searchOptions.language ?? 'english';
+    if (!/^\w+$/.test(language)) {
+      throw new InvalidQueryOptionError(`Invalid text search configuration: ${language}`, '$search');
+    }
+
+    const document = this.getSearchFields()
+      .map(field => `coalesce(${this.adapter.quoteIdentifier(field.split('/'))}, '')`)
+      .join(" || ' ' || ");
+    const values = [...(query.where?.values ?? []), searchToTsQuery(search)];
+    const condition = `to_tsvector('${language}', ${document}) @@ to_tsquery('${language}', ${this.adapter.placeholder(values.length)})`;
+
+    query.where = {
+      text: query.where?.text ? `(${query.where.text}) AND ${condition}` : condition,
+      values
+    };
+  }
+
+  /**
+   * Create a count query from a find query
+   * Count query keeps only the WHERE clause
+   */
+  protected createCountQuery(findQuery: SqlQueryOptions): SqlQueryOptions {
+    const countQuery: SqlQueryOptions = { text: '', values: [] };
+    if (findQuery.where) {
+      countQuery.where = findQuery.where;
+    }
+    return this.render(countQuery, true);
+  }
+
+  /**
+   * Render SELECT/WHERE/ORDER BY/LIMIT/OFFSET into text, continuing the WHERE placeholders
+   */
+  private render(query: SqlQueryOptions, count: boolean): SqlQueryOptions {
+    const values = [...(query.where?.values ?? [])];
+    const clauses: string[] = [];
+
+    if (this.table) {
+      let columns = 'COUNT(*) AS count';
+      if (!count) {
+        // Numbered placeholders continue after the WHERE values; positional ones bind before them, in text order
+        const selectValues: any[] = [];
+        const computed = (query.compute ?? []).map(({ alias, expression }) => {
+          const column = this.adapter.convertValue(expression, this.dialect === SqlDialect.POSTGRES ? values : selectValues);
+          return `${column} AS ${this.adapter.quoteIdentifier(alias)}`;
+        });
+        columns = [...(query.select ?? ['*']), ...computed].join(', ');
+        values.unshift(...selectValues);
+      }
+      clauses.push(`SELECT ${columns} FROM ${this.adapter.quoteIdentifier(this.table)}`);
+    }
+
+    if (query.where) {
+      clauses.push(`WHERE ${query.where.text}`);
+    }
+
+    if (query.orderBy) {
+      clauses.push(`ORDER BY ${query.orderBy.join(', ')}`);
+    }
+
+    if (query.limit !== undefined) {
+      values.push(query.limit);
+      clauses.push(`LIMIT ${this.adapter.placeholder(values.length)}`);
+    } else if (query.offset !== undefined && this.dialect !== SqlDialect.POSTGRES) {
+      // MySQL and SQLite only accept OFFSET together with LIMIT
+      clauses.push(this.dialect === SqlDialect.MYSQL ? 'LIMIT 18446744073709551615' : 'LIMIT -1');
+    }
+
+    if (query.offset !== undefined) {
+      values.push(query.offset);
+      clauses.push(`OFFSET ${this.adapter.placeholder(values.length)}`);
+    }
+
+    query.text = clauses.join(' ');
+    query.values = values;
+    return query;
+  }
+
+  /**
+   * Computed properties are only available as SELECT columns, which need a table to select from
+   */
+  private assertComputedColumn(query: SqlQueryOptions, field: string, option: '$orderby' | '$select'): void {
+    if (!this.table && this.isComputed(query, field)) {
+      throw new UnsupportedFeatureError(`${option} on the computed property '${field}' requires the table option`, '$compute');
+    }
+  }
+
+  private isComputed(query: SqlQueryOptions, field: string): boolean {
+    return query.compute?.some(item => item.alias === field) ?? false;
+  }
+
+  /**
+   * Helper method to flatten nested select objects into column paths
+   */
+  private flattenSelectObject(select: Record<string, any>, prefix: string[]): string[][] {
+    const paths: string[][] = [];
+
+    for (const [key, value] of Object.entries(select)) {
+      const path = [...prefix, key];
+      if (value === true) {
+        paths.push(path);
+      } else if (typeof value === 'object' && value !== null) {
+        paths.push(...this.flattenSelectObject(value, path));
+      }
+    }
+
+    return paths;
+  }
+}
+
+/**
+ * Static factory method for quick usage
+ */
+export function createSqlQuery(params: ODataQueryParams, options: SqlQueryBuilderOptions = {}): SqlQueryOptions {
+  const builder = new SqlQueryBuilder(options);
+  return builder.buildQuery(params);
+}
+
+/**
+ * Static factory method for pagination queries
+ */
+export function createSqlPaginationQuery(params: ODataQueryParams, options: SqlQueryBuilderOptions = {}) {
+  const builder = new SqlQueryBuilder(options);
+  return builder.buildPaginationQuery(params);
+}
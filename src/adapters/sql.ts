@@ -0,0 +1,316 @@
+/**
+ * SQL Adapter
+ * Converts OData filters to parameterised SQL WHERE clauses for Postgres, MySQL and SQLite
+ */
+
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import { FilterExpression, FilterValue, FilterCompare, FilterCall, FilterArithmeticOperator } from '../types';
+import { escapeLikePattern, getComparisonSymbol } from '../utils/helpers';
+import { literalValue } from '../utils/filter-expression';
+import { ODataMethod, SqlDialect } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export interface SqlAdapterOptions extends ConversionOptions {
+  dialect?: SqlDialect | `${SqlDialect}`;
+}
+
+export interface SqlWhereClause extends WhereClause {
+  text: string;
+  values: any[];
+}
+
+interface SqlDialectConfig {
+  quote: string;
+  placeholder: (index: number) => string;
+  ilike: boolean;
+  likeEscape: string;
+  functions: Record<string, (args: string[]) => string>;
+}
+
+// Functions rendered the same way by every dialect
+const COMMON_FUNCTIONS: Record<string, (args: string[]) => string> = {
+  [ODataMethod.TO_LOWER]: ([arg]) => `LOWER(${arg})`,
+  [ODataMethod.TO_UPPER]: ([arg]) => `UPPER(${arg})`,
+  [ODataMethod.TRIM]: ([arg]) => `TRIM(${arg})`,
+  [ODataMethod.ROUND]: ([arg]) => `ROUND(${arg})`,
+  [ODataMethod.FLOOR]: ([arg]) => `FLOOR(${arg})`
+};
+
+const SQL_DIALECTS: Record<SqlDialect, SqlDialectConfig> = {
+  [SqlDialect.POSTGRES]: {
+    quote: '"',
+    placeholder: index => `$${index}`,
+    ilike: true,
+    likeEscape: '',
+    functions: {
+      ...COMMON_FUNCTIONS,
+      [ODataMethod.LENGTH]: ([arg]) => `LENGTH(${arg})`,
+      [ODataMethod.CEILING]: ([arg]) => `CEIL(${arg})`,
+      [ODataMethod.YEAR]: ([arg]) => `EXTRACT(YEAR FROM ${arg})`,
+      [ODataMethod.MONTH]: ([arg]) => `EXTRACT(MONTH FROM ${arg})`,
+      [ODataMethod.DAY]: ([arg]) => `EXTRACT(DAY FROM ${arg})`,
+      [ODataMethod.INDEX_OF]: ([arg, search]) => `(STRPOS(${arg}, ${search}) - 1)`,
+      [ODataMethod.CONCAT]: args => `(${args.join(' || ')})`
+    }
+  },
+  [SqlDialect.MYSQL]: {
+    quote: '`',
+    placeholder: () => '?',
+    ilike: false,
+    likeEscape: '',
+    functions: {
+      ...COMMON_FUNCTIONS,
+      [ODataMethod.LENGTH]: ([arg]) => `CHAR_LENGTH(${arg})`,
+      [ODataMethod.CEILING]: ([arg]) => `CEILING(${arg})`,
+      [ODataMethod.YEAR]: ([arg]) => `YEAR(${arg})`,
+      [ODataMethod.MONTH]: ([arg]) => `MONTH(${arg})`,
+      [ODataMethod.DAY]: ([arg]) => `DAY(${arg})`,
+      [ODataMethod.INDEX_OF]: ([arg, search]) => `(INSTR(${arg}, ${search}) - 1)`,
+      [ODataMethod.CONCAT]: args => `CONCAT(${args.join(', ')})`
+    }
+  },
+  [SqlDialect.SQLITE]: {
+    quote: '"',
+    placeholder: () => '?',
+    ilike: false,
+    // SQLite LIKE has no default escape character
+    likeEscape: " ESCAPE '\\'",
+    functions: {
+      ...COMMON_FUNCTIONS,
+      [ODataMethod.LENGTH]: ([arg]) => `LENGTH(${arg})`,
+      [ODataMethod.CEILING]: ([arg]) => `CEIL(${arg})`,
+      [ODataMethod.YEAR]: ([arg]) => `CAST(strftime('%Y', ${arg}) AS INTEGER)`,
+      [ODataMethod.MONTH]: ([arg]) => `CAST(strftime('%m', ${arg}) AS INTEGER)`,
+      [ODataMethod.DAY]: ([arg]) => `CAST(strftime('%d', ${arg}) AS INTEGER)`,
+      [ODataMethod.INDEX_OF]: ([arg, search]) => `(INSTR(${arg}, ${search}) - 1)`,
+      [ODataMethod.CONCAT]: args => `(${args.join(' || ')})`
+    }
+  }
+};
+
+const ARITHMETIC_OPERATORS: Record<FilterArithmeticOperator, string> = {
+  add: '+',
+  sub: '-',
+  mul: '*',
+  div: '/',
+  mod: '%'
+};
+
+export class SqlAdapter extends BaseOrmAdapter<SqlWhereClause> {
+  private readonly dialect: SqlDialectConfig;
+
+  constructor(options: SqlAdapterOptions = {}) {
+    super(options);
+
+    const dialect = options.dialect ?? SqlDialect.POSTGRES;
+    if (!SQL_DIALECTS[dialect as SqlDialect]) {
+      throw new Error(`Unsupported SQL dialect: ${dialect}. Supported dialects: ${Object.values(SqlDialect).join(', ')}`);
+    }
+    this.dialect = SQL_DIALECTS[dialect as SqlDialect];
+  }
+
+  /**
+   * Convert a filter expression to a parameterised SQL condition
+   */
+  convertExpression(expression: FilterExpression): SqlWhereClause {
+    const values: any[] = [];
+    const text = this.compileCondition(expression, values);
+    return { text, values };
+  }
+
+  /**
+   * Create an empty SQL condition
+   */
+  protected createEmptyFilter(): SqlWhereClause {
+    return { text: '', values: [] };
+  }
+
+  /**
+   * Get the ORM name
+   */
+  getOrmName(): string {
+    return 'SQL';
+  }
+
+  /**
+   * Get supported features for raw SQL
+   */
+  getSupportedFeatures(): string[] {
+    return [
+      'Parameterised output ({ text, values })',
+      'Postgres, MySQL and SQLite dialects',
+      'Basic comparisons (=, !=, >, >=, <, <=)',
+      'Logical operations (AND, OR, NOT)',
+      'String methods via escaped LIKE',
+      'Case sensitivity control (ILIKE / LOWER() LIKE)',
+      'IN expressions',
+      'NULL checks (IS NULL, IS NOT NULL)',
+      'Date functions (year, month, day)',
+      'Math and string functions (round, floor, ceiling, length, indexof, concat)',
+      'Arithmetic expressions (add, sub, mul, div, mod)'
+    ];
+  }
+
+  /**
+   * Quote an identifier or a navigation path (profile/city => "profile"."city")
+   */
+  quoteIdentifier(identifier: string | string[]): string {
+    const segments = Array.isArray(identifier) ? identifier : identifier.split(/[/.]/);
+    const { quote } = this.dialect;
+    return segments
+      .map(segment => `${quote}${segment.split(quote).join(quote + quote)}${quote}`)
+      .join('.');
+  }
+
+  /**
+   * Get the placeholder for the 1-based parameter index
+   */
+  placeholder(index: number): string {
+    return this.dialect.placeholder(index);
+  }
+
+  /**
+   * Compile a value expression ($compute), adding its parameters to values
+   */
+  convertValue(value: FilterValue, values: any[]): string {
+    return this.compileExpression(value, values);
+  }
+
+  /**
+   * Compile a boolean condition
+   */
+  private compileCondition(expression: FilterExpression, values: any[]): string {
+    switch (expression.node) {
+      case 'Compare':
+        return this.compileComparison(expression, values);
+
+      case 'Property':
+        // Bare boolean column (Active)
+        return this.compileExpression(expression, values);
+
+      case 'And':
+        return expression.operands
+          .map(operand => {
+            const text = this.compileCondition(operand, values);
+            // OR binds looser than AND
+            return operand.node === 'Or' ? `(${text})` : text;
+          })
+          .join(' AND ');
+
+      case 'Or':
+        return expression.operands.map(operand => this.compileCondition(operand, values)).join(' OR ');
+
+      case 'Not':
+        return `NOT (${this.compileCondition(expression.operand, values)})`;
+
+      case 'In': {
+        const items = expression.values.map(item => this.bind(item.value, values));
+        return `${this.compileExpression(expression.left, values)} IN (${items.join(', ')})`;
+      }
+
+      case 'Call':
+        return this.compileMethod(expression, values);
+
+      case 'Lambda':
+        throw new UnsupportedFeatureError(
+          `SQL adapter cannot express ${expression.kind}() on '${expression.path.join('/')}'; join the related table or use an EXISTS subquery`,
+          `${expression.kind}()`
+        );
+    }
+  }
+
+  /**
+   * Compile a comparison, using IS [NOT] NULL for null literals
+   */
+  private compileComparison(expression: FilterCompare, values: any[]): string {
+    const { op, left, right } = expression;
+    const leftSql = this.compileExpression(left, values);
+
+    if (right.node === 'Literal' && right.value === null) {
+      if (op === 'eq') {
+        return `${leftSql} IS NULL`;
+      }
+      if (op === 'ne') {
+        return `${leftSql} IS NOT NULL`;
+      }
+      throw new UnsupportedFeatureError(`Unsupported null comparison: ${op}`, 'null');
+    }
+
+    return `${leftSql} ${getComparisonSymbol(op)} ${this.compileExpression(right, values)}`;
+  }
+
+  /**
+   * Compile a string predicate (contains, startswith, endswith) into LIKE
+   */
+  private compileMethod(call: FilterCall, values: any[]): string {
+    const { fn, args } = call;
+    if (fn !== ODataMethod.CONTAINS && fn !== ODataMethod.STARTS_WITH && fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${fn}`, fn);
+    }
+
+    if (args[1].node !== 'Literal') {
+      throw new UnsupportedFeatureError(`${fn} requires a literal search value`, fn);
+    }
+
+    const field = this.compileExpression(args[0], values);
+    const search = escapeLikePattern(literalValue(args[1]));
+    const pattern = fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    if (this.options.caseSensitive !== false) {
+      return `${field} LIKE ${this.bind(pattern, values)}${this.dialect.likeEscape}`;
+    }
+
+    // Case-insensitive: ILIKE where available, otherwise compare lowercased values
+    if (this.dialect.ilike) {
+      return `${field} ILIKE ${this.bind(pattern, values)}`;
+    }
+    return `LOWER(${field}) LIKE ${this.bind(pattern.toLowerCase(), values)}${this.dialect.likeEscape}`;
+  }
+
+  /**
+   * Compile a value expression: columns, literals, functions and arithmetic
+   */
+  private compileExpression(value: FilterValue, values: any[]): string {
+    switch (value.node) {
+      case 'Literal':
+        return this.bind(value.value, values);
+
+      case 'Property':
+        if (value.path.length === 0) {
+          throw new UnsupportedFeatureError('Cannot extract column from a lambda variable', 'elementComparison');
+        }
+        return this.column(value.path, values);
+
+      case 'Call': {
+        const render = this.dialect.functions[value.fn];
+        if (!render) {
+          throw new UnsupportedFeatureError(`Unsupported function in expression: ${value.fn}`, value.fn);
+        }
+        return render(value.args.map(arg => this.compileExpression(arg, values)));
+      }
+
+      case 'Arithmetic': {
+        const left = this.compileExpression(value.left, values);
+        const right = this.compileExpression(value.right, values);
+        return `(${left} ${ARITHMETIC_OPERATORS[value.op]} ${right})`;
+      }
+    }
+  }
+
+  /**
+   * Render a column reference
+   */
+  protected column(path: string[], values: any[]): string {
+    return this.quoteIdentifier(path);
+  }
+
+  /**
+   * Add a parameter value and return its placeholder
+   */
+  protected bind(value: any, values: any[]): string {
+    values.push(value);
+    return this.dialect.placeholder(values.length);
+  }
+}
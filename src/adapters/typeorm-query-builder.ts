@@ -3,24 +3,27 @@
  * Build TypeORM query options from OData query parameters
  */
 
-import { ODataQueryParams } from '../types/odata-query';
+import { ODataQueryParams, ExpandItem } from '../types/odata-query';
 import { TypeOrmAdapter } from '../adapters/typeorm';
 import { BaseQueryBuilder } from './base-query-builder';
 import { ConversionOptions } from './base';
+import { parseOrderBy, parseSelect } from '../utils/odata-parser';
+import { UnsupportedFeatureError } from '../errors';
 
 export interface TypeOrmQueryOptions {
   where?: any;
   take?: number;
   skip?: number;
-  order?: Record<string, 'ASC' | 'DESC'>;
+  order?: Record<string, any>;
   select?: string[] | Record<string, any>;
+  relations?: Record<string, any>;
   [key: string]: any;
 }
 
 export class TypeOrmQueryBuilder extends BaseQueryBuilder<TypeOrmQueryOptions> {
   constructor(options: ConversionOptions = {}) {
     const adapter = new TypeOrmAdapter(options);
-    super(adapter);
+    super(adapter, options.limits, options.search);
   }
 
   /**
@@ -67,6 +70,63 @@ export class TypeOrmQueryBuilder extends BaseQueryBuilder<TypeOrmQueryOptions> {
     }
   }
 
+  /**
+   * Set the expanded relations in TypeORM format: nested relations, with relation-scoped where, order and select
+   * TypeORM joins filtered relations, so a relation $filter also drops parent rows without a matching related row
+   */
+  protected setExpand(query: TypeOrmQueryOptions, expand: ExpandItem[]): void {
+    query.relations = query.relations ?? {};
+    for (const item of expand) {
+      this.addRelation(query, item, []);
+    }
+  }
+
+  /**
+   * Add one expanded relation and its nested expansions
+   */
+  private addRelation(query: TypeOrmQueryOptions, item: ExpandItem, contextPath: string[]): void {
+    const path = [...contextPath, ...item.path];
+    const name = path.join('/');
+    setRelationPath(query.relations!, path);
+
+    if (item.top !== undefined || item.skip !== undefined) {
+      throw new UnsupportedFeatureError(`TypeORM cannot page the relation '${name}' in $expand`, '$expand');
+    }
+
+    if (item.filter) {
+      const where = this.adapter.convert(item.filter);
+      if (Array.isArray(where)) {
+        throw new UnsupportedFeatureError(`TypeORM cannot express 'or' in the $filter of relation '${name}'`, '$expand');
+      }
+      const roots = Array.isArray(query.where) ? query.where : [query.where = query.where ?? {}];
+      roots.forEach(root => mergeAtPath(root, path, where));
+    }
+
+    if (item.orderBy) {
+      query.order = query.order ?? {};
+      for (const [field, direction] of Object.entries(parseOrderBy(item.orderBy))) {
+        mergeAtPath(query.order, [...path, ...field.split('/').slice(0, -1)], {
+          [field.split('/').pop()!]: direction.toUpperCase()
+        });
+      }
+    }
+
+    if (item.select) {
+      // Array select lists every loaded column, so the root columns must be listed as well
+      if (!Array.isArray(query.select)) {
+        throw new UnsupportedFeatureError(`TypeORM requires a top-level $select to select fields of relation '${name}'`, '$expand');
+      }
+      const prefix = path.join('.');
+      for (const field of this.flattenSelectObject(parseSelect(item.select))) {
+        query.select.push(`${prefix}.${field.split('/').join('.')}`);
+      }
+    }
+
+    for (const nested of item.expand) {
+      this.addRelation(query, nested, path);
+    }
+  }
+
   /**
    * Create a count query from a find query
    * Count query should not include take, skip, select, order
@@ -101,6 +161,28 @@ export class TypeOrmQueryBuilder extends BaseQueryBuilder<TypeOrmQueryOptions> {
   }
 }
 
+/**
+ * Mark a relation path as loaded (author/profile => { author: { profile: true } })
+ */
+function setRelationPath(relations: Record<string, any>, path: string[]): void {
+  let target = relations;
+  for (const segment of path.slice(0, -1)) {
+    target = target[segment] = typeof target[segment] === 'object' ? target[segment] : {};
+  }
+  const last = path[path.length - 1];
+  target[last] = target[last] ?? true;
+}
+
+/**
+ * Merge properties into the object found by following a path, creating objects along the way
+ */
+function mergeAtPath(target: Record<string, any>, path: string[], value: Record<string, any>): void {
+  for (const segment of path) {
+    target = target[segment] = typeof target[segment] === 'object' && target[segment] !== null ? target[segment] : {};
+  }
+  Object.assign(target, value);
+}
+
 /**
  * Static factory method for quick usage
  */
@@ -1,68 +1,347 @@
 /**
  * TypeORM Adapter
+ * Converts OData filters to TypeORM FindOptionsWhere objects
  */
 
-import { BaseOrmAdapter, ConversionOptions, WhereClause, ComparisonNode, MethodCallNode } from './base';
-import { ODataNode } from '../types';
+import type * as TypeOrm from 'typeorm';
+import { BaseOrmAdapter, ConversionOptions, WhereClause } from './base';
+import { FilterExpression, FilterCompare, FilterCompareOperator, FilterCall } from '../types';
+import { escapeLikePattern } from '../utils/helpers';
+import { buildNestedWhere } from '../utils/field-path';
+import { booleanComparison, normalizeComparison, propertyPath, literalValue, unwrapCaseFunction, usesLambdaElement } from '../utils/filter-expression';
+import { loadOptionalDependency } from '../utils/optional-dependency';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError, QueryLimitExceededError } from '../errors';
 
 export interface TypeOrmWhereClause extends WhereClause {
-  // TypeORM specific types will be defined here
+  [key: string]: any;
 }
 
-export class TypeOrmAdapter extends BaseOrmAdapter {
+// AND-ed OR groups multiply into where objects ((a or b) and (c or d) => 4), so their number is capped
+const MAX_WHERE_BRANCHES = 256;
+
+/**
+ * A single where object or an array of where objects (TypeORM ORs array entries)
+ */
+export type TypeOrmWhere = TypeOrmWhereClause | TypeOrmWhereClause[];
+
+export class TypeOrmAdapter extends BaseOrmAdapter<TypeOrmWhere> {
+  private typeorm?: typeof TypeOrm;
+
   constructor(options: ConversionOptions = {}) {
     super(options);
   }
 
   /**
-   * Convert OData filter string to TypeORM where clause
+   * Convert a filter expression to TypeORM where clause
+   * OR conditions produce an array of where objects
    */
-  convert(odataFilterString: string): TypeOrmWhereClause {
-    throw new Error('TypeORM adapter is coming soon! Please stay tuned for updates.');
+  convertExpression(expression: FilterExpression): TypeOrmWhere {
+    const branches = this.toBranches(expression, false);
+    return branches.length === 1 ? branches[0] : branches;
   }
 
   /**
-   * Convert AST node to TypeORM filter
+   * Create an empty TypeORM where clause
    */
-  convertNode(node: ODataNode): TypeOrmWhereClause {
-    throw new Error('TypeORM adapter is coming soon! Please stay tuned for updates.');
+  protected createEmptyFilter(): TypeOrmWhere {
+    return {};
   }
 
   /**
-   * Handle comparison operations
+   * Get the ORM name
    */
-  handleComparison(node: ComparisonNode): TypeOrmWhereClause {
-    throw new Error('TypeORM adapter is coming soon! Please stay tuned for updates.');
+  getOrmName(): string {
+    return 'TypeORM';
   }
 
   /**
-   * Handle logical operations
+   * Get supported features for TypeORM
    */
-  handleLogical(node: ODataNode): TypeOrmWhereClause {
-    throw new Error('TypeORM adapter is coming soon! Please stay tuned for updates.');
+  getSupportedFeatures(): string[] {
+    return [
+      'Basic comparisons (=, !=, >, >=, <, <=)',
+      'Logical operations (AND, OR as where arrays, NOT)',
+      'String methods (contains, startsWith, endsWith) via Like/ILike',
+      'Case sensitivity control',
+      'IN expressions',
+      'NULL checks (IsNull)',
+      'Nested relation paths',
+      'Collection any() filters',
+      'Year filtering',
+      'Arithmetic comparisons'
+    ];
   }
 
   /**
-   * Handle method calls
+   * Lazily load TypeORM so it stays an optional dependency
    */
-  handleMethod(node: MethodCallNode): TypeOrmWhereClause {
-    throw new Error('TypeORM adapter is coming soon! Please stay tuned for updates.');
+  private get ops(): typeof TypeOrm {
+    if (!this.typeorm) {
+      this.typeorm = loadOptionalDependency<typeof TypeOrm>('typeorm', 'TypeORM');
+    }
+    return this.typeorm;
   }
 
   /**
-   * Get the ORM name
+   * Convert an expression into a list of where objects that are OR-ed together.
+   * NOT is pushed down to the leaves (De Morgan) because FindOptionsWhere
+   * can only negate single field conditions.
    */
-  getOrmName(): string {
-    return 'TypeORM';
+  private toBranches(expression: FilterExpression, negate: boolean): TypeOrmWhereClause[] {
+    switch (expression.node) {
+      case 'Compare':
+        return [this.buildComparison(expression, negate)];
+
+      case 'Property':
+        return [this.buildComparison(booleanComparison(expression), negate)];
+
+      case 'And':
+      case 'Or': {
+        const combine = (expression.node === 'And') !== negate ? this.combineAnd : this.combineOr;
+        return expression.operands
+          .map(operand => this.toBranches(operand, negate))
+          .reduce((left, right) => combine.call(this, left, right));
+      }
+
+      case 'Not':
+        return this.toBranches(expression.operand, !negate);
+
+      case 'Lambda': {
+        const path = expression.path.join('/');
+        if (negate || expression.kind === 'all') {
+          throw new UnsupportedFeatureError(
+            `TypeORM find options cannot express ${negate ? 'negated ' : ''}${expression.kind}() on '${path}'. Use a QueryBuilder with EXISTS instead`,
+            `${expression.kind}()`
+          );
+        }
+        if (!expression.body) {
+          throw new UnsupportedFeatureError(`TypeORM find options require a predicate for any() on '${path}'`, 'any()');
+        }
+        if (usesLambdaElement(expression)) {
+          throw new UnsupportedFeatureError(
+            `TypeORM find options cannot express any() over the values of '${path}'; only relations can be filtered. Use a QueryBuilder instead`,
+            'any()'
+          );
+        }
+        return this.toBranches(expression.body, false).map(branch => buildNestedWhere(expression.path, branch));
+      }
+
+      case 'Call':
+        return [this.buildMethod(expression, negate)];
+
+      case 'In': {
+        const values = expression.values.map(literal => literal.value);
+        return [this.leaf(propertyPath(expression.left), this.ops.In(values), negate)];
+      }
+    }
   }
 
   /**
-   * Get supported features for TypeORM
+   * Build a comparison condition
    */
-  getSupportedFeatures(): string[] {
-    return [
-      'Coming soon! This adapter is under development.',
-      'Will support: Basic comparisons, Logical operations, String methods, Date operations'
-    ];
+  private buildComparison(expression: FilterCompare, negate: boolean): TypeOrmWhereClause {
+    // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+    const { op, left, right } = normalizeComparison(expression);
+    const value = literalValue(right);
+
+    if (left.node === 'Call') {
+      return this.buildFunctionComparison(op, left, value, negate);
+    }
+
+    return this.leaf(propertyPath(left), this.comparisonOperator(op, value), negate);
+  }
+
+  /**
+   * Map a comparison operator to a TypeORM find operator (or plain value for equality)
+   */
+  private comparisonOperator(op: FilterCompareOperator, value: any): any {
+    const { IsNull, Not, MoreThan, MoreThanOrEqual, LessThan, LessThanOrEqual } = this.ops;
+
+    switch (op) {
+      case 'eq':
+        return value === null ? IsNull() : value;
+      case 'ne':
+        return value === null ? Not(IsNull()) : Not(value);
+      case 'gt':
+        return MoreThan(value);
+      case 'ge':
+        return MoreThanOrEqual(value);
+      case 'lt':
+        return LessThan(value);
+      case 'le':
+        return LessThanOrEqual(value);
+    }
+  }
+
+  /**
+   * Handle function calls on the left side of a comparison
+   */
+  private buildFunctionComparison(
+    op: FilterCompareOperator,
+    left: FilterCall,
+    value: any,
+    negate: boolean
+  ): TypeOrmWhereClause {
+    const { fn, args } = left;
+    const { And, MoreThanOrEqual, LessThan, ILike, Not } = this.ops;
+
+    switch (fn) {
+      case ODataMethod.YEAR: {
+        const start = new Date(Date.UTC(value, 0, 1));
+        const end = new Date(Date.UTC(value + 1, 0, 1));
+        const ranges: Record<FilterCompareOperator, any> = {
+          eq: And(MoreThanOrEqual(start), LessThan(end)),
+          ne: Not(And(MoreThanOrEqual(start), LessThan(end))),
+          gt: MoreThanOrEqual(end),
+          ge: MoreThanOrEqual(start),
+          lt: LessThan(start),
+          le: LessThan(end)
+        };
+        return this.leaf(propertyPath(args[0]), ranges[op], negate);
+      }
+
+      case ODataMethod.TO_LOWER:
+      case ODataMethod.TO_UPPER: {
+        if (op !== 'eq' && op !== 'ne') {
+          throw new UnsupportedFeatureError(`Unsupported ${fn} comparison: ${op}`, fn);
+        }
+        const condition = ILike(escapeLikePattern(value));
+        return this.leaf(propertyPath(args[0]), condition, (op === 'ne') !== negate);
+      }
+
+      case ODataMethod.INDEX_OF: {
+        // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+        const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+        if (op === 'ge' && value === 0) {
+          return this.buildMethod(contains, negate);
+        }
+        if (op === 'eq' && value === -1) {
+          return this.buildMethod(contains, !negate);
+        }
+        throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+      }
+
+      case ODataMethod.MONTH:
+      case ODataMethod.DAY:
+      case ODataMethod.LENGTH:
+      case ODataMethod.ROUND:
+      case ODataMethod.FLOOR:
+      case ODataMethod.CEILING:
+        throw new UnsupportedFeatureError(`Function ${fn} requires raw SQL. Use a TypeORM QueryBuilder or Raw() operator`, fn);
+
+      default:
+        throw new UnsupportedFeatureError(`Unsupported function in comparison: ${fn}`, fn);
+    }
+  }
+
+  /**
+   * Build a string method condition (contains, startswith, endswith)
+   */
+  private buildMethod(call: FilterCall, negate: boolean): TypeOrmWhereClause {
+    if (call.fn !== ODataMethod.CONTAINS && call.fn !== ODataMethod.STARTS_WITH && call.fn !== ODataMethod.ENDS_WITH) {
+      throw new UnsupportedFeatureError(`Unsupported method: ${call.fn}`, call.fn);
+    }
+
+    // tolower(Name) / toupper(Name) wrappers mean case-insensitive matching
+    const { value: field, caseInsensitive } = unwrapCaseFunction(call.args[0]);
+    const insensitive = caseInsensitive || this.options.caseSensitive === false;
+
+    const search = escapeLikePattern(literalValue(call.args[1]));
+    const pattern = call.fn === ODataMethod.STARTS_WITH ? `${search}%`
+      : call.fn === ODataMethod.ENDS_WITH ? `%${search}`
+      : `%${search}%`;
+
+    const condition = insensitive ? this.ops.ILike(pattern) : this.ops.Like(pattern);
+    return this.leaf(propertyPath(field), condition, negate);
+  }
+
+  /**
+   * Build a (possibly nested) where object for a single field condition
+   */
+  private leaf(path: string[], condition: any, negate: boolean): TypeOrmWhereClause {
+    return buildNestedWhere(path, negate ? this.ops.Not(condition) : condition);
+  }
+
+  /**
+   * Combine two OR-lists with AND (cross product of the branches)
+   */
+  private combineAnd(left: TypeOrmWhereClause[], right: TypeOrmWhereClause[]): TypeOrmWhereClause[] {
+    const count = left.length * right.length;
+    if (count > MAX_WHERE_BRANCHES) {
+      throw new QueryLimitExceededError(
+        `$filter expands to ${count} TypeORM where objects, more than the maximum of ${MAX_WHERE_BRANCHES}. ` +
+          'Simplify the and-ed or conditions or use a QueryBuilder',
+        'maxWhereBranches',
+        MAX_WHERE_BRANCHES,
+        count,
+        '$filter'
+      );
+    }
+
+    const result: TypeOrmWhereClause[] = [];
+    for (const l of left) {
+      for (const r of right) {
+        result.push(this.mergeWhere(l, r));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Combine two OR-lists with OR, collapsing equality on one field into In()
+   */
+  private combineOr(left: TypeOrmWhereClause[], right: TypeOrmWhereClause[]): TypeOrmWhereClause[] {
+    const branches = [...left, ...right];
+    const field = Object.keys(branches[0])[0];
+    const values: any[] = [];
+
+    for (const branch of branches) {
+      const keys = Object.keys(branch);
+      if (keys.length !== 1 || keys[0] !== field) {
+        return branches;
+      }
+      const value = branch[field];
+      if (this.isFindOperator(value) && value.type === 'in' && Array.isArray(value.value)) {
+        values.push(...value.value);
+      } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+        values.push(value);
+      } else {
+        return branches;
+      }
+    }
+
+    return [{ [field]: this.ops.In([...new Set(values)]) }];
+  }
+
+  /**
+   * Deep merge two where objects; conflicting field conditions are joined with And()
+   */
+  private mergeWhere(a: TypeOrmWhereClause, b: TypeOrmWhereClause): TypeOrmWhereClause {
+    const result: TypeOrmWhereClause = { ...a };
+
+    for (const [key, value] of Object.entries(b)) {
+      if (!(key in result)) {
+        result[key] = value;
+      } else if (this.isPlainObject(result[key]) && this.isPlainObject(value)) {
+        result[key] = this.mergeWhere(result[key], value);
+      } else {
+        result[key] = this.ops.And(this.toOperator(result[key]), this.toOperator(value));
+      }
+    }
+
+    return result;
+  }
+
+  private toOperator(value: any): TypeOrm.FindOperator<any> {
+    return this.isFindOperator(value) ? value : this.ops.Equal(value);
+  }
+
+  private isFindOperator(value: any): value is TypeOrm.FindOperator<any> {
+    return value instanceof this.ops.FindOperator;
+  }
+
+  private isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
   }
 }
@@ -2,244 +2,116 @@
  * Comparison operation handlers
  */
 
-import { 
-  ODataNode, 
-  ComparisonNode, 
-  ConversionOptions, 
-  PrismaWhereClause, 
+import {
+  ConversionOptions,
+  PrismaWhereClause,
   ComparisonOperator,
-  ComparisonType,
-  ArithmeticOperator
+  FilterCompare,
+  FilterCompareOperator,
+  FilterCall
 } from '../types';
-import { getFieldName, getLiteralValue, getComparisonSymbol } from '../utils/helpers';
-import { extractFieldPath, buildNestedWhere, normalizeFieldPath } from '../utils/field-path';
-import { NodeType, ODataMethod, ComparisonOperator as ComparisonOperatorEnum, PrismaStringMode } from '../enums';
+import { getComparisonSymbol } from '../utils/helpers';
+import { buildNestedWhere, normalizeFieldPath } from '../utils/field-path';
+import { normalizeComparison, propertyPath, literalValue } from '../utils/filter-expression';
+import { ODataMethod, ComparisonOperator as ComparisonOperatorEnum } from '../enums';
+import { handleMethod } from './methods';
+import { UnsupportedFeatureError } from '../errors';
+
+const OPERATOR_MAP: Record<FilterCompareOperator, ComparisonOperator> = {
+  eq: ComparisonOperatorEnum.EQUALS,
+  ne: ComparisonOperatorEnum.NOT,
+  gt: ComparisonOperatorEnum.GT,
+  ge: ComparisonOperatorEnum.GTE,
+  lt: ComparisonOperatorEnum.LT,
+  le: ComparisonOperatorEnum.LTE
+};
 
 /**
  * Handle comparison operators
  */
-export function handleComparison(node: ComparisonNode, options: ConversionOptions = {}): PrismaWhereClause {
-  let { left, right } = node.value;
-  
-  // Unwrap parentheses
-  if (left.type === NodeType.PAREN_EXPRESSION || left.type === NodeType.BOOL_PAREN_EXPRESSION) {
-    left = left.value;
-  }
-  
-  // Handle arithmetic expressions
-  if (left.type === NodeType.MUL_EXPRESSION || left.type === NodeType.DIV_EXPRESSION || 
-      left.type === NodeType.ADD_EXPRESSION || left.type === NodeType.SUB_EXPRESSION) {
-    return handleArithmeticComparison(node, left, right, options);
-  }
-  
+export function handleComparison(expression: FilterCompare, options: ConversionOptions = {}): PrismaWhereClause {
+  // Arithmetic: move the operand to the literal side (Price mul 2 gt 100 => Price gt 50)
+  const { op, left, right } = normalizeComparison(expression);
+  const value = literalValue(right);
+
   // Handle function calls in comparison
-  if (left.type === NodeType.METHOD_CALL_EXPRESSION) {
-    return handleFunctionComparison(node, left, right, options);
+  if (left.node === 'Call') {
+    return handleFunctionComparison(op, left, value, options);
   }
-  
+
   // Basic field comparison
-  const fieldPath = extractFieldPath(left);
-  const normalizedPath = normalizeFieldPath(fieldPath, options);
-  const field = normalizedPath.length > 0 ? normalizedPath.join('.') : getFieldName(left);
-  const value = getLiteralValue(right);
-  
-  const operatorMap: Record<ComparisonType, ComparisonOperator> = {
-    [NodeType.EQUALS_EXPRESSION]: ComparisonOperatorEnum.EQUALS,
-    [NodeType.NOT_EQUALS_EXPRESSION]: ComparisonOperatorEnum.NOT,
-    [NodeType.GREATER_THAN_EXPRESSION]: ComparisonOperatorEnum.GT,
-    [NodeType.GREATER_OR_EQUALS_EXPRESSION]: ComparisonOperatorEnum.GTE,
-    [NodeType.LESSER_THAN_EXPRESSION]: ComparisonOperatorEnum.LT,
-    [NodeType.LESSER_OR_EQUALS_EXPRESSION]: ComparisonOperatorEnum.LTE
-  };
-  
-  const operator = operatorMap[node.type as ComparisonType];
-  if (!operator) {
-    throw new Error(`Unsupported comparison operator: ${node.type}`);
-  }
-  
+  const path = normalizeFieldPath(propertyPath(left), options);
+  const operator = OPERATOR_MAP[op];
+
   // Handle null values
   if (value === null) {
-    const condition = operator === ComparisonOperatorEnum.EQUALS ? null : { not: null };
-    return normalizedPath.length > 1 ? buildNestedWhere(normalizedPath, condition) : { [field]: condition };
+    return buildNestedWhere(path, operator === ComparisonOperatorEnum.EQUALS ? null : { not: null });
   }
-  
-  const condition = { [operator]: value };
-  return normalizedPath.length > 1 ? buildNestedWhere(normalizedPath, condition) : { [field]: condition };
-}
 
-/**
- * Handle arithmetic expressions in comparison
- */
-export function handleArithmeticComparison(
-  node: ComparisonNode, 
-  left: ODataNode, 
-  right: ODataNode, 
-  options: ConversionOptions
-): PrismaWhereClause {
-  const field = getFieldName(left.value.left);
-  const operand = getLiteralValue(left.value.right);
-  const threshold = getLiteralValue(right);
-  
-  const comparisonMap: Record<ComparisonType, string> = {
-    [NodeType.LESSER_THAN_EXPRESSION]: ComparisonOperatorEnum.LT,
-    [NodeType.LESSER_OR_EQUALS_EXPRESSION]: ComparisonOperatorEnum.LTE,
-    [NodeType.GREATER_THAN_EXPRESSION]: ComparisonOperatorEnum.GT,
-    [NodeType.GREATER_OR_EQUALS_EXPRESSION]: ComparisonOperatorEnum.GTE,
-    [NodeType.EQUALS_EXPRESSION]: ComparisonOperatorEnum.EQUALS,
-    [NodeType.NOT_EQUALS_EXPRESSION]: ComparisonOperatorEnum.NOT
-  };
-  
-  const op = comparisonMap[node.type as ComparisonType];
-  if (!op) {
-    throw new Error(`Unsupported arithmetic comparison: ${node.type}`);
-  }
-  
-  let adjustedThreshold: number;
-  // Handle arithmetic with all comparison operators
-  switch (left.type as ArithmeticOperator) {
-    case NodeType.MUL_EXPRESSION:
-      adjustedThreshold = threshold / operand;
-      break;
-    case NodeType.DIV_EXPRESSION:
-      adjustedThreshold = threshold * operand;
-      break;
-    case NodeType.ADD_EXPRESSION:
-      adjustedThreshold = threshold - operand;
-      break;
-    case NodeType.SUB_EXPRESSION:
-      adjustedThreshold = threshold + operand;
-      break;
-    default:
-      throw new Error(`Unsupported arithmetic operation: ${left.type}`);
-  }
-  
-  // Special handling for NotEqualsExpression
-  if (op === ComparisonOperatorEnum.NOT) {
-    return { [field]: { not: { equals: adjustedThreshold } } };
-  }
-  
-  return { [field]: { [op]: adjustedThreshold } };
+  return buildNestedWhere(path, { [operator]: value });
 }
 
 /**
  * Handle function calls in comparison
  */
 export function handleFunctionComparison(
-  node: ComparisonNode, 
-  left: ODataNode, 
-  right: ODataNode, 
+  op: FilterCompareOperator,
+  left: FilterCall,
+  value: any,
   options: ConversionOptions
 ): PrismaWhereClause {
-  const { method, parameters } = left.value;
-  
-  switch (method) {
+  const { fn, args } = left;
+
+  switch (fn) {
     case ODataMethod.YEAR:
-      if (node.type === NodeType.EQUALS_EXPRESSION) {
-        return handleYearEq(left, right);
+      if (op === 'eq') {
+        return handleYearEq(left, value);
       }
-      throw new Error(`Unsupported year comparison: ${node.type}`);
-      
+      throw new UnsupportedFeatureError(`Unsupported year comparison: ${op}`, fn);
+
     case ODataMethod.MONTH:
-      if (node.type === NodeType.EQUALS_EXPRESSION) {
-        return handleMonthEq(left, right);
-      }
-      throw new Error(`Unsupported month comparison: ${node.type}`);
-      
+      throw new UnsupportedFeatureError('Month extraction requires raw SQL. Use prisma.$queryRaw with convertToSql()', fn);
+
     case ODataMethod.DAY:
-      if (node.type === NodeType.EQUALS_EXPRESSION) {
-        return handleDayEq(left, right);
+      throw new UnsupportedFeatureError('Day extraction requires raw SQL. Use prisma.$queryRaw with convertToSql()', fn);
+
+    case ODataMethod.INDEX_OF: {
+      // indexof(field, 'text') ge 0 means contains, eq -1 means not contains
+      const contains: FilterCall = { node: 'Call', fn: ODataMethod.CONTAINS, args };
+      if (op === 'ge' && value === 0) {
+        return handleMethod(contains, options);
       }
-      throw new Error(`Unsupported day comparison: ${node.type}`);
-    
-    case ODataMethod.INDEX_OF:
-      // indexof(field, 'text') ge 0 means contains
-      const field = getFieldName(parameters[0]);
-      const searchValue = getLiteralValue(parameters[1]);
-      const threshold = getLiteralValue(right);
-      
-      if (node.type === NodeType.GREATER_OR_EQUALS_EXPRESSION && threshold === 0) {
-        const filter: any = { contains: searchValue };
-        if (options.caseSensitive !== undefined && !options.caseSensitive) {
-          filter.mode = PrismaStringMode.INSENSITIVE;
-        }
-        return { [field]: filter };
-      } else if (node.type === NodeType.EQUALS_EXPRESSION && threshold === -1) {
-        const filter: any = { contains: searchValue };
-        if (options.caseSensitive !== undefined && !options.caseSensitive) {
-          filter.mode = PrismaStringMode.INSENSITIVE;
-        }
-        return { NOT: { [field]: filter } };
+      if (op === 'eq' && value === -1) {
+        return { NOT: handleMethod(contains, options) };
       }
-      throw new Error(`Unsupported indexof comparison: ${node.type} with threshold ${threshold}`);
-      
-    case ODataMethod.LENGTH:
-      return handleLengthComparison(node, left, right);
-      
+      throw new UnsupportedFeatureError(`Unsupported indexof comparison: ${op} with threshold ${value}`, fn);
+    }
+
+    case ODataMethod.LENGTH: {
+      // Prisma doesn't support length comparison directly
+      const field = propertyPath(args[0]).join('.');
+      throw new UnsupportedFeatureError(`Length comparison requires raw SQL: SELECT * FROM table WHERE LENGTH(${field}) ${getComparisonSymbol(op)} ${value}`, fn);
+    }
+
     case ODataMethod.ROUND:
     case ODataMethod.FLOOR:
     case ODataMethod.CEILING:
-      return handleMathFunctionComparison(node, left, right, method);
-      
+      throw new UnsupportedFeatureError(`Math function ${fn} requires raw SQL implementation. Use prisma.$queryRaw with convertToSql()`, fn);
+
     default:
-      throw new Error(`Unsupported function in comparison: ${method}`);
+      throw new UnsupportedFeatureError(`Unsupported function in comparison: ${fn}`, fn);
   }
 }
 
 /**
- * Handle year(...) eq value
+ * Handle year(...) eq value as a range over the whole year
  */
-function handleYearEq(node: ODataNode, literalNode: ODataNode): PrismaWhereClause {
-  const { parameters } = node.value;
-  const field = getFieldName(parameters[0]);
-  const year = getLiteralValue(literalNode);
-  
+function handleYearEq(call: FilterCall, year: number): PrismaWhereClause {
   const start = new Date(Date.UTC(year, 0, 1));
   const end = new Date(Date.UTC(year + 1, 0, 1));
-  
-  return { [field]: { gte: start, lt: end } };
-}
 
-/**
- * Handle month(...) eq value
- */
-function handleMonthEq(node: ODataNode, literalNode: ODataNode): PrismaWhereClause {
-  const { parameters } = node.value;
-  const field = getFieldName(parameters[0]);
-  const month = getLiteralValue(literalNode);
-  
-  // Use raw SQL for month extraction
-  throw new Error('Month extraction requires raw SQL. Use prisma.$queryRaw');
-}
-
-/**
- * Handle day(...) eq value
- */
-function handleDayEq(node: ODataNode, literalNode: ODataNode): PrismaWhereClause {
-  const { parameters } = node.value;
-  const field = getFieldName(parameters[0]);
-  const day = getLiteralValue(literalNode);
-  
-  // Similar to month, needs raw SQL
-  throw new Error('Day extraction requires raw SQL. Use prisma.$queryRaw');
-}
-
-/**
- * Handle length function comparison
- */
-function handleLengthComparison(node: ComparisonNode, left: ODataNode, right: ODataNode): PrismaWhereClause {
-  const field = getFieldName(left.value.parameters[0]);
-  const threshold = getLiteralValue(right);
-  
-  // Prisma doesn't support length comparison directly
-  throw new Error(`Length comparison requires raw SQL: SELECT * FROM table WHERE LENGTH(${field}) ${getComparisonSymbol(node.type as ComparisonType)} ${threshold}`);
-}
-
-/**
- * Handle math functions
- */
-function handleMathFunctionComparison(node: ComparisonNode, left: ODataNode, right: ODataNode, method: string): PrismaWhereClause {
-  const field = getFieldName(left.value.parameters[0]);
-  const value = getLiteralValue(right);
-  
-  throw new Error(`Math function ${method} requires raw SQL implementation`);
+  return buildNestedWhere(propertyPath(call.args[0]), {
+    gte: start.toISOString(),
+    lt: end.toISOString()
+  });
 }
@@ -2,102 +2,79 @@
  * Date-related operation handlers
  */
 
-import { ODataNode, PrismaWhereClause } from '../types';
-import { getFieldName, getLiteralValue } from '../utils/helpers';
-import { NodeType, ODataMethod } from '../enums';
+import { PrismaWhereClause, FilterExpression, FilterCompare, FilterProperty, FilterLiteral } from '../types';
+import { buildNestedWhere } from '../utils/field-path';
+import { ODataMethod } from '../enums';
+
+type FieldComparison = FilterCompare & { left: FilterProperty; right: FilterLiteral };
 
 /**
  * Try to handle year + month combination
  */
-export function tryHandleYearMonth(a: ODataNode, b: ODataNode): PrismaWhereClause | null {
-  if (a.type === NodeType.EQUALS_EXPRESSION && b.type === NodeType.EQUALS_EXPRESSION) {
-    const al = a.value.left;
-    const ar = a.value.right;
-    const bl = b.value.left;
-    const br = b.value.right;
-    
-    if (al.type === NodeType.METHOD_CALL_EXPRESSION && bl.type === NodeType.METHOD_CALL_EXPRESSION) {
-      const am = al.value.method;
-      const bm = bl.value.method;
-      
-      if ((am === ODataMethod.YEAR && bm === ODataMethod.MONTH) || 
-          (am === ODataMethod.MONTH && bm === ODataMethod.YEAR)) {
-        const yearExpr = am === ODataMethod.YEAR ? al : bl;
-        const monthExpr = am === ODataMethod.MONTH ? al : bl;
-        const yearValue = am === ODataMethod.YEAR ? getLiteralValue(ar) : getLiteralValue(br);
-        const monthValue = am === ODataMethod.MONTH ? getLiteralValue(ar) : getLiteralValue(br);
-        
-        const field = getFieldName(yearExpr.value.parameters[0]);
-        const start = new Date(Date.UTC(yearValue, monthValue - 1, 1));
-        const end = new Date(Date.UTC(yearValue, monthValue, 1));
-        
-        return { 
-          [field]: { 
-            gte: start.toISOString(), 
-            lt: end.toISOString() 
-          } 
-        };
-      }
-    }
+export function tryHandleYearMonth(a: FilterExpression, b: FilterExpression): PrismaWhereClause | null {
+  const year = dateFunctionEquality(a, ODataMethod.YEAR) ?? dateFunctionEquality(b, ODataMethod.YEAR);
+  const month = dateFunctionEquality(a, ODataMethod.MONTH) ?? dateFunctionEquality(b, ODataMethod.MONTH);
+
+  if (!year || !month || year.path.join('/') !== month.path.join('/')) {
+    return null;
   }
-  return null;
+
+  const start = new Date(Date.UTC(year.value, month.value - 1, 1));
+  const end = new Date(Date.UTC(year.value, month.value, 1));
+
+  return buildNestedWhere(year.path, {
+    gte: start.toISOString(),
+    lt: end.toISOString()
+  });
 }
 
 /**
- * Try to handle single year filter
+ * Try to handle date range
  */
-export function tryHandleYear(node: ODataNode): PrismaWhereClause | null {
-  if (node.type === NodeType.EQUALS_EXPRESSION) {
-    const left = node.value.left;
-    const right = node.value.right;
-    
-    if (left.type === NodeType.METHOD_CALL_EXPRESSION && 
-        left.value.method === ODataMethod.YEAR) {
-      const field = getFieldName(left.value.parameters[0]);
-      const yearValue = getLiteralValue(right);
-      
-      const start = new Date(Date.UTC(yearValue, 0, 1));
-      const end = new Date(Date.UTC(yearValue + 1, 0, 1));
-      
-      return { 
-        [field]: { 
-          gte: start.toISOString(), 
-          lt: end.toISOString() 
-        } 
-      };
-    }
+export function tryHandleDateRange(a: FilterExpression, b: FilterExpression): PrismaWhereClause | null {
+  if (!isFieldComparison(a) || !isFieldComparison(b) ||
+      (a.op !== 'ge' && a.op !== 'gt') || (b.op !== 'le' && b.op !== 'lt')) {
+    return null;
   }
-  return null;
+
+  const path = a.left.path;
+  if (path.join('/') !== b.left.path.join('/')) {
+    return null;
+  }
+
+  const startOp = a.op === 'ge' ? 'gte' : 'gt';
+  const endOp = b.op === 'le' ? 'lte' : 'lt';
+
+  // Convert dates to ISO strings if they are Date objects
+  const startValue = a.right.value;
+  const endValue = b.right.value;
+
+  return buildNestedWhere(path, {
+    [startOp]: startValue instanceof Date ? startValue.toISOString() : startValue,
+    [endOp]: endValue instanceof Date ? endValue.toISOString() : endValue
+  });
 }
 
 /**
- * Try to handle date range
+ * `field op literal` comparison on a plain property
+ */
+function isFieldComparison(expression: FilterExpression): expression is FieldComparison {
+  return expression.node === 'Compare' && expression.left.node === 'Property' &&
+    expression.right.node === 'Literal' && expression.right.value !== null;
+}
+
+/**
+ * Field and value of a `fn(field) eq literal` comparison
  */
-export function tryHandleDateRange(a: ODataNode, b: ODataNode): PrismaWhereClause | null {
-  if ((a.type === NodeType.GREATER_OR_EQUALS_EXPRESSION || a.type === NodeType.GREATER_THAN_EXPRESSION) &&
-      (b.type === NodeType.LESSER_OR_EQUALS_EXPRESSION || b.type === NodeType.LESSER_THAN_EXPRESSION)) {
-    
-    const aField = getFieldName(a.value.left);
-    const bField = getFieldName(b.value.left);
-    
-    if (aField === bField) {
-      const startValue = getLiteralValue(a.value.right);
-      const endValue = getLiteralValue(b.value.right);
-      
-      const startOp = a.type === NodeType.GREATER_OR_EQUALS_EXPRESSION ? 'gte' : 'gt';
-      const endOp = b.type === NodeType.LESSER_OR_EQUALS_EXPRESSION ? 'lte' : 'lt';
-      
-      // Convert dates to ISO strings if they are Date objects
-      const startVal = startValue instanceof Date ? startValue.toISOString() : startValue;
-      const endVal = endValue instanceof Date ? endValue.toISOString() : endValue;
-      
-      return {
-        [aField]: {
-          [startOp]: startVal,
-          [endOp]: endVal
-        }
-      };
-    }
+function dateFunctionEquality(expression: FilterExpression, fn: string): { path: string[]; value: number } | null {
+  if (expression.node !== 'Compare' || expression.op !== 'eq' ||
+      expression.left.node !== 'Call' || expression.left.fn !== fn || expression.right.node !== 'Literal') {
+    return null;
+  }
+
+  const field = expression.left.args[0];
+  if (!field || field.node !== 'Property') {
+    return null;
   }
-  return null;
+  return { path: field.path, value: expression.right.value as number };
 }
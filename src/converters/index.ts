@@ -2,97 +2,107 @@
  * Main OData to Prisma converter
  */
 
-import { ConversionOptions, PrismaWhereClause, ODataNode, ComparisonNode } from '../types';
-import { preprocessODataFilter } from '../utils/helpers';
+import { ConversionOptions, PrismaWhereClause, FilterExpression, FilterLambda } from '../types';
 import { optimizeOrToIn } from '../utils/optimizer';
-import { fallbackParser } from '../utils/fallback';
+import { buildNestedWhere } from '../utils/field-path';
+import { parseFilter, booleanComparison } from '../utils/filter-expression';
+import { ODataError } from '../errors';
 import { handleComparison } from './comparison';
 import { handleMethod, handleInExpression } from './methods';
 import { tryHandleYearMonth, tryHandleDateRange } from './date';
-import { NodeType } from '../enums';
-
-// Import the odata-v4-parser
-import * as odataParser from 'odata-v4-parser';
 
 /**
  * Convert OData filter string to Prisma where
- * @param odataFilterString - OData filter string
+ * @param odataFilter - OData filter string, or an already parsed filter expression
  * @param options - Conversion options
  * @returns Prisma where clause
  */
-export function convert(odataFilterString: string, options: ConversionOptions = {}): PrismaWhereClause {
-  if (!odataFilterString || typeof odataFilterString !== 'string') {
+export function convert(odataFilter: string | FilterExpression, options: ConversionOptions = {}): PrismaWhereClause {
+  if (!odataFilter || (typeof odataFilter !== 'string' && typeof odataFilter !== 'object')) {
     return {};
   }
-  
+
   try {
-    // Pre-process the filter string
-    const preprocessed = preprocessODataFilter(odataFilterString);
-    const ast = odataParser.filter(preprocessed);
-    const result = convertNode(ast, options);
-    
+    const result = convertExpression(typeof odataFilter === 'string' ? parseFilter(odataFilter) : odataFilter, options);
+
     // Post-process to optimize OR conditions into IN operations
     return optimizeOrToIn(result);
   } catch (error) {
-    // If parsing fails, try fallback parsing for special cases
-    try {
-      return fallbackParser(odataFilterString, options);
-    } catch (fallbackError) {
-      throw new Error(`Failed to parse OData filter: ${(error as Error).message}`);
+    if (error instanceof ODataError) {
+      throw error;
     }
+    throw new Error(`Failed to parse OData filter: ${(error as Error).message}`);
   }
 }
 
 /**
- * Recursively convert AST node to Prisma filter
+ * Recursively convert a filter expression to a Prisma filter
  */
-export function convertNode(node: ODataNode, options: ConversionOptions = {}): PrismaWhereClause {
-  if (!node || !node.type) {
-    throw new Error('Invalid AST node');
-  }
+export function convertExpression(expression: FilterExpression, options: ConversionOptions = {}): PrismaWhereClause {
+  switch (expression.node) {
+    case 'Compare':
+      return handleComparison(expression, options);
 
-  switch (node.type) {
-    case NodeType.EQUALS_EXPRESSION:
-    case NodeType.NOT_EQUALS_EXPRESSION:
-    case NodeType.GREATER_THAN_EXPRESSION:
-    case NodeType.GREATER_OR_EQUALS_EXPRESSION:
-    case NodeType.LESSER_THAN_EXPRESSION:
-    case NodeType.LESSER_OR_EQUALS_EXPRESSION:
-      return handleComparison(node as ComparisonNode, options);
-
-    case NodeType.AND_EXPRESSION: {
-      const left = node.value.left;
-      const right = node.value.right;
-      
-      // Handle special case: year + month
-      const yearMonth = tryHandleYearMonth(left, right) || tryHandleYearMonth(right, left);
-      if (yearMonth) return yearMonth;
-      
-      // Handle special case: date range
-      const dateRange = tryHandleDateRange(left, right) || tryHandleDateRange(right, left);
-      if (dateRange) return dateRange;
-      
-      return { AND: [convertNode(left, options), convertNode(right, options)] };
-    }
+    case 'Property':
+      return handleComparison(booleanComparison(expression), options);
 
-    case NodeType.OR_EXPRESSION:
-      return { OR: [convertNode(node.value.left, options), convertNode(node.value.right, options)] };
+    case 'And':
+      return convertAnd(expression.operands, options);
 
-    case NodeType.NOT_EXPRESSION:
-      return { NOT: convertNode(node.value, options) };
+    case 'Or':
+      return expression.operands
+        .map(operand => convertExpression(operand, options))
+        .reduceRight((right, left) => ({ OR: [left, right] }));
 
-    case NodeType.METHOD_CALL_EXPRESSION:
-    case NodeType.COMMON_EXPRESSION:
-      return handleMethod(node, options);
+    case 'Not':
+      return { NOT: convertExpression(expression.operand, options) };
 
-    case NodeType.PAREN_EXPRESSION:
-    case NodeType.BOOL_PAREN_EXPRESSION:
-      return convertNode(node.value, options);
+    case 'In':
+      return handleInExpression(expression, options);
 
-    case NodeType.IN_EXPRESSION:
-      return handleInExpression(node, options);
+    case 'Call':
+      return handleMethod(expression, options);
 
-    default:
-      throw new Error(`Unsupported AST node type: ${node.type}`);
+    case 'Lambda':
+      return convertLambda(expression, options);
   }
 }
+
+/**
+ * Convert an AND chain as nested pairs (a and b and c => { AND: [a, { AND: [b, c] }] })
+ * A trailing pair on one field may merge into a single range (year + month, ge + le)
+ */
+function convertAnd(operands: FilterExpression[], options: ConversionOptions): PrismaWhereClause {
+  const [first, ...rest] = operands;
+  if (rest.length === 0) {
+    return convertExpression(first, options);
+  }
+
+  if (rest.length === 1) {
+    const [second] = rest;
+
+    // Handle special case: year + month
+    const yearMonth = tryHandleYearMonth(first, second);
+    if (yearMonth) return yearMonth;
+
+    // Handle special case: date range
+    const dateRange = tryHandleDateRange(first, second) || tryHandleDateRange(second, first);
+    if (dateRange) return dateRange;
+  }
+
+  return { AND: [convertExpression(first, options), convertAnd(rest, options)] };
+}
+
+/**
+ * Handle any()/all() on a relation with some/every
+ */
+function convertLambda(lambda: FilterLambda, options: ConversionOptions): PrismaWhereClause {
+  if (!lambda.body) {
+    // any() without predicate: the relation has at least one record
+    return buildNestedWhere(lambda.path, { some: {} });
+  }
+
+  return buildNestedWhere(lambda.path, {
+    [lambda.kind === 'any' ? 'some' : 'every']: convertExpression(lambda.body, options)
+  });
+}
@@ -2,133 +2,57 @@
  * Method call handlers
  */
 
-import { ODataNode, MethodCallNode, ConversionOptions, PrismaWhereClause } from '../types';
-import { getFieldName, getLiteralValue } from '../utils/helpers';
-import { NodeType, ODataMethod, PrismaStringMode } from '../enums';
+import { ConversionOptions, PrismaWhereClause, FilterCall, FilterIn } from '../types';
+import { buildNestedWhere, normalizeFieldPath } from '../utils/field-path';
+import { propertyPath, literalValue, unwrapCaseFunction } from '../utils/filter-expression';
+import { ODataMethod, PrismaStringMode } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
 
 /**
- * Handle MethodCallExpression
+ * Handle a method call used as a condition
  */
-export function handleMethod(node: ODataNode, options: ConversionOptions = {}): PrismaWhereClause {
-  let expr = node;
-  if (expr.type === NodeType.COMMON_EXPRESSION || 
-      expr.type === NodeType.PAREN_EXPRESSION || 
-      expr.type === NodeType.BOOL_PAREN_EXPRESSION) {
-    expr = expr.value;
-  }
-  
-  if (expr.type !== NodeType.METHOD_CALL_EXPRESSION) {
-    throw new Error(`Expected MethodCallExpression, got: ${expr.type}`);
-  }
-  
-  const { method, parameters } = expr.value;
-  
-  switch (method) {
-    case ODataMethod.CONTAINS: {
-      const [fieldNode, searchNode] = parameters;
-      const field = getFieldName(fieldNode);
-      const searchValue = getLiteralValue(searchNode);
-      const filter: any = { contains: searchValue };
-      
-      if (options.caseSensitive !== undefined && !options.caseSensitive) {
-        filter.mode = PrismaStringMode.INSENSITIVE;
-      }
-      
-      return { [field]: filter };
-    }
-    
-    case ODataMethod.SUBSTRING_OF: {
-      const [substrNode, fieldNode] = parameters;
-      const field = getFieldName(fieldNode);
-      const searchValue = getLiteralValue(substrNode);
-      const filter: any = { contains: searchValue };
-      
-      if (options.caseSensitive !== undefined && !options.caseSensitive) {
-        filter.mode = PrismaStringMode.INSENSITIVE;
-      }
-      
-      return { [field]: filter };
-    }
-    
-    case ODataMethod.STARTS_WITH: {
-      let [fieldNode, prefixNode] = parameters;
-      let insensitive = false;
-      
-      // Handle tolower wrapper
-      if (fieldNode.type === NodeType.METHOD_CALL_EXPRESSION && 
-          fieldNode.value.method === ODataMethod.TO_LOWER) {
-        insensitive = true;
-        fieldNode = fieldNode.value.parameters[0];
-      } else if (options.caseSensitive !== undefined && !options.caseSensitive) {
-        insensitive = true;
-      }
-      
-      const field = getFieldName(fieldNode);
-      const prefix = getLiteralValue(prefixNode);
-      const filter: any = { startsWith: prefix };
-      
-      if (insensitive) filter.mode = PrismaStringMode.INSENSITIVE;
-      return { [field]: filter };
-    }
-    
+export function handleMethod(call: FilterCall, options: ConversionOptions = {}): PrismaWhereClause {
+  switch (call.fn) {
+    case ODataMethod.CONTAINS:
+    case ODataMethod.STARTS_WITH:
     case ODataMethod.ENDS_WITH: {
-      let [fieldNode, suffixNode] = parameters;
-      let insensitive = false;
-      
-      // Handle tolower wrapper
-      if (fieldNode.type === NodeType.METHOD_CALL_EXPRESSION && 
-          fieldNode.value.method === ODataMethod.TO_LOWER) {
-        insensitive = true;
-        fieldNode = fieldNode.value.parameters[0];
-      } else if (options.caseSensitive !== undefined && !options.caseSensitive) {
-        insensitive = true;
-      }
-      
-      const field = getFieldName(fieldNode);
-      const suffix = getLiteralValue(suffixNode);
-      const filter: any = { endsWith: suffix };
-      
-      if (insensitive) filter.mode = PrismaStringMode.INSENSITIVE;
-      return { [field]: filter };
-    }
-    
-    case ODataMethod.INDEX_OF: {
-      const [fieldNode, searchNode] = parameters;
-      const field = getFieldName(fieldNode);
-      const searchValue = getLiteralValue(searchNode);
-      // indexof returns >= 0 if found, -1 if not
-      // When used with >= 0, it means "contains"
-      const filter: any = { contains: searchValue };
-      
-      if (options.caseSensitive !== undefined && !options.caseSensitive) {
-        filter.mode = PrismaStringMode.INSENSITIVE;
-      }
-      
-      return { [field]: filter };
+      // tolower()/toupper() around the field means a case-insensitive match
+      const { value: field, caseInsensitive } = unwrapCaseFunction(call.args[0]);
+      const operator = call.fn === ODataMethod.CONTAINS ? 'contains' : call.fn === ODataMethod.STARTS_WITH ? 'startsWith' : 'endsWith';
+      const filter: any = {
+        [operator]: literalValue(call.args[1]),
+        ...(caseInsensitive ? { mode: PrismaStringMode.INSENSITIVE } : insensitiveMode(options))
+      };
+
+      return buildNestedWhere(propertyPath(field), filter);
     }
-    
+
     case ODataMethod.TO_LOWER:
     case ODataMethod.TO_UPPER:
     case ODataMethod.TRIM:
-      // These functions are usually used in other contexts
-      // We'll need to handle this in the main converter to avoid circular dependency
+      // These functions are only meaningful inside a comparison
       throw new Error('String transformation functions should be handled in comparison context');
-      
-    case ODataMethod.CONCAT: {
+
+    case ODataMethod.CONCAT:
       // concat is usually used in comparison context, not standalone
       throw new Error('concat function should be used in comparison context');
-    }
-    
+
     default:
-      throw new Error(`Unsupported method: ${method}`);
+      throw new UnsupportedFeatureError(`Unsupported method: ${call.fn}`, call.fn);
   }
 }
 
 /**
  * Handle IN expression
  */
-export function handleInExpression(node: ODataNode, options: ConversionOptions): PrismaWhereClause {
-  const field = getFieldName(node.value.left);
-  const values = node.value.right.value.items.map((item: ODataNode) => getLiteralValue(item));
-  return { [field]: { in: values } };
+export function handleInExpression(expression: FilterIn, options: ConversionOptions = {}): PrismaWhereClause {
+  const values = expression.values.map(literal => literal.value);
+  return buildNestedWhere(normalizeFieldPath(propertyPath(expression.left), options), { in: values });
+}
+
+/**
+ * Mode for string filters when case sensitivity is explicitly disabled
+ */
+function insensitiveMode(options: ConversionOptions): { mode?: PrismaStringMode } {
+  return options.caseSensitive !== undefined && !options.caseSensitive ? { mode: PrismaStringMode.INSENSITIVE } : {};
 }
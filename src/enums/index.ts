@@ -34,7 +34,11 @@ export enum NodeType {
   MUL_EXPRESSION = 'MulExpression',
   DIV_EXPRESSION = 'DivExpression',
   ADD_EXPRESSION = 'AddExpression',
-  SUB_EXPRESSION = 'SubExpression'
+  SUB_EXPRESSION = 'SubExpression',
+  MOD_EXPRESSION = 'ModExpression',
+
+  // Value types
+  LITERAL = 'Literal'
 }
 
 // Comparison operators enum
@@ -78,7 +82,22 @@ export enum SupportedOrm {
   PRISMA = 'prisma',
   TYPEORM = 'typeorm',
   SEQUELIZE = 'sequelize',
-  MONGOOSE = 'mongoose'
+  MONGOOSE = 'mongoose',
+  SQL = 'sql',
+  KNEX = 'knex',
+  DRIZZLE = 'drizzle',
+  MIKRO_ORM = 'mikro-orm',
+  KYSELY = 'kysely',
+  IN_MEMORY = 'in-memory',
+  ELASTICSEARCH = 'elasticsearch',
+  HASURA = 'hasura'
+}
+
+// SQL dialects supported by the raw SQL adapter
+export enum SqlDialect {
+  POSTGRES = 'postgres',
+  MYSQL = 'mysql',
+  SQLITE = 'sqlite'
 }
 
 // ORM Status enum
@@ -106,3 +125,12 @@ export enum LiteralType {
   GUID = 'guid',
   NUMBER = 'number'
 }
+
+// Machine-readable error codes (ODataError.code)
+export enum ODataErrorCode {
+  PARSE_ERROR = 'ParseError',
+  INVALID_QUERY_OPTION = 'InvalidQueryOption',
+  SCHEMA_VALIDATION = 'SchemaValidation',
+  UNSUPPORTED_FEATURE = 'UnsupportedFeature',
+  QUERY_LIMIT_EXCEEDED = 'QueryLimitExceeded'
+}
@@ -2,4 +2,9 @@
  * Error classes for odata2orm
  */
 
+export { ODataError } from './odata-error';
+export { ODataParseError } from './odata-parse-error';
+export { InvalidQueryOptionError } from './invalid-query-option-error';
 export { SchemaValidationError } from './schema-validation-error';
+export { UnsupportedFeatureError } from './unsupported-feature-error';
+export { QueryLimitExceededError } from './query-limit-exceeded-error';
@@ -0,0 +1,20 @@
+/**
+ * Custom error for malformed query options other than $filter (e.g. $apply)
+ */
+
+import { ODataErrorCode } from '../enums';
+import { ODataError } from './odata-error';
+
+export class InvalidQueryOptionError extends ODataError {
+  public readonly option: string;
+
+  /**
+   * @param message - Human-readable description
+   * @param option - The query option, e.g. '$apply'
+   */
+  constructor(message: string, option: string) {
+    super(message, ODataErrorCode.INVALID_QUERY_OPTION, 400, option);
+    this.name = 'InvalidQueryOptionError';
+    this.option = option;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Base class for errors caused by the OData request, with a stable code and HTTP status
+ */
+
+import { ODataErrorCode } from '../enums';
+import { ODataErrorDetail, ODataErrorResponse } from '../types';
+
+export abstract class ODataError extends Error {
+  public readonly code: ODataErrorCode;
+  public readonly status: number;
+  public readonly target?: string;
+  public readonly details: ODataErrorDetail[];
+
+  /**
+   * @param message - Human-readable description
+   * @param code - Machine-readable code
+   * @param status - HTTP status to respond with: 400 for a bad request, 501 for a valid one this library cannot translate
+   * @param target - What the error is about, e.g. the query option or property path
+   * @param details - Individual problems making up this error
+   */
+  constructor(
+    message: string,
+    code: ODataErrorCode,
+    status: number,
+    target?: string,
+    details: ODataErrorDetail[] = []
+  ) {
+    super(message);
+    this.code = code;
+    this.status = status;
+    this.target = target;
+    this.details = details;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, new.target);
+    }
+  }
+
+  /**
+   * Serialize to the OData v4 JSON error format, { error: { code, message, target, details } }
+   */
+  toODataError(): ODataErrorResponse {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.target !== undefined ? { target: this.target } : {}),
+        ...(this.details.length > 0 ? { details: this.details } : {})
+      }
+    };
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Custom error for $filter syntax errors, pointing at the place in the filter to fix
+ */
+
+import { ODataErrorCode } from '../enums';
+import { ODataError } from './odata-error';
+
+export class ODataParseError extends ODataError {
+  public readonly filter: string;
+  public readonly position: number;
+  public readonly line: number;
+  public readonly column: number;
+  public readonly expected: string[];
+  public readonly token?: string;
+
+  /**
+   * @param reason - What went wrong, e.g. "Expected ')' at position 11, got 'Name'"
+   * @param filter - The $filter string being parsed
+   * @param position - 0-based offset of the error in the filter
+   * @param expected - Tokens or constructs that would have been valid at that offset
+   * @param token - The offending token text; undefined at the end of the filter
+   */
+  constructor(
+    reason: string,
+    filter: string,
+    position: number,
+    expected: string[] = [],
+    token?: string
+  ) {
+    super(`Failed to parse OData filter: ${reason}`, ODataErrorCode.PARSE_ERROR, 400, '$filter');
+    this.name = 'ODataParseError';
+    this.filter = filter;
+    this.position = position;
+    this.expected = expected;
+    this.token = token;
+
+    // 1-based line and column, for filters written over several lines
+    const before = filter.slice(0, position).split('\n');
+    this.line = before.length;
+    this.column = before[before.length - 1].length + 1;
+  }
+
+  /**
+   * Render the message and the offending line of the filter with a caret under the error
+   *
+   * Failed to parse OData filter: Unexpected end of filter at position 10, expected ')'
+   * (Age gt 18
+   *           ^
+   */
+  format(): string {
+    const source = this.filter.split('\n')[this.line - 1];
+    const caret = `${' '.repeat(this.column - 1)}^`;
+    return `${this.message}\n${source}\n${caret}`;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Custom error for queries over a configured size or complexity limit
+ */
+
+import { ODataErrorCode } from '../enums';
+import { ODataError } from './odata-error';
+
+export class QueryLimitExceededError extends ODataError {
+  public readonly limit: string;
+  public readonly max: number;
+  public readonly actual: number;
+
+  /**
+   * @param message - Human-readable description
+   * @param limit - Name of the exceeded limit, e.g. 'maxTop'
+   * @param max - The configured maximum
+   * @param actual - The value found in the query
+   * @param target - The query option exceeding the limit, e.g. '$top'
+   */
+  constructor(message: string, limit: string, max: number, actual: number, target?: string) {
+    super(message, ODataErrorCode.QUERY_LIMIT_EXCEEDED, 400, target);
+    this.name = 'QueryLimitExceededError';
+    this.limit = limit;
+    this.max = max;
+    this.actual = actual;
+  }
+}
@@ -2,23 +2,21 @@
  * Custom error for schema validation failures
  */
 
-export class SchemaValidationError extends Error {
+import { ODataErrorCode } from '../enums';
+import { ODataError } from './odata-error';
+
+export class SchemaValidationError extends ODataError {
   public readonly field: string;
   public readonly operation: string;
 
   constructor(
     message: string, 
     field: string, 
-    operation: 'filter' | 'select' | 'orderby' = 'filter'
+    operation: 'filter' | 'select' | 'orderby' | 'expand' | 'apply' = 'filter'
   ) {
-    super(message);
+    super(message, ODataErrorCode.SCHEMA_VALIDATION, 400, field);
     this.name = 'SchemaValidationError';
     this.field = field;
     this.operation = operation;
-    
-    // Maintains proper stack trace for where our error was thrown (only available on V8)
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, SchemaValidationError);
-    }
   }
 }
@@ -0,0 +1,20 @@
+/**
+ * Custom error for valid OData that the target ORM or this library cannot express
+ */
+
+import { ODataErrorCode } from '../enums';
+import { ODataError } from './odata-error';
+
+export class UnsupportedFeatureError extends ODataError {
+  public readonly feature: string;
+
+  /**
+   * @param message - What is unsupported and, where there is one, the workaround
+   * @param feature - The function, operator or query option, e.g. 'month' or 'all()'
+   */
+  constructor(message: string, feature: string) {
+    super(message, ODataErrorCode.UNSUPPORTED_FEATURE, 501, feature);
+    this.name = 'UnsupportedFeatureError';
+    this.feature = feature;
+  }
+}
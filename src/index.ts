@@ -1,6 +1,6 @@
 /**
  * Enhanced OData to ORM Converter
- * Convert OData filter string to various ORM filters (Prisma, TypeORM, Sequelize, Mongoose)
+ * Convert OData filter string to various ORM filters (Prisma, TypeORM, Sequelize, Mongoose, raw SQL, Knex, Drizzle, MikroORM, Kysely, Elasticsearch, Hasura/GraphQL, in-memory arrays)
  */
 
 // Export the new adapter-based API
@@ -22,9 +22,21 @@ export type {
   PaginationResult, 
   OrderByItem, 
   ParsedOrderBy, 
-  ParsedSelect 
+  ParsedSelect,
+  ApplyAggregateMethod,
+  ApplyAggregate,
+  ApplyTransformation,
+  ExpandItem,
+  ComputeItem,
+  QueryLimits,
+  SearchExpression,
+  SearchOptions,
+  SearchStrategyFunction
 } from './types/odata-query';
 
+// Export OData JSON error format types
+export type { ODataErrorResponse, ODataErrorDetail } from './types/odata-error';
+
 // Export schema validation types
 export type {
   SchemaValidationOptions,
@@ -36,6 +48,27 @@ export type {
   SchemaMap
 } from './types/schema';
 
+// Export filter expression (IR) types
+export type {
+  FilterExpression,
+  FilterValue,
+  FilterLiteral,
+  FilterLiteralType,
+  FilterProperty,
+  FilterCall,
+  FilterArithmetic,
+  FilterArithmeticOperator,
+  FilterCompare,
+  FilterCompareOperator,
+  FilterIn,
+  FilterAnd,
+  FilterOr,
+  FilterNot,
+  FilterLambda,
+  FilterToken,
+  FilterTokenType
+} from './types/filter-expression';
+
 // Legacy API - Keep for backward compatibility (defaults to Prisma)
 export { convert } from './converters';
 export { convert as default } from './converters';
@@ -53,7 +86,7 @@ export {
 
 // Export Abstract Base Classes
 export { BaseQueryBuilder, BaseQueryOptions, PaginationQueries } from './adapters/base-query-builder';
-export { QueryBuilderFactory } from './adapters/query-builder-factory';
+export { QueryBuilderFactory, QueryBuilderRegistration, QueryBuilderInfo } from './adapters/query-builder-factory';
 
 // Export other ORM Query Builders
 export { 
@@ -74,8 +107,77 @@ export {
   createMongoosePaginationQuery
 } from './adapters/mongoose-query-builder';
 
+export { 
+  SqlQueryBuilder,
+  SqlQueryBuilderOptions,
+  SqlQueryOptions,
+  createSqlQuery,
+  createSqlPaginationQuery
+} from './adapters/sql-query-builder';
+
+export { 
+  KnexQueryBuilder,
+  KnexQueryBuilderOptions,
+  KnexQueryOptions,
+  KnexPaginationBuilders,
+  createKnexQuery,
+  createKnexPaginationQuery,
+  applyKnexQuery
+} from './adapters/knex-query-builder';
+
+export { 
+  DrizzleQueryBuilder,
+  DrizzleQueryOptions,
+  createDrizzleQuery,
+  createDrizzlePaginationQuery
+} from './adapters/drizzle-query-builder';
+
+export { 
+  MikroOrmQueryBuilder,
+  MikroOrmQueryOptions,
+  createMikroOrmQuery,
+  createMikroOrmPaginationQuery
+} from './adapters/mikro-orm-query-builder';
+
+export { 
+  KyselyQueryBuilder,
+  KyselyQueryBuilderOptions,
+  KyselyQueryOptions,
+  KyselyPaginationBuilders,
+  createKyselyQuery,
+  createKyselyPaginationQuery,
+  applyKyselyQuery
+} from './adapters/kysely-query-builder';
+
+export { 
+  InMemoryQueryBuilder,
+  InMemoryQueryOptions,
+  createInMemoryQuery,
+  createInMemoryPaginationQuery,
+  applyInMemoryQuery
+} from './adapters/in-memory-query-builder';
+
+export { 
+  ElasticsearchQueryBuilder,
+  ElasticsearchQueryBuilderOptions,
+  ElasticsearchSearchBody,
+  ElasticsearchNestedSort,
+  createElasticsearchQuery,
+  createElasticsearchPaginationQuery
+} from './adapters/elasticsearch-query-builder';
+
+export { 
+  HasuraQueryBuilder,
+  HasuraQueryOptions,
+  createHasuraQuery,
+  createHasuraPaginationQuery
+} from './adapters/hasura-query-builder';
+
 // Export OData parser utilities
-export { parseOrderBy, parseSelect, calculatePagination } from './utils/odata-parser';
+export { parseOrderBy, parseSelect, parseApply, parseExpand, parseCompute, calculatePagination } from './utils/odata-parser';
+export { enforceQueryLimits } from './utils/query-limits';
+export { parseSearch } from './utils/search';
+export { resolveParameterAliases } from './utils/parameter-aliases';
 
 // Export enhanced nested parsing utilities
 export { 
@@ -86,6 +188,17 @@ export {
   convertCollectionFilterToPrisma
 } from './utils/nested-parser';
 
+// Export filter expression utilities
+export {
+  parseFilter,
+  tokenizeFilter,
+  booleanComparison,
+  propertyPath,
+  literalValue,
+  unwrapCaseFunction,
+  normalizeComparison
+} from './utils/filter-expression';
+
 // Export schema validation utilities
 export { SchemaValidator, parseNavigationPath, parseCollectionFilter } from './utils/schema-validator';
 
@@ -102,6 +215,23 @@ import { PrismaQueryBuilderOptions, createPrismaQuery, createPrismaPaginationQue
 import { createTypeOrmQuery, createTypeOrmPaginationQuery } from './adapters/typeorm-query-builder';
 import { createSequelizeQuery, createSequelizePaginationQuery } from './adapters/sequelize-query-builder';
 import { createMongooseQuery, createMongoosePaginationQuery } from './adapters/mongoose-query-builder';
+import { SqlQueryBuilderOptions, createSqlQuery, createSqlPaginationQuery } from './adapters/sql-query-builder';
+import { SqlAdapterOptions, SqlWhereClause } from './adapters/sql';
+import { KnexQueryBuilderOptions, createKnexQuery, createKnexPaginationQuery } from './adapters/knex-query-builder';
+import { KnexAdapterOptions, KnexWhereModifier } from './adapters/knex';
+import { createDrizzleQuery, createDrizzlePaginationQuery } from './adapters/drizzle-query-builder';
+import type { SQL } from 'drizzle-orm';
+import { DrizzleAdapterOptions } from './adapters/drizzle';
+import { createMikroOrmQuery, createMikroOrmPaginationQuery } from './adapters/mikro-orm-query-builder';
+import { MikroOrmWhereClause } from './adapters/mikro-orm';
+import { KyselyQueryBuilderOptions, createKyselyQuery, createKyselyPaginationQuery } from './adapters/kysely-query-builder';
+import { KyselyAdapterOptions, KyselyWhereExpression } from './adapters/kysely';
+import { createInMemoryQuery, createInMemoryPaginationQuery } from './adapters/in-memory-query-builder';
+import { InMemoryPredicate } from './adapters/in-memory';
+import { ElasticsearchQueryBuilderOptions, createElasticsearchQuery, createElasticsearchPaginationQuery } from './adapters/elasticsearch-query-builder';
+import { ElasticsearchAdapterOptions, ElasticsearchQuery } from './adapters/elasticsearch';
+import { createHasuraQuery, createHasuraPaginationQuery } from './adapters/hasura-query-builder';
+import { HasuraBoolExp } from './adapters/hasura';
 
 export function convertToPrisma(odataFilterString: string, options = {}) {
   const adapter = AdapterFactory.createAdapter(SupportedOrm.PRISMA, options);
@@ -109,9 +239,10 @@ export function convertToPrisma(odataFilterString: string, options = {}) {
 }
 
 /**
- * Convert to TypeORM (coming soon)
+ * Convert to TypeORM FindOptionsWhere (requires the typeorm package)
  * @param odataFilterString - OData filter string
  * @param options - Conversion options
+ * @returns TypeORM where object, or an array of where objects for OR conditions
  */
 export function convertToTypeORM(odataFilterString: string, options = {}) {
   const adapter = AdapterFactory.createAdapter(SupportedOrm.TYPEORM, options);
@@ -119,9 +250,10 @@ export function convertToTypeORM(odataFilterString: string, options = {}) {
 }
 
 /**
- * Convert to Sequelize (coming soon)
+ * Convert to Sequelize where clause (requires the sequelize package)
  * @param odataFilterString - OData filter string
  * @param options - Conversion options
+ * @returns Sequelize where object keyed by Op symbols
  */
 export function convertToSequelize(odataFilterString: string, options = {}) {
   const adapter = AdapterFactory.createAdapter(SupportedOrm.SEQUELIZE, options);
@@ -129,15 +261,104 @@ export function convertToSequelize(odataFilterString: string, options = {}) {
 }
 
 /**
- * Convert to Mongoose (coming soon)
+ * Convert to Mongoose/MongoDB query document
  * @param odataFilterString - OData filter string
  * @param options - Conversion options
+ * @returns MongoDB filter object for find()/countDocuments()
  */
 export function convertToMongoose(odataFilterString: string, options = {}) {
   const adapter = AdapterFactory.createAdapter(SupportedOrm.MONGOOSE, options);
   return adapter.convert(odataFilterString);
 }
 
+/**
+ * Convert to a parameterised SQL condition
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options, including the SQL dialect (postgres, mysql, sqlite)
+ * @returns Object with condition text and bound values
+ */
+export function convertToSql(odataFilterString: string, options: SqlAdapterOptions = {}): SqlWhereClause {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.SQL, options);
+  return adapter.convert(odataFilterString) as SqlWhereClause;
+}
+
+/**
+ * Convert to a Knex where modifier
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options, including the column map
+ * @returns Function to pass to builder.where(...)
+ */
+export function convertToKnex(odataFilterString: string, options: KnexAdapterOptions = {}): KnexWhereModifier {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.KNEX, options);
+  return adapter.convert(odataFilterString) as KnexWhereModifier;
+}
+
+/**
+ * Convert to a Drizzle SQL expression (requires the drizzle-orm package)
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options, including the Drizzle table
+ * @returns Drizzle SQL expression for .where(...)
+ */
+export function convertToDrizzle(odataFilterString: string, options: DrizzleAdapterOptions): SQL {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.DRIZZLE, options);
+  return adapter.convert(odataFilterString) as SQL;
+}
+
+/**
+ * Convert to a MikroORM FilterQuery
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options
+ * @returns FilterQuery object for em.find()/em.count()
+ */
+export function convertToMikroOrm(odataFilterString: string, options = {}): MikroOrmWhereClause {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.MIKRO_ORM, options);
+  return adapter.convert(odataFilterString) as MikroOrmWhereClause;
+}
+
+/**
+ * Convert to a Kysely where expression
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options, including the column allow-list
+ * @returns Expression factory to pass to query.where(...)
+ */
+export function convertToKysely(odataFilterString: string, options: KyselyAdapterOptions = {}): KyselyWhereExpression {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.KYSELY, options);
+  return adapter.convert(odataFilterString) as KyselyWhereExpression;
+}
+
+/**
+ * Convert to an in-memory predicate
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options
+ * @returns Predicate to pass to rows.filter(...)
+ */
+export function convertToInMemory(odataFilterString: string, options = {}): InMemoryPredicate {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.IN_MEMORY, options);
+  return adapter.convert(odataFilterString) as InMemoryPredicate;
+}
+
+/**
+ * Convert to an Elasticsearch / OpenSearch bool query
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options, including the document schema used to detect nested fields
+ * @returns Query DSL object for the `query` of a search request
+ */
+export function convertToElasticsearch(odataFilterString: string, options: ElasticsearchAdapterOptions = {}): ElasticsearchQuery {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.ELASTICSEARCH, options);
+  return adapter.convert(odataFilterString) as ElasticsearchQuery;
+}
+
+/**
+ * Convert to a Hasura / GraphQL `where` boolean expression
+ * @param odataFilterString - OData filter string
+ * @param options - Conversion options
+ * @returns Boolean expression using _eq/_neq/_gt/_in/_ilike/_is_null/_and/_or/_not
+ */
+export function convertToHasura(odataFilterString: string, options = {}): HasuraBoolExp {
+  const adapter = AdapterFactory.createAdapter(SupportedOrm.HASURA, options);
+  return adapter.convert(odataFilterString) as HasuraBoolExp;
+}
+
 /**
  * Build complete Prisma query from OData parameters with schema validation
  * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
@@ -217,3 +438,163 @@ export function buildMongooseQuery(params: ODataQueryParams, options = {}) {
 export function buildMongoosePagination(params: ODataQueryParams, options = {}) {
   return createMongoosePaginationQuery(params, options);
 }
+
+/**
+ * Build a parameterised SQL statement from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion options, SQL dialect and optional table name
+ * @returns SQL query options with rendered text and values
+ */
+export function buildSqlQuery(params: ODataQueryParams, options: SqlQueryBuilderOptions = {}) {
+  return createSqlQuery(params, options);
+}
+
+/**
+ * Build SQL pagination statements from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion options, SQL dialect and optional table name
+ * @returns Object with findQuery and countQuery for pagination
+ */
+export function buildSqlPagination(params: ODataQueryParams, options: SqlQueryBuilderOptions = {}) {
+  return createSqlPaginationQuery(params, options);
+}
+
+/**
+ * Build Knex query options from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion, column map and schema validation options
+ * @returns Knex query options; use applyKnexQuery to apply them onto a query builder
+ */
+export function buildKnexQuery(params: ODataQueryParams, options: KnexQueryBuilderOptions = {}) {
+  return createKnexQuery(params, options);
+}
+
+/**
+ * Build Knex pagination query options from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion, column map and schema validation options
+ * @returns Object with findQuery and countQuery for pagination
+ */
+export function buildKnexPagination(params: ODataQueryParams, options: KnexQueryBuilderOptions = {}) {
+  return createKnexPaginationQuery(params, options);
+}
+
+/**
+ * Build complete Drizzle query from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion options, including the Drizzle table
+ * @returns Drizzle query parts (where, orderBy, limit, offset, select)
+ */
+export function buildDrizzleQuery(params: ODataQueryParams, options: DrizzleAdapterOptions) {
+  return createDrizzleQuery(params, options);
+}
+
+/**
+ * Build Drizzle pagination query from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion options, including the Drizzle table
+ * @returns Object with findQuery and countQuery for pagination
+ */
+export function buildDrizzlePagination(params: ODataQueryParams, options: DrizzleAdapterOptions) {
+  return createDrizzlePaginationQuery(params, options);
+}
+
+/**
+ * Build complete MikroORM query from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion options
+ * @returns FilterQuery (where) and FindOptions (orderBy, limit, offset, fields, populate)
+ */
+export function buildMikroOrmQuery(params: ODataQueryParams, options = {}) {
+  return createMikroOrmQuery(params, options);
+}
+
+/**
+ * Build MikroORM pagination query from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion options
+ * @returns Object with findQuery and countQuery for pagination
+ */
+export function buildMikroOrmPagination(params: ODataQueryParams, options = {}) {
+  return createMikroOrmPaginationQuery(params, options);
+}
+
+/**
+ * Build complete Kysely query from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion and schema validation options, including the column allow-list
+ * @returns Kysely query options (where, orderBy, limit, offset, select)
+ */
+export function buildKyselyQuery(params: ODataQueryParams, options: KyselyQueryBuilderOptions = {}) {
+  return createKyselyQuery(params, options);
+}
+
+/**
+ * Build Kysely pagination query from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion and schema validation options, including the column allow-list
+ * @returns Object with findQuery and countQuery for pagination
+ */
+export function buildKyselyPagination(params: ODataQueryParams, options: KyselyQueryBuilderOptions = {}) {
+  return createKyselyPaginationQuery(params, options);
+}
+
+/**
+ * Build complete in-memory query from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion options
+ * @returns In-memory query options (where predicate, orderBy, take, skip, select)
+ */
+export function buildInMemoryQuery(params: ODataQueryParams, options = {}) {
+  return createInMemoryQuery(params, options);
+}
+
+/**
+ * Build in-memory pagination query from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion options
+ * @returns Object with findQuery and countQuery for pagination
+ */
+export function buildInMemoryPagination(params: ODataQueryParams, options = {}) {
+  return createInMemoryPaginationQuery(params, options);
+}
+
+/**
+ * Build complete Elasticsearch search body from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion and schema validation options
+ * @returns Search body (query, sort, size, from, _source)
+ */
+export function buildElasticsearchQuery(params: ODataQueryParams, options: ElasticsearchQueryBuilderOptions = {}) {
+  return createElasticsearchQuery(params, options);
+}
+
+/**
+ * Build Elasticsearch pagination bodies from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion and schema validation options
+ * @returns Object with findQuery (search body) and countQuery (_count body)
+ */
+export function buildElasticsearchPagination(params: ODataQueryParams, options: ElasticsearchQueryBuilderOptions = {}) {
+  return createElasticsearchPaginationQuery(params, options);
+}
+
+/**
+ * Build complete Hasura query arguments from OData parameters
+ * @param params - OData query parameters ($filter, $top, $skip, $orderby, $select)
+ * @param options - Conversion options
+ * @returns Hasura query options (where, order_by, limit, offset, selectionSet)
+ */
+export function buildHasuraQuery(params: ODataQueryParams, options = {}) {
+  return createHasuraQuery(params, options);
+}
+
+/**
+ * Build Hasura pagination query from OData parameters
+ * @param params - OData query parameters
+ * @param options - Conversion options
+ * @returns Object with findQuery and countQuery (arguments for the _aggregate field)
+ */
+export function buildHasuraPagination(params: ODataQueryParams, options = {}) {
+  return createHasuraPaginationQuery(params, options);
+}
@@ -0,0 +1,122 @@
+/**
+ * ORM-neutral filter expressions
+ * A $filter is parsed once into this tree; adapters translate it without touching the parser AST
+ */
+
+export type FilterCompareOperator = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type FilterArithmeticOperator = 'add' | 'sub' | 'mul' | 'div' | 'mod';
+
+export type FilterLiteralType = 'string' | 'number' | 'boolean' | 'null' | 'date' | 'guid' | 'duration' | 'timeOfDay';
+
+/**
+ * A constant value ('John', 42, true, null, 2024-01-01T00:00:00Z)
+ * Dates are Date objects; guids, durations and times of day keep their text
+ */
+export interface FilterLiteral {
+  node: 'Literal';
+  type: FilterLiteralType;
+  value: string | number | boolean | Date | null;
+}
+
+/**
+ * A property path (author/name => ['author', 'name']); used as a condition it is a bare boolean property (Active)
+ * A path starting at a lambda range variable (o/total) names it in `variable` and is relative to the
+ * collection element; [] is the element itself
+ */
+export interface FilterProperty {
+  node: 'Property';
+  path: string[];
+  variable?: string;
+}
+
+/**
+ * A function call (contains, tolower, year, ...); substringof(a, b) is normalised to contains(b, a)
+ */
+export interface FilterCall {
+  node: 'Call';
+  fn: string;
+  args: FilterValue[];
+}
+
+/**
+ * An arithmetic operation (Price mul 2)
+ */
+export interface FilterArithmetic {
+  node: 'Arithmetic';
+  op: FilterArithmeticOperator;
+  left: FilterValue;
+  right: FilterValue;
+}
+
+export type FilterValue = FilterLiteral | FilterProperty | FilterCall | FilterArithmetic;
+
+/**
+ * A comparison between two operands
+ */
+export interface FilterCompare {
+  node: 'Compare';
+  op: FilterCompareOperator;
+  left: FilterValue;
+  right: FilterValue;
+}
+
+/**
+ * Membership in a list of literals; also produced for OR chains of equalities on one property
+ */
+export interface FilterIn {
+  node: 'In';
+  left: FilterValue;
+  values: FilterLiteral[];
+}
+
+export interface FilterAnd {
+  node: 'And';
+  operands: FilterExpression[];
+}
+
+export interface FilterOr {
+  node: 'Or';
+  operands: FilterExpression[];
+}
+
+export interface FilterNot {
+  node: 'Not';
+  operand: FilterExpression;
+}
+
+/**
+ * A collection lambda (orders/any(o: o/total gt 100)); any() without a predicate has no body
+ * A collection of an enclosing lambda's element (o/items/any(...)) names that range variable in `variable`;
+ * without it, the path starts at the row
+ */
+export interface FilterLambda {
+  node: 'Lambda';
+  path: string[];
+  variable?: string;
+  kind: 'any' | 'all';
+  var?: string;
+  body?: FilterExpression;
+}
+
+export type FilterExpression =
+  | FilterCompare
+  | FilterProperty
+  | FilterIn
+  | FilterAnd
+  | FilterOr
+  | FilterNot
+  | FilterCall
+  | FilterLambda;
+
+export type FilterTokenType = 'identifier' | 'literal' | 'punctuation';
+
+/**
+ * A lexical token of a $filter string; position is the 0-based offset of its first character
+ */
+export interface FilterToken {
+  type: FilterTokenType;
+  text: string;
+  position: number;
+  literal?: FilterLiteral;
+}
@@ -7,12 +7,23 @@ import {
   ComparisonOperator as ComparisonOperatorEnum,
   ODataMethod
 } from '../enums';
+import { QueryLimits, SearchOptions } from './odata-query';
 
 // Re-export OData query types
 export * from './odata-query';
 
+// Re-export filter expression types
+export * from './filter-expression';
+
+// Re-export OData error types
+export * from './odata-error';
+
 export interface ConversionOptions {
   caseSensitive?: boolean;
+  // Enforced by query builders before conversion
+  limits?: QueryLimits;
+  // $search translation used by query builders
+  search?: SearchOptions;
   [key: string]: any;
 }
 
@@ -0,0 +1,18 @@
+/**
+ * OData v4 JSON error format
+ */
+
+export interface ODataErrorDetail {
+  code: string;
+  message: string;
+  target?: string;
+}
+
+export interface ODataErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    target?: string;
+    details?: ODataErrorDetail[];
+  };
+}
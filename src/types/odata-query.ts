@@ -2,6 +2,8 @@
  * OData Query Parameters Interface
  */
 
+import { FilterValue, FilterExpression } from './filter-expression';
+
 export interface ODataQueryParams {
   $filter?: string;
   $top?: number;
@@ -9,6 +11,12 @@ export interface ODataQueryParams {
   $orderby?: string;
   $select?: string;
   $count?: boolean;
+  $apply?: string;
+  $expand?: string;
+  $search?: string;
+  $compute?: string;
+  // Parameter aliases referenced in $filter and $orderby ('@max': '100', '@ids': '[1,2,3]')
+  [alias: `@${string}`]: string | undefined;
 }
 
 export interface PrismaQueryOptions {
@@ -17,6 +25,15 @@ export interface PrismaQueryOptions {
   skip?: number;
   orderBy?: any;
   select?: any;
+  include?: any;
+  // groupBy()/aggregate() arguments, set when $apply is given
+  by?: string[];
+  having?: any;
+  _count?: any;
+  _sum?: any;
+  _avg?: any;
+  _min?: any;
+  _max?: any;
 }
 
 export interface PaginationResult<T = any> {
@@ -41,3 +58,96 @@ export interface ParsedOrderBy {
 export interface ParsedSelect {
   [key: string]: boolean | ParsedSelect;
 }
+
+export type ApplyAggregateMethod = 'sum' | 'average' | 'min' | 'max' | 'countdistinct' | 'count';
+
+export interface ApplyAggregate {
+  alias: string;
+  method: ApplyAggregateMethod;
+  // Property path being aggregated; absent for $count
+  field?: string[];
+}
+
+/**
+ * A navigation property to expand with its nested query options
+ * orders($filter=total gt 100;$top=5;$expand=items) => { path: ['orders'], filter: 'total gt 100', top: 5, expand: [...] }
+ */
+export interface ExpandItem {
+  // Navigation path relative to the expanding entity (author/profile => ['author', 'profile'])
+  path: string[];
+  filter?: string;
+  orderBy?: string;
+  top?: number;
+  skip?: number;
+  select?: string;
+  expand: ExpandItem[];
+}
+
+/**
+ * A computed property defined by $compute, usable in $filter, $orderby and $select
+ * price mul quantity as lineTotal => { alias: 'lineTotal', expression: { node: 'Arithmetic', op: 'mul', ... } }
+ */
+export interface ComputeItem {
+  alias: string;
+  expression: FilterValue;
+}
+
+/**
+ * Parsed $search: terms and phrases combined with AND, OR and NOT
+ * blue OR "dark red" => { node: 'Or', operands: [{ node: 'Term', value: 'blue', phrase: false }, { node: 'Term', value: 'dark red', phrase: true }] }
+ */
+export type SearchExpression =
+  | { node: 'Term'; value: string; phrase: boolean }
+  | { node: 'And'; operands: SearchExpression[] }
+  | { node: 'Or'; operands: SearchExpression[] }
+  | { node: 'Not'; operand: SearchExpression };
+
+/**
+ * Custom $search translation returning a filter expression, or an OData $filter string (e.g. search terms matched against tags)
+ * Build expressions from the terms rather than interpolating them into a string, which must double their quotes
+ */
+export type SearchStrategyFunction = (search: SearchExpression) => FilterExpression | string;
+
+/**
+ * How query builders translate $search
+ * - contains: every term must be contained (case-insensitively) in at least one of the fields
+ * - fulltext: the ORM's full-text search (Prisma search, PostgreSQL to_tsquery, MongoDB $text)
+ */
+export interface SearchOptions {
+  strategy?: 'contains' | 'fulltext' | SearchStrategyFunction;
+  // Searchable field paths (author/name); not needed for MongoDB $text, which uses the text index
+  fields?: string[];
+  // Text search configuration (PostgreSQL) or language (MongoDB) for the fulltext strategy
+  language?: string;
+}
+
+export type ApplyTransformation =
+  | { type: 'filter'; filter: string }
+  | { type: 'groupby'; properties: string[][]; aggregates: ApplyAggregate[] }
+  | { type: 'aggregate'; aggregates: ApplyAggregate[] }
+  | { type: 'orderby'; orderBy: ParsedOrderBy }
+  | { type: 'top'; count: number }
+  | { type: 'skip'; count: number };
+
+/**
+ * Limits on the size and complexity of accepted queries; unset limits are not enforced
+ */
+export interface QueryLimits {
+  // Characters in the $filter string, checked before it is parsed; also applies to $search, $compute and $apply
+  maxFilterLength?: number;
+  // Nesting depth of the parsed $filter (a eq 1 is 2 deep: the comparison and its operands); also applies to
+  // $search, $compute and the filters of $apply
+  maxExpressionDepth?: number;
+  // Nodes in the parsed $filter, counting every operator, property, literal and function call; also applies to
+  // $search (terms and operators), $compute and the filters of $apply
+  maxNodeCount?: number;
+  // Values in a single in (...) list, including those grouped from or-ed equalities
+  maxInListLength?: number;
+  // any()/all() lambdas nested inside each other
+  maxLambdaDepth?: number;
+  maxTop?: number;
+  // Nesting depth of $select, counting both profile/address and profile(address(...)) levels
+  maxSelectDepth?: number;
+  // Nesting depth of $expand, counting both author/profile and orders($expand=items) levels
+  maxExpandDepth?: number;
+}
@@ -0,0 +1,195 @@
+/**
+ * ORM-neutral filter expressions: helpers shared by adapters
+ * $filter strings are parsed by ./filter-parser; adapters only see FilterExpression trees
+ */
+
+import {
+  FilterExpression,
+  FilterValue,
+  FilterProperty,
+  FilterCall,
+  FilterCompare,
+  FilterCompareOperator,
+  FilterLambda,
+  ComputeItem
+} from '../types';
+import { ODataMethod } from '../enums';
+import { UnsupportedFeatureError } from '../errors';
+
+export { parseFilter, tokenizeFilter } from './filter-parser';
+
+// Mirror image of each operator, for comparisons whose operands are swapped
+const FLIPPED_OPERATORS: Record<FilterCompareOperator, FilterCompareOperator> = {
+  eq: 'eq',
+  ne: 'ne',
+  gt: 'lt',
+  ge: 'le',
+  lt: 'gt',
+  le: 'ge'
+};
+
+/**
+ * The comparison a bare boolean property stands for (Active => Active eq true)
+ */
+export function booleanComparison(property: FilterProperty): FilterCompare {
+  return { node: 'Compare', op: 'eq', left: property, right: { node: 'Literal', type: 'boolean', value: true } };
+}
+
+/**
+ * Whether a lambda predicate uses the element itself (t in tags/any(t: t eq 'a')), so the collection holds values, not records
+ */
+export function usesLambdaElement(lambda: FilterLambda): boolean {
+  const value = (operand: FilterValue): boolean => {
+    switch (operand.node) {
+      case 'Property':
+        return operand.variable === lambda.var && operand.path.length === 0;
+      case 'Call':
+        return operand.args.some(value);
+      case 'Arithmetic':
+        return value(operand.left) || value(operand.right);
+      default:
+        return false;
+    }
+  };
+
+  const condition = (node: FilterExpression): boolean => {
+    switch (node.node) {
+      case 'Compare':
+        return value(node.left) || value(node.right);
+      case 'In':
+        return value(node.left);
+      case 'And':
+      case 'Or':
+        return node.operands.some(condition);
+      case 'Not':
+        return condition(node.operand);
+      case 'Lambda':
+        return !!node.body && condition(node.body);
+      case 'Call':
+      case 'Property':
+        return value(node);
+    }
+  };
+
+  return lambda.body !== undefined && lambda.var !== undefined && condition(lambda.body);
+}
+
+/**
+ * Path of a property operand; functions and literals are rejected with the adapter's context
+ */
+export function propertyPath(value: FilterValue): string[] {
+  if (value.node !== 'Property') {
+    throw new UnsupportedFeatureError(`Unsupported field expression type: ${value.node}`, value.node === 'Call' ? value.fn : value.node);
+  }
+  return value.path;
+}
+
+/**
+ * Value of a literal operand
+ */
+export function literalValue(value: FilterValue): any {
+  if (value.node !== 'Literal') {
+    throw new UnsupportedFeatureError(`Expected a literal value, got: ${value.node}`, value.node === 'Call' ? value.fn : value.node);
+  }
+  return value.value;
+}
+
+/**
+ * Strip tolower()/toupper() from a string method or comparison operand; the wrapper means case-insensitive matching
+ */
+export function unwrapCaseFunction(value: FilterValue): { value: FilterValue; caseInsensitive: boolean } {
+  if (value.node === 'Call' && (value.fn === ODataMethod.TO_LOWER || value.fn === ODataMethod.TO_UPPER)) {
+    return { value: value.args[0], caseInsensitive: true };
+  }
+  return { value, caseInsensitive: false };
+}
+
+/**
+ * Move a literal arithmetic operand to the other side of a comparison and put literals on the right
+ * e.g. Price mul 2 gt 100 => Price gt 50, Price mul -2 gt 100 => Price lt -50, 18 lt Age => Age gt 18
+ */
+export function normalizeComparison(expression: FilterCompare): FilterCompare {
+  let { op, left, right } = expression;
+
+  if (left.node === 'Literal' && right.node !== 'Literal') {
+    [left, right] = [right, left];
+    op = FLIPPED_OPERATORS[op];
+  }
+
+  if (left.node !== 'Arithmetic' || left.right.node !== 'Literal' || right.node !== 'Literal') {
+    return { node: 'Compare', op, left, right };
+  }
+
+  const operand = left.right.value as number;
+  const threshold = right.value as number;
+  let value: number;
+
+  switch (left.op) {
+    case 'mul':
+    case 'div':
+      if (operand === 0) {
+        throw new UnsupportedFeatureError(`Cannot solve arithmetic comparison with zero operand: ${left.op}`, left.op);
+      }
+      value = left.op === 'mul' ? threshold / operand : threshold * operand;
+      if (operand < 0) {
+        op = FLIPPED_OPERATORS[op];
+      }
+      break;
+    case 'add':
+      value = threshold - operand;
+      break;
+    case 'sub':
+      value = threshold + operand;
+      break;
+    default:
+      // mod cannot be moved across the comparison
+      return { node: 'Compare', op, left, right };
+  }
+
+  return { node: 'Compare', op, left: left.left, right: { node: 'Literal', type: 'number', value } };
+}
+
+/**
+ * Replace references to $compute aliases with their expressions (lineTotal gt 100 => price mul quantity gt 100)
+ * A bare computed alias used as a condition compares it with true
+ */
+export function resolveComputed(expression: FilterExpression, compute: ComputeItem[]): FilterExpression {
+  const computed = new Map(compute.map(item => [item.alias, item.expression]));
+
+  const value = (operand: FilterValue): FilterValue => {
+    switch (operand.node) {
+      case 'Property':
+        return !operand.variable && operand.path.length === 1 ? computed.get(operand.path[0]) ?? operand : operand;
+      case 'Call':
+        return { ...operand, args: operand.args.map(value) };
+      case 'Arithmetic':
+        return { ...operand, left: value(operand.left), right: value(operand.right) };
+      default:
+        return operand;
+    }
+  };
+
+  const condition = (node: FilterExpression): FilterExpression => {
+    switch (node.node) {
+      case 'Compare':
+        return { ...node, left: value(node.left), right: value(node.right) };
+      case 'In':
+        return { ...node, left: value(node.left) };
+      case 'And':
+      case 'Or':
+        return { ...node, operands: node.operands.map(condition) };
+      case 'Not':
+        return { ...node, operand: condition(node.operand) };
+      case 'Lambda':
+        return node.body ? { ...node, body: condition(node.body) } : node;
+      case 'Call':
+        return value(node) as FilterCall;
+      case 'Property': {
+        const resolved = value(node);
+        return resolved === node ? node : { node: 'Compare', op: 'eq', left: resolved, right: { node: 'Literal', type: 'boolean', value: true } };
+      }
+    }
+  };
+
+  return computed.size > 0 ? condition(expression) : expression;
+}
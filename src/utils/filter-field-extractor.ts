@@ -47,10 +47,12 @@ export function extractFieldPathsFromFilter(filterString: string): string[] {
 
 /**
  * Validate all field paths in a filter string against schema
+ * Paths are validated relative to contextPath (e.g. ['orders'] for $filter inside $expand=orders(...))
  */
 export function validateFilterFieldPaths(
   filterString: string, 
-  options: SchemaValidationOptions
+  options: SchemaValidationOptions,
+  contextPath: string[] = []
 ): void {
   if (!filterString) return;
 
@@ -70,6 +72,6 @@ export function validateFilterFieldPaths(
     }
     
     const pathParts = fieldPath.split('/');
-    validator.validateFieldPathStrict(pathParts, 'filter');
+    validator.validateFieldPathStrict([...contextPath, ...pathParts], 'filter');
   }
 }
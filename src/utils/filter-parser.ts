@@ -0,0 +1,753 @@
+/**
+ * Recursive-descent parser for OData v4 $filter expressions
+ * Produces FilterExpression trees directly; every error names the offset where parsing stopped
+ *
+ * Precedence, loosest first: or, and, not, comparisons (eq ne gt ge lt le in),
+ * additive (add sub), multiplicative (mul div divby mod), unary minus, primaries
+ * `not` negates the comparison that follows it (not Age gt 18 => not (Age gt 18))
+ */
+
+import {
+  FilterExpression,
+  FilterValue,
+  FilterLiteral,
+  FilterCompare,
+  FilterCompareOperator,
+  FilterArithmeticOperator,
+  FilterProperty,
+  FilterToken
+} from '../types';
+import { ODataMethod } from '../enums';
+import { ODataParseError } from '../errors/odata-parse-error';
+import { QueryLimitExceededError } from '../errors/query-limit-exceeded-error';
+
+// Lookups are Maps, so properties named like Object.prototype members (constructor, toString) stay properties
+const COMPARE_OPERATORS = new Map<string, FilterCompareOperator>([
+  ['eq', 'eq'],
+  ['ne', 'ne'],
+  ['gt', 'gt'],
+  ['ge', 'ge'],
+  ['lt', 'lt'],
+  ['le', 'le']
+]);
+
+// Symbolic operators are accepted as shorthand (Price * 1.1 gt 100)
+const ADDITIVE_OPERATORS = new Map<string, FilterArithmeticOperator>([
+  ['add', 'add'],
+  ['sub', 'sub'],
+  ['+', 'add'],
+  ['-', 'sub']
+]);
+
+const MULTIPLICATIVE_OPERATORS = new Map<string, FilterArithmeticOperator>([
+  ['mul', 'mul'],
+  ['div', 'div'],
+  ['divby', 'div'],
+  ['mod', 'mod'],
+  ['*', 'mul'],
+  ['/', 'div']
+]);
+
+// OData v4 canonical functions, plus the v2 substringof, with their minimum and maximum argument counts
+const FUNCTIONS = new Map<string, [number, number]>([
+  [ODataMethod.CONTAINS, [2, 2]],
+  [ODataMethod.SUBSTRING_OF, [2, 2]],
+  [ODataMethod.STARTS_WITH, [2, 2]],
+  [ODataMethod.ENDS_WITH, [2, 2]],
+  [ODataMethod.INDEX_OF, [2, 2]],
+  [ODataMethod.TO_LOWER, [1, 1]],
+  [ODataMethod.TO_UPPER, [1, 1]],
+  [ODataMethod.TRIM, [1, 1]],
+  [ODataMethod.CONCAT, [2, 2]],
+  [ODataMethod.YEAR, [1, 1]],
+  [ODataMethod.MONTH, [1, 1]],
+  [ODataMethod.DAY, [1, 1]],
+  [ODataMethod.LENGTH, [1, 1]],
+  [ODataMethod.ROUND, [1, 1]],
+  [ODataMethod.FLOOR, [1, 1]],
+  [ODataMethod.CEILING, [1, 1]],
+  ['substring', [2, 3]],
+  ['hour', [1, 1]],
+  ['minute', [1, 1]],
+  ['second', [1, 1]],
+  ['fractionalseconds', [1, 1]],
+  ['totalseconds', [1, 1]],
+  ['totaloffsetminutes', [1, 1]],
+  ['date', [1, 1]],
+  ['time', [1, 1]],
+  ['now', [0, 0]],
+  ['mindatetime', [0, 0]],
+  ['maxdatetime', [0, 0]],
+  ['isof', [1, 2]],
+  ['cast', [1, 2]],
+  ['matchespattern', [2, 2]]
+]);
+
+const KEYWORD_LITERALS = new Map<string, FilterLiteral>([
+  ['null', { node: 'Literal', type: 'null', value: null }],
+  ['true', { node: 'Literal', type: 'boolean', value: true }],
+  ['false', { node: 'Literal', type: 'boolean', value: false }],
+  ['INF', { node: 'Literal', type: 'number', value: Infinity }],
+  ['NaN', { node: 'Literal', type: 'number', value: NaN }]
+]);
+
+const PUNCTUATION = new Set(['(', ')', ',', ':', '/', '*', '+', '-']);
+
+// Nesting beyond this is rejected before the recursive descent can overflow the stack
+const MAX_NESTING_DEPTH = 100;
+
+// Literal patterns anchored at the current offset; order matters (a guid or date starts like a number)
+const GUID_PATTERN = /[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}(?![\w-])/y;
+const DATE_TIME_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})/y;
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}(?![\w:-])/y;
+const TIME_OF_DAY_PATTERN = /\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?![\w:])/y;
+const NUMBER_PATTERN = /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[mMdDfFlL]?(?![\w.])/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w]*/y;
+const PREFIXED_STRING_PATTERN = /(datetime|guid|duration)'/y;
+
+type ParsedNode = FilterExpression | FilterValue;
+
+/**
+ * Split a $filter string into tokens with their source offsets
+ */
+export function tokenizeFilter(filter: string): FilterToken[] {
+  const tokens: FilterToken[] = [];
+  let position = 0;
+
+  while (position < filter.length) {
+    const char = filter[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === "'") {
+      const { text, value } = readString(filter, position);
+      tokens.push({ type: 'literal', text, position, literal: { node: 'Literal', type: 'string', value } });
+      position += text.length;
+      continue;
+    }
+
+    const prefixed = match(PREFIXED_STRING_PATTERN, filter, position);
+    if (prefixed) {
+      const { text: quoted, value } = readString(filter, position + prefixed.length - 1);
+      const text = prefixed.slice(0, -1) + quoted;
+      tokens.push({ type: 'literal', text, position, literal: prefixedLiteral(prefixed.slice(0, -1), value, filter, position) });
+      position += text.length;
+      continue;
+    }
+
+    const literal = readLiteral(filter, position);
+    if (literal) {
+      tokens.push({ type: 'literal', text: literal.text, position, literal: literal.literal });
+      position += literal.text.length;
+      continue;
+    }
+
+    const identifier = match(IDENTIFIER_PATTERN, filter, position);
+    if (identifier) {
+      const keyword = KEYWORD_LITERALS.get(identifier);
+      tokens.push(keyword
+        ? { type: 'literal', text: identifier, position, literal: { ...keyword } }
+        : { type: 'identifier', text: identifier, position });
+      position += identifier.length;
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ type: 'punctuation', text: char, position });
+      position++;
+      continue;
+    }
+
+    throw new ODataParseError(`Unexpected character '${char}' at position ${position}`, filter, position, [], char);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an OData $filter string into a filter expression
+ */
+export function parseFilter(filter: string, maxExpressionDepth?: number): FilterExpression {
+  return new FilterParser(filter, maxExpressionDepth).parse();
+}
+
+/**
+ * Parse a single value expression, such as a $compute expression (price mul quantity)
+ */
+export function parseFilterValue(expression: string): FilterValue {
+  return new FilterParser(expression).parseValue();
+}
+
+/**
+ * Collapse equalities on one property inside an OR chain into In
+ * Each In is placed at the position of its first equality; a single remaining operand is returned as is
+ */
+export function groupEqualities(operands: FilterExpression[]): FilterExpression {
+  const groups = new Map<string, FilterLiteral[]>();
+  for (const operand of operands) {
+    const key = equalityKey(operand);
+    if (key !== undefined) {
+      groups.set(key, [...(groups.get(key) ?? []), (operand as FilterCompare).right as FilterLiteral]);
+    }
+  }
+
+  const emitted = new Set<string>();
+  const grouped: FilterExpression[] = [];
+  for (const operand of operands) {
+    const key = equalityKey(operand);
+    const values = key !== undefined ? groups.get(key)! : [];
+    if (key === undefined || values.length < 2) {
+      grouped.push(operand);
+    } else if (!emitted.has(key)) {
+      emitted.add(key);
+      const distinct = values.filter((literal, index) => values.findIndex(other => other.value === literal.value) === index);
+      grouped.push({ node: 'In', left: (operand as FilterCompare).left, values: distinct });
+    }
+  }
+
+  return grouped.length === 1 ? grouped[0] : { node: 'Or', operands: grouped };
+}
+
+/**
+ * Key of a `property eq <non-null literal>` comparison, used to group equalities on one property
+ */
+function equalityKey(expression: FilterExpression): string | undefined {
+  if (expression.node !== 'Compare' || expression.op !== 'eq' ||
+      expression.left.node !== 'Property' || expression.right.node !== 'Literal' ||
+      expression.right.value === null) {
+    return undefined;
+  }
+  return `${expression.left.variable ?? ''}:${expression.left.path.join('/')}`;
+}
+
+/**
+ * Match a sticky pattern at an offset
+ */
+function match(pattern: RegExp, filter: string, position: number): string | undefined {
+  pattern.lastIndex = position;
+  return pattern.exec(filter)?.[0];
+}
+
+/**
+ * Read a single-quoted string starting at an offset; '' inside the quotes is an escaped quote
+ */
+function readString(filter: string, position: number): { text: string; value: string } {
+  let end = position + 1;
+  let value = '';
+
+  while (end < filter.length) {
+    if (filter[end] === "'") {
+      if (filter[end + 1] !== "'") {
+        return { text: filter.slice(position, end + 1), value };
+      }
+      end++;
+    }
+    value += filter[end];
+    end++;
+  }
+
+  throw new ODataParseError(`Unterminated string literal at position ${position}`, filter, position, ["'"], filter.slice(position));
+}
+
+/**
+ * Build a literal written as prefix'text' (guid'…', duration'…' and the v2 datetime'…')
+ */
+function prefixedLiteral(prefix: string, text: string, filter: string, position: number): FilterLiteral {
+  switch (prefix) {
+    case 'guid':
+      return { node: 'Literal', type: 'guid', value: text };
+    case 'duration':
+      return { node: 'Literal', type: 'duration', value: text };
+    default: {
+      // datetime'2023-01-01' has always been converted to its ISO string
+      const date = new Date(text);
+      if (isNaN(date.getTime())) {
+        throw new ODataParseError(`Invalid datetime literal '${text}' at position ${position}`, filter, position, ['date'], `datetime'${text}'`);
+      }
+      return { node: 'Literal', type: 'string', value: date.toISOString() };
+    }
+  }
+}
+
+/**
+ * Read an unquoted literal (guid, date, date-time, time of day, number) at an offset
+ */
+function readLiteral(filter: string, position: number): { text: string; literal: FilterLiteral } | undefined {
+  const guid = match(GUID_PATTERN, filter, position);
+  if (guid) {
+    return { text: guid, literal: { node: 'Literal', type: 'guid', value: guid } };
+  }
+
+  if (!/\d/.test(filter[position])) {
+    return undefined;
+  }
+
+  const dateTime = match(DATE_TIME_PATTERN, filter, position) ?? match(DATE_PATTERN, filter, position);
+  if (dateTime) {
+    // A plain date is midnight UTC
+    const value = new Date(dateTime.length === 10 ? `${dateTime}T00:00:00Z` : dateTime);
+    if (isNaN(value.getTime())) {
+      throw new ODataParseError(`Invalid date literal '${dateTime}' at position ${position}`, filter, position, ['date'], dateTime);
+    }
+    return { text: dateTime, literal: { node: 'Literal', type: 'date', value } };
+  }
+
+  const timeOfDay = match(TIME_OF_DAY_PATTERN, filter, position);
+  if (timeOfDay) {
+    return { text: timeOfDay, literal: { node: 'Literal', type: 'timeOfDay', value: timeOfDay } };
+  }
+
+  const number = match(NUMBER_PATTERN, filter, position);
+  if (number) {
+    return { text: number, literal: { node: 'Literal', type: 'number', value: parseFloat(number.replace(/[mMdDfFlL]$/, '')) } };
+  }
+
+  const text = /^[\w.]+/.exec(filter.slice(position))![0];
+  throw new ODataParseError(`Invalid number literal '${text}' at position ${position}`, filter, position, ['number'], text);
+}
+
+/**
+ * Parser over the token stream of one $filter string
+ */
+class FilterParser {
+  private readonly tokens: FilterToken[];
+  private index = 0;
+
+  // Range variables of the enclosing any()/all() lambdas
+  private readonly variables: string[] = [];
+
+  // Parentheses, not, unary minus, function calls, lambdas and arithmetic operators entered so far
+  private depth = 0;
+
+  /**
+   * @param maxExpressionDepth - QueryLimits.maxExpressionDepth; exceeding it throws QueryLimitExceededError
+   */
+  constructor(private readonly filter: string, private readonly maxExpressionDepth?: number) {
+    this.tokens = tokenizeFilter(filter);
+  }
+
+  /**
+   * Parse the whole filter; trailing tokens are an error
+   */
+  parse(): FilterExpression {
+    if (this.tokens.length === 0) {
+      throw new ODataParseError('Filter expression is empty', this.filter, 0, ['expression']);
+    }
+
+    const start = this.peek();
+    const expression = this.condition(this.parseOr(), start);
+    const trailing = this.peek();
+    if (trailing) {
+      throw this.error(`Unexpected '${trailing.text}' at position ${trailing.position}`, trailing, ['and', 'or']);
+    }
+    return expression;
+  }
+
+  /**
+   * Parse the whole input as one value; trailing tokens are an error
+   */
+  parseValue(): FilterValue {
+    if (this.tokens.length === 0) {
+      throw new ODataParseError('Expression is empty', this.filter, 0, ['expression']);
+    }
+
+    const start = this.peek();
+    const value = this.value(this.parseAdditive(), start);
+    const trailing = this.peek();
+    if (trailing) {
+      throw this.error(`Unexpected '${trailing.text}' at position ${trailing.position}`, trailing, ['add', 'sub', 'mul', 'div', 'mod']);
+    }
+    return value;
+  }
+
+  private parseOr(): ParsedNode {
+    const start = this.peek();
+    const first = this.parseAnd();
+    if (!this.isKeyword('or')) {
+      return first;
+    }
+
+    const operands = this.operandsOf(this.condition(first, start), 'Or');
+    while (this.acceptKeyword('or')) {
+      const next = this.peek();
+      operands.push(...this.operandsOf(this.condition(this.parseAnd(), next), 'Or'));
+    }
+    return groupEqualities(operands);
+  }
+
+  private parseAnd(): ParsedNode {
+    const start = this.peek();
+    const first = this.parseNot();
+    if (!this.isKeyword('and')) {
+      return first;
+    }
+
+    const operands = this.operandsOf(this.condition(first, start), 'And');
+    while (this.acceptKeyword('and')) {
+      const next = this.peek();
+      operands.push(...this.operandsOf(this.condition(this.parseNot(), next), 'And'));
+    }
+    return { node: 'And', operands };
+  }
+
+  private parseNot(): ParsedNode {
+    const token = this.peek();
+    if (this.acceptKeyword('not')) {
+      const next = this.peek() ?? token;
+      return this.nested(token, () => ({ node: 'Not', operand: this.condition(this.parseNot(), next) }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ParsedNode {
+    const start = this.peek();
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    const op = token?.type === 'identifier' ? COMPARE_OPERATORS.get(token.text) : undefined;
+    if (op) {
+      this.index++;
+      const next = this.peek();
+      return { node: 'Compare', op, left: this.value(left, start), right: this.value(this.parseAdditive(), next) };
+    }
+
+    if (this.acceptKeyword('in')) {
+      return { node: 'In', left: this.value(left, start), values: this.parseLiteralList() };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): ParsedNode {
+    return this.parseBinary(ADDITIVE_OPERATORS, () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): ParsedNode {
+    return this.parseBinary(MULTIPLICATIVE_OPERATORS, () => this.parseUnary());
+  }
+
+  /**
+   * Parse a left-associative chain of arithmetic operators of one precedence level
+   */
+  private parseBinary(operators: Map<string, FilterArithmeticOperator>, operand: () => ParsedNode): ParsedNode {
+    const start = this.peek();
+    const depth = this.depth;
+    let left = operand();
+
+    try {
+      // Each operator nests the chain so far one level deeper (a add b add c => (a add b) add c)
+      for (let token = this.peek(); token && token.type !== 'literal' && operators.has(token.text); token = this.peek()) {
+        this.enter(token);
+        this.index++;
+        const next = this.peek();
+        left = {
+          node: 'Arithmetic',
+          op: operators.get(token.text)!,
+          left: this.value(left, start),
+          right: this.value(operand(), next)
+        };
+      }
+    } finally {
+      this.depth = depth;
+    }
+    return left;
+  }
+
+  private parseUnary(): ParsedNode {
+    const token = this.peek();
+    if (token?.type === 'punctuation' && token.text === '-') {
+      this.index++;
+      const next = this.peek();
+      const operand = this.nested(token, () => this.value(this.parseUnary(), next));
+      if (operand.node === 'Literal' && operand.type === 'number') {
+        return { ...operand, value: -(operand.value as number) };
+      }
+      return { node: 'Arithmetic', op: 'sub', left: { node: 'Literal', type: 'number', value: 0 }, right: operand };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ParsedNode {
+    const token = this.next('an expression');
+
+    if (token.type === 'literal') {
+      return token.literal!;
+    }
+
+    if (token.text === '(') {
+      return this.nested(token, () => {
+        const inner = this.parseOr();
+        this.expect(')');
+        return inner;
+      });
+    }
+
+    if (token.type === 'identifier') {
+      if (FUNCTIONS.has(token.text) && this.isPunctuation('(')) {
+        return this.parseCall(token);
+      }
+      return this.parseMember(token);
+    }
+
+    throw this.error(`Unexpected '${token.text}' at position ${token.position}`, token, ['expression']);
+  }
+
+  /**
+   * Parse function arguments; substringof(search, field) becomes contains(field, search)
+   * A wrong argument count fails at the first extra argument, or at the ')' that closes the call too early
+   */
+  private parseCall(name: FilterToken): FilterValue {
+    this.expect('(');
+    const args: FilterValue[] = [];
+    const starts: FilterToken[] = [];
+
+    if (!this.acceptPunctuation(')')) {
+      this.nested(name, () => {
+        do {
+          const start = this.peek();
+          args.push(this.value(this.parseOr(), start));
+          starts.push(start!);
+        } while (this.acceptPunctuation(','));
+      });
+      this.expect(')');
+    }
+
+    const [min, max] = FUNCTIONS.get(name.text)!;
+    if (args.length < min || args.length > max) {
+      const token = args.length > max ? starts[max] : this.tokens[this.index - 1];
+      const count = min === max ? `${min}` : `${min} to ${max}`;
+      throw this.error(
+        `${name.text} expects ${count} argument${max === 1 ? '' : 's'}, got ${args.length} at position ${token.position}`,
+        token,
+        args.length > max ? [')'] : ['value']
+      );
+    }
+
+    if (name.text === ODataMethod.SUBSTRING_OF) {
+      return { node: 'Call', fn: ODataMethod.CONTAINS, args: [args[1], args[0]] };
+    }
+    return { node: 'Call', fn: name.text, args };
+  }
+
+  /**
+   * Parse a property path (a/b/c), which may end in an any()/all() lambda
+   * Segments are joined by '/' written without surrounding spaces; `Total / 2` is a division
+   */
+  private parseMember(first: FilterToken): FilterExpression {
+    const segments = [first];
+    while (this.isAdjacentSlash()) {
+      this.index++;
+      segments.push(this.next('a property name'));
+      if (segments[segments.length - 1].type !== 'identifier') {
+        const token = segments[segments.length - 1];
+        throw this.error(`Expected a property name at position ${token.position}`, token, ['property name']);
+      }
+    }
+
+    const names = segments.map(segment => segment.text);
+    const last = names[names.length - 1];
+    if ((last === 'any' || last === 'all') && names.length > 1 && this.isPunctuation('(')) {
+      return this.parseLambda(last, names.slice(0, -1), first);
+    }
+
+    return this.toProperty(names);
+  }
+
+  /**
+   * Parse the (variable: predicate) part of a lambda; any() may have no predicate, all() must have one
+   */
+  private parseLambda(kind: 'any' | 'all', names: string[], start: FilterToken): FilterExpression {
+    this.expect('(');
+    // A lambda over an element's collection is relative to the element (o/items/any(...))
+    const { path, variable: root } = this.toProperty(names);
+    const rooted = root !== undefined ? { variable: root } : {};
+
+    const close = this.peek();
+    if (kind === 'all' && close?.type === 'punctuation' && close.text === ')') {
+      throw this.error(`all() requires a predicate at position ${close.position}`, close, ['lambda variable']);
+    }
+    if (this.acceptPunctuation(')')) {
+      return { node: 'Lambda', path, ...rooted, kind };
+    }
+
+    const variable = this.next('a lambda variable');
+    if (variable.type !== 'identifier') {
+      throw this.error(`Expected a lambda variable at position ${variable.position}`, variable, ['lambda variable']);
+    }
+    this.expect(':');
+
+    this.variables.push(variable.text);
+    try {
+      const bodyStart = this.peek();
+      const body = this.nested(start, () => this.condition(this.parseOr(), bodyStart ?? start));
+      this.expect(')');
+      return { node: 'Lambda', path, ...rooted, kind, var: variable.text, body };
+    } finally {
+      this.variables.pop();
+    }
+  }
+
+  /**
+   * Build a property; a path starting at an enclosing range variable is relative to its element
+   */
+  private toProperty(names: string[]): FilterProperty {
+    const [head, ...rest] = names;
+    if (this.variables.includes(head)) {
+      return { node: 'Property', path: rest, variable: head };
+    }
+    // $it is the current instance
+    return { node: 'Property', path: head === '$it' ? rest : names };
+  }
+
+  /**
+   * Parse the parenthesized literal list of `in`
+   */
+  private parseLiteralList(): FilterLiteral[] {
+    this.expect('(');
+    const values: FilterLiteral[] = [];
+    do {
+      const start = this.peek();
+      const value = this.value(this.parseUnary(), start);
+      if (value.node !== 'Literal') {
+        throw this.error(`Expected a literal in the in (...) list at position ${start!.position}`, start!, ['literal']);
+      }
+      values.push(value);
+    } while (this.acceptPunctuation(','));
+    this.expect(')');
+    return values;
+  }
+
+  /**
+   * Check that a parsed node can be used as a condition
+   */
+  private condition(node: ParsedNode, start: FilterToken | undefined): FilterExpression {
+    if (node.node === 'Literal' || node.node === 'Arithmetic') {
+      throw this.error(`Expected a boolean expression at position ${start?.position ?? this.filter.length}`, start, ['boolean expression']);
+    }
+    return node;
+  }
+
+  /**
+   * Check that a parsed node can be used as an operand
+   */
+  private value(node: ParsedNode, start: FilterToken | undefined): FilterValue {
+    if (node.node !== 'Literal' && node.node !== 'Property' && node.node !== 'Call' && node.node !== 'Arithmetic') {
+      throw this.error(`Expected a value at position ${start?.position ?? this.filter.length}`, start, ['value']);
+    }
+    return node;
+  }
+
+  /**
+   * Parse a nested expression one level deeper
+   */
+  private nested<T>(token: FilterToken | undefined, parse: () => T): T {
+    this.enter(token);
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Go one level deeper, stopping at maxExpressionDepth or, before the recursion can exhaust the stack,
+   * at MAX_NESTING_DEPTH
+   */
+  private enter(token: FilterToken | undefined): void {
+    this.depth++;
+    const position = token?.position ?? this.filter.length;
+    if (this.maxExpressionDepth !== undefined && this.depth > this.maxExpressionDepth) {
+      throw new QueryLimitExceededError(
+        `$filter nests more than ${this.maxExpressionDepth} levels deep at position ${position}, exceeding the limit of ${this.maxExpressionDepth}`,
+        'maxExpressionDepth',
+        this.maxExpressionDepth,
+        this.depth,
+        '$filter'
+      );
+    }
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw this.error(`Expression nests more than ${MAX_NESTING_DEPTH} levels deep at position ${position}`, token, []);
+    }
+  }
+
+  /**
+   * Operands of a condition for flattening (a and (b and c) => [a, b, c])
+   */
+  private operandsOf(expression: FilterExpression, node: 'And' | 'Or'): FilterExpression[] {
+    return expression.node === node ? expression.operands : [expression];
+  }
+
+  /**
+   * Build a parse error at a token, or at the end of the filter when there is none
+   */
+  private error(reason: string, token: FilterToken | undefined, expected: string[]): ODataParseError {
+    return new ODataParseError(reason, this.filter, token?.position ?? this.filter.length, expected, token?.text);
+  }
+
+  private peek(): FilterToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): FilterToken {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw this.error(
+        `Unexpected end of filter at position ${this.filter.length}, expected ${expected}`,
+        undefined,
+        [expected.replace(/^an? /, '').replace(/^'(.*)'$/, '$1')]
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  private expect(punctuation: string): void {
+    const token = this.next(`'${punctuation}'`);
+    if (token.type !== 'punctuation' || token.text !== punctuation) {
+      throw this.error(`Expected '${punctuation}' at position ${token.position}, got '${token.text}'`, token, [punctuation]);
+    }
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.type === 'identifier' && token.text === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private isPunctuation(punctuation: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punctuation' && token.text === punctuation;
+  }
+
+  private acceptPunctuation(punctuation: string): boolean {
+    if (this.isPunctuation(punctuation)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether the next token is a '/' joining two path segments (no whitespace on either side)
+   */
+  private isAdjacentSlash(): boolean {
+    const previous = this.tokens[this.index - 1];
+    const slash = this.tokens[this.index];
+    const following = this.tokens[this.index + 1];
+    return !!previous && !!slash && !!following &&
+      slash.type === 'punctuation' && slash.text === '/' &&
+      following.type === 'identifier' &&
+      previous.position + previous.text.length === slash.position &&
+      slash.position + 1 === following.position;
+  }
+}
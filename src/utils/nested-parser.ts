@@ -132,10 +132,12 @@ function setNestedValue(
 /**
  * Parse OData $orderby with nested navigation support
  * Supports: "name asc, profile/createdAt desc, orders/total asc"
+ * Paths are validated relative to contextPath (e.g. ['orders'] for $orderby inside $expand=orders(...))
  */
 export function parseNestedOrderBy(
   orderByString: string, 
-  options: SchemaValidationOptions = {}
+  options: SchemaValidationOptions = {},
+  contextPath: string[] = []
 ): ParsedOrderBy {
   if (!orderByString) return {};
 
@@ -152,7 +154,7 @@ export function parseNestedOrderBy(
     // Validate path if schema is provided and strict validation is enabled
     if (validator.isStrictValidationEnabled(options.allowAllFields)) {
       const pathParts = fieldPath.split('/');
-      validator.validateFieldPathStrict(pathParts, 'orderby');
+      validator.validateFieldPathStrict([...contextPath, ...pathParts], 'orderby');
     }
 
     // For now, flatten the path for orderBy (ORM-specific handling will be in query builders)
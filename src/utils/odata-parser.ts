@@ -3,7 +3,19 @@
  * Parse OData query parameters into ORM-specific format
  */
 
-import { OrderByItem, ParsedOrderBy, ParsedSelect } from '../types/odata-query';
+import {
+  OrderByItem,
+  ParsedOrderBy,
+  ParsedSelect,
+  ApplyAggregate,
+  ApplyAggregateMethod,
+  ApplyTransformation,
+  ExpandItem,
+  ComputeItem
+} from '../types/odata-query';
+import { FilterValue } from '../types/filter-expression';
+import { parseFilterValue } from './filter-parser';
+import { InvalidQueryOptionError, UnsupportedFeatureError, ODataParseError } from '../errors';
 
 /**
  * Parse OData $orderby parameter
@@ -123,6 +135,267 @@ export function parseSelect(select: string): ParsedSelect {
   return result;
 }
 
+/**
+ * Parse OData $apply parameter into its sequence of transformations
+ * Examples:
+ * - "filter(Status eq 'paid')/groupby((Country), aggregate(Amount with sum as Total))"
+ * - "aggregate($count as Count)"
+ * - "groupby((Customer/Country))/orderby(Customer/Country desc)/top(5)"
+ */
+export function parseApply(apply: string): ApplyTransformation[] {
+  if (!apply || typeof apply !== 'string') {
+    return [];
+  }
+
+  return splitTopLevel(apply, '/').map(step => {
+    const match = step.match(/^(\w+)\s*\(([\s\S]*)\)$/);
+    if (!match) {
+      throw new InvalidQueryOptionError(`Invalid $apply transformation: '${step}'`, '$apply');
+    }
+
+    const [, name, args] = match;
+    switch (name) {
+      case 'filter':
+        return { type: 'filter', filter: args.trim() };
+
+      case 'groupby': {
+        const [properties, aggregate, ...rest] = splitTopLevel(args, ',');
+        const list = properties?.match(/^\(([\s\S]*)\)$/);
+        if (!list || rest.length > 0) {
+          throw new InvalidQueryOptionError(`Invalid $apply groupby: '${step}'. Expected groupby((Property, ...)[, aggregate(...)])`, '$apply');
+        }
+
+        let aggregates: ApplyAggregate[] = [];
+        if (aggregate) {
+          const nested = aggregate.match(/^aggregate\s*\(([\s\S]*)\)$/);
+          if (!nested) {
+            throw new InvalidQueryOptionError(`Invalid $apply groupby: '${step}'. Only aggregate(...) may follow the grouping properties`, '$apply');
+          }
+          aggregates = parseApplyAggregates(nested[1]);
+        }
+
+        return {
+          type: 'groupby',
+          properties: splitTopLevel(list[1], ',').map(property => property.split('/')),
+          aggregates
+        };
+      }
+
+      case 'aggregate':
+        return { type: 'aggregate', aggregates: parseApplyAggregates(args) };
+
+      case 'orderby':
+        return { type: 'orderby', orderBy: parseOrderBy(args) };
+
+      case 'top':
+      case 'skip': {
+        const count = Number(args.trim());
+        if (!Number.isInteger(count) || count < 0) {
+          throw new InvalidQueryOptionError(`Invalid $apply ${name}: '${args.trim()}' is not a non-negative integer`, '$apply');
+        }
+        return { type: name, count };
+      }
+
+      default:
+        throw new UnsupportedFeatureError(`Unsupported $apply transformation: ${name}`, name);
+    }
+  });
+}
+
+/**
+ * Parse aggregate expressions ("Amount with sum as Total, $count as Count")
+ */
+function parseApplyAggregates(args: string): ApplyAggregate[] {
+  const methods: ApplyAggregateMethod[] = ['sum', 'average', 'min', 'max', 'countdistinct'];
+
+  return splitTopLevel(args, ',').map(expression => {
+    const count = expression.match(/^\$count\s+as\s+(\w+)$/);
+    if (count) {
+      return { alias: count[1], method: 'count' };
+    }
+
+    const match = expression.match(/^([\w/]+)\s+with\s+(\w+)\s+as\s+(\w+)$/);
+    if (!match) {
+      throw new InvalidQueryOptionError(`Invalid $apply aggregate: '${expression}'. Expected 'Property with method as Alias' or '$count as Alias'`, '$apply');
+    }
+
+    const method = match[2] as ApplyAggregateMethod;
+    if (!methods.includes(method)) {
+      throw new UnsupportedFeatureError(`Unsupported $apply aggregation method: ${method}. Supported methods: ${methods.join(', ')}`, method);
+    }
+    return { alias: match[3], method, field: match[1].split('/') };
+  });
+}
+
+/**
+ * Parse OData $expand parameter into navigation properties with their nested query options
+ * Examples:
+ * - "author,orders"
+ * - "author/profile"
+ * - "orders($filter=total gt 100;$orderby=date desc;$top=5;$select=id,total;$expand=items)"
+ */
+export function parseExpand(expand: string): ExpandItem[] {
+  if (!expand || typeof expand !== 'string') {
+    return [];
+  }
+
+  return splitTopLevel(expand, ',').map(entry => {
+    if (entry === '*' || /\/\$(ref|count)$/.test(entry)) {
+      throw new UnsupportedFeatureError(`Unsupported $expand item: '${entry}'. Name each navigation property to expand`, '$expand');
+    }
+
+    const match = entry.match(/^(\w+(?:\/\w+)*)\s*(?:\(([\s\S]*)\))?$/);
+    if (!match) {
+      throw new InvalidQueryOptionError(`Invalid $expand item: '${entry}'`, '$expand');
+    }
+
+    const [, path, options = ''] = match;
+    const item: ExpandItem = { path: path.split('/'), expand: [] };
+
+    for (const option of splitTopLevel(options, ';')) {
+      const assignment = option.match(/^(\$\w+)\s*=([\s\S]*)$/);
+      if (!assignment) {
+        throw new InvalidQueryOptionError(`Invalid $expand option: '${option}'. Expected $option=value`, '$expand');
+      }
+
+      const [, name, raw] = assignment;
+      const value = raw.trim();
+      switch (name) {
+        case '$filter':
+          item.filter = value;
+          break;
+        case '$orderby':
+          item.orderBy = value;
+          break;
+        case '$select':
+          item.select = value;
+          break;
+        case '$expand':
+          item.expand = parseExpand(value);
+          break;
+        case '$top':
+        case '$skip':
+          if (!/^\d+$/.test(value)) {
+            throw new InvalidQueryOptionError(`Invalid $expand ${name}: '${value}' is not a non-negative integer`, '$expand');
+          }
+          item[name === '$top' ? 'top' : 'skip'] = Number(value);
+          break;
+        case '$levels':
+        case '$count':
+        case '$search':
+        case '$compute':
+        case '$apply':
+          throw new UnsupportedFeatureError(`Unsupported $expand option: ${name}`, name);
+        default:
+          throw new InvalidQueryOptionError(`Unknown $expand option: ${name}`, '$expand');
+      }
+    }
+
+    return item;
+  });
+}
+
+/**
+ * Parse OData $compute parameter into computed properties
+ * An expression cannot use another alias, nor the name of its own, since every alias is computed from the row
+ * Examples:
+ * - "price mul quantity as lineTotal"
+ * - "year(createdAt) as createdYear,concat(firstName, concat(' ', lastName)) as fullName"
+ */
+export function parseCompute(compute: string): ComputeItem[] {
+  if (!compute || typeof compute !== 'string') {
+    return [];
+  }
+
+  const entries = splitTopLevel(compute, ',').map(entry => {
+    const match = entry.match(/^([\s\S]+)\s+as\s+([A-Za-z_]\w*)$/);
+    if (!match) {
+      throw new InvalidQueryOptionError(`Invalid $compute item: '${entry}'. Expected <expression> as <alias>`, '$compute');
+    }
+    return { expression: match[1], alias: match[2] };
+  });
+
+  const aliases = new Set<string>();
+  for (const { alias } of entries) {
+    if (aliases.has(alias)) {
+      throw new InvalidQueryOptionError(`Duplicate $compute alias: '${alias}'`, '$compute');
+    }
+    aliases.add(alias);
+  }
+
+  return entries.map(({ expression, alias }) => {
+    let value: FilterValue;
+    try {
+      value = parseFilterValue(expression);
+    } catch (error) {
+      if (error instanceof ODataParseError) {
+        throw new InvalidQueryOptionError(
+          `Invalid $compute expression for '${alias}' at position ${error.position}: '${expression}'`,
+          '$compute'
+        );
+      }
+      throw error;
+    }
+
+    for (const name of referencedNames(value)) {
+      if (name === alias) {
+        throw new InvalidQueryOptionError(`$compute alias '${alias}' shadows the property '${name}' its expression uses`, '$compute');
+      }
+      if (aliases.has(name)) {
+        throw new InvalidQueryOptionError(
+          `$compute expression for '${alias}' uses the computed property '${name}'; repeat its expression instead`,
+          '$compute'
+        );
+      }
+    }
+    return { alias, expression: value };
+  });
+}
+
+/**
+ * Names of the single-segment properties a value reads, the only ones that can be $compute aliases
+ */
+function referencedNames(value: FilterValue): string[] {
+  switch (value.node) {
+    case 'Property':
+      return !value.variable && value.path.length === 1 ? [value.path[0]] : [];
+    case 'Call':
+      return value.args.flatMap(referencedNames);
+    case 'Arithmetic':
+      return [...referencedNames(value.left), ...referencedNames(value.right)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Split on a separator outside parentheses and string literals, trimming each part
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let current = '';
+
+  for (const char of value) {
+    if (char === "'") {
+      inString = !inString;
+    } else if (!inString && char === '(') {
+      depth++;
+    } else if (!inString && char === ')') {
+      depth--;
+    } else if (!inString && depth === 0 && char === separator) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts.filter(part => part.length > 0);
+}
+
 /**
  * Calculate pagination metadata
  */
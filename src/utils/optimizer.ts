@@ -85,7 +85,7 @@ export function optimizeOrToIn(whereClause: PrismaWhereClause): PrismaWhereClaus
   for (const [key, value] of Object.entries(whereClause)) {
     if (Array.isArray(value)) {
       result[key] = value.map(item => optimizeOrToIn(item));
-    } else if (value && typeof value === 'object') {
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
       result[key] = optimizeOrToIn(value);
     } else {
       result[key] = value;
@@ -0,0 +1,18 @@
+/**
+ * Loading of optional ORM peer dependencies
+ */
+
+/**
+ * Require an optional peer dependency at runtime.
+ * ORM packages are only loaded by the adapter that needs them, so users of
+ * other adapters do not have to install them.
+ */
+export function loadOptionalDependency<T = any>(moduleName: string, adapterName: string): T {
+  try {
+    return require(moduleName) as T;
+  } catch (error) {
+    throw new Error(
+      `${adapterName} adapter requires the '${moduleName}' package. Install it with: npm install ${moduleName}`
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * OData parameter aliases ($filter=price gt @max&@max=100)
+ * Aliases are resolved in the query options before they are parsed, so every query builder supports them
+ */
+
+import { ODataQueryParams } from '../types/odata-query';
+import { parseFilterValue } from './filter-parser';
+import { InvalidQueryOptionError, ODataParseError } from '../errors';
+
+/**
+ * Replace parameter aliases in $filter and $orderby with the values of the matching '@name' parameters
+ * Examples:
+ * - { $filter: 'price gt @max', '@max': '100' } => { $filter: 'price gt 100' }
+ * - { $filter: 'id in @ids', '@ids': '[1,2,3]' } => { $filter: 'id in (1,2,3)' }
+ * - { $orderby: '@sort desc', '@sort': 'price' } => { $orderby: 'price desc' }
+ */
+export function resolveParameterAliases(params: ODataQueryParams): ODataQueryParams {
+  const resolved = { ...params };
+
+  if (params.$filter?.includes('@')) {
+    resolved.$filter = replaceAliases(params.$filter, alias => filterValue(alias, aliasValue(params, alias, '$filter')));
+  }
+  if (params.$orderby?.includes('@')) {
+    resolved.$orderby = replaceAliases(params.$orderby, alias => propertyValue(alias, aliasValue(params, alias, '$orderby')));
+  }
+
+  return resolved;
+}
+
+/**
+ * Replace each @name outside string literals
+ */
+function replaceAliases(text: string, resolve: (alias: string) => string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      inString = !inString;
+    } else if (!inString && char === '@') {
+      const name = /^[A-Za-z_]\w*/.exec(text.slice(i + 1))?.[0];
+      if (name) {
+        result += resolve(`@${name}`);
+        i += name.length;
+        continue;
+      }
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+function aliasValue(params: ODataQueryParams, alias: string, option: string): string {
+  const value = params[alias as `@${string}`];
+  if (value === undefined) {
+    throw new InvalidQueryOptionError(`Parameter alias '${alias}' used in ${option} is not defined`, alias);
+  }
+  return String(value).trim();
+}
+
+/**
+ * A $filter alias holds a value expression, or a JSON array for in (...)
+ * Values are validated on their own, so an alias cannot change the structure of the filter
+ */
+function filterValue(alias: string, value: string): string {
+  if (value.startsWith('[')) {
+    let items: unknown;
+    try {
+      items = JSON.parse(value);
+    } catch {
+      items = undefined;
+    }
+    if (!Array.isArray(items) || items.length === 0 || !items.every(isJsonScalar)) {
+      throw new InvalidQueryOptionError(
+        `Invalid value for parameter alias '${alias}': expected a non-empty JSON array of strings, numbers, booleans or nulls`,
+        alias
+      );
+    }
+    return `(${items.map(item => (typeof item === 'string' ? `'${item.replace(/'/g, "''")}'` : String(item))).join(',')})`;
+  }
+
+  try {
+    return parseFilterValue(value).node === 'Arithmetic' ? `(${value})` : value;
+  } catch (error) {
+    if (error instanceof ODataParseError) {
+      throw new InvalidQueryOptionError(`Invalid value for parameter alias '${alias}' at position ${error.position}: '${value}'`, alias);
+    }
+    throw error;
+  }
+}
+
+/**
+ * An $orderby alias holds a property path
+ */
+function propertyValue(alias: string, value: string): string {
+  if (!/^[A-Za-z_]\w*(\/[A-Za-z_]\w*)*$/.test(value)) {
+    throw new InvalidQueryOptionError(`Invalid value for parameter alias '${alias}': expected a property path in $orderby`, alias);
+  }
+  return value;
+}
+
+function isJsonScalar(value: unknown): value is string | number | boolean | null {
+  return value === null || typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
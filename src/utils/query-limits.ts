@@ -0,0 +1,241 @@
+/**
+ * Enforce QueryLimits on OData query parameters before they are converted
+ */
+
+import { ODataQueryParams, QueryLimits, FilterExpression, FilterValue, ExpandItem, SearchExpression } from '../types';
+import { QueryLimitExceededError } from '../errors';
+import { parseFilter } from './filter-parser';
+import { parseExpand, parseCompute, parseApply } from './odata-parser';
+import { parseSearch } from './search';
+
+interface FilterStats {
+  depth: number;
+  nodes: number;
+  inListLength: number;
+  lambdaDepth: number;
+}
+
+/**
+ * Throw QueryLimitExceededError for the first limit the query exceeds
+ * The options nested in $expand are held to the same limits as the top-level ones
+ * The $filter length, depth and node limits also apply to $search, $compute and the filters of $apply
+ */
+export function enforceQueryLimits(params: ODataQueryParams, limits: QueryLimits = {}): void {
+  enforceOptionLimits(params.$filter, params.$top, params.$select, limits);
+
+  if (params.$search) {
+    enforceSearchLimits(params.$search, limits);
+  }
+  if (params.$compute) {
+    enforceExpressionLimits(params.$compute, '$compute', limits, () => parseCompute(params.$compute!).map(item => item.expression));
+  }
+  if (params.$apply) {
+    enforceExpressionLimits(params.$apply, '$apply', limits, () =>
+      parseApply(params.$apply!).flatMap(step => (step.type === 'filter' ? [parseFilter(step.filter, limits.maxExpressionDepth)] : []))
+    );
+  }
+
+  if (params.$expand && Object.keys(limits).length > 0) {
+    const items = parseExpand(params.$expand);
+
+    if (limits.maxExpandDepth !== undefined) {
+      const depth = expandDepth(items);
+      check(depth, limits.maxExpandDepth, 'maxExpandDepth', '$expand',
+        `$expand nests ${depth} levels deep, exceeding the limit of ${limits.maxExpandDepth}`);
+    }
+    enforceExpandLimits(items, limits);
+  }
+}
+
+function enforceOptionLimits(filter: string | undefined, top: number | undefined, select: string | undefined, limits: QueryLimits): void {
+  if (filter) {
+    enforceFilterLimits(filter, limits);
+  }
+
+  if (limits.maxTop !== undefined && top !== undefined) {
+    check(top, limits.maxTop, 'maxTop', '$top', `$top of ${top} exceeds the limit of ${limits.maxTop}`);
+  }
+
+  if (limits.maxSelectDepth !== undefined && select) {
+    const depth = selectDepth(select);
+    check(depth, limits.maxSelectDepth, 'maxSelectDepth', '$select',
+      `$select nests ${depth} levels deep, exceeding the limit of ${limits.maxSelectDepth}`);
+  }
+}
+
+function enforceExpandLimits(items: ExpandItem[], limits: QueryLimits): void {
+  for (const item of items) {
+    enforceOptionLimits(item.filter, item.top, item.select, limits);
+    enforceExpandLimits(item.expand, limits);
+  }
+}
+
+/**
+ * Deepest level of a $expand: author is 1, author/profile and orders($expand=items) are 2
+ */
+function expandDepth(items: ExpandItem[]): number {
+  return Math.max(0, ...items.map(item => item.path.length + expandDepth(item.expand)));
+}
+
+/**
+ * Check the length of a $filter, then the shape of its expression tree
+ */
+function enforceFilterLimits(filter: string, limits: QueryLimits): void {
+  // The parser stops at maxExpressionDepth, before deeply nested input can exhaust the stack
+  enforceExpressionLimits(filter, '$filter', limits, () => [parseFilter(filter, limits.maxExpressionDepth)]);
+}
+
+/**
+ * Check the length of an option, then the shape of the expression trees parsed from it
+ */
+function enforceExpressionLimits(
+  text: string,
+  option: string,
+  limits: QueryLimits,
+  parse: () => (FilterExpression | FilterValue)[]
+): void {
+  const { maxExpressionDepth, maxNodeCount, maxInListLength, maxLambdaDepth } = limits;
+
+  checkLength(text, option, limits);
+
+  if (maxExpressionDepth === undefined && maxNodeCount === undefined &&
+      maxInListLength === undefined && maxLambdaDepth === undefined) {
+    return;
+  }
+
+  const stats: FilterStats = { depth: 0, nodes: 0, inListLength: 0, lambdaDepth: 0 };
+  for (const expression of parse()) {
+    measure(expression, 1, 0, stats);
+  }
+
+  checkShape(stats, option, limits);
+  if (maxInListLength !== undefined) {
+    check(stats.inListLength, maxInListLength, 'maxInListLength', option,
+      `${option} has an in (...) list of ${stats.inListLength} values, exceeding the limit of ${maxInListLength}`);
+  }
+  if (maxLambdaDepth !== undefined) {
+    check(stats.lambdaDepth, maxLambdaDepth, 'maxLambdaDepth', option,
+      `${option} nests ${stats.lambdaDepth} any()/all() lambdas, exceeding the limit of ${maxLambdaDepth}`);
+  }
+}
+
+/**
+ * Check the length of $search, then the depth and size of its terms and operators
+ */
+function enforceSearchLimits(search: string, limits: QueryLimits): void {
+  checkLength(search, '$search', limits);
+
+  if (limits.maxExpressionDepth === undefined && limits.maxNodeCount === undefined) {
+    return;
+  }
+
+  const stats: FilterStats = { depth: 0, nodes: 0, inListLength: 0, lambdaDepth: 0 };
+  measureSearch(parseSearch(search), 1, stats);
+  checkShape(stats, '$search', limits);
+}
+
+function checkLength(text: string, option: string, { maxFilterLength }: QueryLimits): void {
+  if (maxFilterLength !== undefined) {
+    check(text.length, maxFilterLength, 'maxFilterLength', option,
+      `${option} is ${text.length} characters long, exceeding the limit of ${maxFilterLength}`);
+  }
+}
+
+function checkShape(stats: FilterStats, option: string, { maxExpressionDepth, maxNodeCount }: QueryLimits): void {
+  if (maxExpressionDepth !== undefined) {
+    check(stats.depth, maxExpressionDepth, 'maxExpressionDepth', option,
+      `${option} nests ${stats.depth} levels deep, exceeding the limit of ${maxExpressionDepth}`);
+  }
+  if (maxNodeCount !== undefined) {
+    check(stats.nodes, maxNodeCount, 'maxNodeCount', option,
+      `${option} has ${stats.nodes} nodes, exceeding the limit of ${maxNodeCount}`);
+  }
+}
+
+function check(actual: number, max: number, limit: keyof QueryLimits, target: string, message: string): void {
+  if (actual > max) {
+    throw new QueryLimitExceededError(message, limit, max, actual, target);
+  }
+}
+
+/**
+ * Walk an expression tree, recording its depth, size, longest in list and lambda nesting
+ */
+function measure(node: FilterExpression | FilterValue, depth: number, lambdaDepth: number, stats: FilterStats): void {
+  stats.nodes++;
+  stats.depth = Math.max(stats.depth, depth);
+  stats.lambdaDepth = Math.max(stats.lambdaDepth, lambdaDepth);
+
+  const children: (FilterExpression | FilterValue)[] = [];
+  switch (node.node) {
+    case 'And':
+    case 'Or':
+      children.push(...node.operands);
+      break;
+    case 'Not':
+      children.push(node.operand);
+      break;
+    case 'Compare':
+    case 'Arithmetic':
+      children.push(node.left, node.right);
+      break;
+    case 'In':
+      stats.inListLength = Math.max(stats.inListLength, node.values.length);
+      children.push(node.left, ...node.values);
+      break;
+    case 'Call':
+      children.push(...node.args);
+      break;
+    case 'Lambda':
+      if (node.body) {
+        measure(node.body, depth + 1, lambdaDepth + 1, stats);
+      } else {
+        stats.lambdaDepth = Math.max(stats.lambdaDepth, lambdaDepth + 1);
+      }
+      return;
+  }
+
+  for (const child of children) {
+    measure(child, depth + 1, lambdaDepth, stats);
+  }
+}
+
+/**
+ * Walk a $search expression, recording its depth and its number of terms and operators
+ */
+function measureSearch(node: SearchExpression, depth: number, stats: FilterStats): void {
+  stats.nodes++;
+  stats.depth = Math.max(stats.depth, depth);
+
+  if (node.node === 'And' || node.node === 'Or') {
+    node.operands.forEach(operand => measureSearch(operand, depth + 1, stats));
+  } else if (node.node === 'Not') {
+    measureSearch(node.operand, depth + 1, stats);
+  }
+}
+
+/**
+ * Deepest level of a $select: id is 1, profile/avatar and profile(avatar) are 2
+ */
+function selectDepth(select: string): number {
+  const parents: number[] = [0];
+  let level = 1;
+  let max = 0;
+
+  for (const char of select) {
+    if (char === '(') {
+      parents.push(level);
+      level++;
+    } else if (char === ')') {
+      level = parents.length > 1 ? parents.pop()! : level;
+    } else if (char === ',') {
+      level = parents[parents.length - 1] + 1;
+    } else if (char === '/') {
+      level++;
+    } else if (char.trim()) {
+      max = Math.max(max, level);
+    }
+  }
+
+  return max;
+}
@@ -148,6 +148,13 @@ export class SchemaValidator {
     return false;
   }
 
+  /**
+   * Get the schema field info for a path; undefined when the path is not in the schema
+   */
+  getPathInfo(path: string[]): SchemaFieldInfo | undefined {
+    return this.schemaMap[path.join('.')];
+  }
+
   /**
    * Get all valid field paths for autocomplete/validation
    */
@@ -163,7 +170,7 @@ export class SchemaValidator {
    */
   validateFieldPathStrict(
     path: string[], 
-    operation: 'filter' | 'select' | 'orderby' = 'filter'
+    operation: 'filter' | 'select' | 'orderby' | 'expand' | 'apply' = 'filter'
   ): void {
     const validation = this.validateFieldPath(path);
     if (!validation.isValid && validation.error) {
@@ -175,6 +182,21 @@ export class SchemaValidator {
     }
   }
 
+  /**
+   * Validate that a path can be expanded: it must exist and be a navigation property (an object or collection)
+   */
+  validateExpandPathStrict(path: string[]): void {
+    this.validateFieldPathStrict(path, 'expand');
+
+    if (this.getPathInfo(path)?.type === 'scalar') {
+      throw new SchemaValidationError(
+        `Schema validation failed for $expand: Field '${path.join('.')}' is not a navigation property`,
+        path.join('/'),
+        'expand'
+      );
+    }
+  }
+
   /**
    * Check if strict validation is enabled (has schema and not allowing all fields)
    */
@@ -0,0 +1,232 @@
+/**
+ * OData $search parsing and translation
+ * $search is parsed into a SearchExpression; query builders translate it into a $filter or ORM full-text search
+ */
+
+import { SearchExpression, FilterExpression, FilterValue } from '../types';
+import { ODataMethod } from '../enums';
+import { InvalidQueryOptionError, UnsupportedFeatureError } from '../errors';
+
+interface SearchToken {
+  type: 'open' | 'close' | 'word' | 'phrase';
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT']);
+
+// Nesting beyond this is rejected before the recursive descent can overflow the stack
+const MAX_NESTING_DEPTH = 100;
+
+/**
+ * Parse OData $search parameter
+ * Terms separated by whitespace must all match (implicit AND); NOT binds tighter than AND, AND tighter than OR
+ * Examples:
+ * - 'blue shoes' => blue AND shoes
+ * - '"dark red" OR blue'
+ * - 'shoes NOT (red OR blue)'
+ */
+export function parseSearch(search: string): SearchExpression {
+  const tokens = tokenizeSearch(search ?? '');
+  let index = 0;
+  let depth = 0;
+
+  const peek = (): SearchToken | undefined => tokens[index];
+  const isKeyword = (keyword: string) => peek()?.type === 'word' && peek()!.value === keyword;
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new InvalidQueryOptionError(
+      token
+        ? `Invalid $search: expected ${expected} at position ${token.position}, got '${token.value}'`
+        : `Invalid $search: expected ${expected} at position ${search.length}`,
+      '$search'
+    );
+  };
+
+  const parseOr = (): SearchExpression => {
+    const operands = [parseAnd()];
+    while (isKeyword('OR')) {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { node: 'Or', operands };
+  };
+
+  const parseAnd = (): SearchExpression => {
+    const operands = [parseNot()];
+    while (peek() && peek()!.type !== 'close' && !isKeyword('OR')) {
+      if (isKeyword('AND')) {
+        index++;
+      }
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { node: 'And', operands };
+  };
+
+  // NOT and parentheses nest one level deeper
+  const nested = (token: SearchToken, parse: () => SearchExpression): SearchExpression => {
+    if (++depth > MAX_NESTING_DEPTH) {
+      throw new InvalidQueryOptionError(
+        `Invalid $search: nests more than ${MAX_NESTING_DEPTH} levels deep at position ${token.position}`,
+        '$search'
+      );
+    }
+    try {
+      return parse();
+    } finally {
+      depth--;
+    }
+  };
+
+  const parseNot = (): SearchExpression => {
+    const token = peek();
+    if (isKeyword('NOT')) {
+      index++;
+      return nested(token!, () => ({ node: 'Not', operand: parseNot() }));
+    }
+
+    if (token?.type === 'open') {
+      index++;
+      return nested(token, () => {
+        const expression = parseOr();
+        if (peek()?.type !== 'close') {
+          fail("')'");
+        }
+        index++;
+        return expression;
+      });
+    }
+    if (token?.type === 'phrase' || (token?.type === 'word' && !KEYWORDS.has(token.value))) {
+      index++;
+      return { node: 'Term', value: token.value, phrase: token.type === 'phrase' };
+    }
+    return fail('a search term');
+  };
+
+  const expression = parseOr();
+  if (peek()) {
+    fail('end of $search');
+  }
+  return expression;
+}
+
+/**
+ * Split $search into parentheses, words and double-quoted phrases (with \" and \\ escapes)
+ */
+function tokenizeSearch(search: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+
+  while (i < search.length) {
+    const char = search[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const start = i++;
+      let value = '';
+      while (i < search.length && search[i] !== '"') {
+        value += search[i] === '\\' && i + 1 < search.length ? search[++i] : search[i];
+        i++;
+      }
+      if (i >= search.length) {
+        throw new InvalidQueryOptionError(`Invalid $search: unterminated phrase at position ${start}`, '$search');
+      }
+      i++;
+      if (value.trim() === '') {
+        throw new InvalidQueryOptionError(`Invalid $search: empty phrase at position ${start}`, '$search');
+      }
+      tokens.push({ type: 'phrase', value, position: start });
+    } else {
+      const start = i;
+      while (i < search.length && !/[\s()"]/.test(search[i])) {
+        i++;
+      }
+      tokens.push({ type: 'word', value: search.slice(start, i), position: start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Translate $search into a filter: each term must be contained, case-insensitively, in one of the fields
+ * (blue => contains(tolower(name), 'blue') or contains(tolower(description), 'blue'))
+ */
+export function searchToContainsFilter(search: SearchExpression, fields: string[]): FilterExpression {
+  switch (search.node) {
+    case 'Term': {
+      const matches: FilterExpression[] = fields.map(field => ({
+        node: 'Call',
+        fn: ODataMethod.CONTAINS,
+        args: [
+          { node: 'Call', fn: ODataMethod.TO_LOWER, args: [{ node: 'Property', path: field.split('/') }] } as FilterValue,
+          { node: 'Literal', type: 'string', value: search.value.toLowerCase() }
+        ]
+      }));
+      return matches.length === 1 ? matches[0] : { node: 'Or', operands: matches };
+    }
+    case 'And':
+    case 'Or':
+      return { node: search.node, operands: search.operands.map(operand => searchToContainsFilter(operand, fields)) };
+    case 'Not':
+      return { node: 'Not', operand: searchToContainsFilter(search.operand, fields) };
+  }
+}
+
+/**
+ * Translate $search into a PostgreSQL tsquery (blue "dark red" => 'blue' & 'dark red')
+ * Terms are quoted, so the text search configuration normalizes them and phrases match as phrases
+ */
+export function searchToTsQuery(search: SearchExpression): string {
+  const group = (operand: SearchExpression) =>
+    operand.node === 'And' || operand.node === 'Or' ? `(${searchToTsQuery(operand)})` : searchToTsQuery(operand);
+
+  switch (search.node) {
+    case 'Term':
+      return `'${search.value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+    case 'And':
+      return search.operands.map(group).join(' & ');
+    case 'Or':
+      return search.operands.map(group).join(' | ');
+    case 'Not':
+      return `!${group(search.operand)}`;
+  }
+}
+
+/**
+ * Translate $search into a MongoDB $text search string
+ * $text matches any of its plain terms, or all of its quoted terms except the negated ones, so only
+ * alternatives of words (blue OR red) and required/excluded terms (blue AND NOT red) can be expressed
+ */
+export function searchToMongoText(search: SearchExpression): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+
+  if (search.node === 'Term') {
+    return search.phrase ? quote(search.value) : search.value;
+  }
+  if (search.node === 'Or' && search.operands.every(operand => operand.node === 'Term' && !operand.phrase)) {
+    return search.operands.map(operand => (operand as { value: string }).value).join(' ');
+  }
+  if (search.node === 'And') {
+    const terms = search.operands.map(operand => {
+      if (operand.node === 'Term') {
+        return quote(operand.value);
+      }
+      if (operand.node === 'Not' && operand.operand.node === 'Term') {
+        return `-${quote(operand.operand.value)}`;
+      }
+      return undefined;
+    });
+    if (terms.every(term => term !== undefined) && terms.some(term => !term!.startsWith('-'))) {
+      return terms.join(' ');
+    }
+  }
+
+  throw new UnsupportedFeatureError(
+    'MongoDB $text search only supports alternatives of words (blue OR red) or required and excluded terms (blue AND NOT red)',
+    '$search'
+  );
+}
@@ -67,8 +67,7 @@ describe('Abstract Base Query Builder', () => {
       builder = new TypeOrmQueryBuilder();
     });
 
-    it.skip('should build TypeORM query correctly (coming soon)', () => {
-      // TypeORM adapter is not fully implemented yet
+    it('should build TypeORM query correctly', () => {
       const params: ODataQueryParams = {
         $filter: "status eq 'active'",
         $top: 15,
@@ -89,8 +88,7 @@ describe('Abstract Base Query Builder', () => {
       expect(query.select).toEqual(['id', 'name', 'status']);
     });
 
-    it.skip('should build pagination queries (coming soon)', () => {
-      // TypeORM adapter is not fully implemented yet
+    it('should build pagination queries', () => {
       const params: ODataQueryParams = {
         $filter: "department eq 'IT'",
         $top: 25
@@ -113,8 +111,7 @@ describe('Abstract Base Query Builder', () => {
       builder = new SequelizeQueryBuilder();
     });
 
-    it.skip('should build Sequelize query correctly (coming soon)', () => {
-      // Sequelize adapter is not fully implemented yet
+    it('should build Sequelize query correctly', () => {
       const params: ODataQueryParams = {
         $filter: "age gt 18",
         $top: 30,
@@ -132,8 +129,7 @@ describe('Abstract Base Query Builder', () => {
       expect(query.attributes).toEqual(['id', 'name', 'age']);
     });
 
-    it.skip('should build pagination queries (coming soon)', () => {
-      // Sequelize adapter is not fully implemented yet
+    it('should build pagination queries', () => {
       const params: ODataQueryParams = {
         $filter: "verified eq true",
         $top: 50
@@ -156,8 +152,7 @@ describe('Abstract Base Query Builder', () => {
       builder = new MongooseQueryBuilder();
     });
 
-    it.skip('should build Mongoose query correctly (coming soon)', () => {
-      // Mongoose adapter is not fully implemented yet
+    it('should build Mongoose query correctly', () => {
       const params: ODataQueryParams = {
         $filter: "category eq 'electronics'",
         $top: 20,
@@ -182,8 +177,7 @@ describe('Abstract Base Query Builder', () => {
       });
     });
 
-    it.skip('should build pagination queries (coming soon)', () => {
-      // Mongoose adapter is not fully implemented yet
+    it('should build pagination queries', () => {
       const params: ODataQueryParams = {
         $filter: "inStock eq true",
         $top: 100
@@ -198,8 +192,7 @@ describe('Abstract Base Query Builder', () => {
       expect(countQuery.limit).toBeUndefined();
     });
 
-    it.skip('should handle nested select objects (coming soon)', () => {
-      // Mongoose adapter is not fully implemented yet
+    it('should handle nested select objects', () => {
       const params: ODataQueryParams = {
         $select: 'name,profile(email,address)'
       };
@@ -246,11 +239,9 @@ describe('Abstract Base Query Builder', () => {
     it('should get where clause consistently', () => {
       const builders = [
         new PrismaQueryBuilder(),
-        new PrismaQueryBuilder()
-        // Skip other builders as they're not fully implemented yet
-        // new TypeOrmQueryBuilder(),
-        // new SequelizeQueryBuilder(),
-        // new MongooseQueryBuilder()
+        new TypeOrmQueryBuilder(),
+        new SequelizeQueryBuilder(),
+        new MongooseQueryBuilder()
       ];
 
       const filter = "name eq 'test'";
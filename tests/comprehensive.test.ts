@@ -169,7 +169,7 @@ describe('OData to ORM Converter - Comprehensive Tests', () => {
   describe('5. ARITHMETIC EXPRESSIONS', () => {
     test('Multiplication in comparison', () => {
       const result = convertToPrisma("Price * 1.1 gt 100");
-      expect(result).toEqual({ Price: { gt: 90.91 } });
+      expect(result).toEqual({ Price: { gt: 100 / 1.1 } });
     });
 
     test('Addition in comparison', () => {
@@ -344,12 +344,11 @@ describe('OData to ORM Converter - Comprehensive Tests', () => {
         name: "NOT with year function",
         filter: "not (status eq 'deleted') and year(updatedAt) eq 2023",
         expected: {
-          NOT: {
-            AND: [
-              { status: { equals: 'deleted' } },
-              { updatedAt: { gte: "2023-01-01T00:00:00.000Z", lt: "2024-01-01T00:00:00.000Z" } }
-            ]
-          }
+          // not binds tighter than and
+          AND: [
+            { NOT: { status: { equals: 'deleted' } } },
+            { updatedAt: { gte: "2023-01-01T00:00:00.000Z", lt: "2024-01-01T00:00:00.000Z" } }
+          ]
         }
       }
     ];
@@ -378,13 +377,11 @@ describe('OData to ORM Converter - Comprehensive Tests', () => {
     test('Should convert to different ORMs without errors', () => {
       const odataFilter = "Name eq 'John' and Age gt 25";
       
-      // Only test Prisma as other adapters are not yet implemented
+      // All adapters are implemented
       expect(() => convertToPrisma(odataFilter)).not.toThrow();
-      
-      // Other ORMs will throw "coming soon" errors, which is expected behavior
-      expect(() => convertToTypeORM(odataFilter)).toThrow(/coming soon/);
-      expect(() => convertToSequelize(odataFilter)).toThrow(/coming soon/);
-      expect(() => convertToMongoose(odataFilter)).toThrow(/coming soon/);
+      expect(() => convertToTypeORM(odataFilter)).not.toThrow();
+      expect(() => convertToSequelize(odataFilter)).not.toThrow();
+      expect(() => convertToMongoose(odataFilter)).not.toThrow();
     });
   });
 });
@@ -0,0 +1,156 @@
+/**
+ * Test cases for $compute parsing and computed properties in SQL and MongoDB queries
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseCompute,
+  createSqlQuery,
+  createMongooseQuery,
+  createPrismaQuery,
+  createTypeOrmQuery,
+  MongooseQueryBuilder,
+  SqlQueryBuilder,
+  InvalidQueryOptionError,
+  UnsupportedFeatureError
+} from '../src';
+
+const property = (name: string) => ({ node: 'Property', path: [name] });
+
+describe('$compute', () => {
+  describe('parseCompute', () => {
+    test('parses comma-separated expressions with their aliases', () => {
+      expect(parseCompute("price mul quantity as lineTotal, concat(firstName, ', as ') as label")).toEqual([
+        { alias: 'lineTotal', expression: { node: 'Arithmetic', op: 'mul', left: property('price'), right: property('quantity') } },
+        {
+          alias: 'label',
+          expression: { node: 'Call', fn: 'concat', args: [property('firstName'), { node: 'Literal', type: 'string', value: ', as ' }] }
+        }
+      ]);
+    });
+
+    test.each([
+      ['price mul quantity', "Invalid $compute item: 'price mul quantity'. Expected <expression> as <alias>"],
+      ['price as a, quantity as a', "Duplicate $compute alias: 'a'"],
+      ['price mul as total', "Invalid $compute expression for 'total' at position 9: 'price mul'"],
+      ['price gt 5 as expensive', "Invalid $compute expression for 'expensive' at position 6: 'price gt 5'"],
+      ['price mul qty as price', "$compute alias 'price' shadows the property 'price' its expression uses"],
+      ['price mul qty as a, a add 1 as b', "$compute expression for 'b' uses the computed property 'a'; repeat its expression instead"],
+      ['b add 1 as a, price as b', "$compute expression for 'a' uses the computed property 'b'; repeat its expression instead"]
+    ])('%j is invalid', (compute, message) => {
+      expect(() => parseCompute(compute)).toThrow(new InvalidQueryOptionError(message, '$compute'));
+    });
+  });
+
+  describe('SQL', () => {
+    test('computed properties are selected and usable in $filter and $orderby', () => {
+      expect(createSqlQuery(
+        { $compute: 'price mul quantity as lineTotal', $filter: 'lineTotal gt 100', $orderby: 'lineTotal desc', $select: 'id' },
+        { table: 'order_lines' }
+      )).toMatchObject({
+        text: 'SELECT "id", ("price" * "quantity") AS "lineTotal" FROM "order_lines" WHERE ("price" * "quantity") > $1 ORDER BY "lineTotal" DESC',
+        values: [100]
+      });
+    });
+
+    test('an alias built on another alias is rejected instead of pointing at a missing column', () => {
+      expect(() => createSqlQuery({ $compute: 'price mul qty as a, a add 1 as b', $filter: 'b gt 1' }, { table: 't' }))
+        .toThrow(InvalidQueryOptionError);
+    });
+
+    test('literals in computed columns bind in placeholder order for each dialect', () => {
+      const params = { $compute: 'price mul 2 as double', $filter: "name eq 'x'", $top: 5 };
+      expect(createSqlQuery(params, { table: 't' })).toMatchObject({
+        text: 'SELECT *, ("price" * $2) AS "double" FROM "t" WHERE "name" = $1 LIMIT $3',
+        values: ['x', 2, 5]
+      });
+      expect(createSqlQuery(params, { table: 't', dialect: 'mysql' })).toMatchObject({
+        text: 'SELECT *, (`price` * ?) AS `double` FROM `t` WHERE `name` = ? LIMIT ?',
+        values: [2, 'x', 5]
+      });
+    });
+
+    test('selecting only computed properties', () => {
+      expect(createSqlQuery({ $compute: 'year(createdAt) as createdYear', $select: 'createdYear' }, { table: 't' }).text).toBe(
+        'SELECT EXTRACT(YEAR FROM "createdAt") AS "createdYear" FROM "t"'
+      );
+    });
+
+    test('the count query only keeps the resolved filter', () => {
+      const builder = new SqlQueryBuilder({ table: 't' });
+      const { countQuery } = builder.buildPaginationQuery({ $compute: 'price add tax as gross', $filter: 'gross le 10' });
+      expect(countQuery).toMatchObject({
+        text: 'SELECT COUNT(*) AS count FROM "t" WHERE ("price" + "tax") <= $1',
+        values: [10]
+      });
+    });
+
+    test('without a table, computed properties can only be filtered on', () => {
+      expect(createSqlQuery({ $compute: 'price mul quantity as lineTotal', $filter: 'lineTotal gt 100' }).text).toBe(
+        'WHERE ("price" * "quantity") > $1'
+      );
+      expect(() => createSqlQuery({ $compute: 'price mul quantity as lineTotal', $orderby: 'lineTotal' })).toThrow(
+        new UnsupportedFeatureError("$orderby on the computed property 'lineTotal' requires the table option", '$compute')
+      );
+    });
+  });
+
+  describe('MongoDB', () => {
+    test('computed properties are added with $addFields before $filter', () => {
+      expect(createMongooseQuery({
+        $compute: "price mul quantity as lineTotal,concat(first, concat(' ', last)) as name",
+        $filter: 'lineTotal gt 100',
+        $orderby: 'lineTotal desc',
+        $top: 10,
+        $select: 'name,lineTotal'
+      })).toEqual({
+        pipeline: [
+          {
+            $addFields: {
+              lineTotal: { $multiply: ['$price', '$quantity'] },
+              name: { $concat: ['$first', { $concat: [' ', '$last'] }] }
+            }
+          },
+          { $match: { lineTotal: { $gt: 100 } } },
+          { $sort: { lineTotal: -1 } },
+          { $limit: 10 },
+          { $project: { name: 1, lineTotal: 1 } }
+        ]
+      });
+    });
+
+    test('$compute follows the $apply transformations', () => {
+      expect(createMongooseQuery({
+        $apply: 'groupby((country), aggregate(total with sum as revenue))',
+        $compute: 'revenue div 1000 as revenueK'
+      }).pipeline!.slice(-1)).toEqual([{ $addFields: { revenueK: { $divide: ['$revenue', 1000] } } }]);
+    });
+
+    test('string literals are never read as field paths', () => {
+      expect(createMongooseQuery({ $compute: "concat(code, '$x') as tag" }).pipeline).toEqual([
+        { $addFields: { tag: { $concat: ['$code', { $literal: '$x' }] } } }
+      ]);
+    });
+
+    test('the count query counts the filtered documents', () => {
+      const builder = new MongooseQueryBuilder();
+      const { countQuery } = builder.buildPaginationQuery({ $compute: 'year(createdAt) as y', $filter: 'y eq 2024', $top: 5 });
+      expect(countQuery).toEqual({
+        pipeline: [{ $addFields: { y: { $year: '$createdAt' } } }, { $match: { y: { $eq: 2024 } } }, { $count: 'count' }]
+      });
+    });
+
+    test('unsupported functions are rejected', () => {
+      expect(() => createMongooseQuery({ $compute: "contains(name, 'x') as hasX" })).toThrow(
+        new UnsupportedFeatureError('Unsupported function in computed value: contains', 'contains')
+      );
+    });
+  });
+
+  test('ORMs that cannot compute values reject $compute', () => {
+    expect(() => createPrismaQuery({ $compute: 'price mul quantity as lineTotal' })).toThrow(UnsupportedFeatureError);
+    expect(() => createTypeOrmQuery({ $compute: 'price mul quantity as lineTotal' })).toThrow(
+      new UnsupportedFeatureError('TypeOrmQueryBuilder does not support $compute', '$compute')
+    );
+  });
+});
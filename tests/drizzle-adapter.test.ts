@@ -0,0 +1,140 @@
+/**
+ * Test cases for Drizzle adapter (SQL expressions built from a Drizzle table)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import type { SQL } from 'drizzle-orm';
+import { pgTable, integer, text, boolean, timestamp, PgDialect } from 'drizzle-orm/pg-core';
+import { sqliteTable, integer as sqliteInteger, text as sqliteText, SQLiteSyncDialect } from 'drizzle-orm/sqlite-core';
+import { convertToDrizzle, DrizzleAdapter, DrizzleQueryBuilder, buildDrizzleQuery, buildDrizzlePagination } from '../src';
+
+const users = pgTable('users', {
+  id: integer('id').primaryKey(),
+  name: text('name'),
+  age: integer('age'),
+  status: text('status'),
+  active: boolean('active'),
+  createdAt: timestamp('created_at'),
+  deletedAt: timestamp('deleted_at')
+});
+
+const items = sqliteTable('items', {
+  id: sqliteInteger('id').primaryKey(),
+  code: sqliteText('code')
+});
+
+const pg = new PgDialect();
+const sqlite = new SQLiteSyncDialect();
+
+function render(expression: SQL, dialect: PgDialect | SQLiteSyncDialect = pg) {
+  const { sql, params } = dialect.sqlToQuery(expression);
+  return { sql, params };
+}
+
+function toSql(filter: string, caseSensitive?: boolean) {
+  return render(convertToDrizzle(filter, { table: users, caseSensitive }));
+}
+
+describe('Drizzle Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons use eq/ne/gt/... with bound values', () => {
+      expect(toSql("name eq 'John'")).toEqual({ sql: '"users"."name" = $1', params: ['John'] });
+      expect(toSql('age ne 25').sql).toBe('"users"."age" <> $1');
+      expect(toSql('age ge 18').sql).toBe('"users"."age" >= $1');
+    });
+
+    test('null comparisons use isNull / isNotNull', () => {
+      expect(toSql('deletedAt eq null').sql).toBe('"users"."deleted_at" is null');
+      expect(toSql('deletedAt ne null').sql).toBe('"users"."deleted_at" is not null');
+    });
+
+    test('column-to-column comparisons reference both columns', () => {
+      expect(toSql('age gt id')).toEqual({ sql: '"users"."age" > "users"."id"', params: [] });
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT use and()/or()/not()', () => {
+      expect(toSql("name eq 'John' and (age gt 25 or active eq true)")).toEqual({
+        sql: '("users"."name" = $1 and ("users"."age" > $2 or "users"."active" = $3))',
+        params: ['John', 25, true]
+      });
+      expect(toSql('not (age lt 18)').sql).toBe('not "users"."age" < $1');
+    });
+
+    test('bare boolean members compare against true', () => {
+      expect(toSql('active')).toEqual({ sql: '"users"."active" = $1', params: [true] });
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) and OR of equalities use inArray', () => {
+      expect(toSql("status in ('a', 'b', 'c')")).toEqual({
+        sql: '"users"."status" in ($1, $2, $3)',
+        params: ['a', 'b', 'c']
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use like with escaped patterns', () => {
+      expect(toSql("contains(name, 'oh')")).toEqual({ sql: '"users"."name" like $1', params: ['%oh%'] });
+      expect(toSql("endswith(name, 'a_b')").params).toEqual(['%a\\_b']);
+    });
+
+    test('caseSensitive false uses ilike on Postgres', () => {
+      expect(toSql("startswith(name, 'Jo')", false).sql).toBe('"users"."name" ilike $1');
+    });
+
+    test('SQLite tables use an explicit escape clause', () => {
+      const query = render(convertToDrizzle("contains(code, 'a_b')", { table: items }), sqlite);
+      expect(query).toEqual({ sql: `"items"."code" like ? escape '\\'`, params: ['%a\\_b%'] });
+    });
+  });
+
+  describe('Functions and errors', () => {
+    test('functions are rendered as sql fragments for the table dialect', () => {
+      expect(toSql('month(createdAt) eq 5')).toEqual({
+        sql: 'EXTRACT(MONTH FROM "users"."created_at") = $1',
+        params: [5]
+      });
+    });
+
+    test('unknown columns, navigation paths and lambdas are rejected', () => {
+      expect(() => toSql("secret eq 'x'")).toThrow(/Unknown column 'secret' on table 'users'/);
+      expect(() => toSql("profile/city eq 'x'")).toThrow(/does not support navigation path/);
+      expect(() => toSql('orders/any(o: o/total gt 100)')).toThrow(/cannot express any\(\)/);
+    });
+
+    test('a table is required', () => {
+      expect(() => new DrizzleAdapter().convert('age gt 1')).toThrow(/requires a table/);
+    });
+  });
+
+  describe('DrizzleQueryBuilder integration', () => {
+    test('builds where, orderBy, limit, offset and select', () => {
+      const query = buildDrizzleQuery(
+        { $filter: 'age gt 18', $top: 10, $skip: 20, $orderby: 'name desc,id', $select: 'id,name' },
+        { table: users }
+      );
+
+      expect(render(query.where as SQL)).toEqual({ sql: '"users"."age" > $1', params: [18] });
+      expect(query.orderBy!.map(order => render(order).sql)).toEqual(['"users"."name" desc', '"users"."id" asc']);
+      expect(query.limit).toBe(10);
+      expect(query.offset).toBe(20);
+      expect(query.select).toEqual({ id: users.id, name: users.name });
+    });
+
+    test('count query keeps only the where clause', () => {
+      const { findQuery, countQuery } = buildDrizzlePagination({ $filter: 'age gt 1', $top: 10 }, { table: users });
+      expect(countQuery).toEqual({ where: findQuery.where });
+    });
+
+    test('processes pagination results', () => {
+      const builder = new DrizzleQueryBuilder({ table: users });
+      const result = builder.processPaginationResult([{ id: 1 }], 25, { $top: 10, $skip: 0 });
+      expect(result.totalPages).toBe(3);
+      expect(result.hasNext).toBe(true);
+    });
+  });
+});
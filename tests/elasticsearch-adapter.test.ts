@@ -0,0 +1,171 @@
+/**
+ * Test cases for Elasticsearch adapter (bool query DSL and search bodies)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { convertToElasticsearch, buildElasticsearchQuery, buildElasticsearchPagination, ElasticsearchAdapter } from '../src';
+
+const schema = z.object({
+  name: z.string(),
+  age: z.number().nullable(),
+  tags: z.array(z.string()),
+  profile: z.object({ city: z.string() }),
+  orders: z.array(z.object({
+    total: z.number(),
+    status: z.string(),
+    items: z.array(z.object({ qty: z.number() }))
+  }))
+});
+
+describe('Elasticsearch Adapter', () => {
+  describe('Comparison operators', () => {
+    test('equality uses term and ordering uses range', () => {
+      expect(convertToElasticsearch("Name eq 'John'")).toEqual({ term: { Name: 'John' } });
+      expect(convertToElasticsearch('Age ge 18')).toEqual({ range: { Age: { gte: 18 } } });
+      expect(convertToElasticsearch('Age lt 65')).toEqual({ range: { Age: { lt: 65 } } });
+      expect(convertToElasticsearch('Age ne 25')).toEqual({ bool: { must_not: [{ term: { Age: 25 } }] } });
+    });
+
+    test('null comparisons use exists', () => {
+      expect(convertToElasticsearch('DeletedAt eq null')).toEqual({ bool: { must_not: [{ exists: { field: 'DeletedAt' } }] } });
+      expect(convertToElasticsearch('DeletedAt ne null')).toEqual({ exists: { field: 'DeletedAt' } });
+    });
+
+    test('dates are sent as ISO strings and arithmetic is solved for the field', () => {
+      expect(convertToElasticsearch('createdAt gt 2024-01-01T00:00:00Z')).toEqual({
+        range: { createdAt: { gt: '2024-01-01T00:00:00.000Z' } }
+      });
+      expect(convertToElasticsearch('Price mul 2 gt 100')).toEqual({ range: { Price: { gt: 50 } } });
+    });
+
+    test('field-to-field comparisons are rejected', () => {
+      expect(() => convertToElasticsearch('Price gt Cost')).toThrow(/requires a script query/);
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT use bool filter, should and must_not', () => {
+      expect(convertToElasticsearch("Name eq 'John' and (Age gt 25 or Active eq true)")).toEqual({
+        bool: {
+          filter: [
+            { term: { Name: 'John' } },
+            { bool: { should: [{ range: { Age: { gt: 25 } } }, { term: { Active: true } }], minimum_should_match: 1 } }
+          ]
+        }
+      });
+      expect(convertToElasticsearch('not (Age lt 18)')).toEqual({ bool: { must_not: [{ range: { Age: { lt: 18 } } }] } });
+      expect(convertToElasticsearch('Active')).toEqual({ term: { Active: true } });
+    });
+
+    test('in (...) and OR of equalities use terms', () => {
+      expect(convertToElasticsearch("Status in ('a', 'b', 'c')")).toEqual({ terms: { Status: ['a', 'b', 'c'] } });
+      expect(convertToElasticsearch('A eq 1 or B gt 2 or A eq 3')).toEqual({
+        bool: { should: [{ terms: { A: [1, 3] } }, { range: { B: { gt: 2 } } }], minimum_should_match: 1 }
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('startswith uses prefix; contains and endswith use escaped wildcards', () => {
+      expect(convertToElasticsearch("startswith(Name, 'Jo')")).toEqual({ prefix: { Name: { value: 'Jo' } } });
+      expect(convertToElasticsearch("contains(Name, 'a*b')")).toEqual({ wildcard: { Name: { value: '*a\\*b*' } } });
+      expect(convertToElasticsearch("endswith(Name, 'son')")).toEqual({ wildcard: { Name: { value: '*son' } } });
+    });
+
+    test('caseSensitive false and tolower wrappers set case_insensitive', () => {
+      expect(convertToElasticsearch("contains(Name, 'oh')", { caseSensitive: false })).toEqual({
+        wildcard: { Name: { value: '*oh*', case_insensitive: true } }
+      });
+      expect(convertToElasticsearch("tolower(Name) eq 'john'")).toEqual({
+        term: { Name: { value: 'john', case_insensitive: true } }
+      });
+    });
+  });
+
+  describe('Object paths and nested queries', () => {
+    test('object paths use dotted field names', () => {
+      expect(convertToElasticsearch("profile/city eq 'Oslo'", { schema })).toEqual({ term: { 'profile.city': 'Oslo' } });
+    });
+
+    test('paths through arrays of objects are wrapped in nested queries from the schema', () => {
+      expect(convertToElasticsearch('orders/items/qty gt 2', { schema })).toEqual({
+        nested: {
+          path: 'orders',
+          query: { nested: { path: 'orders.items', query: { range: { 'orders.items.qty': { gt: 2 } } } } }
+        }
+      });
+      expect(convertToElasticsearch('orders/items/qty gt 2')).toEqual({ range: { 'orders.items.qty': { gt: 2 } } });
+    });
+
+    test('any() and all() over objects use nested', () => {
+      expect(convertToElasticsearch('orders/any(o: o/total gt 100)', { schema })).toEqual({
+        nested: { path: 'orders', query: { range: { 'orders.total': { gt: 100 } } } }
+      });
+      expect(convertToElasticsearch("orders/all(o: o/status eq 'paid')")).toEqual({
+        bool: {
+          must_not: [{ nested: { path: 'orders', query: { bool: { must_not: [{ term: { 'orders.status': 'paid' } }] } } } }]
+        }
+      });
+      expect(convertToElasticsearch('orders/any()', { schema })).toEqual({
+        nested: { path: 'orders', query: { match_all: {} } }
+      });
+    });
+
+    test('any() over arrays of values queries the field directly', () => {
+      expect(convertToElasticsearch("tags/any(t: t eq 'x')", { schema })).toEqual({ term: { tags: 'x' } });
+      expect(convertToElasticsearch('tags/any()', { schema })).toEqual({ exists: { field: 'tags' } });
+      expect(() => convertToElasticsearch("tags/all(t: t eq 'x')", { schema })).toThrow(/requires a nested mapping/);
+    });
+  });
+
+  describe('Functions', () => {
+    test('year() becomes a date range', () => {
+      expect(convertToElasticsearch('year(createdAt) eq 2024')).toEqual({
+        range: { createdAt: { gte: '2024-01-01T00:00:00.000Z', lt: '2025-01-01T00:00:00.000Z' } }
+      });
+    });
+
+    test('functions that need scripts are rejected', () => {
+      expect(() => convertToElasticsearch('month(createdAt) eq 5')).toThrow(/requires a script query/);
+    });
+
+    test('returns match_all for empty filter', () => {
+      expect(new ElasticsearchAdapter().convert('')).toEqual({ match_all: {} });
+    });
+  });
+
+  describe('ElasticsearchQueryBuilder integration', () => {
+    test('builds query, size, from, sort and _source', () => {
+      const body = buildElasticsearchQuery({
+        $filter: 'age gt 18',
+        $top: 10,
+        $skip: 20,
+        $orderby: 'orders/total desc,name',
+        $select: 'name,profile(city)'
+      }, { schema });
+
+      expect(body).toEqual({
+        query: { range: { age: { gt: 18 } } },
+        size: 10,
+        from: 20,
+        sort: [
+          { 'orders.total': { order: 'desc', nested: { path: 'orders' } } },
+          { name: { order: 'asc' } }
+        ],
+        _source: ['name', 'profile.city']
+      });
+    });
+
+    test('count body keeps only the query', () => {
+      const { countQuery } = buildElasticsearchPagination({ $filter: 'age gt 1', $top: 10, $orderby: 'name' });
+      expect(countQuery).toEqual({ query: { range: { age: { gt: 1 } } } });
+    });
+
+    test('field paths are validated against the schema when strict', () => {
+      const options = { schema, allowAllFields: false };
+      expect(() => buildElasticsearchQuery({ $filter: "secret eq 'x'" }, options)).toThrow(/Schema validation failed/);
+      expect(() => buildElasticsearchQuery({ $orderby: 'secret' }, options)).toThrow(/Schema validation failed/);
+    });
+  });
+});
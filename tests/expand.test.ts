@@ -0,0 +1,280 @@
+/**
+ * Test cases for $expand parsing and its mapping to Prisma, TypeORM, Sequelize and Mongoose relation loading
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { Op } from 'sequelize';
+import {
+  parseExpand,
+  PrismaQueryBuilder,
+  createPrismaQuery,
+  createTypeOrmQuery,
+  createSequelizeQuery,
+  createMongooseQuery,
+  createMongoosePaginationQuery,
+  createSqlQuery,
+  enforceQueryLimits,
+  InvalidQueryOptionError,
+  UnsupportedFeatureError,
+  SchemaValidationError,
+  QueryLimitExceededError
+} from '../src';
+
+const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  profile: z.object({
+    avatar: z.string(),
+    address: z.object({ city: z.string() })
+  }).optional(),
+  orders: z.array(z.object({
+    id: z.string(),
+    total: z.number(),
+    date: z.string(),
+    items: z.array(z.object({ name: z.string(), qty: z.number() }))
+  }))
+});
+
+describe('$expand', () => {
+  describe('parseExpand', () => {
+    test('navigation properties and paths', () => {
+      expect(parseExpand('author, orders')).toEqual([
+        { path: ['author'], expand: [] },
+        { path: ['orders'], expand: [] }
+      ]);
+      expect(parseExpand('author/profile')).toEqual([{ path: ['author', 'profile'], expand: [] }]);
+    });
+
+    test('nested query options', () => {
+      expect(parseExpand("orders($filter=total gt 100 and status eq 'a;b';$orderby=date desc;$top=5;$skip=10;$select=id,total;$expand=items($top=1)),author")).toEqual([
+        {
+          path: ['orders'],
+          filter: "total gt 100 and status eq 'a;b'",
+          orderBy: 'date desc',
+          top: 5,
+          skip: 10,
+          select: 'id,total',
+          expand: [{ path: ['items'], top: 1, expand: [] }]
+        },
+        { path: ['author'], expand: [] }
+      ]);
+    });
+
+    test('malformed items and options are invalid', () => {
+      expect(() => parseExpand('orders(')).toThrow(InvalidQueryOptionError);
+      expect(() => parseExpand('orders($top=-1)')).toThrow("Invalid $expand $top: '-1' is not a non-negative integer");
+      expect(() => parseExpand('orders($filter)')).toThrow("Invalid $expand option: '$filter'");
+      expect(() => parseExpand('orders($where=x)')).toThrow('Unknown $expand option: $where');
+    });
+
+    test('$levels, * and $ref are not supported', () => {
+      expect(() => parseExpand('manager($levels=2)')).toThrow(UnsupportedFeatureError);
+      expect(() => parseExpand('*')).toThrow(UnsupportedFeatureError);
+      expect(() => parseExpand('orders/$ref')).toThrow(UnsupportedFeatureError);
+    });
+  });
+
+  describe('PrismaQueryBuilder', () => {
+    test('expands into include', () => {
+      expect(createPrismaQuery({ $expand: 'profile,orders' })).toEqual({
+        include: { profile: true, orders: true }
+      });
+    });
+
+    test('maps nested options to where, orderBy, take, skip and select', () => {
+      expect(createPrismaQuery({
+        $expand: 'orders($filter=total gt 100;$orderby=date desc;$top=5;$skip=5;$select=id,total;$expand=items)'
+      })).toEqual({
+        include: {
+          orders: {
+            where: { total: { gt: 100 } },
+            orderBy: [{ date: 'desc' }],
+            take: 5,
+            skip: 5,
+            select: { id: true, total: true, items: true }
+          }
+        }
+      });
+    });
+
+    test('nested $expand without $select becomes a nested include', () => {
+      expect(createPrismaQuery({ $expand: 'orders($expand=items($filter=qty gt 1))' })).toEqual({
+        include: { orders: { include: { items: { where: { qty: { gt: 1 } } } } } }
+      });
+    });
+
+    test('paths include the intermediate relations', () => {
+      expect(createPrismaQuery({ $expand: 'author/profile,author/posts($top=3)' })).toEqual({
+        include: { author: { include: { profile: true, posts: { take: 3 } } } }
+      });
+    });
+
+    test('with $select, expansions are added to select', () => {
+      expect(createPrismaQuery({ $select: 'id,name', $expand: 'orders($top=1)' })).toEqual({
+        select: { id: true, name: true, orders: { take: 1 } }
+      });
+    });
+
+    test('count queries leave out the expansion', () => {
+      const { countQuery } = new PrismaQueryBuilder().buildPaginationQuery({ $filter: "name eq 'x'", $expand: 'orders' });
+      expect(countQuery).toEqual({ where: { name: { equals: 'x' } } });
+    });
+  });
+
+  describe('TypeOrmQueryBuilder', () => {
+    test('expands into nested relations', () => {
+      expect(createTypeOrmQuery({ $expand: 'author/profile,orders($expand=items)' }).relations).toEqual({
+        author: { profile: true },
+        orders: { items: true }
+      });
+    });
+
+    test('relation filters and sorting are scoped to the relation path', () => {
+      const query = createTypeOrmQuery({
+        $filter: "name eq 'x'",
+        $orderby: 'name',
+        $expand: "orders($filter=status eq 'paid';$orderby=date desc)"
+      });
+      expect(query.where).toEqual({ name: 'x', orders: { status: 'paid' } });
+      expect(query.order).toEqual({ name: 'ASC', orders: { date: 'DESC' } });
+    });
+
+    test('relation filters are merged into every branch of a top-level or', () => {
+      const query = createTypeOrmQuery({ $filter: "name eq 'x' or age gt 5", $expand: "orders($filter=status eq 'paid')" });
+      expect(query.where).toHaveLength(2);
+      expect(query.where[0]).toEqual({ name: 'x', orders: { status: 'paid' } });
+      expect(query.where[1].orders).toEqual({ status: 'paid' });
+    });
+
+    test('relation fields are added to the top-level select', () => {
+      expect(createTypeOrmQuery({ $select: 'id,name', $expand: 'orders($select=id,total)' }).select).toEqual([
+        'id', 'name', 'orders.id', 'orders.total'
+      ]);
+      expect(() => createTypeOrmQuery({ $expand: 'orders($select=id)' })).toThrow(UnsupportedFeatureError);
+    });
+
+    test('paging a relation is not supported', () => {
+      expect(() => createTypeOrmQuery({ $expand: 'orders($top=5)' })).toThrow("TypeORM cannot page the relation 'orders' in $expand");
+    });
+  });
+
+  describe('SequelizeQueryBuilder', () => {
+    test('expands into nested include entries', () => {
+      expect(createSequelizeQuery({ $expand: 'author/profile,orders($expand=items)' }).include).toEqual([
+        { association: 'author', include: [{ association: 'profile' }] },
+        { association: 'orders', include: [{ association: 'items' }] }
+      ]);
+    });
+
+    test('maps nested options to where, attributes, order, limit and offset', () => {
+      expect(createSequelizeQuery({
+        $expand: "orders($filter=status eq 'paid';$select=id,total;$orderby=date desc;$top=5;$skip=10)"
+      }).include).toEqual([{
+        association: 'orders',
+        where: { status: { [Op.eq]: 'paid' } },
+        required: false,
+        attributes: ['id', 'total'],
+        separate: true,
+        order: [['date', 'DESC']],
+        limit: 5,
+        offset: 10
+      }]);
+    });
+
+    test('paths sharing an association share its include', () => {
+      expect(createSequelizeQuery({ $expand: 'author/profile,author/posts' }).include).toEqual([
+        { association: 'author', include: [{ association: 'profile' }, { association: 'posts' }] }
+      ]);
+    });
+  });
+
+  describe('MongooseQueryBuilder', () => {
+    test('expands into populate with match, select, sort and per-document limit', () => {
+      expect(createMongooseQuery({
+        $expand: "orders($filter=total gt 100;$select=id,total;$orderby=date desc;$top=5;$expand=items)"
+      }).populate).toEqual([{
+        path: 'orders',
+        match: { total: { $gt: 100 } },
+        select: { id: 1, total: 1 },
+        options: { sort: { date: -1 } },
+        perDocumentLimit: 5,
+        populate: [{ path: 'items' }]
+      }]);
+    });
+
+    test('paths become nested populate', () => {
+      expect(createMongooseQuery({ $expand: 'author/profile' }).populate).toEqual([
+        { path: 'author', populate: [{ path: 'profile' }] }
+      ]);
+    });
+
+    test('count queries leave out the expansion', () => {
+      const { countQuery } = createMongoosePaginationQuery({ $filter: "name eq 'x'", $expand: 'orders' });
+      expect(countQuery).toEqual({ filter: { name: { $eq: 'x' } } });
+    });
+
+    test('skipping related documents and combining with $apply are not supported', () => {
+      expect(() => createMongooseQuery({ $expand: 'orders($skip=5)' })).toThrow(UnsupportedFeatureError);
+      expect(() => createMongooseQuery({ $apply: 'groupby((status))', $expand: 'orders' })).toThrow(UnsupportedFeatureError);
+    });
+  });
+
+  test('builders without relation loading reject $expand', () => {
+    expect(() => createSqlQuery({ $expand: 'orders' }, { tableName: 'users' })).toThrow(
+      new UnsupportedFeatureError('SqlQueryBuilder does not support $expand', '$expand')
+    );
+  });
+
+  describe('schema validation', () => {
+    const builder = new PrismaQueryBuilder({ schema: UserSchema, allowAllFields: false });
+
+    test('only navigation properties can be expanded', () => {
+      expect(builder.buildQuery({ $expand: 'profile/address,orders($expand=items)' })).toEqual({
+        include: { profile: { include: { address: true } }, orders: { include: { items: true } } }
+      });
+
+      const scalar = (() => {
+        try {
+          builder.buildQuery({ $expand: 'name' });
+        } catch (error) {
+          return error as SchemaValidationError;
+        }
+      })();
+      expect(scalar).toBeInstanceOf(SchemaValidationError);
+      expect(scalar).toMatchObject({ field: 'name', operation: 'expand' });
+      expect(scalar?.message).toBe("Schema validation failed for $expand: Field 'name' is not a navigation property");
+
+      expect(() => builder.buildQuery({ $expand: 'invoices' })).toThrow("Field 'invoices' does not exist in schema");
+    });
+
+    test('nested options are validated relative to the expanded relation', () => {
+      expect(() => builder.buildQuery({ $expand: 'orders($filter=total gt 1;$orderby=date;$select=id)' })).not.toThrow();
+      expect(() => builder.buildQuery({ $expand: 'orders($filter=secret eq 1)' })).toThrow("Field 'orders.secret' does not exist in schema");
+      expect(() => builder.buildQuery({ $expand: 'orders($orderby=secret)' })).toThrow(SchemaValidationError);
+      expect(() => builder.buildQuery({ $expand: 'orders($select=secret)' })).toThrow(SchemaValidationError);
+      expect(() => builder.buildQuery({ $expand: 'orders($expand=secret)' })).toThrow(SchemaValidationError);
+    });
+
+    test('to-one relations cannot be filtered, sorted or paged', () => {
+      expect(() => builder.buildQuery({ $expand: 'profile($top=1)' })).toThrow(UnsupportedFeatureError);
+      expect(builder.buildQuery({ $expand: 'profile($select=avatar)' })).toEqual({
+        include: { profile: { select: { avatar: true } } }
+      });
+    });
+  });
+
+  describe('limits', () => {
+    test('maxExpandDepth counts paths and nesting', () => {
+      expect(() => enforceQueryLimits({ $expand: 'author/profile,orders' }, { maxExpandDepth: 2 })).not.toThrow();
+      expect(() => enforceQueryLimits({ $expand: 'orders($expand=items($expand=product))' }, { maxExpandDepth: 2 }))
+        .toThrow('$expand nests 3 levels deep, exceeding the limit of 2');
+    });
+
+    test('nested options are held to the top-level limits', () => {
+      expect(() => createPrismaQuery({ $expand: 'orders($top=500)' }, { limits: { maxTop: 100 } })).toThrow(QueryLimitExceededError);
+      expect(() => createPrismaQuery({ $expand: 'orders($filter=id in (1, 2, 3))' }, { limits: { maxInListLength: 2 } }))
+        .toThrow(QueryLimitExceededError);
+    });
+  });
+});
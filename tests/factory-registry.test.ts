@@ -0,0 +1,114 @@
+/**
+ * Test cases for registering custom adapters and query builders with the factories
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AdapterFactory, QueryBuilderFactory, PrismaAdapter, PrismaQueryBuilder, BaseQueryBuilder, SupportedOrm } from '../src';
+
+class InternalDalAdapter extends PrismaAdapter {
+  getOrmName(): string {
+    return 'Internal DAL';
+  }
+}
+
+class InternalDalQueryBuilder extends BaseQueryBuilder<{ where?: any; limit?: number }> {
+  constructor(options = {}) {
+    super(new InternalDalAdapter(options));
+  }
+
+  protected createEmptyQuery() {
+    return {};
+  }
+
+  protected setTake(query: { limit?: number }, take: number): void {
+    query.limit = take;
+  }
+
+  protected setSkip(): void {}
+
+  protected setOrderBy(): void {}
+
+  protected setSelect(): void {}
+
+  protected createCountQuery(findQuery: { where?: any }) {
+    return { where: findQuery.where };
+  }
+}
+
+class NotAnAdapter {
+  convert() {
+    return {};
+  }
+}
+
+describe('Factory registry', () => {
+  describe('AdapterFactory.registerAdapter', () => {
+    test('registered classes are created by name and listed with the built-ins', () => {
+      AdapterFactory.registerAdapter('internal-dal', InternalDalAdapter);
+
+      const adapter = AdapterFactory.createAdapter('Internal-DAL', { caseSensitive: false });
+      expect(adapter).toBeInstanceOf(InternalDalAdapter);
+      expect(adapter.convert("contains(name, 'jo')")).toEqual({ name: { contains: 'jo', mode: 'insensitive' } });
+
+      expect(AdapterFactory.getSupportedOrms()).toEqual(expect.arrayContaining([SupportedOrm.PRISMA, 'internal-dal']));
+      expect(AdapterFactory.getAdapterInfo()).toContainEqual({
+        orm: 'Internal DAL',
+        status: 'Available',
+        features: adapter.getSupportedFeatures()
+      });
+    });
+
+    test('factory functions receive the conversion options', () => {
+      AdapterFactory.registerAdapter('factory-dal', options => new InternalDalAdapter({ ...options, caseSensitive: false }));
+      expect(AdapterFactory.createAdapter('factory-dal').convert("startswith(name, 'a')")).toEqual({
+        name: { startsWith: 'a', mode: 'insensitive' }
+      });
+    });
+
+    test('invalid registrations are rejected', () => {
+      expect(() => AdapterFactory.registerAdapter('not-an-adapter', NotAnAdapter as any)).toThrow(/must extend BaseOrmAdapter/);
+      expect(() => AdapterFactory.registerAdapter(SupportedOrm.PRISMA, InternalDalAdapter)).toThrow(/already registered/);
+      expect(() => AdapterFactory.registerAdapter(' ', InternalDalAdapter)).toThrow(/non-empty string/);
+
+      AdapterFactory.registerAdapter('bad-factory', (() => new NotAnAdapter()) as any);
+      expect(() => AdapterFactory.createAdapter('bad-factory')).toThrow(/must return an instance of BaseOrmAdapter/);
+    });
+
+    test('unknown names list the registered ORMs', () => {
+      expect(() => AdapterFactory.createAdapter('unknown')).toThrow(/Unsupported ORM: unknown\. Supported ORMs: prisma, .*internal-dal/);
+    });
+  });
+
+  describe('QueryBuilderFactory.registerQueryBuilder', () => {
+    test('registered classes are created by name and reported in the info', () => {
+      QueryBuilderFactory.registerQueryBuilder('internal-dal', InternalDalQueryBuilder, { description: 'Internal data-access layer' });
+
+      const builder = QueryBuilderFactory.createQueryBuilder('internal-dal');
+      expect(builder).toBeInstanceOf(InternalDalQueryBuilder);
+      expect(builder.buildPaginationQuery({ $filter: 'age gt 18', $top: 5 })).toEqual({
+        findQuery: { where: { age: { gt: 18 } }, limit: 5 },
+        countQuery: { where: { age: { gt: 18 } } }
+      });
+
+      const info = QueryBuilderFactory.getQueryBuilderInfo();
+      expect(info[SupportedOrm.PRISMA].status).toBe('Available');
+      expect(info['internal-dal']).toEqual({
+        name: 'internal-dal Query Builder',
+        status: 'Available',
+        description: 'Internal data-access layer'
+      });
+    });
+
+    test('factory functions receive the builder options', () => {
+      QueryBuilderFactory.registerQueryBuilder('prisma-insensitive', options => new PrismaQueryBuilder({ ...options, caseSensitive: false }));
+      expect(QueryBuilderFactory.createQueryBuilder('prisma-insensitive').buildQuery({ $filter: "contains(name, 'a')" })).toEqual({
+        where: { name: { contains: 'a', mode: 'insensitive' } }
+      });
+    });
+
+    test('invalid registrations are rejected', () => {
+      expect(() => QueryBuilderFactory.registerQueryBuilder('adapter', InternalDalAdapter as any)).toThrow(/must extend BaseQueryBuilder/);
+      expect(() => QueryBuilderFactory.registerQueryBuilder(SupportedOrm.PRISMA, InternalDalQueryBuilder)).toThrow(/already registered/);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Test cases for the ORM-neutral filter expression (parsing and adapter conversion)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseFilter,
+  normalizeComparison,
+  FilterExpression,
+  FilterCompare,
+  PrismaAdapter,
+  SqlAdapter,
+  MongooseAdapter,
+  InMemoryAdapter,
+  UnsupportedFeatureError
+} from '../src';
+
+const property = (...path: string[]) => ({ node: 'Property', path });
+const literal = (value: any, type = typeof value) => ({ node: 'Literal', type, value });
+
+describe('Filter Expression', () => {
+  describe('parseFilter', () => {
+    test('comparisons have the property on the left and a typed literal on the right', () => {
+      expect(parseFilter("Name eq 'John'")).toEqual({
+        node: 'Compare',
+        op: 'eq',
+        left: property('Name'),
+        right: literal('John', 'string')
+      });
+      expect(parseFilter('Age ge 18')).toEqual({ node: 'Compare', op: 'ge', left: property('Age'), right: literal(18, 'number') });
+      expect(parseFilter('Deleted eq null')).toMatchObject({ right: { node: 'Literal', type: 'null', value: null } });
+    });
+
+    test('navigation paths are split into segments', () => {
+      expect(parseFilter("author/profile/city eq 'Oslo'")).toMatchObject({ left: property('author', 'profile', 'city') });
+    });
+
+    test('and/or chains are flattened and parentheses removed', () => {
+      const expression = parseFilter('(a eq 1 and b eq 2) and c eq 3') as any;
+      expect(expression.node).toBe('And');
+      expect(expression.operands).toHaveLength(3);
+
+      const mixed = parseFilter('a eq 1 and (b eq 2 or c gt 3)') as any;
+      expect(mixed.operands[1].node).toBe('Or');
+      expect(mixed.operands[1].operands).toHaveLength(2);
+    });
+
+    test('in (...) and repeated equalities on one property become In', () => {
+      const expected = { node: 'In', left: property('Status'), values: [literal('a', 'string'), literal('b', 'string')] };
+      expect(parseFilter("Status in ('a', 'b')")).toEqual(expected);
+      expect(parseFilter("Status eq 'a' or Status eq 'b' or Status eq 'a'")).toEqual(expected);
+    });
+
+    test('In is placed at the first equality and other operands are kept', () => {
+      const expression = parseFilter("Age gt 30 or Name eq 'x' or Name eq 'y'") as any;
+      expect(expression.node).toBe('Or');
+      expect(expression.operands.map((operand: FilterExpression) => operand.node)).toEqual(['Compare', 'In']);
+    });
+
+    test('not, bare boolean properties and method calls', () => {
+      expect(parseFilter('not Active')).toEqual({ node: 'Not', operand: property('Active') });
+      expect(parseFilter("contains(Name, 'jo')")).toEqual({
+        node: 'Call',
+        fn: 'contains',
+        args: [property('Name'), literal('jo', 'string')]
+      });
+    });
+
+    test('substringof is normalized to contains', () => {
+      expect(parseFilter("substringof('jo', Name)")).toEqual(parseFilter("contains(Name, 'jo')"));
+    });
+
+    test('lambdas bind their range variable', () => {
+      expect(parseFilter('orders/any(o: o/total gt 100)')).toEqual({
+        node: 'Lambda',
+        kind: 'any',
+        path: ['orders'],
+        var: 'o',
+        body: { node: 'Compare', op: 'gt', left: { node: 'Property', path: ['total'], variable: 'o' }, right: literal(100, 'number') }
+      });
+      expect(parseFilter("tags/all(t: t ne 'x')")).toMatchObject({
+        kind: 'all',
+        body: { left: { node: 'Property', path: [], variable: 't' } }
+      });
+      expect(parseFilter('orders/any()')).toMatchObject({ node: 'Lambda', kind: 'any', path: ['orders'] });
+    });
+
+    test('arithmetic is kept as a value node', () => {
+      expect(parseFilter('Price mul 2 gt 100')).toMatchObject({
+        node: 'Compare',
+        left: { node: 'Arithmetic', op: 'mul', left: property('Price'), right: literal(2, 'number') }
+      });
+    });
+  });
+
+  describe('normalizeComparison', () => {
+    test('moves a literal on the left to the right and flips the operator', () => {
+      const swapped = normalizeComparison(parseFilter('18 lt Age') as FilterCompare);
+      expect(swapped).toMatchObject({ op: 'gt', left: property('Age'), right: { value: 18 } });
+    });
+
+    test('solves arithmetic onto the literal', () => {
+      expect(normalizeComparison(parseFilter('Price mul 2 gt 100') as FilterCompare)).toMatchObject({
+        op: 'gt', left: property('Price'), right: { value: 50 }
+      });
+      expect(normalizeComparison(parseFilter('Price mul -2 gt 100') as FilterCompare)).toMatchObject({
+        op: 'lt', right: { value: -50 }
+      });
+      expect(normalizeComparison(parseFilter('Price sub 5 le 10') as FilterCompare)).toMatchObject({ right: { value: 15 } });
+      expect(() => normalizeComparison(parseFilter('Price div 0 gt 1') as FilterCompare)).toThrow(
+        new UnsupportedFeatureError('Cannot solve arithmetic comparison with zero operand: div', 'div')
+      );
+    });
+  });
+
+  describe('Adapters', () => {
+    const expression: FilterExpression = {
+      node: 'And',
+      operands: [
+        { node: 'Compare', op: 'ge', left: { node: 'Property', path: ['age'] }, right: { node: 'Literal', type: 'number', value: 18 } },
+        { node: 'In', left: { node: 'Property', path: ['status'] }, values: [
+          { node: 'Literal', type: 'string', value: 'active' },
+          { node: 'Literal', type: 'string', value: 'trial' }
+        ] }
+      ]
+    };
+
+    test('convert a hand-built expression', () => {
+      expect(new PrismaAdapter().convertExpression(expression)).toEqual({
+        AND: [{ age: { gte: 18 } }, { status: { in: ['active', 'trial'] } }]
+      });
+      expect(new SqlAdapter().convertExpression(expression)).toEqual({
+        text: '"age" >= $1 AND "status" IN ($2, $3)',
+        values: [18, 'active', 'trial']
+      });
+      expect(new MongooseAdapter().convertExpression(expression)).toEqual({
+        $and: [{ age: { $gte: 18 } }, { status: { $in: ['active', 'trial'] } }]
+      });
+
+      const rows = [{ age: 20, status: 'trial' }, { age: 20, status: 'closed' }, { age: 12, status: 'active' }];
+      expect(rows.filter(new InMemoryAdapter().convertExpression(expression))).toEqual([rows[0]]);
+    });
+
+    test('convert() and convertExpression(parseFilter()) agree', () => {
+      const filter = "age ge 18 and (status eq 'active' or status eq 'trial')";
+      const adapter = new SqlAdapter();
+      expect(adapter.convertExpression(parseFilter(filter))).toEqual(adapter.convert(filter));
+    });
+  });
+});
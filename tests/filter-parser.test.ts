@@ -0,0 +1,226 @@
+/**
+ * Test cases for the $filter tokenizer and recursive-descent parser
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { tokenizeFilter, parseFilter, convertToPrisma, convertToSql, ODataParseError } from '../src';
+
+const property = (...path: string[]) => ({ node: 'Property', path });
+const literal = (value: any, type: string = typeof value) => ({ node: 'Literal', type, value });
+
+describe('Filter Parser', () => {
+  describe('tokenizeFilter', () => {
+    test('tokens carry their source offsets', () => {
+      expect(tokenizeFilter("Name eq 'O''Brien' and Age gt 18").map(({ type, text, position }) => [type, text, position])).toEqual([
+        ['identifier', 'Name', 0],
+        ['identifier', 'eq', 5],
+        ['literal', "'O''Brien'", 8],
+        ['identifier', 'and', 19],
+        ['identifier', 'Age', 23],
+        ['identifier', 'gt', 27],
+        ['literal', '18', 30]
+      ]);
+    });
+
+    test('unknown characters and unterminated strings fail with their position', () => {
+      expect(() => tokenizeFilter('Age gt 18 & Age lt 65')).toThrow("Unexpected character '&' at position 10");
+      expect(() => tokenizeFilter("Name eq 'John")).toThrow('Unterminated string literal at position 8');
+    });
+  });
+
+  describe('literals', () => {
+    const right = (filter: string) => (parseFilter(filter) as any).right;
+
+    test('strings unescape doubled quotes', () => {
+      expect(right("Name eq 'O''Brien'")).toEqual(literal("O'Brien", 'string'));
+    });
+
+    test('numbers, including decimals, exponents, suffixes and negatives', () => {
+      expect(right('Price eq 10.5')).toEqual(literal(10.5, 'number'));
+      expect(right('Price eq 1e3')).toEqual(literal(1000, 'number'));
+      expect(right('Price eq 19.99m')).toEqual(literal(19.99, 'number'));
+      expect(right('Price gt -5')).toEqual(literal(-5, 'number'));
+      expect(right('Price lt INF')).toEqual(literal(Infinity, 'number'));
+    });
+
+    test('keywords', () => {
+      expect(right('Active eq true')).toEqual(literal(true, 'boolean'));
+      expect(right('DeletedAt eq null')).toEqual(literal(null, 'null'));
+    });
+
+    test('dates and date-times are Date objects', () => {
+      expect(right('CreatedAt ge 2024-01-15')).toEqual(literal(new Date('2024-01-15T00:00:00Z'), 'date'));
+      expect(right('CreatedAt ge 2024-01-15T10:30:00+02:00')).toEqual(literal(new Date('2024-01-15T08:30:00Z'), 'date'));
+      expect(right("CreatedAt ge datetime'2023-01-01'")).toEqual(literal('2023-01-01T00:00:00.000Z', 'string'));
+    });
+
+    test('guids, durations and times of day keep their text', () => {
+      const guid = '01234567-89ab-cdef-0123-456789abcdef';
+      expect(right(`Id eq ${guid}`)).toEqual(literal(guid, 'guid'));
+      expect(right(`Id eq guid'${guid}'`)).toEqual(literal(guid, 'guid'));
+      expect(right("Timeout gt duration'PT5M'")).toEqual(literal('PT5M', 'duration'));
+      expect(right('OpensAt le 09:30:00')).toEqual(literal('09:30:00', 'timeOfDay'));
+    });
+  });
+
+  describe('precedence', () => {
+    test('and binds tighter than or', () => {
+      expect(parseFilter('a eq 1 or b eq 2 and c eq 3')).toMatchObject({
+        node: 'Or',
+        operands: [{ node: 'Compare' }, { node: 'And', operands: [{ node: 'Compare' }, { node: 'Compare' }] }]
+      });
+    });
+
+    test('not negates the following comparison only', () => {
+      expect(parseFilter('not Age gt 18 and Active')).toEqual({
+        node: 'And',
+        operands: [
+          { node: 'Not', operand: { node: 'Compare', op: 'gt', left: property('Age'), right: literal(18, 'number') } },
+          property('Active')
+        ]
+      });
+    });
+
+    test('multiplicative binds tighter than additive, and both are left-associative', () => {
+      expect((parseFilter('a add b mul 2 eq 10') as any).left).toEqual({
+        node: 'Arithmetic',
+        op: 'add',
+        left: property('a'),
+        right: { node: 'Arithmetic', op: 'mul', left: property('b'), right: literal(2, 'number') }
+      });
+      expect((parseFilter('a sub 1 sub 2 eq 0') as any).left).toMatchObject({
+        op: 'sub',
+        left: { node: 'Arithmetic', op: 'sub', left: property('a') },
+        right: literal(2, 'number')
+      });
+    });
+
+    test('parentheses group values as well as conditions', () => {
+      expect((parseFilter('(a add 1) mul 2 gt 10') as any).left).toMatchObject({
+        op: 'mul',
+        left: { node: 'Arithmetic', op: 'add' }
+      });
+    });
+
+    test('symbolic shorthand operators; a spaced slash is division, an unspaced one a path', () => {
+      expect((parseFilter('Total / 2 eq 50') as any).left).toEqual({
+        node: 'Arithmetic', op: 'div', left: property('Total'), right: literal(2, 'number')
+      });
+      expect((parseFilter("author/name eq 'x'") as any).left).toEqual(property('author', 'name'));
+      expect((parseFilter('Score - 10 gt 80') as any).left).toMatchObject({ op: 'sub' });
+    });
+  });
+
+  describe('functions and lambdas', () => {
+    test('function calls take any value as an argument', () => {
+      expect(parseFilter("contains(tolower(Name), 'jo')")).toEqual({
+        node: 'Call',
+        fn: 'contains',
+        args: [{ node: 'Call', fn: 'tolower', args: [property('Name')] }, literal('jo', 'string')]
+      });
+      expect((parseFilter("concat(First, concat(' ', Last)) eq 'A B'") as any).left.args[1].fn).toBe('concat');
+    });
+
+    test('a property named like a function is still a property', () => {
+      expect((parseFilter('date eq 2024-01-01') as any).left).toEqual(property('date'));
+    });
+
+    test('properties named like Object.prototype members are properties, not operators or keywords', () => {
+      expect(parseFilter("constructor eq 'x' and toString ne hasOwnProperty")).toEqual({
+        node: 'And',
+        operands: [
+          { node: 'Compare', op: 'eq', left: property('constructor'), right: literal('x', 'string') },
+          { node: 'Compare', op: 'ne', left: property('toString'), right: property('hasOwnProperty') }
+        ]
+      });
+      expect(() => parseFilter("Name toString 'x'")).toThrow("Unexpected 'toString' at position 5");
+    });
+
+    test('lambda predicates support any condition and nesting', () => {
+      expect(parseFilter("orders/any(o: o/total gt 100 and (o/status eq 'paid' or o/items/any(i: i/qty gt 1)))")).toEqual({
+        node: 'Lambda',
+        kind: 'any',
+        path: ['orders'],
+        var: 'o',
+        body: {
+          node: 'And',
+          operands: [
+            { node: 'Compare', op: 'gt', left: { node: 'Property', path: ['total'], variable: 'o' }, right: literal(100, 'number') },
+            {
+              node: 'Or',
+              operands: [
+                { node: 'Compare', op: 'eq', left: { node: 'Property', path: ['status'], variable: 'o' }, right: literal('paid', 'string') },
+                {
+                  node: 'Lambda',
+                  kind: 'any',
+                  path: ['items'],
+                  variable: 'o',
+                  var: 'i',
+                  body: { node: 'Compare', op: 'gt', left: { node: 'Property', path: ['qty'], variable: 'i' }, right: literal(1, 'number') }
+                }
+              ]
+            }
+          ]
+        }
+      });
+    });
+
+    test('a nested lambda records whether its collection belongs to the element or the row', () => {
+      const body = (parseFilter('orders/any(o: o/items/any(i: i/qty gt 1) and items/any())') as any).body;
+      expect(body.operands[0]).toMatchObject({ node: 'Lambda', path: ['items'], variable: 'o' });
+      expect(body.operands[1]).toEqual({ node: 'Lambda', path: ['items'], kind: 'any' });
+    });
+
+    test('the range variable is only bound inside its lambda', () => {
+      expect((parseFilter('tags/any(t: t eq 1) and t eq 2') as any).operands[1].left).toEqual(property('t'));
+    });
+  });
+
+  describe('in', () => {
+    test('keeps every list item, including signed numbers', () => {
+      expect(parseFilter('Id in (1, -2, 3)')).toEqual({
+        node: 'In',
+        left: property('Id'),
+        values: [literal(1, 'number'), literal(-2, 'number'), literal(3, 'number')]
+      });
+    });
+
+    test('only the in (...) list belongs to in', () => {
+      expect(parseFilter("Status in ('a', 'b') and Age gt 5")).toMatchObject({
+        node: 'And',
+        operands: [{ node: 'In' }, { node: 'Compare', op: 'gt' }]
+      });
+    });
+  });
+
+  describe('errors', () => {
+    test.each([
+      ['Age gt', 'Unexpected end of filter at position 6, expected an expression'],
+      ['Age gt 18 Name', "Unexpected 'Name' at position 10"],
+      ['(Age gt 18', "Unexpected end of filter at position 10, expected ')'"],
+      ['Age add 1', 'Expected a boolean expression at position 0'],
+      ['Age eq (Name eq 1)', 'Expected a value at position 7'],
+      ["Status in ('a', Name)", 'Expected a literal in the in (...) list at position 16'],
+      ['orders/any(o o/total gt 1)', "Expected ':' at position 13, got 'o'"],
+      ['Tags/all()', 'all() requires a predicate at position 9'],
+      ['contains(Name)', 'contains expects 2 arguments, got 1 at position 13'],
+      ['year() eq 1', 'year expects 1 argument, got 0 at position 5'],
+      ["tolower(Name, 'x') eq 'y'", 'tolower expects 1 argument, got 2 at position 14'],
+      ["substring(Name, 1, 2, 3) eq 'y'", 'substring expects 2 to 3 arguments, got 4 at position 22'],
+      ["substringof('a')", 'substringof expects 2 arguments, got 1 at position 15']
+    ])('%s', (filter, message) => {
+      expect(() => parseFilter(filter)).toThrow(message);
+    });
+
+    test('adapters report parse errors without guessing', () => {
+      expect(() => convertToPrisma('Name eq')).toThrow('Failed to parse OData filter: Unexpected end of filter');
+      expect(() => convertToSql('year() eq 1')).toThrow(ODataParseError);
+      expect(() => convertToSql("tags/any(t: t eq 'a' and t eq 'b'")).toThrow("expected ')'");
+    });
+
+    test('a malformed in (...) is rejected, not narrowed to the part that parses', () => {
+      expect(() => convertToPrisma("Status in ('a', 'b' and Age gt 18")).toThrow("Expected ')' at position 20, got 'and'");
+      expect(() => convertToPrisma("Status in ('a' 'b') and Age gt 18")).toThrow("Expected ')' at position 15");
+    });
+  });
+});
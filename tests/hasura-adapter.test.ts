@@ -0,0 +1,164 @@
+/**
+ * Test cases for Hasura adapter (GraphQL boolean expressions and query arguments)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  convertToHasura,
+  convertToPrisma,
+  buildHasuraQuery,
+  buildHasuraPagination,
+  HasuraAdapter,
+  UnsupportedFeatureError
+} from '../src';
+
+describe('Hasura Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons map to _eq, _neq, _gt, _gte, _lt, _lte', () => {
+      expect(convertToHasura("Name eq 'John'")).toEqual({ Name: { _eq: 'John' } });
+      expect(convertToHasura("Name ne 'John'")).toEqual({ Name: { _neq: 'John' } });
+      expect(convertToHasura('Age ge 18')).toEqual({ Age: { _gte: 18 } });
+      expect(convertToHasura('Age lt 65')).toEqual({ Age: { _lt: 65 } });
+    });
+
+    test('null comparisons use _is_null', () => {
+      expect(convertToHasura('DeletedAt eq null')).toEqual({ DeletedAt: { _is_null: true } });
+      expect(convertToHasura('DeletedAt ne null')).toEqual({ DeletedAt: { _is_null: false } });
+    });
+
+    test('dates are sent as ISO strings', () => {
+      expect(convertToHasura('createdAt gt 2024-01-01T00:00:00Z')).toEqual({
+        createdAt: { _gt: '2024-01-01T00:00:00.000Z' }
+      });
+      expect(convertToHasura('year(createdAt) eq 2024')).toEqual({
+        createdAt: { _gte: '2024-01-01T00:00:00.000Z', _lt: '2025-01-01T00:00:00.000Z' }
+      });
+      expect(convertToHasura('year(createdAt) eq 2024 and month(createdAt) eq 5')).toEqual({
+        createdAt: { _gte: '2024-05-01T00:00:00.000Z', _lt: '2024-06-01T00:00:00.000Z' }
+      });
+    });
+
+    test('fields named like Prisma filter keys are plain columns', () => {
+      expect(convertToHasura("Settings/mode eq 'dark'")).toEqual({ Settings: { mode: { _eq: 'dark' } } });
+      expect(convertToHasura('Flags/not eq true')).toEqual({ Flags: { not: { _eq: true } } });
+      expect(convertToHasura('Settings/some eq 1')).toEqual({ Settings: { some: { _eq: 1 } } });
+      expect(convertToHasura("equals ne 'x'")).toEqual({ equals: { _neq: 'x' } });
+    });
+
+    test('functions without a boolean expression operator are rejected', () => {
+      expect(() => convertToHasura('month(createdAt) eq 5')).toThrow(
+        new UnsupportedFeatureError(
+          'Hasura boolean expressions can only filter month() together with year() eq on the same field; expose it as a computed field otherwise',
+          'month'
+        )
+      );
+      expect(() => convertToHasura('length(Name) gt 3')).toThrow(
+        new UnsupportedFeatureError('Hasura boolean expressions cannot compare length(); expose it as a computed field and filter on that', 'length')
+      );
+      expect(() => convertToHasura('Price mod 2 eq 1')).toThrow(/cannot compare the result of mod/);
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT use _and, _or and _not', () => {
+      expect(convertToHasura("Age ge 18 and Name ne 'x'")).toEqual({
+        _and: [{ Age: { _gte: 18 } }, { Name: { _neq: 'x' } }]
+      });
+      expect(convertToHasura("Name eq 'a' or Age gt 3")).toEqual({
+        _or: [{ Name: { _eq: 'a' } }, { Age: { _gt: 3 } }]
+      });
+      expect(convertToHasura('not (Age lt 18)')).toEqual({ _not: { Age: { _lt: 18 } } });
+    });
+
+    test('in (...) uses _in', () => {
+      expect(convertToHasura("Status in ('a', 'b')")).toEqual({ Status: { _in: ['a', 'b'] } });
+    });
+  });
+
+  describe('String methods', () => {
+    test('string methods use _like with escaped patterns', () => {
+      expect(convertToHasura("contains(Name, 'a_b')")).toEqual({ Name: { _like: '%a\\_b%' } });
+      expect(convertToHasura("startswith(Name, 'Jo')")).toEqual({ Name: { _like: 'Jo%' } });
+      expect(convertToHasura("endswith(Name, 'son')")).toEqual({ Name: { _like: '%son' } });
+    });
+
+    test('caseSensitive false uses _ilike', () => {
+      expect(convertToHasura("contains(Name, 'oh')", { caseSensitive: false })).toEqual({ Name: { _ilike: '%oh%' } });
+    });
+
+    test('tolower/toupper use _ilike', () => {
+      expect(convertToHasura("tolower(Name) eq 'bob'")).toEqual({ Name: { _ilike: 'bob' } });
+      expect(convertToHasura("toupper(Name) ne 'A%'")).toEqual({ Name: { _nilike: 'A\\%' } });
+      expect(convertToHasura("startswith(tolower(Name), 'jo')")).toEqual({ Name: { _ilike: 'jo%' } });
+    });
+  });
+
+  describe('Relationships', () => {
+    test('navigation paths become nested relation objects', () => {
+      expect(convertToHasura("author/name eq 'John'")).toEqual({ author: { name: { _eq: 'John' } } });
+      expect(convertToHasura("contains(author/name, 'x')")).toEqual({ author: { name: { _like: '%x%' } } });
+    });
+
+    test('any() filters the array relationship and all() is a double negation', () => {
+      expect(convertToHasura("author/name eq 'John' and orders/any(o: o/total gt 100)")).toEqual({
+        _and: [{ author: { name: { _eq: 'John' } } }, { orders: { total: { _gt: 100 } } }]
+      });
+      expect(convertToHasura('orders/all(o: o/total gt 100)')).toEqual({
+        _not: { orders: { _not: { total: { _gt: 100 } } } }
+      });
+      expect(convertToHasura('orders/any()')).toEqual({ orders: {} });
+    });
+
+    test('any() over a collection of values is rejected instead of read as an equality', () => {
+      expect(() => convertToHasura("Tags/any(t: t eq 'a')")).toThrow(
+        new UnsupportedFeatureError(
+          "Hasura boolean expressions cannot express any() over the values of 'Tags'; only array relationships can be filtered",
+          'any()'
+        )
+      );
+    });
+
+    test('returns empty object for empty filter', () => {
+      expect(new HasuraAdapter().convert('')).toEqual({});
+    });
+  });
+
+  describe('Prisma relation filters', () => {
+    test('lambdas keep sibling conditions', () => {
+      expect(convertToPrisma("author/name eq 'John' and orders/any(o: o/total gt 100)")).toEqual({
+        AND: [{ author: { name: { equals: 'John' } } }, { orders: { some: { total: { gt: 100 } } } }]
+      });
+      expect(convertToPrisma('orders/all(o: o/total gt 100)')).toEqual({ orders: { every: { total: { gt: 100 } } } });
+    });
+
+    test('string methods and in (...) keep navigation paths', () => {
+      expect(convertToPrisma("contains(author/name, 'x')")).toEqual({ author: { name: { contains: 'x' } } });
+      expect(convertToPrisma('author/id in (1, 2)')).toEqual({ author: { id: { in: [1, 2] } } });
+    });
+  });
+
+  describe('HasuraQueryBuilder integration', () => {
+    test('builds where, limit, offset, order_by and selection set', () => {
+      const query = buildHasuraQuery({
+        $filter: 'age gt 18',
+        $top: 10,
+        $skip: 20,
+        $orderby: 'author/name desc,title',
+        $select: 'id,title,author(name,email)'
+      });
+
+      expect(query).toEqual({
+        where: { age: { _gt: 18 } },
+        limit: 10,
+        offset: 20,
+        order_by: [{ author: { name: 'desc' } }, { title: 'asc' }],
+        selectionSet: 'id title author { name email }'
+      });
+    });
+
+    test('count query keeps only where', () => {
+      const { countQuery } = buildHasuraPagination({ $filter: 'age gt 18', $top: 10, $orderby: 'title' });
+      expect(countQuery).toEqual({ where: { age: { _gt: 18 } } });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Test cases for in-memory adapter (predicates and array queries)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  convertToInMemory,
+  applyInMemoryQuery,
+  buildInMemoryPagination,
+  InMemoryAdapter,
+  InMemoryQueryBuilder,
+  UnsupportedFeatureError
+} from '../src';
+
+const users = [
+  {
+    id: 1,
+    name: 'John',
+    age: 30,
+    active: true,
+    createdAt: new Date('2024-05-10T12:00:00Z'),
+    profile: { city: 'Oslo', country: 'NO' },
+    tags: ['admin', 'beta'],
+    orders: [{ total: 150, status: 'paid' }, { total: 40, status: 'paid' }]
+  },
+  {
+    id: 2,
+    name: 'alice',
+    age: null,
+    active: false,
+    createdAt: '2023-01-20T08:00:00Z',
+    profile: { city: 'Paris', country: 'FR' },
+    tags: [],
+    orders: []
+  },
+  {
+    id: 3,
+    name: 'Bob',
+    age: 25,
+    active: true,
+    createdAt: new Date('2024-11-02T00:00:00Z'),
+    profile: null,
+    tags: ['beta'],
+    orders: [{ total: 80, status: 'open' }]
+  }
+];
+
+function ids(filter: string, options = {}) {
+  return users.filter(convertToInMemory(filter, options)).map(user => user.id);
+}
+
+describe('In-Memory Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons on numbers, strings and booleans', () => {
+      expect(ids("name eq 'John'")).toEqual([1]);
+      expect(ids('age ne 30')).toEqual([2, 3]);
+      expect(ids('age ge 25')).toEqual([1, 3]);
+      expect(ids('active eq false')).toEqual([2]);
+    });
+
+    test('null comparisons and ordering against null', () => {
+      expect(ids('age eq null')).toEqual([2]);
+      expect(ids('profile ne null')).toEqual([1, 2]);
+      expect(ids('age lt 100')).toEqual([1, 3]);
+    });
+
+    test('dates compare with Date objects and ISO strings', () => {
+      expect(ids('createdAt gt 2024-01-01T00:00:00Z')).toEqual([1, 3]);
+      expect(ids('createdAt lt 2024-01-01T00:00:00Z')).toEqual([2]);
+    });
+
+    test('arithmetic expressions', () => {
+      expect(ids('age add 5 eq 35')).toEqual([1]);
+      expect(ids('age mod 2 eq 1')).toEqual([3]);
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT and bare boolean properties', () => {
+      expect(ids("name eq 'John' or (age lt 30 and active)")).toEqual([1, 3]);
+      expect(ids('not (age gt 26)')).toEqual([2, 3]);
+      expect(ids('active')).toEqual([1, 3]);
+    });
+
+    test('in (...) expressions', () => {
+      expect(ids("name in ('John', 'Bob')")).toEqual([1, 3]);
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith, endswith and indexof', () => {
+      expect(ids("contains(name, 'o')")).toEqual([1, 3]);
+      expect(ids("startswith(name, 'J')")).toEqual([1]);
+      expect(ids("endswith(name, 'ce')")).toEqual([2]);
+      expect(ids("indexof(name, 'ob') eq 1")).toEqual([3]);
+    });
+
+    test('case sensitivity option and tolower/toupper/length', () => {
+      expect(ids("startswith(name, 'a')")).toEqual([2]);
+      expect(ids("startswith(name, 'J')", { caseSensitive: false })).toEqual([1]);
+      expect(ids("contains(name, 'JO')", { caseSensitive: false })).toEqual([1]);
+      expect(ids("tolower(name) eq 'bob'")).toEqual([3]);
+      expect(ids("toupper(name) eq 'ALICE'")).toEqual([2]);
+      expect(ids('length(name) eq 3')).toEqual([3]);
+    });
+  });
+
+  describe('Navigation, collections and functions', () => {
+    test('nested paths read through missing values', () => {
+      expect(ids("profile/city eq 'Oslo'")).toEqual([1]);
+      expect(ids('profile/city eq null')).toEqual([3]);
+    });
+
+    test('any() and all() lambdas', () => {
+      expect(ids('orders/any(o: o/total gt 100)')).toEqual([1]);
+      expect(ids("orders/all(o: o/status eq 'paid')")).toEqual([1, 2]);
+      expect(ids('orders/any()')).toEqual([1, 3]);
+      expect(ids("tags/any(t: t eq 'beta')")).toEqual([1, 3]);
+    });
+
+    test('nested lambdas read the collection of the element or the row they are rooted at', () => {
+      const rows = [
+        { id: 1, items: [], orders: [{ items: [{ q: 5 }] }] },
+        { id: 2, items: [{ q: 5 }], orders: [{ items: [] }] }
+      ];
+      const matching = (filter: string) => rows.filter(convertToInMemory(filter)).map(row => row.id);
+
+      expect(matching('orders/any(o: o/items/any(i: i/q eq 5))')).toEqual([1]);
+      expect(matching('orders/any(o: items/any(i: i/q eq 5))')).toEqual([2]);
+      expect(matching('orders/any(o: o/items/any())')).toEqual([1]);
+    });
+
+    test('year, month and day use UTC date parts', () => {
+      expect(ids('year(createdAt) eq 2024')).toEqual([1, 3]);
+      expect(ids('month(createdAt) eq 1')).toEqual([2]);
+      expect(ids('day(createdAt) eq 2')).toEqual([3]);
+    });
+
+    test('invalid filters and empty filter', () => {
+      expect(() => convertToInMemory('age gt')).toThrow(/Failed to parse OData filter/);
+      expect(() => convertToInMemory('$it eq 1')).toThrow(UnsupportedFeatureError);
+      expect(users.filter(new InMemoryAdapter().convert(''))).toHaveLength(3);
+    });
+  });
+
+  describe('InMemoryQueryBuilder integration', () => {
+    test('applies filter, orderBy, skip, top and nested select', () => {
+      const rows = applyInMemoryQuery(users, {
+        $filter: 'id gt 0',
+        $orderby: 'active desc,name',
+        $skip: 1,
+        $top: 2,
+        $select: 'id,profile(city)'
+      });
+
+      expect(rows).toEqual([
+        { id: 1, profile: { city: 'Oslo' } },
+        { id: 2, profile: { city: 'Paris' } }
+      ]);
+    });
+
+    test('orderBy sorts null first and select maps over collections', () => {
+      const rows = applyInMemoryQuery(users, { $orderby: 'age', $select: 'id,orders/total' });
+      expect(rows).toEqual([
+        { id: 2, orders: [] },
+        { id: 3, orders: [{ total: 80 }] },
+        { id: 1, orders: [{ total: 150 }, { total: 40 }] }
+      ]);
+    });
+
+    test('applyPagination counts every matching row', () => {
+      const result = new InMemoryQueryBuilder().applyPagination(users, { $filter: 'active', $top: 1, $count: true });
+      expect(result.data.map(user => user.id)).toEqual([1]);
+      expect(result.count).toBe(2);
+      expect(result.totalPages).toBe(2);
+    });
+
+    test('count query keeps only the where predicate', () => {
+      const { countQuery } = buildInMemoryPagination({ $filter: 'age gt 1', $top: 10, $orderby: 'id' });
+      expect(Object.keys(countQuery)).toEqual(['where']);
+    });
+  });
+});
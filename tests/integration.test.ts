@@ -258,7 +258,7 @@ describe('OData to Prisma Converter - Integration Tests', () => {
   describe('6. ARITHMETIC EXPRESSIONS', () => {
     test('Multiplication in comparison', () => {
       const result = convertToPrisma("Price * 1.1 gt 100");
-      expect(result).toEqual({ Price: { gt: 90.91 } });
+      expect(result).toEqual({ Price: { gt: 100 / 1.1 } });
     });
 
     test('Addition in comparison', () => {
@@ -387,17 +387,11 @@ describe('OData to Prisma Converter - Integration Tests', () => {
         name: "NOT with year function",
         filter: "not (status eq 'deleted') and year(updatedAt) eq 2023",
         expected: {
-          NOT: {
-            AND: [
-              { status: { equals: 'deleted' } },
-              { 
-                updatedAt: { 
-                  gte: "2023-01-01T00:00:00.000Z", 
-                  lt: "2024-01-01T00:00:00.000Z" 
-                } 
-              }
-            ]
-          }
+          // not binds tighter than and
+          AND: [
+            { NOT: { status: { equals: 'deleted' } } },
+            { updatedAt: { gte: "2023-01-01T00:00:00.000Z", lt: "2024-01-01T00:00:00.000Z" } }
+          ]
         }
       }
     ];
@@ -485,13 +479,11 @@ describe('OData to Prisma Converter - Integration Tests', () => {
     test('Should handle different ORMs correctly', () => {
       const odataFilter = "Name eq 'John' and Age gt 25";
       
-      // Prisma should work
+      // All ORMs should work
       expect(() => convertToPrisma(odataFilter)).not.toThrow();
-      
-      // Other ORMs should throw "coming soon" errors
-      expect(() => convertToTypeORM(odataFilter)).toThrow(/coming soon/);
-      expect(() => convertToSequelize(odataFilter)).toThrow(/coming soon/);
-      expect(() => convertToMongoose(odataFilter)).toThrow(/coming soon/);
+      expect(() => convertToTypeORM(odataFilter)).not.toThrow();
+      expect(() => convertToSequelize(odataFilter)).not.toThrow();
+      expect(() => convertToMongoose(odataFilter)).not.toThrow();
     });
   });
 });
@@ -0,0 +1,144 @@
+/**
+ * Test cases for Knex adapter (filters applied onto a Knex query builder)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import knexFactory from 'knex';
+import { convertToKnex, applyKnexQuery, KnexAdapter, KnexQueryBuilder, KnexAdapterOptions } from '../src';
+import { z } from 'zod';
+
+const pg = knexFactory({ client: 'pg' });
+const mysql = knexFactory({ client: 'mysql2' });
+const sqlite = knexFactory({ client: 'sqlite3', useNullAsDefault: true });
+
+function toSql(filter: string, options: KnexAdapterOptions = {}, client = pg) {
+  return client('users').where(convertToKnex(filter, options)).toSQL().toNative();
+}
+
+describe('Knex Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons use where with bound values', () => {
+      expect(toSql("Name eq 'John'")).toEqual({
+        sql: 'select * from "users" where ("Name" = $1)',
+        bindings: ['John']
+      });
+      expect(toSql('Age ne 25').sql).toBe('select * from "users" where ("Age" <> $1)');
+      expect(toSql('Age ge 18').sql).toBe('select * from "users" where ("Age" >= $1)');
+    });
+
+    test('null comparisons use whereNull / whereNotNull', () => {
+      expect(toSql('DeletedAt eq null').sql).toBe('select * from "users" where ("DeletedAt" is null)');
+      expect(toSql('DeletedAt ne null').sql).toBe('select * from "users" where ("DeletedAt" is not null)');
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR are grouped with where/orWhere callbacks', () => {
+      expect(toSql("Name eq 'John' and (Age gt 25 or Active eq true)")).toEqual({
+        sql: 'select * from "users" where ("Name" = $1 and ("Age" > $2 or "Active" = $3))',
+        bindings: ['John', 25, true]
+      });
+    });
+
+    test('NOT uses whereNot', () => {
+      expect(toSql('not (Age lt 18)').sql).toBe('select * from "users" where (not ("Age" < $1))');
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) and OR of equalities use whereIn', () => {
+      expect(toSql("Status in ('a', 'b', 'c')")).toEqual({
+        sql: 'select * from "users" where ("Status" in ($1, $2, $3))',
+        bindings: ['a', 'b', 'c']
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use whereLike', () => {
+      expect(toSql("contains(Name, 'oh')").bindings).toEqual(['%oh%']);
+      expect(toSql("startswith(Name, 'Jo')").bindings).toEqual(['Jo%']);
+      expect(toSql("endswith(Code, 'a_b')").bindings).toEqual(['%a\\_b']);
+    });
+
+    test('caseSensitive false and tolower wrappers use whereILike', () => {
+      expect(toSql("contains(Name, 'oh')", { caseSensitive: false }).sql)
+        .toBe('select * from "users" where ("Name" ilike $1)');
+      expect(toSql("startswith(tolower(Name), 'jo')").sql)
+        .toBe('select * from "users" where ("Name" ilike $1)');
+    });
+
+    test('SQLite names the escape character the patterns use', () => {
+      expect(toSql("endswith(Code, 'a_b')", {}, sqlite)).toEqual({
+        sql: "select * from `users` where (`Code` LIKE ? ESCAPE '\\')",
+        bindings: ['%a\\_b']
+      });
+      expect(toSql("contains(tolower(Name), 'O%')", {}, sqlite)).toEqual({
+        sql: "select * from `users` where (LOWER(`Name`) LIKE ? ESCAPE '\\')",
+        bindings: ['%o\\%%']
+      });
+    });
+  });
+
+  describe('Functions and column mapping', () => {
+    test('functions use whereRaw rendered for the client dialect', () => {
+      expect(toSql('month(createdAt) eq 5')).toEqual({
+        sql: 'select * from "users" where (EXTRACT(MONTH FROM "createdAt") = $1)',
+        bindings: [5]
+      });
+      expect(toSql('length(Name) gt 3', {}, mysql).sql)
+        .toBe('select * from `users` where (CHAR_LENGTH(`Name`) > ?)');
+    });
+
+    test('column map applies to filters, including raw expressions', () => {
+      const options = { columnMap: { 'profile/city': 'profiles.city', Name: 'full_name' } };
+      expect(toSql("profile/city eq 'x'", options).sql).toBe('select * from "users" where ("profiles"."city" = $1)');
+      expect(toSql('length(Name) gt 3', options).sql).toBe('select * from "users" where (LENGTH("full_name") > $1)');
+    });
+
+    test('lambdas are rejected when converting', () => {
+      expect(() => convertToKnex('orders/any(o: o/total gt 100)')).toThrow(/cannot express any\(\)/);
+      expect(() => convertToKnex('unknownfn(Name) eq 1')).toThrow();
+    });
+  });
+
+  describe('KnexQueryBuilder integration', () => {
+    test('applies filter, orderBy, limit, offset and mapped select', () => {
+      const query = applyKnexQuery(
+        pg('users'),
+        { $filter: 'Age gt 18', $top: 10, $skip: 20, $orderby: 'Name desc', $select: 'id,Name' },
+        { columnMap: { Name: 'full_name' } }
+      );
+
+      expect(query.toSQL().toNative()).toEqual({
+        sql: 'select "id", "full_name" from "users" where ("Age" > $1) order by "full_name" desc limit $2 offset $3',
+        bindings: [18, 10, 20]
+      });
+    });
+
+    test('applyPagination builds find and count queries from clones', () => {
+      const base = pg('users');
+      const { findQuery, countQuery } = new KnexQueryBuilder().applyPagination(base, { $filter: 'Age gt 1', $top: 10 });
+
+      expect(findQuery.toString()).toBe('select * from "users" where ("Age" > 1) limit 10');
+      expect(countQuery.toString()).toBe('select count(*) as "count" from "users" where ("Age" > 1)');
+      expect(base.toString()).toBe('select * from "users"');
+    });
+
+    test('validates field paths against the schema in strict mode', () => {
+      const builder = new KnexQueryBuilder({
+        schema: z.object({ id: z.number(), name: z.string() }),
+        allowAllFields: false
+      });
+
+      expect(() => builder.buildQuery({ $filter: "name eq 'x'", $orderby: 'name' })).not.toThrow();
+      expect(() => builder.buildQuery({ $filter: "secret eq 'x'" })).toThrow(/Schema validation failed/);
+      expect(() => builder.buildQuery({ $orderby: 'secret' })).toThrow(/Schema validation failed/);
+      expect(() => builder.buildQuery({ $filter: 'name eq @name', '@name': "'x'" })).not.toThrow();
+    });
+
+    test('empty filter leaves the builder untouched', () => {
+      expect(pg('users').where(new KnexAdapter().convert('')).toString()).toBe('select * from "users"');
+    });
+  });
+});
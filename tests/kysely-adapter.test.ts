@@ -0,0 +1,174 @@
+/**
+ * Test cases for Kysely adapter (filters applied onto a SelectQueryBuilder)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  Kysely,
+  DummyDriver,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  SqliteAdapter,
+  SqliteIntrospector,
+  SqliteQueryCompiler
+} from 'kysely';
+import { convertToKysely, applyKyselyQuery, KyselyAdapter, KyselyQueryBuilder, KyselyAdapterOptions, QueryLimitExceededError } from '../src';
+import { z } from 'zod';
+
+const pg = new Kysely<any>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: db => new PostgresIntrospector(db),
+    createQueryCompiler: () => new PostgresQueryCompiler()
+  }
+});
+
+const sqlite = new Kysely<any>({
+  dialect: {
+    createAdapter: () => new SqliteAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: db => new SqliteIntrospector(db),
+    createQueryCompiler: () => new SqliteQueryCompiler()
+  }
+});
+
+function toSql(filter: string, options: KyselyAdapterOptions = {}, db = pg) {
+  const { sql, parameters } = db.selectFrom('users').selectAll().where(convertToKysely(filter, options)).compile();
+  return { sql, parameters };
+}
+
+describe('Kysely Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons use eb(column, operator, value) with bound values', () => {
+      expect(toSql("Name eq 'John'")).toEqual({
+        sql: 'select * from "users" where "Name" = $1',
+        parameters: ['John']
+      });
+      expect(toSql('Age ne 25').sql).toBe('select * from "users" where "Age" <> $1');
+      expect(toSql('Age ge 18').sql).toBe('select * from "users" where "Age" >= $1');
+    });
+
+    test('null and column-to-column comparisons', () => {
+      expect(toSql('DeletedAt eq null').sql).toBe('select * from "users" where "DeletedAt" is null');
+      expect(toSql('DeletedAt ne null').sql).toBe('select * from "users" where "DeletedAt" is not null');
+      expect(toSql('Price gt Cost').sql).toBe('select * from "users" where "Price" > "Cost"');
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT use eb.and/eb.or/eb.not', () => {
+      expect(toSql("Name eq 'John' and (Age gt 25 or Active eq true)")).toEqual({
+        sql: 'select * from "users" where ("Name" = $1 and ("Age" > $2 or "Active" = $3))',
+        parameters: ['John', 25, true]
+      });
+      expect(toSql('not (Age lt 18)').sql).toBe('select * from "users" where not "Age" < $1');
+    });
+
+    test('in (...) and OR of equalities use in', () => {
+      expect(toSql("Status in ('a', 'b', 'c')")).toEqual({
+        sql: 'select * from "users" where "Status" in ($1, $2, $3)',
+        parameters: ['a', 'b', 'c']
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains and endswith use like with escaped patterns', () => {
+      expect(toSql("contains(Name, 'oh')")).toEqual({
+        sql: 'select * from "users" where "Name" like $1',
+        parameters: ['%oh%']
+      });
+      expect(toSql("endswith(Code, 'a_b')").parameters).toEqual(['%a\\_b']);
+    });
+
+    test('case-insensitive matching uses ilike on Postgres and lower() like elsewhere', () => {
+      expect(toSql("startswith(tolower(Name), 'jo')").sql).toBe('select * from "users" where "Name" ilike $1');
+      expect(toSql("startswith(Name, 'Jo')", { caseSensitive: false, dialect: 'mysql' })).toEqual({
+        sql: 'select * from "users" where lower("Name") like $1',
+        parameters: ['jo%']
+      });
+    });
+
+    test('SQLite adds an explicit escape clause', () => {
+      expect(toSql("contains(Code, 'a_b')", { dialect: 'sqlite' }, sqlite)).toEqual({
+        sql: `select * from "users" where "Code" like ? escape '\\'`,
+        parameters: ['%a\\_b%']
+      });
+    });
+  });
+
+  describe('Functions and column allow-list', () => {
+    test('functions use the sql template for the configured dialect', () => {
+      expect(toSql('month(createdAt) eq 5 and length(Name) gt 3')).toEqual({
+        sql: 'select * from "users" where (EXTRACT(MONTH FROM "createdAt") = $1 and LENGTH("Name") > $2)',
+        parameters: [5, 3]
+      });
+      expect(toSql('month(createdAt) eq 5', { dialect: 'sqlite' }, sqlite).sql)
+        .toBe(`select * from "users" where CAST(strftime('%m', "createdAt") AS INTEGER) = ?`);
+    });
+
+    test('columns outside the allow-list are rejected when converting', () => {
+      const options = { columns: ['id', 'name', 'profile.city'] };
+      expect(toSql("profile/city eq 'x'", options).sql).toBe('select * from "users" where "profile"."city" = $1');
+      expect(() => convertToKysely("secret eq 'x'", options)).toThrow(/Column 'secret' is not allowed/);
+      expect(() => convertToKysely('length(password) gt 1', options)).toThrow(/Column 'password' is not allowed/);
+    });
+
+    test('lambdas are rejected when converting', () => {
+      expect(() => convertToKysely('orders/any(o: o/total gt 100)')).toThrow(/cannot express any\(\)/);
+    });
+  });
+
+  describe('KyselyQueryBuilder integration', () => {
+    test('applies filter, orderBy, limit, offset and nested select', () => {
+      const query = applyKyselyQuery(pg.selectFrom('users'), {
+        $filter: 'age gt 18',
+        $top: 10,
+        $skip: 20,
+        $orderby: 'name desc',
+        $select: 'id,profile(city)'
+      });
+
+      expect(query.compile()).toMatchObject({
+        sql: 'select "id", "profile"."city" from "users" where "age" > $1 order by "name" desc limit $2 offset $3',
+        parameters: [18, 10, 20]
+      });
+    });
+
+    test('applyPagination builds find and count queries', () => {
+      const { findQuery, countQuery } = new KyselyQueryBuilder().applyPagination(
+        pg.selectFrom('users').selectAll(),
+        { $filter: 'age gt 1', $top: 10, $orderby: 'id' }
+      );
+
+      expect(findQuery.compile().sql).toBe('select * from "users" where "age" > $1 order by "id" asc limit $2');
+      expect(countQuery.compile().sql).toBe('select count(*) as "count" from "users" where "age" > $1');
+    });
+
+    test('orderBy and select are checked against the allow-list and schema', () => {
+      const allowList = new KyselyQueryBuilder({ columns: ['id', 'name'] });
+      expect(() => allowList.buildQuery({ $orderby: 'secret' })).toThrow(/not allowed/);
+      expect(() => allowList.buildQuery({ $select: 'id,secret' })).toThrow(/not allowed/);
+
+      const strict = new KyselyQueryBuilder({
+        schema: z.object({ id: z.number(), name: z.string() }),
+        allowAllFields: false
+      });
+      expect(() => strict.buildQuery({ $filter: "name eq 'x'", $select: 'id,name' })).not.toThrow();
+      expect(() => strict.buildQuery({ $filter: "secret eq 'x'" })).toThrow(/Schema validation failed/);
+      expect(() => strict.buildQuery({ $filter: 'name eq @name', '@name': "'x'" })).not.toThrow();
+    });
+
+    test('nested select is held to the query limits', () => {
+      const builder = new KyselyQueryBuilder({ limits: { maxSelectDepth: 1 } });
+      expect(() => builder.buildQuery({ $select: 'id,profile(city)' })).toThrow(QueryLimitExceededError);
+    });
+
+    test('empty filter is a no-op condition', () => {
+      const { sql } = pg.selectFrom('users').selectAll().where(new KyselyAdapter().convert('')).compile();
+      expect(sql).toBe('select * from "users" where 1 = 1');
+    });
+  });
+});
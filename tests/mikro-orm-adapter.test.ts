@@ -0,0 +1,129 @@
+/**
+ * Test cases for MikroORM adapter (FilterQuery and FindOptions output)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { convertToMikroOrm, buildMikroOrmQuery, buildMikroOrmPagination, MikroOrmAdapter } from '../src';
+
+describe('MikroORM Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons use $eq/$ne/$gt/$gte/$lt/$lte', () => {
+      expect(convertToMikroOrm("Name eq 'John'")).toEqual({ Name: { $eq: 'John' } });
+      expect(convertToMikroOrm('Age ne 25')).toEqual({ Age: { $ne: 25 } });
+      expect(convertToMikroOrm('Age ge 18')).toEqual({ Age: { $gte: 18 } });
+      expect(convertToMikroOrm('Age lt 65')).toEqual({ Age: { $lt: 65 } });
+    });
+
+    test('null comparisons use $eq/$ne null', () => {
+      expect(convertToMikroOrm('DeletedAt eq null')).toEqual({ DeletedAt: { $eq: null } });
+      expect(convertToMikroOrm('DeletedAt ne null')).toEqual({ DeletedAt: { $ne: null } });
+    });
+
+    test('arithmetic comparisons are solved for the property', () => {
+      expect(convertToMikroOrm('Price mul 2 gt 100')).toEqual({ Price: { $gt: 50 } });
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT use $and/$or/$not', () => {
+      expect(convertToMikroOrm("Name eq 'John' and (Age gt 25 or Active eq true)")).toEqual({
+        $and: [
+          { Name: { $eq: 'John' } },
+          { $or: [{ Age: { $gt: 25 } }, { Active: { $eq: true } }] }
+        ]
+      });
+      expect(convertToMikroOrm('not (Age lt 18)')).toEqual({ $not: { Age: { $lt: 18 } } });
+    });
+
+    test('bare boolean properties compare against true', () => {
+      expect(convertToMikroOrm('Active')).toEqual({ Active: { $eq: true } });
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) and OR of equalities use $in', () => {
+      expect(convertToMikroOrm("Status in ('a', 'b', 'c')")).toEqual({ Status: { $in: ['a', 'b', 'c'] } });
+      expect(convertToMikroOrm('A eq 1 or B gt 2 or A eq 3')).toEqual({
+        $or: [{ A: { $in: [1, 3] } }, { B: { $gt: 2 } }]
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use $like with escaped patterns', () => {
+      expect(convertToMikroOrm("contains(Name, 'oh')")).toEqual({ Name: { $like: '%oh%' } });
+      expect(convertToMikroOrm("startswith(Name, 'Jo')")).toEqual({ Name: { $like: 'Jo%' } });
+      expect(convertToMikroOrm("endswith(Code, 'a_b')")).toEqual({ Code: { $like: '%a\\_b' } });
+    });
+
+    test('caseSensitive false and tolower wrappers use $ilike', () => {
+      expect(convertToMikroOrm("contains(Name, 'oh')", { caseSensitive: false })).toEqual({ Name: { $ilike: '%oh%' } });
+      expect(convertToMikroOrm("tolower(Name) eq 'john'")).toEqual({ Name: { $ilike: 'john' } });
+      expect(convertToMikroOrm("tolower(Name) ne 'john'")).toEqual({ $not: { Name: { $ilike: 'john' } } });
+    });
+  });
+
+  describe('Relations and collections', () => {
+    test('navigation paths become nested relation objects', () => {
+      expect(convertToMikroOrm("author/profile/city eq 'Oslo'")).toEqual({
+        author: { profile: { city: { $eq: 'Oslo' } } }
+      });
+    });
+
+    test('any() and all() use $some and $every', () => {
+      expect(convertToMikroOrm('orders/any(o: o/total gt 100)')).toEqual({
+        orders: { $some: { total: { $gt: 100 } } }
+      });
+      expect(convertToMikroOrm("orders/all(o: o/status eq 'paid')")).toEqual({
+        orders: { $every: { status: { $eq: 'paid' } } }
+      });
+      expect(convertToMikroOrm('orders/any()')).toEqual({ orders: { $some: {} } });
+    });
+
+    test('comparing collection elements directly is rejected', () => {
+      expect(() => convertToMikroOrm("tags/any(t: t eq 'x')")).toThrow(/cannot compare collection elements/);
+    });
+  });
+
+  describe('Functions', () => {
+    test('year() becomes a date range', () => {
+      expect(convertToMikroOrm('year(createdAt) eq 2024')).toEqual({
+        createdAt: { $gte: new Date('2024-01-01T00:00:00Z'), $lt: new Date('2025-01-01T00:00:00Z') }
+      });
+    });
+
+    test('functions that need SQL expressions are rejected', () => {
+      expect(() => convertToMikroOrm('month(createdAt) eq 5')).toThrow(/requires raw SQL/);
+    });
+
+    test('returns empty object for empty filter', () => {
+      expect(new MikroOrmAdapter().convert('')).toEqual({});
+    });
+  });
+
+  describe('MikroOrmQueryBuilder integration', () => {
+    test('builds where and FindOptions', () => {
+      const query = buildMikroOrmQuery({
+        $filter: 'Age gt 18',
+        $top: 10,
+        $skip: 20,
+        $orderby: 'author/name desc,id',
+        $select: 'id,title,author(name,email)'
+      });
+
+      expect(query).toEqual({
+        where: { Age: { $gt: 18 } },
+        limit: 10,
+        offset: 20,
+        orderBy: [{ author: { name: 'desc' } }, { id: 'asc' }],
+        fields: ['id', 'title', 'author.name', 'author.email'],
+        populate: ['author']
+      });
+    });
+
+    test('count query keeps only the where clause', () => {
+      const { countQuery } = buildMikroOrmPagination({ $filter: 'Age gt 1', $top: 10, $orderby: 'id' });
+      expect(countQuery).toEqual({ where: { Age: { $gt: 1 } } });
+    });
+  });
+});
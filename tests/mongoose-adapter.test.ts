@@ -0,0 +1,216 @@
+/**
+ * Test cases for Mongoose adapter (MongoDB query documents)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { convertToMongoose, buildMongooseQuery, buildMongoosePagination, MongooseAdapter, MongooseQueryBuilder } from '../src';
+
+describe('Mongoose Adapter', () => {
+  describe('Comparison operators', () => {
+    test('eq, ne, gt, ge, lt, le map to MongoDB operators', () => {
+      expect(convertToMongoose("Name eq 'John'")).toEqual({ Name: { $eq: 'John' } });
+      expect(convertToMongoose('Age ne 25')).toEqual({ Age: { $ne: 25 } });
+      expect(convertToMongoose('Age gt 18')).toEqual({ Age: { $gt: 18 } });
+      expect(convertToMongoose('Age ge 18')).toEqual({ Age: { $gte: 18 } });
+      expect(convertToMongoose('Age lt 65')).toEqual({ Age: { $lt: 65 } });
+      expect(convertToMongoose('Age le 65')).toEqual({ Age: { $lte: 65 } });
+    });
+
+    test('null comparisons match null or missing fields', () => {
+      expect(convertToMongoose('DeletedAt eq null')).toEqual({ DeletedAt: { $eq: null } });
+      expect(convertToMongoose('DeletedAt ne null')).toEqual({ DeletedAt: { $ne: null } });
+    });
+
+    test('arithmetic comparisons are solved for the field', () => {
+      expect(convertToMongoose('Quantity sub 5 ge 10')).toEqual({ Quantity: { $gte: 15 } });
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND chains are flattened into one $and', () => {
+      expect(convertToMongoose("Name eq 'John' and Age gt 25 and Active eq true")).toEqual({
+        $and: [
+          { Name: { $eq: 'John' } },
+          { Age: { $gt: 25 } },
+          { Active: { $eq: true } }
+        ]
+      });
+    });
+
+    test('OR on different fields uses $or', () => {
+      expect(convertToMongoose("Name eq 'John' or Age gt 25")).toEqual({
+        $or: [{ Name: { $eq: 'John' } }, { Age: { $gt: 25 } }]
+      });
+    });
+
+    test('NOT uses $nor', () => {
+      expect(convertToMongoose('not (Age lt 18)')).toEqual({ $nor: [{ Age: { $lt: 18 } }] });
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) and OR of equalities use $in', () => {
+      expect(convertToMongoose("Status in ('a', 'b', 'c')")).toEqual({ Status: { $in: ['a', 'b', 'c'] } });
+      expect(convertToMongoose('Id eq 1 or Id eq 2')).toEqual({ Id: { $in: [1, 2] } });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use anchored $regex', () => {
+      expect(convertToMongoose("contains(Name, 'oh')")).toEqual({ Name: { $regex: 'oh' } });
+      expect(convertToMongoose("startswith(Name, 'Jo')")).toEqual({ Name: { $regex: '^Jo' } });
+      expect(convertToMongoose("endswith(Name, 'hn')")).toEqual({ Name: { $regex: 'hn$' } });
+    });
+
+    test('regex special characters in the search value are escaped', () => {
+      expect(convertToMongoose("contains(Email, 'a.b+c')")).toEqual({ Email: { $regex: 'a\\.b\\+c' } });
+    });
+
+    test('caseSensitive false and tolower wrappers add the i option', () => {
+      expect(convertToMongoose("contains(Name, 'oh')", { caseSensitive: false })).toEqual({
+        Name: { $regex: 'oh', $options: 'i' }
+      });
+      expect(convertToMongoose("tolower(Name) eq 'john'")).toEqual({
+        Name: { $regex: '^john$', $options: 'i' }
+      });
+    });
+  });
+
+  describe('Nested paths and lambdas', () => {
+    test('navigation paths use dot notation', () => {
+      expect(convertToMongoose("profile/avatar eq 'a.png'")).toEqual({ 'profile.avatar': { $eq: 'a.png' } });
+    });
+
+    test('any() uses $elemMatch', () => {
+      expect(convertToMongoose("orders/any(o: o/total gt 100 and o/status eq 'paid')")).toEqual({
+        orders: {
+          $elemMatch: {
+            $and: [{ total: { $gt: 100 } }, { status: { $eq: 'paid' } }]
+          }
+        }
+      });
+    });
+
+    test('all() uses $not with $elemMatch of the negated predicate', () => {
+      expect(convertToMongoose('orders/all(o: o/total gt 100)')).toEqual({
+        orders: { $not: { $elemMatch: { $nor: [{ total: { $gt: 100 } }] } } }
+      });
+    });
+
+    test('lambdas over primitive collections match the element itself', () => {
+      expect(convertToMongoose("tags/any(t: t eq 'sale')")).toEqual({ tags: { $elemMatch: { $eq: 'sale' } } });
+      expect(convertToMongoose("tags/all(t: t ne 'old')")).toEqual({
+        tags: { $not: { $elemMatch: { $not: { $ne: 'old' } } } }
+      });
+    });
+
+    test('any() without a predicate checks for a non-empty collection', () => {
+      expect(convertToMongoose('orders/any()')).toEqual({ 'orders.0': { $exists: true } });
+    });
+  });
+
+  describe('Date and math functions', () => {
+    test('year eq converts to a date range', () => {
+      expect(convertToMongoose('year(createdAt) eq 2023')).toEqual({
+        createdAt: {
+          $gte: new Date(Date.UTC(2023, 0, 1)),
+          $lt: new Date(Date.UTC(2024, 0, 1))
+        }
+      });
+    });
+
+    test('month, length and round use $expr', () => {
+      expect(convertToMongoose('month(createdAt) eq 5')).toEqual({
+        $expr: { $eq: [{ $month: '$createdAt' }, 5] }
+      });
+      expect(convertToMongoose('length(Name) gt 3')).toEqual({
+        $expr: { $gt: [{ $strLenCP: '$Name' }, 3] }
+      });
+      expect(convertToMongoose('round(Price) eq 10')).toEqual({
+        $expr: { $eq: [{ $round: '$Price' }, 10] }
+      });
+    });
+  });
+
+  describe('MongooseQueryBuilder integration', () => {
+    test('builds find options with filter', () => {
+      const query = new MongooseQueryBuilder().buildQuery({
+        $filter: "category eq 'books'",
+        $top: 5,
+        $orderby: 'price desc'
+      });
+
+      expect(query.filter).toEqual({ category: { $eq: 'books' } });
+      expect(query.where).toBeUndefined();
+      expect(query.limit).toBe(5);
+      expect(query.sort).toEqual({ price: -1 });
+    });
+
+    test('returns empty object for empty filter', () => {
+      expect(new MongooseAdapter().convert('')).toEqual({});
+    });
+  });
+
+  describe('$apply aggregation mode', () => {
+    test('filter, groupby and aggregate become $match, $group and $project', () => {
+      const query = buildMongooseQuery({
+        $apply: "filter(Status eq 'paid')/groupby((Customer/Country), aggregate(Amount with sum as Total, Amount with countdistinct as Amounts, $count as Orders))"
+      });
+
+      expect(query).toEqual({
+        pipeline: [
+          { $match: { Status: { $eq: 'paid' } } },
+          {
+            $group: {
+              _id: { Customer: { Country: '$Customer.Country' } },
+              Total: { $sum: '$Amount' },
+              Amounts: { $addToSet: '$Amount' },
+              Orders: { $sum: 1 }
+            }
+          },
+          { $project: { _id: 0, Customer: '$_id.Customer', Total: 1, Amounts: { $size: '$Amounts' }, Orders: 1 } }
+        ]
+      });
+    });
+
+    test('aggregate without groupby groups everything', () => {
+      expect(buildMongooseQuery({ $apply: 'aggregate(Price with average as Avg, Price with max as Max)' }).pipeline).toEqual([
+        { $group: { _id: null, Avg: { $avg: '$Price' }, Max: { $max: '$Price' } } },
+        { $project: { _id: 0, Avg: 1, Max: 1 } }
+      ]);
+    });
+
+    test('query options apply to the transformed results', () => {
+      const { pipeline } = buildMongooseQuery({
+        $apply: 'groupby((Country), aggregate(Amount with sum as Total))/orderby(Total desc)/top(10)',
+        $filter: 'Total gt 100',
+        $orderby: 'Country',
+        $skip: 2,
+        $top: 5,
+        $select: 'Country'
+      });
+
+      expect(pipeline!.slice(2)).toEqual([
+        { $sort: { Total: -1 } },
+        { $limit: 10 },
+        { $match: { Total: { $gt: 100 } } },
+        { $sort: { Country: 1 } },
+        { $skip: 2 },
+        { $limit: 5 },
+        { $project: { Country: 1 } }
+      ]);
+    });
+
+    test('count pipeline counts the transformed results', () => {
+      const { countQuery } = buildMongoosePagination({ $apply: 'groupby((Country))', $filter: "Country ne null", $top: 5 });
+      expect(countQuery).toEqual({
+        pipeline: [
+          { $group: { _id: { Country: '$Country' } } },
+          { $project: { _id: 0, Country: '$_id.Country' } },
+          { $match: { Country: { $ne: null } } },
+          { $count: 'count' }
+        ]
+      });
+    });
+  });
+});
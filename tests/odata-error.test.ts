@@ -0,0 +1,121 @@
+/**
+ * Tests for the error hierarchy, error codes and the OData JSON error format
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import {
+  ODataError,
+  ODataErrorCode,
+  ODataParseError,
+  InvalidQueryOptionError,
+  SchemaValidationError,
+  UnsupportedFeatureError,
+  QueryLimitExceededError,
+  PrismaQueryBuilder,
+  ODataConverter,
+  convertToPrisma,
+  convertToTypeORM,
+  convertToSql,
+  convertToKysely,
+  parseApply
+} from '../src';
+
+/**
+ * Run a function expected to throw and return the error
+ */
+function thrown(run: () => unknown): any {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('ODataError', () => {
+  test('every error class extends ODataError with a code and HTTP status', () => {
+    const errors: [ODataError, ODataErrorCode, number][] = [
+      [new ODataParseError('Unexpected end of filter', 'Age gt', 6), ODataErrorCode.PARSE_ERROR, 400],
+      [new InvalidQueryOptionError("Invalid $apply transformation: 'x'", '$apply'), ODataErrorCode.INVALID_QUERY_OPTION, 400],
+      [new SchemaValidationError('Unknown field', 'secret'), ODataErrorCode.SCHEMA_VALIDATION, 400],
+      [new UnsupportedFeatureError('Month extraction requires raw SQL', 'month'), ODataErrorCode.UNSUPPORTED_FEATURE, 501],
+      [new QueryLimitExceededError('$top exceeds 100', 'maxTop', 100, 500, '$top'), ODataErrorCode.QUERY_LIMIT_EXCEEDED, 400]
+    ];
+
+    for (const [error, code, status] of errors) {
+      expect(error).toBeInstanceOf(ODataError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.code).toBe(code);
+      expect(error.status).toBe(status);
+      expect(error.stack).toBeDefined();
+    }
+  });
+
+  test('toODataError() serialises to the OData v4 error format', () => {
+    expect(new UnsupportedFeatureError('Month extraction requires raw SQL', 'month').toODataError()).toEqual({
+      error: { code: 'UnsupportedFeature', message: 'Month extraction requires raw SQL', target: 'month' }
+    });
+    expect(new ODataParseError("Expected ')' at position 11, got 'Name'", "(Age gt 18 Name eq 'x'", 11, [')'], 'Name').toODataError()).toEqual({
+      error: {
+        code: 'ParseError',
+        message: "Failed to parse OData filter: Expected ')' at position 11, got 'Name'",
+        target: '$filter'
+      }
+    });
+    expect(new QueryLimitExceededError('$top exceeds 100', 'maxTop', 100, 500, '$top').toODataError()).toEqual({
+      error: { code: 'QueryLimitExceeded', message: '$top exceeds 100', target: '$top' }
+    });
+  });
+
+  test('toODataError() is JSON-ready and omits empty details', () => {
+    const json = JSON.parse(JSON.stringify(new SchemaValidationError('Unknown field', 'secret').toODataError()));
+    expect(json).toEqual({ error: { code: 'SchemaValidation', message: 'Unknown field', target: 'secret' } });
+    expect(json.error).not.toHaveProperty('details');
+  });
+
+  test('keeps each class its own fields', () => {
+    const error = new QueryLimitExceededError('$top exceeds 100', 'maxTop', 100, 500, '$top');
+    expect(error).toMatchObject({ name: 'QueryLimitExceededError', limit: 'maxTop', max: 100, actual: 500, target: '$top' });
+    expect(new UnsupportedFeatureError('x', 'all()')).toMatchObject({ name: 'UnsupportedFeatureError', feature: 'all()' });
+  });
+});
+
+describe('Errors thrown by the library', () => {
+  test('filters an ORM cannot express throw UnsupportedFeatureError unwrapped', () => {
+    const month = thrown(() => convertToPrisma('month(CreatedAt) eq 5'));
+    expect(month).toBeInstanceOf(UnsupportedFeatureError);
+    expect(month).toMatchObject({ feature: 'month', status: 501 });
+    expect(month.message).toBe('Month extraction requires raw SQL. Use prisma.$queryRaw with convertToSql()');
+
+    expect(thrown(() => convertToTypeORM('orders/all(o: o/total gt 1)'))).toMatchObject({
+      code: ODataErrorCode.UNSUPPORTED_FEATURE,
+      feature: 'all()'
+    });
+    expect(thrown(() => convertToSql('contains(Name, Nickname)'))).toMatchObject({ feature: 'contains' });
+  });
+
+  test('columns outside an adapter allowlist throw SchemaValidationError', () => {
+    const error = thrown(() => convertToKysely("secret eq 'x'", { columns: ['name'] }));
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.toODataError().error).toMatchObject({ code: 'SchemaValidation', target: 'secret' });
+  });
+
+  test('schema validation in query builders serialises with the field as target', () => {
+    const builder = new PrismaQueryBuilder({ schema: z.object({ name: z.string() }), allowAllFields: false });
+    const error = thrown(() => builder.buildQuery({ $filter: "secret eq 'x'" }));
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.toODataError().error.target).toBe('secret');
+  });
+
+  test('malformed $apply is a bad request, an unknown transformation is unsupported', () => {
+    expect(thrown(() => parseApply('groupby(Name)'))).toMatchObject({ code: ODataErrorCode.INVALID_QUERY_OPTION, target: '$apply' });
+    expect(thrown(() => parseApply('compute(Price mul 2 as Total)'))).toMatchObject({ code: ODataErrorCode.UNSUPPORTED_FEATURE, status: 501 });
+  });
+
+  test('configuration mistakes stay plain errors', () => {
+    const error = thrown(() => ODataConverter.createAdapter('unknown' as any));
+    expect(error).not.toBeInstanceOf(ODataError);
+    expect(error.message).toMatch(/^Unsupported ORM: unknown/);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for positional $filter parse errors
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  ODataParseError,
+  parseFilter,
+  convertToPrisma,
+  convertToMongoose,
+  createPrismaQuery,
+  SqlAdapter
+} from '../src';
+
+/**
+ * Run a function expected to throw and return the error
+ */
+function parseError(run: () => unknown): ODataParseError {
+  try {
+    run();
+  } catch (error) {
+    return error as ODataParseError;
+  }
+  throw new Error('Expected a parse error');
+}
+
+describe('ODataParseError', () => {
+  test('carries the position, expected tokens and offending token', () => {
+    const error = parseError(() => parseFilter("(Age gt 18 Name eq 'x'"));
+
+    expect(error).toBeInstanceOf(ODataParseError);
+    expect(error.name).toBe('ODataParseError');
+    expect(error.message).toBe("Failed to parse OData filter: Expected ')' at position 11, got 'Name'");
+    expect(error.filter).toBe("(Age gt 18 Name eq 'x'");
+    expect(error.position).toBe(11);
+    expect(error.line).toBe(1);
+    expect(error.column).toBe(12);
+    expect(error.expected).toEqual([')']);
+    expect(error.token).toBe('Name');
+  });
+
+  test('has no token at the end of the filter', () => {
+    const error = parseError(() => parseFilter('Age gt'));
+
+    expect(error.position).toBe(6);
+    expect(error.expected).toEqual(['expression']);
+    expect(error.token).toBeUndefined();
+  });
+
+  test('reports tokenizer errors', () => {
+    expect(parseError(() => parseFilter('Age gt 18 & Age lt 65'))).toMatchObject({ position: 10, token: '&', expected: [] });
+    expect(parseError(() => parseFilter("Name eq 'John"))).toMatchObject({ position: 8, token: "'John", expected: ["'"] });
+    expect(parseError(() => parseFilter('Age gt 18x'))).toMatchObject({ position: 7, token: '18x', expected: ['number'] });
+  });
+
+  test('reports structural errors with what was expected', () => {
+    expect(parseError(() => parseFilter('Age gt 18 Name'))).toMatchObject({ token: 'Name', expected: ['and', 'or'] });
+    expect(parseError(() => parseFilter('Age add 1'))).toMatchObject({ position: 0, expected: ['boolean expression'] });
+    expect(parseError(() => parseFilter("Status in ('a', Name)"))).toMatchObject({ position: 16, expected: ['literal'] });
+    expect(parseError(() => parseFilter('orders/any(o o/total gt 1)'))).toMatchObject({ token: 'o', expected: [':'] });
+  });
+
+  test('computes line and column in multi-line filters', () => {
+    const error = parseError(() => parseFilter("Age gt 18 and\n  (Name eq 'x' or\n   Status eq)"));
+
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(13);
+    expect(error.format()).toBe([
+      "Failed to parse OData filter: Unexpected ')' at position 44",
+      '   Status eq)',
+      '            ^'
+    ].join('\n'));
+  });
+
+  test('format() renders a caret under the error', () => {
+    expect(parseError(() => parseFilter('(Age gt 18')).format()).toBe([
+      "Failed to parse OData filter: Unexpected end of filter at position 10, expected ')'",
+      '(Age gt 18',
+      '          ^'
+    ].join('\n'));
+  });
+
+  test('adapters and query builders throw it unchanged', () => {
+    const filter = "contains(Name 'x')";
+    for (const run of [
+      () => convertToPrisma(filter),
+      () => convertToMongoose(filter),
+      () => new SqlAdapter().convert(filter),
+      () => createPrismaQuery({ $filter: filter })
+    ]) {
+      expect(parseError(run)).toMatchObject({ name: 'ODataParseError', position: 14, token: "'x'", expected: [')'] });
+    }
+  });
+
+  test('conversion errors are not parse errors', () => {
+    const error = parseError(() => new SqlAdapter().convert("orders/any(o: o/total gt 1)"));
+    expect(error).not.toBeInstanceOf(ODataParseError);
+    expect(error.message).toMatch(/^SQL adapter cannot express any\(\)/);
+  });
+});
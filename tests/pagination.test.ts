@@ -8,6 +8,7 @@ import {
   PrismaQueryBuilder,
   parseOrderBy,
   parseSelect,
+  parseApply,
   calculatePagination
 } from '../src';
 import type { ODataQueryParams } from '../src';
@@ -56,6 +57,41 @@ describe('OData Pagination Features', () => {
     });
   });
 
+  describe('parseApply', () => {
+    it('should parse a sequence of transformations', () => {
+      expect(parseApply("filter(Status eq 'a/b')/groupby((Customer/Country), aggregate(Amount with sum as Total, $count as Orders))/top(5)")).toEqual([
+        { type: 'filter', filter: "Status eq 'a/b'" },
+        {
+          type: 'groupby',
+          properties: [['Customer', 'Country']],
+          aggregates: [
+            { alias: 'Total', method: 'sum', field: ['Amount'] },
+            { alias: 'Orders', method: 'count' }
+          ]
+        },
+        { type: 'top', count: 5 }
+      ]);
+    });
+
+    it('should parse aggregate and orderby transformations', () => {
+      expect(parseApply('aggregate(Price with average as Avg)/orderby(Avg desc)')).toEqual([
+        { type: 'aggregate', aggregates: [{ alias: 'Avg', method: 'average', field: ['Price'] }] },
+        { type: 'orderby', orderBy: { Avg: 'desc' } }
+      ]);
+    });
+
+    it('should reject unsupported or malformed transformations', () => {
+      expect(() => parseApply('expand(Orders)')).toThrow('Unsupported $apply transformation: expand');
+      expect(() => parseApply('aggregate(Price with median as M)')).toThrow(/Unsupported \$apply aggregation method: median/);
+      expect(() => parseApply('groupby(Country)')).toThrow(/Invalid \$apply groupby/);
+      expect(() => parseApply('top(-1)')).toThrow(/Invalid \$apply top/);
+    });
+
+    it('should handle empty input', () => {
+      expect(parseApply('')).toEqual([]);
+    });
+  });
+
   describe('calculatePagination', () => {
     it('should calculate pagination metadata', () => {
       const result = calculatePagination(100, 20, 10);
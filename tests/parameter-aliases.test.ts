@@ -0,0 +1,79 @@
+/**
+ * Test cases for parameter aliases (@name) in $filter and $orderby
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  resolveParameterAliases,
+  createPrismaQuery,
+  createSqlQuery,
+  MongooseQueryBuilder,
+  InvalidQueryOptionError
+} from '../src';
+
+describe('Parameter aliases', () => {
+  describe('resolveParameterAliases', () => {
+    test('replaces aliases with their values', () => {
+      expect(resolveParameterAliases({
+        $filter: "price gt @min and name eq @name and price lt @min add 10",
+        '@min': '100',
+        '@name': "'O''Brien'"
+      }).$filter).toBe("price gt 100 and name eq 'O''Brien' and price lt 100 add 10");
+    });
+
+    test('leaves @ inside string literals alone', () => {
+      expect(resolveParameterAliases({ $filter: "email eq 'a@b.com'" }).$filter).toBe("email eq 'a@b.com'");
+    });
+
+    test('wraps arithmetic values, so the alias keeps its precedence', () => {
+      expect(resolveParameterAliases({ $filter: 'total gt @base mul 2', '@base': 'price add tax' }).$filter).toBe(
+        'total gt (price add tax) mul 2'
+      );
+    });
+
+    test('JSON arrays become in lists', () => {
+      expect(resolveParameterAliases({ $filter: 'status in @statuses', '@statuses': '["new", "it\'s open", null]' }).$filter).toBe(
+        "status in ('new','it''s open',null)"
+      );
+    });
+
+    test('$orderby aliases hold property paths', () => {
+      expect(resolveParameterAliases({ $orderby: '@sort desc,id', '@sort': 'author/name' }).$orderby).toBe('author/name desc,id');
+    });
+
+    test.each([
+      [{ $filter: 'price gt @max' }, "Parameter alias '@max' used in $filter is not defined", '@max'],
+      [{ $filter: 'price gt @max', '@max': '1 or true' }, "Invalid value for parameter alias '@max' at position 2: '1 or true'", '@max'],
+      [{ $filter: 'id in @ids', '@ids': '[1, [2]]' }, "Invalid value for parameter alias '@ids': expected a non-empty JSON array of strings, numbers, booleans or nulls", '@ids'],
+      [{ $orderby: '@sort', '@sort': 'price desc' }, "Invalid value for parameter alias '@sort': expected a property path in $orderby", '@sort']
+    ])('%j is invalid', (params, message, option) => {
+      expect(() => resolveParameterAliases(params)).toThrow(new InvalidQueryOptionError(message, option));
+    });
+  });
+
+  test('query builders resolve aliases before parsing', () => {
+    const params = { $filter: 'price le @max and id in @ids', $orderby: '@sort', '@max': '50', '@ids': '[1,2]', '@sort': 'price' };
+
+    expect(createPrismaQuery(params)).toMatchObject({
+      where: { AND: [{ price: { lte: 50 } }, { id: { in: [1, 2] } }] },
+      orderBy: [{ price: 'asc' }]
+    });
+    expect(createSqlQuery(params)).toMatchObject({
+      text: 'WHERE "price" <= $1 AND "id" IN ($2, $3) ORDER BY "price" ASC',
+      values: [50, 1, 2]
+    });
+  });
+
+  test('aggregation pipelines resolve aliases too', () => {
+    const builder = new MongooseQueryBuilder();
+    const { countQuery } = builder.buildPaginationQuery({ $apply: 'groupby((country))', $filter: 'country eq @c', '@c': "'NL'" });
+    expect(countQuery).toEqual({
+      pipeline: [
+        { $group: { _id: { country: '$country' } } },
+        { $project: { _id: 0, country: '$_id.country' } },
+        { $match: { country: { $eq: 'NL' } } },
+        { $count: 'count' }
+      ]
+    });
+  });
+});
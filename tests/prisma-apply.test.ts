@@ -0,0 +1,131 @@
+/**
+ * Test cases for $apply aggregation with Prisma groupBy() and aggregate()
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import {
+  PrismaQueryBuilder,
+  buildPrismaQuery,
+  InvalidQueryOptionError,
+  UnsupportedFeatureError,
+  SchemaValidationError
+} from '../src';
+
+describe('Prisma $apply', () => {
+  test('filter, groupby and aggregate become where, by and aggregate arguments', () => {
+    expect(buildPrismaQuery({
+      $apply: "filter(status eq 'paid')/groupby((customerId), aggregate(total with sum as revenue, total with average as avg, $count as n))"
+    })).toEqual({
+      where: { status: { equals: 'paid' } },
+      by: ['customerId'],
+      _sum: { total: true },
+      _avg: { total: true },
+      _count: { _all: true }
+    });
+  });
+
+  test('aggregate without groupby returns aggregate() arguments', () => {
+    expect(buildPrismaQuery({ $apply: 'aggregate(total with min as low, total with max as high)' })).toEqual({
+      _min: { total: true },
+      _max: { total: true }
+    });
+  });
+
+  test('filters after grouping become having on the aggregated field', () => {
+    expect(buildPrismaQuery({
+      $apply: 'groupby((customerId), aggregate(total with sum as revenue))/filter(revenue gt 1000)',
+      $filter: 'customerId ne 7'
+    }).having).toEqual({
+      AND: [
+        { total: { _sum: { gt: 1000 } } },
+        { customerId: { not: 7 } }
+      ]
+    });
+  });
+
+  test('orderby, skip and top apply to the groups, $skip and $top within the top() window', () => {
+    const query = buildPrismaQuery({
+      $apply: 'groupby((customerId), aggregate(total with sum as revenue))/orderby(revenue desc)/top(10)',
+      $skip: 4,
+      $top: 8
+    });
+
+    expect(query.orderBy).toEqual([{ _sum: { total: 'desc' } }]);
+    expect(query.skip).toBe(4);
+    expect(query.take).toBe(6);
+  });
+
+  test('a later sort takes precedence over an earlier one', () => {
+    expect(buildPrismaQuery({
+      $apply: 'groupby((country), aggregate($count as n))/orderby(country)',
+      $orderby: 'n desc'
+    }).orderBy).toEqual([{ _count: { country: 'desc' } }, { country: 'asc' }]);
+  });
+
+  test('paging groups without a sort orders by the grouped properties', () => {
+    expect(buildPrismaQuery({ $apply: 'groupby((country, city))', $top: 5 })).toEqual({
+      by: ['country', 'city'],
+      take: 5,
+      orderBy: [{ country: 'asc' }, { city: 'asc' }]
+    });
+  });
+
+  test('the count query keeps the grouping and drops $skip and $top', () => {
+    const builder = new PrismaQueryBuilder();
+    const { countQuery } = builder.buildPaginationQuery({
+      $apply: 'groupby((customerId), aggregate(total with sum as revenue))',
+      $filter: 'revenue gt 10',
+      $top: 5,
+      $skip: 10
+    });
+    expect(countQuery).toEqual({ by: ['customerId'], _sum: { total: true }, having: { total: { _sum: { gt: 10 } } } });
+  });
+
+  test('results are mapped back to the $apply aliases', () => {
+    const builder = new PrismaQueryBuilder();
+    const params = { $apply: 'groupby((customerId), aggregate(total with sum as revenue, $count as n))' };
+    expect(builder.processAggregateResult([{ customerId: 1, _sum: { total: 250 }, _count: { _all: 3 } }], params)).toEqual([
+      { customerId: 1, revenue: 250, n: 3 }
+    ]);
+    expect(builder.processAggregateResult({ _avg: { total: 12.5 } }, { $apply: 'aggregate(total with average as avg)' })).toEqual([
+      { avg: 12.5 }
+    ]);
+  });
+
+  describe('unsupported', () => {
+    test.each([
+      ['countdistinct', 'aggregate(customerId with countdistinct as customers)'],
+      ['related fields', 'groupby((customer/country))'],
+      ['transformations before grouping other than filter', 'top(5)/groupby((country))'],
+      ['a second grouping', 'groupby((country))/groupby((country))'],
+      ['no grouping', "filter(status eq 'paid')"],
+      ['filtering a page of groups', 'groupby((country))/top(5)/filter(country ne null)'],
+      ['sorting a page of groups', 'groupby((country))/top(5)/orderby(country)'],
+      ['options after aggregate() without groupby', 'aggregate($count as n)/top(1)'],
+      ['filtering on $count', 'groupby((country), aggregate($count as n))/filter(n gt 1)']
+    ])('%s', (_, $apply) => {
+      expect(() => buildPrismaQuery({ $apply })).toThrow(UnsupportedFeatureError);
+    });
+
+    test('combining with $select or $expand', () => {
+      expect(() => buildPrismaQuery({ $apply: 'groupby((country))', $select: 'country' })).toThrow(UnsupportedFeatureError);
+    });
+  });
+
+  test('properties that are neither grouped nor aliased are invalid after grouping', () => {
+    expect(() => buildPrismaQuery({ $apply: 'groupby((country))', $orderby: 'city' })).toThrow(
+      new InvalidQueryOptionError("'city' is neither a grouped property nor an aggregate alias in $apply", '$apply')
+    );
+  });
+
+  test('grouped and aggregated fields are validated against the schema', () => {
+    const schema = z.object({ country: z.string(), total: z.number() });
+    const builder = new PrismaQueryBuilder({ schema, allowAllFields: false });
+    expect(() => builder.buildQuery({ $apply: 'groupby((region))' })).toThrow(SchemaValidationError);
+    expect(() => builder.buildQuery({ $apply: 'aggregate(amount with sum as s)' })).toThrow(
+      "Schema validation failed for $apply: Field 'amount' does not exist in schema"
+    );
+    expect(builder.buildQuery({ $apply: 'groupby((country), aggregate(total with sum as s))' }).by).toEqual(['country']);
+  });
+});
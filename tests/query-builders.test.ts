@@ -78,7 +78,7 @@ describe('Abstract Query Builders', () => {
       builder = new TypeOrmQueryBuilder();
     });
 
-    it.skip('should build TypeORM query with correct format (adapter not implemented yet)', () => {
+    it('should build TypeORM query with correct format', () => {
       const query = builder.buildQuery(sampleParams);
       
       expect(query).toHaveProperty('where');
@@ -99,7 +99,7 @@ describe('Abstract Query Builders', () => {
       builder = new SequelizeQueryBuilder();
     });
 
-    it.skip('should build Sequelize query with correct format (adapter not implemented yet)', () => {
+    it('should build Sequelize query with correct format', () => {
       const query = builder.buildQuery(sampleParams);
       
       expect(query).toHaveProperty('where');
@@ -120,7 +120,7 @@ describe('Abstract Query Builders', () => {
       builder = new MongooseQueryBuilder();
     });
 
-    it.skip('should build Mongoose query with correct format (adapter not implemented yet)', () => {
+    it('should build Mongoose query with correct format', () => {
       const query = builder.buildQuery(sampleParams);
       
       expect(query).toHaveProperty('filter');
@@ -130,7 +130,7 @@ describe('Abstract Query Builders', () => {
         name: 1,
         age: -1
       });
-      expect(query.select).toBe('id name email age');
+      expect(query.select).toEqual({ id: 1, name: 1, email: 1, age: 1 });
     });
   });
 
@@ -0,0 +1,162 @@
+/**
+ * Test cases for query size and complexity limits
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  enforceQueryLimits,
+  QueryLimitExceededError,
+  PrismaQueryBuilder,
+  SqlQueryBuilder,
+  KyselyQueryBuilder,
+  MongooseQueryBuilder,
+  createPrismaQuery
+} from '../src';
+
+/**
+ * Run a function expected to throw and return the error
+ */
+function thrown(run: () => unknown): any {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('Query Limits', () => {
+  describe('enforceQueryLimits', () => {
+    test('does nothing without limits', () => {
+      expect(() => enforceQueryLimits({ $filter: 'a eq 1 and '.repeat(200) + 'a eq 1', $top: 1e6 })).not.toThrow();
+    });
+
+    test('maxFilterLength is checked before parsing', () => {
+      const error = thrown(() => enforceQueryLimits({ $filter: 'Name eq (' }, { maxFilterLength: 5, maxNodeCount: 100 }));
+      expect(error).toBeInstanceOf(QueryLimitExceededError);
+      expect(error).toMatchObject({
+        limit: 'maxFilterLength',
+        max: 5,
+        actual: 9,
+        target: '$filter',
+        message: '$filter is 9 characters long, exceeding the limit of 5'
+      });
+    });
+
+    test('maxExpressionDepth counts comparisons and their operands', () => {
+      expect(() => enforceQueryLimits({ $filter: 'a eq 1 and b eq 2' }, { maxExpressionDepth: 3 })).not.toThrow();
+      expect(thrown(() => enforceQueryLimits({ $filter: 'a eq 1 and (b eq 2 or c eq 3)' }, { maxExpressionDepth: 3 })))
+        .toMatchObject({ limit: 'maxExpressionDepth', actual: 4 });
+      expect(thrown(() => enforceQueryLimits({ $filter: 'a add 1 mul 2 eq 3' }, { maxExpressionDepth: 3 })))
+        .toMatchObject({ actual: 4 });
+    });
+
+    test('maxExpressionDepth stops the parser before deep nesting exhausts the stack', () => {
+      const nested = `${'('.repeat(5000)}a eq 1${')'.repeat(5000)}`;
+      expect(thrown(() => enforceQueryLimits({ $filter: nested }, { maxExpressionDepth: 10 })))
+        .toMatchObject({ name: 'QueryLimitExceededError', limit: 'maxExpressionDepth', max: 10, actual: 11 });
+      expect(thrown(() => enforceQueryLimits({ $filter: `${'not '.repeat(5000)}Active` }, { maxExpressionDepth: 10 })))
+        .toBeInstanceOf(QueryLimitExceededError);
+    });
+
+    test('deep nesting is a parse error without limits', () => {
+      const nested = `${'('.repeat(5000)}a eq 1${')'.repeat(5000)}`;
+      expect(thrown(() => createPrismaQuery({ $filter: nested }))).toMatchObject({
+        name: 'ODataParseError',
+        message: 'Failed to parse OData filter: Expression nests more than 100 levels deep at position 100'
+      });
+      expect(thrown(() => createPrismaQuery({ $filter: `${'a add '.repeat(5000)}a eq 1` }))).toMatchObject({ name: 'ODataParseError' });
+    });
+
+    test('$search, $compute and $apply are held to the $filter limits', () => {
+      expect(thrown(() => enforceQueryLimits({ $search: 'a b c d' }, { maxNodeCount: 4 })))
+        .toMatchObject({ limit: 'maxNodeCount', actual: 5, target: '$search' });
+      expect(thrown(() => enforceQueryLimits({ $search: 'NOT (a OR b)' }, { maxExpressionDepth: 2 })))
+        .toMatchObject({ limit: 'maxExpressionDepth', actual: 3, target: '$search' });
+      expect(thrown(() => enforceQueryLimits({ $compute: 'a mul b as x,c add 1 as y' }, { maxNodeCount: 5 })))
+        .toMatchObject({ limit: 'maxNodeCount', actual: 6, target: '$compute' });
+      expect(thrown(() => enforceQueryLimits({ $apply: 'filter(a eq 1)/groupby((a))/filter(a in (1, 2, 3))' }, { maxInListLength: 2 })))
+        .toMatchObject({ limit: 'maxInListLength', actual: 3, target: '$apply' });
+      expect(thrown(() => enforceQueryLimits({ $search: 'x'.repeat(21) }, { maxFilterLength: 20 })))
+        .toMatchObject({ limit: 'maxFilterLength', target: '$search' });
+    });
+
+    test('deeply nested $search is rejected before it exhausts the stack', () => {
+      expect(thrown(() => createPrismaQuery({ $search: `${'('.repeat(5000)}blue${')'.repeat(5000)}` }, { search: { fields: ['name'] } })))
+        .toMatchObject({ name: 'InvalidQueryOptionError', message: 'Invalid $search: nests more than 100 levels deep at position 100' });
+    });
+
+    test('maxNodeCount counts every node', () => {
+      // And, 2 comparisons, 2 properties, 2 literals
+      expect(() => enforceQueryLimits({ $filter: 'a eq 1 and b eq 2' }, { maxNodeCount: 7 })).not.toThrow();
+      expect(thrown(() => enforceQueryLimits({ $filter: 'a eq 1 and b eq 2 and Active' }, { maxNodeCount: 7 })))
+        .toMatchObject({ limit: 'maxNodeCount', actual: 8, max: 7 });
+    });
+
+    test('maxInListLength covers in (...) and or-ed equalities', () => {
+      expect(thrown(() => enforceQueryLimits({ $filter: 'Id in (1, 2, 3)' }, { maxInListLength: 2 })))
+        .toMatchObject({ limit: 'maxInListLength', actual: 3 });
+      expect(thrown(() => enforceQueryLimits({ $filter: 'Id eq 1 or Id eq 2 or Id eq 3' }, { maxInListLength: 2 })))
+        .toMatchObject({ limit: 'maxInListLength', actual: 3 });
+    });
+
+    test('maxLambdaDepth counts nested any()/all()', () => {
+      const filter = 'orders/any(o: o/items/any(i: i/qty gt 1))';
+      expect(() => enforceQueryLimits({ $filter: filter }, { maxLambdaDepth: 2 })).not.toThrow();
+      expect(thrown(() => enforceQueryLimits({ $filter: filter }, { maxLambdaDepth: 1 })))
+        .toMatchObject({ limit: 'maxLambdaDepth', actual: 2, message: '$filter nests 2 any()/all() lambdas, exceeding the limit of 1' });
+      expect(thrown(() => enforceQueryLimits({ $filter: 'orders/any()' }, { maxLambdaDepth: 0 })))
+        .toMatchObject({ actual: 1 });
+    });
+
+    test('maxTop', () => {
+      expect(() => enforceQueryLimits({ $top: 100 }, { maxTop: 100 })).not.toThrow();
+      expect(thrown(() => enforceQueryLimits({ $top: 101 }, { maxTop: 100 }))).toMatchObject({
+        limit: 'maxTop',
+        target: '$top',
+        message: '$top of 101 exceeds the limit of 100'
+      });
+    });
+
+    test('maxSelectDepth counts path segments and nested selections', () => {
+      expect(() => enforceQueryLimits({ $select: 'id,profile(avatar)' }, { maxSelectDepth: 2 })).not.toThrow();
+      expect(thrown(() => enforceQueryLimits({ $select: 'id,profile(avatar,address(city))' }, { maxSelectDepth: 2 })))
+        .toMatchObject({ limit: 'maxSelectDepth', actual: 3, target: '$select' });
+      expect(thrown(() => enforceQueryLimits({ $select: 'profile/address/city' }, { maxSelectDepth: 2 })))
+        .toMatchObject({ actual: 3 });
+      expect(() => enforceQueryLimits({ $select: 'profile(avatar),name' }, { maxSelectDepth: 2 })).not.toThrow();
+    });
+
+    test('serialises as a bad request', () => {
+      const error = thrown(() => enforceQueryLimits({ $top: 500 }, { maxTop: 100 }));
+      expect(error.status).toBe(400);
+      expect(error.toODataError()).toEqual({
+        error: { code: 'QueryLimitExceeded', message: '$top of 500 exceeds the limit of 100', target: '$top' }
+      });
+    });
+  });
+
+  describe('query builders', () => {
+    const limits = { maxTop: 50, maxSelectDepth: 1, maxInListLength: 2 };
+
+    test('buildQuery enforces the limits from the builder options', () => {
+      const builder = new SqlQueryBuilder({ limits });
+      expect(builder.buildQuery({ $top: 50, $select: 'id,name' })).toMatchObject({ limit: 50 });
+      expect(() => builder.buildQuery({ $top: 51 })).toThrow(QueryLimitExceededError);
+      expect(() => builder.buildPaginationQuery({ $filter: 'Id in (1, 2, 3)' })).toThrow('in (...) list of 3 values');
+    });
+
+    test('builders with their own buildQuery enforce them too', () => {
+      expect(() => new PrismaQueryBuilder({ limits }).buildQuery({ $select: 'profile(avatar)' })).toThrow(QueryLimitExceededError);
+      expect(() => createPrismaQuery({ $top: 100 }, { limits })).toThrow('$top of 100 exceeds the limit of 50');
+      expect(() => new KyselyQueryBuilder({ limits }).buildQuery({ $select: 'profile/avatar' })).toThrow(QueryLimitExceededError);
+      expect(() => new MongooseQueryBuilder({ limits }).buildQuery({ $apply: 'aggregate($count as Total)', $top: 100 }))
+        .toThrow(QueryLimitExceededError);
+    });
+
+    test('limits are checked before schema validation and conversion', () => {
+      const error = thrown(() => new PrismaQueryBuilder({ limits: { maxFilterLength: 10 } }).buildQuery({ $filter: 'month(CreatedAt) eq 5' }));
+      expect(error).toBeInstanceOf(QueryLimitExceededError);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Test cases for $search parsing and the contains, fulltext and custom search strategies
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseSearch,
+  createPrismaQuery,
+  createSqlQuery,
+  createMongooseQuery,
+  createKnexQuery,
+  InMemoryQueryBuilder,
+  InvalidQueryOptionError,
+  UnsupportedFeatureError
+} from '../src';
+import type { SearchExpression, FilterExpression } from '../src';
+
+const term = (value: string, phrase = false) => ({ node: 'Term', value, phrase });
+
+describe('$search', () => {
+  describe('parseSearch', () => {
+    test('terms separated by whitespace must all match', () => {
+      expect(parseSearch('blue shoes')).toEqual({ node: 'And', operands: [term('blue'), term('shoes')] });
+      expect(parseSearch('blue AND shoes')).toEqual(parseSearch('blue shoes'));
+    });
+
+    test('phrases keep their spaces and escapes', () => {
+      expect(parseSearch('"dark red"')).toEqual(term('dark red', true));
+      expect(parseSearch('"say \\"hi\\""')).toEqual(term('say "hi"', true));
+    });
+
+    test('NOT binds tighter than AND, and AND tighter than OR', () => {
+      expect(parseSearch('a b OR NOT c')).toEqual({
+        node: 'Or',
+        operands: [
+          { node: 'And', operands: [term('a'), term('b')] },
+          { node: 'Not', operand: term('c') }
+        ]
+      });
+      expect(parseSearch('shoes NOT (red OR blue)')).toEqual({
+        node: 'And',
+        operands: [term('shoes'), { node: 'Not', operand: { node: 'Or', operands: [term('red'), term('blue')] } }]
+      });
+    });
+
+    test.each([
+      ['', 'Invalid $search: expected a search term at position 0'],
+      ['blue OR', 'Invalid $search: expected a search term at position 7'],
+      ['(blue', "Invalid $search: expected ')' at position 5"],
+      ['blue)', "Invalid $search: expected end of $search at position 4, got ')'"],
+      ['"blue', 'Invalid $search: unterminated phrase at position 0']
+    ])('%j is invalid', (search, message) => {
+      expect(() => parseSearch(search)).toThrow(new InvalidQueryOptionError(message, '$search'));
+    });
+  });
+
+  describe('contains strategy', () => {
+    const search = { fields: ['name', 'author/name'] };
+
+    test('each term must be contained in one of the fields, and-ed with $filter', () => {
+      expect(createPrismaQuery({ $search: 'blue', $filter: 'price lt 100' }, { search }).where).toEqual({
+        AND: [
+          { price: { lt: 100 } },
+          {
+            OR: [
+              { name: { contains: 'blue', mode: 'insensitive' } },
+              { author: { name: { contains: 'blue', mode: 'insensitive' } } }
+            ]
+          }
+        ]
+      });
+    });
+
+    test('works for any builder through its filter conversion', () => {
+      expect(createSqlQuery({ $search: 'Blue NOT red' }, { search: { fields: ['name'] } })).toMatchObject({
+        text: 'WHERE LOWER("name") LIKE $1 AND NOT (LOWER("name") LIKE $2)',
+        values: ['%blue%', '%red%']
+      });
+
+      const builder = new InMemoryQueryBuilder({ search: { fields: ['name'] } });
+      expect(builder.apply([{ name: 'Blue shoes' }, { name: 'Red shoes' }], { $search: 'shoes NOT red' })).toEqual([
+        { name: 'Blue shoes' }
+      ]);
+    });
+
+    test('requires searchable fields', () => {
+      expect(() => createPrismaQuery({ $search: 'blue' })).toThrow(
+        new UnsupportedFeatureError('$search requires searchable fields (search.fields)', '$search')
+      );
+    });
+  });
+
+  test('a custom strategy can return a filter expression, keeping terms out of the filter syntax', () => {
+    const strategy = (expression: SearchExpression): FilterExpression => ({
+      node: 'Compare',
+      op: 'eq',
+      left: { node: 'Property', path: ['code'] },
+      right: { node: 'Literal', type: 'string', value: expression.node === 'Term' ? expression.value : '' }
+    });
+    expect(createPrismaQuery({ $search: '"x\' or code ne \'"' }, { search: { strategy } }).where).toEqual({
+      code: { equals: "x' or code ne '" }
+    });
+  });
+
+  test('a custom strategy returns a $filter', () => {
+    const strategy = (expression: SearchExpression) =>
+      expression.node === 'Term' ? `tags/any(t: t eq '${expression.value.replace(/'/g, "''")}')` : 'false';
+    expect(createPrismaQuery({ $search: 'sale', $filter: 'active' }, { search: { strategy } }).where).toEqual({
+      AND: [{ active: { equals: true } }, { tags: { some: { equals: 'sale' } } }]
+    });
+  });
+
+  describe('fulltext strategy', () => {
+    test('Prisma searches each field with a tsquery', () => {
+      expect(createPrismaQuery(
+        { $search: 'blue "dark red" OR NOT green', $filter: 'price lt 100' },
+        { search: { strategy: 'fulltext', fields: ['title', 'body'] } }
+      ).where).toEqual({
+        AND: [
+          { price: { lt: 100 } },
+          {
+            OR: [
+              { title: { search: "('blue' & 'dark red') | !'green'" } },
+              { body: { search: "('blue' & 'dark red') | !'green'" } }
+            ]
+          }
+        ]
+      });
+    });
+
+    test('PostgreSQL matches the concatenated fields against to_tsquery', () => {
+      expect(createSqlQuery(
+        { $search: "rock'n'roll", $filter: 'year gt 1960' },
+        { table: 'songs', search: { strategy: 'fulltext', fields: ['title', 'lyrics'], language: 'simple' } }
+      )).toMatchObject({
+        text: `SELECT * FROM "songs" WHERE ("year" > $1) AND to_tsvector('simple', coalesce("title", '') || ' ' || coalesce("lyrics", '')) @@ to_tsquery('simple', $2)`,
+        values: [1960, "'rock''n''roll'"]
+      });
+      expect(() => createSqlQuery({ $search: 'x' }, { dialect: 'mysql', search: { strategy: 'fulltext', fields: ['title'] } }))
+        .toThrow(UnsupportedFeatureError);
+      expect(() => createSqlQuery({ $search: 'x' }, { table: 't', search: { strategy: 'fulltext', fields: ['title'], language: "x') --" } }))
+        .toThrow(new InvalidQueryOptionError("Invalid text search configuration: x') --", '$search'));
+    });
+
+    test('MongoDB uses $text', () => {
+      const fulltext = { search: { strategy: 'fulltext' as const, language: 'en' } };
+      expect(createMongooseQuery({ $search: 'blue OR red', $filter: 'price lt 100' }, fulltext).filter).toEqual({
+        price: { $lt: 100 },
+        $text: { $search: 'blue red', $language: 'en' }
+      });
+      expect(createMongooseQuery({ $search: '"dark red" shoes NOT cheap' }, fulltext).filter).toEqual({
+        $text: { $search: '"dark red" "shoes" -"cheap"', $language: 'en' }
+      });
+      expect(() => createMongooseQuery({ $search: 'a OR (b c)' }, fulltext)).toThrow(UnsupportedFeatureError);
+    });
+
+    test('builders without full-text search reject it', () => {
+      expect(() => createKnexQuery({ $search: 'blue' }, { search: { strategy: 'fulltext', fields: ['name'] } })).toThrow(
+        'KnexQueryBuilder does not support full-text $search'
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Test cases for Sequelize adapter (Op-symbol where clauses)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Op, where, fn, col } from 'sequelize';
+import { convertToSequelize, SequelizeAdapter, SequelizeQueryBuilder, UnsupportedFeatureError } from '../src';
+
+describe('Sequelize Adapter', () => {
+  describe('Comparison operators', () => {
+    test('eq, ne, gt, ge, lt, le map to Op symbols', () => {
+      expect(convertToSequelize("Name eq 'John'")).toEqual({ Name: { [Op.eq]: 'John' } });
+      expect(convertToSequelize('Age ne 25')).toEqual({ Age: { [Op.ne]: 25 } });
+      expect(convertToSequelize('Age gt 18')).toEqual({ Age: { [Op.gt]: 18 } });
+      expect(convertToSequelize('Age ge 18')).toEqual({ Age: { [Op.gte]: 18 } });
+      expect(convertToSequelize('Age lt 65')).toEqual({ Age: { [Op.lt]: 65 } });
+      expect(convertToSequelize('Age le 65')).toEqual({ Age: { [Op.lte]: 65 } });
+    });
+
+    test('null comparisons use Op.is / Op.not', () => {
+      expect(convertToSequelize('DeletedAt eq null')).toEqual({ DeletedAt: { [Op.is]: null } });
+      expect(convertToSequelize('DeletedAt ne null')).toEqual({ DeletedAt: { [Op.not]: null } });
+    });
+
+    test('arithmetic comparisons are solved for the field', () => {
+      expect(convertToSequelize('Price div 2 lt 50')).toEqual({ Price: { [Op.lt]: 100 } });
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND chains are flattened into one Op.and', () => {
+      expect(convertToSequelize("Name eq 'John' and Age gt 25 and Active eq true")).toEqual({
+        [Op.and]: [
+          { Name: { [Op.eq]: 'John' } },
+          { Age: { [Op.gt]: 25 } },
+          { Active: { [Op.eq]: true } }
+        ]
+      });
+    });
+
+    test('OR on different fields uses Op.or', () => {
+      expect(convertToSequelize("Name eq 'John' or Age gt 25")).toEqual({
+        [Op.or]: [
+          { Name: { [Op.eq]: 'John' } },
+          { Age: { [Op.gt]: 25 } }
+        ]
+      });
+    });
+
+    test('NOT uses Op.not', () => {
+      expect(convertToSequelize('not (Age lt 18)')).toEqual({
+        [Op.not]: { Age: { [Op.lt]: 18 } }
+      });
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) and OR of equalities use Op.in', () => {
+      expect(convertToSequelize("Status in ('a', 'b', 'c')")).toEqual({
+        Status: { [Op.in]: ['a', 'b', 'c'] }
+      });
+      expect(convertToSequelize('Id eq 1 or Id eq 2')).toEqual({
+        Id: { [Op.in]: [1, 2] }
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use Sequelize string operators', () => {
+      expect(convertToSequelize("contains(Name, 'oh')")).toEqual({ Name: { [Op.substring]: 'oh' } });
+      expect(convertToSequelize("startswith(Name, 'Jo')")).toEqual({ Name: { [Op.startsWith]: 'Jo' } });
+      expect(convertToSequelize("endswith(Name, 'hn')")).toEqual({ Name: { [Op.endsWith]: 'hn' } });
+    });
+
+    test('LIKE wildcards in the search value are escaped', () => {
+      expect(convertToSequelize("contains(Code, 'a_b')")).toEqual({ Code: { [Op.substring]: 'a\\_b' } });
+    });
+
+    test('caseSensitive false uses Op.iLike patterns', () => {
+      expect(convertToSequelize("contains(Name, 'oh')", { caseSensitive: false })).toEqual({
+        Name: { [Op.iLike]: '%oh%' }
+      });
+      expect(convertToSequelize("startswith(tolower(Name), 'jo')")).toEqual({
+        Name: { [Op.iLike]: 'jo%' }
+      });
+    });
+
+    test('SQLite compares with instr() and substr(), since its LIKE has no default escape character', () => {
+      const sqlite = { dialect: 'sqlite' };
+      expect(convertToSequelize("contains(Code, 'a_b')", sqlite)).toEqual(where(fn('instr', col('Code'), 'a_b'), Op.gt, 0));
+      expect(convertToSequelize("startswith(Code, '5%')", sqlite)).toEqual(where(fn('substr', col('Code'), 1, 2), Op.eq, '5%'));
+      expect(convertToSequelize("endswith(profile/city, 'ON')", { ...sqlite, caseSensitive: false })).toEqual(
+        where(fn('substr', fn('lower', col('profile.city')), -2), Op.eq, 'on')
+      );
+      expect(convertToSequelize("tolower(Name) eq 'O_K'", sqlite)).toEqual(where(fn('lower', col('Name')), Op.eq, 'o_k'));
+    });
+  });
+
+  describe('Nested paths and lambdas', () => {
+    test('navigation paths use $assoc.field$ keys', () => {
+      expect(convertToSequelize("profile/address/city eq 'Seattle'")).toEqual({
+        '$profile.address.city$': { [Op.eq]: 'Seattle' }
+      });
+    });
+
+    test('any() filters on the association columns', () => {
+      expect(convertToSequelize("orders/any(o: o/total gt 100 and o/status eq 'paid')")).toEqual({
+        [Op.and]: [
+          { '$orders.total$': { [Op.gt]: 100 } },
+          { '$orders.status$': { [Op.eq]: 'paid' } }
+        ]
+      });
+    });
+
+    test('all() is rejected with a descriptive error', () => {
+      expect(() => convertToSequelize('orders/all(o: o/total gt 100)')).toThrow(/cannot express all\(\)/);
+    });
+
+    test('any() over a collection of values is rejected instead of read as an equality', () => {
+      expect(() => convertToSequelize("Tags/any(t: t eq 'a')")).toThrow(
+        new UnsupportedFeatureError(
+          "Sequelize where clauses cannot express any() over the values of 'Tags'; only associations can be filtered",
+          'any()'
+        )
+      );
+    });
+  });
+
+  describe('Date functions', () => {
+    test('year eq converts to a date range', () => {
+      expect(convertToSequelize('year(createdAt) eq 2023')).toEqual({
+        createdAt: {
+          [Op.gte]: new Date(Date.UTC(2023, 0, 1)),
+          [Op.lt]: new Date(Date.UTC(2024, 0, 1))
+        }
+      });
+    });
+  });
+
+  describe('SequelizeQueryBuilder integration', () => {
+    test('builds find options with where', () => {
+      const query = new SequelizeQueryBuilder().buildQuery({
+        $filter: "Status eq 'active'",
+        $top: 5,
+        $skip: 10
+      });
+
+      expect(query.where).toEqual({ Status: { [Op.eq]: 'active' } });
+      expect(query.limit).toBe(5);
+      expect(query.offset).toBe(10);
+    });
+
+    test('returns empty object for empty filter', () => {
+      expect(new SequelizeAdapter().convert('')).toEqual({});
+    });
+  });
+});
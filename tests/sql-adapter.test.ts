@@ -0,0 +1,160 @@
+/**
+ * Test cases for raw SQL adapter (parameterised { text, values } output)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { convertToSql, SqlAdapter, SqlQueryBuilder, SqlDialect, buildSqlPagination } from '../src';
+
+describe('SQL Adapter', () => {
+  describe('Comparison operators', () => {
+    test('comparisons bind literal values as parameters', () => {
+      expect(convertToSql("Name eq 'John'")).toEqual({ text: '"Name" = $1', values: ['John'] });
+      expect(convertToSql('Age ne 25')).toEqual({ text: '"Age" != $1', values: [25] });
+      expect(convertToSql('Age ge 18')).toEqual({ text: '"Age" >= $1', values: [18] });
+      expect(convertToSql('Age lt 65')).toEqual({ text: '"Age" < $1', values: [65] });
+    });
+
+    test('null comparisons use IS NULL / IS NOT NULL', () => {
+      expect(convertToSql('DeletedAt eq null')).toEqual({ text: '"DeletedAt" IS NULL', values: [] });
+      expect(convertToSql('DeletedAt ne null')).toEqual({ text: '"DeletedAt" IS NOT NULL', values: [] });
+    });
+
+    test('arithmetic and column-to-column comparisons are kept as expressions', () => {
+      expect(convertToSql('Price mul 2 gt Cost')).toEqual({ text: '("Price" * $1) > "Cost"', values: [2] });
+      expect(convertToSql('Quantity mod 2 eq 0')).toEqual({ text: '("Quantity" % $1) = $2', values: [2, 0] });
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND/OR/NOT keep the original precedence', () => {
+      expect(convertToSql("Name eq 'John' and (Age gt 25 or Active eq true)")).toEqual({
+        text: '"Name" = $1 AND ("Age" > $2 OR "Active" = $3)',
+        values: ['John', 25, true]
+      });
+      expect(convertToSql('not (Age lt 18)')).toEqual({ text: 'NOT ("Age" < $1)', values: [18] });
+    });
+
+    test('bare boolean members are used as conditions', () => {
+      expect(convertToSql('Active and DeletedAt eq null')).toEqual({
+        text: '"Active" AND "DeletedAt" IS NULL',
+        values: []
+      });
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) and OR of equalities use IN lists', () => {
+      expect(convertToSql("Status in ('a', 'b', 'c')")).toEqual({
+        text: '"Status" IN ($1, $2, $3)',
+        values: ['a', 'b', 'c']
+      });
+      expect(convertToSql("Status in ('a', 'b') and Age gt 1")).toEqual({
+        text: '"Status" IN ($1, $2) AND "Age" > $3',
+        values: ['a', 'b', 1]
+      });
+    });
+
+    test('equalities mixed with other conditions keep their position', () => {
+      expect(convertToSql('A eq 1 or B gt 2 or A eq 3')).toEqual({
+        text: '"A" IN ($1, $2) OR "B" > $3',
+        values: [1, 3, 2]
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use LIKE', () => {
+      expect(convertToSql("contains(Name, 'oh')")).toEqual({ text: '"Name" LIKE $1', values: ['%oh%'] });
+      expect(convertToSql("startswith(Name, 'Jo')")).toEqual({ text: '"Name" LIKE $1', values: ['Jo%'] });
+      expect(convertToSql("endswith(Name, 'hn')")).toEqual({ text: '"Name" LIKE $1', values: ['%hn'] });
+    });
+
+    test('LIKE wildcards in the search value are escaped', () => {
+      expect(convertToSql("contains(Code, 'a_b')")).toEqual({ text: '"Code" LIKE $1', values: ['%a\\_b%'] });
+      expect(convertToSql("contains(Code, 'a_b')", { dialect: 'sqlite' })).toEqual({
+        text: `"Code" LIKE ? ESCAPE '\\'`,
+        values: ['%a\\_b%']
+      });
+    });
+
+    test('caseSensitive false uses ILIKE on Postgres and LOWER() LIKE elsewhere', () => {
+      expect(convertToSql("startswith(Name, 'Jo')", { caseSensitive: false })).toEqual({
+        text: '"Name" ILIKE $1',
+        values: ['Jo%']
+      });
+      expect(convertToSql("startswith(Name, 'Jo')", { caseSensitive: false, dialect: 'mysql' })).toEqual({
+        text: 'LOWER(`Name`) LIKE ?',
+        values: ['jo%']
+      });
+    });
+
+    test('tolower wrappers are translated to LOWER()', () => {
+      expect(convertToSql("tolower(Name) eq 'john'")).toEqual({ text: 'LOWER("Name") = $1', values: ['john'] });
+    });
+  });
+
+  describe('Functions', () => {
+    test('month, day and length are rendered per dialect', () => {
+      expect(convertToSql('month(createdAt) eq 5 and length(Name) gt 3').text)
+        .toBe('EXTRACT(MONTH FROM "createdAt") = $1 AND LENGTH("Name") > $2');
+      expect(convertToSql('day(createdAt) eq 5 and length(Name) gt 3', { dialect: SqlDialect.MYSQL }).text)
+        .toBe('DAY(`createdAt`) = ? AND CHAR_LENGTH(`Name`) > ?');
+      expect(convertToSql('month(createdAt) eq 5', { dialect: SqlDialect.SQLITE }).text)
+        .toBe(`CAST(strftime('%m', "createdAt") AS INTEGER) = ?`);
+    });
+
+    test('round, floor and ceiling are supported', () => {
+      expect(convertToSql('round(Price) eq 10 and floor(Price) ge 1 and ceiling(Price) le 2')).toEqual({
+        text: 'ROUND("Price") = $1 AND FLOOR("Price") >= $2 AND CEIL("Price") <= $3',
+        values: [10, 1, 2]
+      });
+    });
+  });
+
+  describe('Identifiers and unsupported constructs', () => {
+    test('navigation paths are quoted per segment', () => {
+      expect(convertToSql("profile/city eq 'x'").text).toBe('"profile"."city" = $1');
+      expect(convertToSql("profile/city eq 'x'", { dialect: 'mysql' }).text).toBe('`profile`.`city` = ?');
+    });
+
+    test('quote characters inside identifiers are doubled', () => {
+      expect(new SqlAdapter().quoteIdentifier('we"ird')).toBe('"we""ird"');
+    });
+
+    test('lambdas and unknown dialects are rejected', () => {
+      expect(() => convertToSql('orders/any(o: o/total gt 100)')).toThrow(/cannot express any\(\)/);
+      expect(() => new SqlAdapter({ dialect: 'oracle' as any })).toThrow(/Unsupported SQL dialect/);
+    });
+  });
+
+  describe('SqlQueryBuilder integration', () => {
+    test('renders a full statement with continued placeholders', () => {
+      const query = new SqlQueryBuilder({ table: 'users' }).buildQuery({
+        $filter: 'Age gt 18',
+        $top: 10,
+        $skip: 20,
+        $orderby: 'Name desc',
+        $select: 'id,name'
+      });
+
+      expect(query.text).toBe('SELECT "id", "name" FROM "users" WHERE "Age" > $1 ORDER BY "Name" DESC LIMIT $2 OFFSET $3');
+      expect(query.values).toEqual([18, 10, 20]);
+    });
+
+    test('renders only clauses when no table is given', () => {
+      const query = new SqlQueryBuilder({ dialect: 'mysql' }).buildQuery({ $skip: 5 });
+      expect(query.text).toBe('LIMIT 18446744073709551615 OFFSET ?');
+      expect(query.values).toEqual([5]);
+    });
+
+    test('count query keeps only the WHERE clause', () => {
+      const { countQuery } = buildSqlPagination({ $filter: 'Age gt 1', $top: 10 }, { table: 'users', dialect: 'sqlite' });
+      expect(countQuery.text).toBe('SELECT COUNT(*) AS count FROM "users" WHERE "Age" > ?');
+      expect(countQuery.values).toEqual([1]);
+    });
+
+    test('returns empty text for empty filter', () => {
+      expect(new SqlAdapter().convert('')).toEqual({ text: '', values: [] });
+    });
+  });
+});
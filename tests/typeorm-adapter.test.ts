@@ -0,0 +1,212 @@
+/**
+ * Test cases for TypeORM adapter (FindOptionsWhere output)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  And,
+  Equal,
+  ILike,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Like,
+  MoreThan,
+  MoreThanOrEqual,
+  Not
+} from 'typeorm';
+import { convertToTypeORM, TypeOrmAdapter, TypeOrmQueryBuilder, QueryLimitExceededError, UnsupportedFeatureError } from '../src';
+
+describe('TypeORM Adapter', () => {
+  describe('Comparison operators', () => {
+    test('eq uses plain values', () => {
+      expect(convertToTypeORM("Name eq 'John'")).toEqual({ Name: 'John' });
+    });
+
+    test('ne, gt, ge, lt, le map to find operators', () => {
+      expect(convertToTypeORM('Age ne 25')).toEqual({ Age: Not(25) });
+      expect(convertToTypeORM('Age gt 18')).toEqual({ Age: MoreThan(18) });
+      expect(convertToTypeORM('Age ge 18')).toEqual({ Age: MoreThanOrEqual(18) });
+      expect(convertToTypeORM('Age lt 65')).toEqual({ Age: LessThan(65) });
+      expect(convertToTypeORM('Age le 65')).toEqual({ Age: LessThanOrEqual(65) });
+    });
+
+    test('null comparisons use IsNull', () => {
+      expect(convertToTypeORM('DeletedAt eq null')).toEqual({ DeletedAt: IsNull() });
+      expect(convertToTypeORM('DeletedAt ne null')).toEqual({ DeletedAt: Not(IsNull()) });
+    });
+
+    test('arithmetic comparisons are solved for the field', () => {
+      expect(convertToTypeORM('Price mul 2 gt 100')).toEqual({ Price: MoreThan(50) });
+      expect(convertToTypeORM('Price mul -2 gt 100')).toEqual({ Price: LessThan(-50) });
+      expect(convertToTypeORM('Quantity add 5 le 20')).toEqual({ Quantity: LessThanOrEqual(15) });
+    });
+  });
+
+  describe('Logical operators', () => {
+    test('AND merges conditions into one where object', () => {
+      expect(convertToTypeORM("Name eq 'John' and Age gt 25")).toEqual({
+        Name: 'John',
+        Age: MoreThan(25)
+      });
+    });
+
+    test('AND on the same field combines operators with And()', () => {
+      expect(convertToTypeORM('Age gt 18 and Age lt 65')).toEqual({
+        Age: And(MoreThan(18), LessThan(65))
+      });
+    });
+
+    test('OR produces an array of where objects', () => {
+      expect(convertToTypeORM("Name eq 'John' or Age gt 25")).toEqual([
+        { Name: 'John' },
+        { Age: MoreThan(25) }
+      ]);
+    });
+
+    test('AND over OR is distributed across the where array', () => {
+      expect(convertToTypeORM("(Status eq 'a' or Age gt 1) and Active eq true")).toEqual([
+        { Status: 'a', Active: true },
+        { Age: MoreThan(1), Active: true }
+      ]);
+    });
+
+    test('AND over many ORs is rejected instead of expanding exponentially', () => {
+      const clauses = (count: number) =>
+        Array.from({ length: count }, (_, i) => `(a${i} eq 1 or b${i} eq 2)`).join(' and ');
+
+      expect(convertToTypeORM(clauses(8))).toHaveLength(256);
+      expect(() => convertToTypeORM(clauses(9))).toThrow(
+        new QueryLimitExceededError(
+          '$filter expands to 512 TypeORM where objects, more than the maximum of 256. Simplify the and-ed or conditions or use a QueryBuilder',
+          'maxWhereBranches',
+          256,
+          512,
+          '$filter'
+        )
+      );
+    });
+
+    test('NOT is pushed down to the fields', () => {
+      expect(convertToTypeORM("not (Name eq 'John')")).toEqual({ Name: Not('John') });
+      expect(convertToTypeORM("not (Name eq 'John' and Age gt 25)")).toEqual([
+        { Name: Not('John') },
+        { Age: Not(MoreThan(25)) }
+      ]);
+    });
+  });
+
+  describe('IN expressions', () => {
+    test('in (...) converts to In()', () => {
+      expect(convertToTypeORM("Status in ('active', 'pending', 'draft')")).toEqual({
+        Status: In(['active', 'pending', 'draft'])
+      });
+    });
+
+    test('OR of equalities on one field converts to In()', () => {
+      expect(convertToTypeORM("Status eq 'a' or Status eq 'b'")).toEqual({
+        Status: In(['a', 'b'])
+      });
+    });
+  });
+
+  describe('String methods', () => {
+    test('contains, startswith and endswith use Like', () => {
+      expect(convertToTypeORM("contains(Name, 'oh')")).toEqual({ Name: Like('%oh%') });
+      expect(convertToTypeORM("startswith(Name, 'Jo')")).toEqual({ Name: Like('Jo%') });
+      expect(convertToTypeORM("endswith(Name, 'hn')")).toEqual({ Name: Like('%hn') });
+      expect(convertToTypeORM("substringof('oh', Name)")).toEqual({ Name: Like('%oh%') });
+    });
+
+    test('LIKE wildcards in the search value are escaped', () => {
+      expect(convertToTypeORM("contains(Code, 'a_b')")).toEqual({ Code: Like('%a\\_b%') });
+    });
+
+    test('caseSensitive false uses ILike', () => {
+      expect(convertToTypeORM("contains(Name, 'oh')", { caseSensitive: false })).toEqual({
+        Name: ILike('%oh%')
+      });
+    });
+
+    test('tolower wrapper uses ILike', () => {
+      expect(convertToTypeORM("startswith(tolower(Name), 'jo')")).toEqual({ Name: ILike('jo%') });
+      expect(convertToTypeORM("tolower(Name) eq 'john'")).toEqual({ Name: ILike('john') });
+    });
+
+    test('negated string methods use Not()', () => {
+      expect(convertToTypeORM("not contains(Name, 'x')")).toEqual({ Name: Not(Like('%x%')) });
+      expect(convertToTypeORM("indexof(Name, 'x') eq -1")).toEqual({ Name: Not(Like('%x%')) });
+    });
+  });
+
+  describe('Nested paths and lambdas', () => {
+    test('navigation paths produce nested relation where objects', () => {
+      expect(convertToTypeORM("profile/address/city eq 'Seattle' and profile/name ne 'x'")).toEqual({
+        profile: {
+          address: { city: 'Seattle' },
+          name: Not('x')
+        }
+      });
+    });
+
+    test('any() filters on the relation', () => {
+      expect(convertToTypeORM('orders/any(o: o/total gt 100)')).toEqual({
+        orders: { total: MoreThan(100) }
+      });
+    });
+
+    test('all() is rejected with a descriptive error', () => {
+      expect(() => convertToTypeORM('orders/all(o: o/total gt 100)')).toThrow(/cannot express all\(\)/);
+    });
+
+    test('any() over a collection of values is rejected instead of read as an equality', () => {
+      expect(() => convertToTypeORM("Tags/any(t: t eq 'a')")).toThrow(
+        new UnsupportedFeatureError(
+          "TypeORM find options cannot express any() over the values of 'Tags'; only relations can be filtered. Use a QueryBuilder instead",
+          'any()'
+        )
+      );
+    });
+  });
+
+  describe('Date functions', () => {
+    test('year eq converts to a date range', () => {
+      expect(convertToTypeORM('year(createdAt) eq 2023')).toEqual({
+        createdAt: And(
+          MoreThanOrEqual(new Date(Date.UTC(2023, 0, 1))),
+          LessThan(new Date(Date.UTC(2024, 0, 1)))
+        )
+      });
+    });
+
+    test('month requires raw SQL', () => {
+      expect(() => convertToTypeORM('month(createdAt) eq 5')).toThrow(/requires raw SQL/);
+    });
+  });
+
+  describe('TypeOrmQueryBuilder integration', () => {
+    test('builds find options with where', () => {
+      const builder = new TypeOrmQueryBuilder();
+      const query = builder.buildQuery({
+        $filter: "Status eq 'active' and Age ge 18",
+        $top: 10,
+        $orderby: 'Name desc'
+      });
+
+      expect(query.where).toEqual({ Status: 'active', Age: MoreThanOrEqual(18) });
+      expect(query.take).toBe(10);
+      expect(query.order).toEqual({ Name: 'DESC' });
+    });
+
+    test('returns empty object for empty filter', () => {
+      expect(new TypeOrmAdapter().convert('')).toEqual({});
+    });
+
+    test('Equal is used when merging a plain value with an operator', () => {
+      expect(convertToTypeORM("Name eq 'a' and contains(Name, 'a')")).toEqual({
+        Name: And(Equal('a'), Like('%a%'))
+      });
+    });
+  });
+});